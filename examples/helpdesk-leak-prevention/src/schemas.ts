@@ -5,6 +5,7 @@
  * in the customer support ticket handling scenario.
  */
 
+import {sensitive} from '@mullion/core';
 import {z} from 'zod';
 
 /**
@@ -12,6 +13,10 @@ import {z} from 'zod';
  *
  * This represents data that contains BOTH public and private information.
  * The challenge is ensuring internal notes never leak to customer-facing responses.
+ *
+ * Internal fields are marked `sensitive(..., 'admin')` (the same as
+ * `.meta({mullion: {sensitivity: 'admin'}})`, but visible to the type system),
+ * so `redactBySchema()` can strip them before data leaves the admin scope.
  */
 export const TicketAnalysisSchema = z.object({
   // Public information - safe to share with customer
@@ -28,21 +33,33 @@ export const TicketAnalysisSchema = z.object({
     .describe('Customer sentiment'),
 
   // Internal information - MUST NOT leak to customer
-  internalNotes: z
-    .string()
-    .describe(
-      'Admin-only notes with sensitive context (customer history, previous complaints, internal policies, etc.)',
-    ),
-  riskLevel: z
-    .enum(['none', 'low', 'medium', 'high'])
-    .describe('Risk level for company (churn risk, legal exposure, etc.)'),
-  recommendedActions: z
-    .array(z.string())
-    .describe('Internal recommended actions for support staff'),
-  suggestedCompensation: z
-    .string()
-    .optional()
-    .describe('Internal suggestion for compensation/discounts'),
+  internalNotes: sensitive(
+    z
+      .string()
+      .describe(
+        'Admin-only notes with sensitive context (customer history, previous complaints, internal policies, etc.)',
+      ),
+    'admin',
+  ),
+  riskLevel: sensitive(
+    z
+      .enum(['none', 'low', 'medium', 'high'])
+      .describe('Risk level for company (churn risk, legal exposure, etc.)'),
+    'admin',
+  ),
+  recommendedActions: sensitive(
+    z
+      .array(z.string())
+      .describe('Internal recommended actions for support staff'),
+    'admin',
+  ),
+  suggestedCompensation: sensitive(
+    z
+      .string()
+      .optional()
+      .describe('Internal suggestion for compensation/discounts'),
+    'admin',
+  ),
 });
 
 export type TicketAnalysis = z.infer<typeof TicketAnalysisSchema>;
@@ -73,7 +90,8 @@ export type CustomerResponse = z.infer<typeof CustomerResponseSchema>;
  * Schema for sanitized ticket data that's safe to bridge.
  *
  * This intermediate format contains only public information,
- * explicitly excluding all internal/sensitive fields.
+ * explicitly excluding all internal/sensitive fields. It is what
+ * `redactBySchema(TicketAnalysisSchema, analysis, 'public')` returns.
  */
 export const SanitizedTicketSchema = z.object({
   ticketId: z.string(),
@@ -13,6 +13,7 @@ import {fork} from '@mullion/core';
 import {
   DocumentClassification,
   ClassificationConsensus,
+  accessScopes,
   type Document,
   type AccessLevel,
 } from './schemas.js';
@@ -116,7 +117,7 @@ export async function classifyDocumentWithConsensus(
 
   // Most restrictive access level wins
   const accessLevels = classifications.map((c) => c.accessLevel);
-  const finalAccessLevel = getMostRestrictive(accessLevels);
+  const finalAccessLevel = accessScopes.join(...accessLevels);
 
   // Calculate agreement score
   const agreementScore = calculateAgreement(accessLevels);
@@ -157,15 +158,6 @@ Classification criteria:
 - CONFIDENTIAL: Financial data, legal documents, trade secrets, security details, M&A discussions, executive-only`;
 }
 
-/**
- * Helper: Get most restrictive access level
- */
-function getMostRestrictive(levels: AccessLevel[]): AccessLevel {
-  if (levels.includes('confidential')) return 'confidential';
-  if (levels.includes('internal')) return 'internal';
-  return 'public';
-}
-
 /**
  * Helper: Calculate agreement score
  */
@@ -7,6 +7,7 @@
  * - CONFIDENTIAL: Financial data, trade secrets, legal documents
  */
 
+import {accessScopes} from '../schemas.js';
 import type {Document, AccessLevel} from '../schemas.js';
 
 export const SAMPLE_DOCUMENTS: Document[] = [
@@ -315,16 +316,10 @@ export function filterDocumentsByAccess(
   documents: Document[],
   userAccessLevel: AccessLevel,
 ): Document[] {
-  const accessHierarchy: Record<AccessLevel, number> = {
-    public: 0,
-    internal: 1,
-    confidential: 2,
-  };
-
-  const userLevel = accessHierarchy[userAccessLevel];
-
-  return documents.filter(
-    (doc) => accessHierarchy[doc.accessLevel] <= userLevel,
+  return accessScopes.filterReadable(
+    documents,
+    userAccessLevel,
+    (doc) => doc.accessLevel,
   );
 }
 
@@ -11,6 +11,7 @@
 import {createMullionClient} from '@mullion/ai-sdk';
 import {
   RAGResponse,
+  accessScopes,
   type UserQuery,
   type RetrievedChunk,
   type AccessLevel,
@@ -100,18 +101,9 @@ export async function generateResponseWithSources(
   );
 
   // Determine highest access level used
-  const accessHierarchy: Record<AccessLevel, number> = {
-    public: 0,
-    internal: 1,
-    confidential: 2,
-  };
-
-  const highestAccessLevel = retrievedChunks.reduce((highest, chunk) => {
-    return accessHierarchy[chunk.accessLevel] >
-      accessHierarchy[highest.accessLevel]
-      ? chunk
-      : highest;
-  }).accessLevel;
+  const highestAccessLevel = accessScopes.join(
+    ...retrievedChunks.map((chunk) => chunk.accessLevel),
+  );
 
   return {
     response,
@@ -134,16 +126,10 @@ function getMockResponse(
     accessLevel: chunk.accessLevel,
   }));
 
-  const highestAccessLevel = retrievedChunks.reduce((highest, chunk) => {
-    const hierarchy: Record<AccessLevel, number> = {
-      public: 0,
-      internal: 1,
-      confidential: 2,
-    };
-    return hierarchy[chunk.accessLevel] > hierarchy[highest]
-      ? chunk.accessLevel
-      : highest;
-  }, 'public' as AccessLevel);
+  const highestAccessLevel: AccessLevel = accessScopes.join(
+    'public',
+    ...retrievedChunks.map((chunk) => chunk.accessLevel),
+  );
 
   // Generate mock answer based on query
   let answer = '';
@@ -32,6 +32,7 @@ export {
   RAGResponse as RAGResponseSchema,
   ForkProcessingResult as ForkProcessingResultSchema,
   ClassificationConsensus as ClassificationConsensusSchema,
+  accessScopes,
 } from './schemas.js';
 
 // ============================================================================
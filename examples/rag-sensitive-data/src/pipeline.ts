@@ -11,7 +11,7 @@
 
 import {analyzeQuery, retrieveDocuments} from './retriever.js';
 import {generateResponseWithSources} from './generator.js';
-import type {UserQuery, RAGResponse} from './schemas.js';
+import {accessScopes, type UserQuery, type RAGResponse} from './schemas.js';
 import {getProviderName, type ProviderConfig} from './provider.js';
 
 export interface RAGPipelineResult {
@@ -64,16 +64,12 @@ export async function executeRAGPipeline(
   // Step 2: Access Check
   if (verbose) console.log('\n🔐 Step 2: Access Control Check');
 
-  const accessHierarchy = {
-    public: 0,
-    internal: 1,
-    confidential: 2,
-  };
-
-  const userLevel = accessHierarchy[query.userAccessLevel];
-  const requiredLevel = accessHierarchy[analysis.value.requiredAccessLevel];
-
-  if (userLevel < requiredLevel) {
+  if (
+    !accessScopes.canRead(
+      query.userAccessLevel,
+      analysis.value.requiredAccessLevel,
+    )
+  ) {
     if (verbose) {
       console.log(
         `   ⛔ ACCESS DENIED: Query requires ${analysis.value.requiredAccessLevel.toUpperCase()} access`,
@@ -6,6 +6,7 @@
  * with access-level aware document handling.
  */
 
+import {defineScopes} from '@mullion/core';
 import {z} from 'zod';
 
 /**
@@ -14,6 +15,15 @@ import {z} from 'zod';
 export const AccessLevel = z.enum(['public', 'internal', 'confidential']);
 export type AccessLevel = z.infer<typeof AccessLevel>;
 
+/**
+ * Access level lattice: public < internal < confidential
+ *
+ * Data may flow towards more restrictive levels but never back down.
+ */
+export const accessScopes = defineScopes({
+  levels: ['public', 'internal', 'confidential'],
+});
+
 /**
  * Document metadata with access control
  */
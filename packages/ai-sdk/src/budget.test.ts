@@ -0,0 +1,51 @@
+import {describe, expect, it} from 'vitest';
+import {InvalidConfigurationError} from '@mullion/core';
+import {createBudgetTracker} from './budget.js';
+import {BudgetExceededError} from './errors.js';
+
+describe('createBudgetTracker', () => {
+  it('holds estimates until calls settle at their actual usage', () => {
+    const tracker = createBudgetTracker('support', {
+      maxUsd: 0.01,
+      maxInputTokens: 1000,
+    });
+
+    const first = tracker.reserve({usd: 0.004, inputTokens: 400});
+    const second = tracker.reserve({usd: 0.004, inputTokens: 400});
+    expect(() => tracker.reserve({usd: 0.001, inputTokens: 400})).toThrow(
+      BudgetExceededError,
+    );
+
+    first.settle({usd: 0.002, inputTokens: 300});
+    first.settle({usd: 1, inputTokens: 1});
+    expect(tracker.status()).toMatchObject({
+      spent: {usd: 0.002, inputTokens: 300, calls: 1},
+      reserved: {usd: 0.004, inputTokens: 400, calls: 1},
+      remaining: {usd: 0.008, inputTokens: 700},
+    });
+
+    second.settle();
+    expect(tracker.status().spent).toMatchObject({inputTokens: 700, calls: 2});
+  });
+
+  it('only tracks usage without a budget', () => {
+    const tracker = createBudgetTracker('support');
+
+    tracker.reserve({usd: 5, inputTokens: 1_000_000}).settle();
+
+    expect(tracker.status()).toEqual({
+      spent: {usd: 5, inputTokens: 1_000_000, calls: 1},
+      reserved: {usd: 0, inputTokens: 0, calls: 0},
+      remaining: {},
+    });
+  });
+
+  it('rejects invalid limits', () => {
+    expect(() => createBudgetTracker('support', {maxCalls: -1})).toThrow(
+      InvalidConfigurationError,
+    );
+    expect(() => createBudgetTracker('support', {maxUsd: Number.NaN})).toThrow(
+      /maxUsd for scope 'support'/,
+    );
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Per-scope token and cost budgets.
+ *
+ * A scope created with `client.scope(name, fn, {budget})` checks every
+ * provider call against its budget before making it, and accounts for the
+ * actual usage afterwards. Calls in flight hold a reservation of their
+ * estimate, so parallel fork branches cannot overspend together.
+ *
+ * @module budget
+ */
+
+import {InvalidConfigurationError} from '@mullion/core';
+import {BudgetExceededError} from './errors.js';
+
+/**
+ * Limits for the provider calls made in one scope. Omitted limits are not
+ * enforced.
+ *
+ * @example
+ * ```typescript
+ * await client.scope('triage', fn, {
+ *   budget: {maxUsd: 0.5, maxInputTokens: 200_000, maxCalls: 20},
+ * });
+ * ```
+ */
+export interface ScopeBudget {
+  /**
+   * Maximum total cost in USD, priced with the client's `model` (or the
+   * call's `model` option).
+   */
+  maxUsd?: number;
+
+  /**
+   * Maximum total input tokens, including cache segments and system
+   * prompts.
+   */
+  maxInputTokens?: number;
+
+  /**
+   * Maximum number of provider calls.
+   */
+  maxCalls?: number;
+}
+
+/**
+ * A limit of {@link ScopeBudget}.
+ */
+export type BudgetLimit = keyof ScopeBudget;
+
+/**
+ * Usage counted against a scope budget.
+ */
+export interface BudgetUsage {
+  /** Cost in USD */
+  usd: number;
+  /** Input tokens */
+  inputTokens: number;
+  /** Provider calls */
+  calls: number;
+}
+
+/**
+ * Budget state of a scope, returned by `ctx.getBudgetStatus()`.
+ */
+export interface BudgetStatus {
+  /**
+   * The scope's budget, or undefined when the scope has none.
+   */
+  budget?: ScopeBudget;
+
+  /**
+   * Actual usage of completed calls.
+   */
+  spent: BudgetUsage;
+
+  /**
+   * Estimated usage of calls in flight.
+   */
+  reserved: BudgetUsage;
+
+  /**
+   * What can still be spent for each limit of the budget (never negative).
+   * Only limits set in the budget are present.
+   */
+  remaining: Partial<BudgetUsage>;
+}
+
+/**
+ * A call's hold on the budget, released with its actual usage.
+ *
+ * @internal
+ */
+export interface BudgetReservation {
+  /**
+   * Replaces the reservation with the call's actual usage. Omitted fields
+   * are accounted at their estimate.
+   */
+  settle(actual?: Partial<Omit<BudgetUsage, 'calls'>>): void;
+}
+
+/**
+ * Tracks the usage of one scope against its budget.
+ *
+ * @internal
+ */
+export interface BudgetTracker {
+  /**
+   * Reserves a call's estimated usage.
+   *
+   * @throws {BudgetExceededError} If the call would exceed a limit
+   */
+  reserve(estimate: Omit<BudgetUsage, 'calls'>): BudgetReservation;
+
+  /**
+   * Current usage and what is left of the budget.
+   */
+  status(): BudgetStatus;
+}
+
+const LIMITS: readonly [BudgetLimit, keyof BudgetUsage][] = [
+  ['maxCalls', 'calls'],
+  ['maxInputTokens', 'inputTokens'],
+  ['maxUsd', 'usd'],
+];
+
+/**
+ * Creates the budget tracker of a scope.
+ *
+ * @param scope - Scope the budget applies to
+ * @param budget - Limits to enforce; without one, usage is only tracked
+ * @returns A tracker shared by every call of the scope
+ * @throws {InvalidConfigurationError} If a limit is negative or not a number
+ *
+ * @internal
+ */
+export function createBudgetTracker(
+  scope: string,
+  budget?: ScopeBudget,
+): BudgetTracker {
+  for (const [limit] of LIMITS) {
+    const max = budget?.[limit];
+    if (max !== undefined && !(max >= 0)) {
+      throw new InvalidConfigurationError(
+        `Budget ${limit} for scope '${scope}' must be a non-negative number, got ${max}`,
+      );
+    }
+  }
+
+  const spent: BudgetUsage = {usd: 0, inputTokens: 0, calls: 0};
+  const reserved: BudgetUsage = {usd: 0, inputTokens: 0, calls: 0};
+
+  return {
+    reserve(estimate) {
+      const requested: BudgetUsage = {...estimate, calls: 1};
+
+      for (const [limit, field] of LIMITS) {
+        const max = budget?.[limit];
+        const used = spent[field] + reserved[field];
+        if (max !== undefined && used + requested[field] > max) {
+          throw new BudgetExceededError(
+            `Budget exceeded in scope '${scope}': ${limit} is ${max}, ` +
+              `${formatUsage(field, used)} used and the next call needs ` +
+              `~${formatUsage(field, requested[field])}`,
+            {scope, limit, max, spent: used, requested: requested[field]},
+          );
+        }
+      }
+
+      reserved.usd += requested.usd;
+      reserved.inputTokens += requested.inputTokens;
+      reserved.calls += 1;
+
+      let settled = false;
+      return {
+        settle(actual = {}) {
+          if (settled) return;
+          settled = true;
+
+          reserved.usd -= requested.usd;
+          reserved.inputTokens -= requested.inputTokens;
+          reserved.calls -= 1;
+
+          spent.usd += actual.usd ?? requested.usd;
+          spent.inputTokens += actual.inputTokens ?? requested.inputTokens;
+          spent.calls += 1;
+        },
+      };
+    },
+
+    status() {
+      const remaining: Partial<BudgetUsage> = {};
+      for (const [limit, field] of LIMITS) {
+        const max = budget?.[limit];
+        if (max !== undefined) {
+          remaining[field] = Math.max(0, max - spent[field]);
+        }
+      }
+
+      return {
+        ...(budget ? {budget: {...budget}} : {}),
+        spent: {...spent},
+        reserved: {...reserved},
+        remaining,
+      };
+    },
+  };
+}
+
+function formatUsage(field: keyof BudgetUsage, amount: number): string {
+  switch (field) {
+    case 'usd':
+      return `$${amount.toFixed(4)}`;
+    case 'inputTokens':
+      return `${amount} input tokens`;
+    case 'calls':
+      return `${amount} calls`;
+  }
+}
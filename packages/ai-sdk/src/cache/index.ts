@@ -89,3 +89,13 @@ export {
   type DetectSchemaConflictOptions,
   type DetailedSchemaConflictResult,
 } from './schema-conflict.js';
+
+// Memoized inference results
+export {
+  computeResultCacheKey,
+  normalizeCacheInput,
+  type ResultCacheOptions,
+  type ResultCacheMode,
+  type ResultCacheStats,
+  type ResultCacheKeyParts,
+} from './result-cache.js';
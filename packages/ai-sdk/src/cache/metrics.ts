@@ -9,6 +9,7 @@
 import type {Provider} from './capabilities.js';
 import {getCacheCapabilities} from './capabilities.js';
 
+import type {ResultCacheStats} from './result-cache.js';
 import type {CacheTTL} from './types.js';
 
 /**
@@ -53,6 +54,13 @@ export interface CacheStats {
 
   /** Raw provider-specific metrics for debugging */
   readonly raw?: unknown;
+
+  /**
+   * Inference result cache hits and misses (only when the client has a
+   * `resultCache`). Hits made no provider call and are not counted in the
+   * token metrics above.
+   */
+  readonly resultCache?: ResultCacheStats;
 }
 
 /**
@@ -0,0 +1,58 @@
+import {describe, expect, it} from 'vitest';
+import {z} from 'zod';
+import type {LanguageModel} from 'ai';
+import {computeResultCacheKey, normalizeCacheInput} from './result-cache.js';
+
+describe('result cache keys', () => {
+  const schema = z.object({intent: z.enum(['refund', 'cancel'])});
+  const model = {provider: 'openai', modelId: 'gpt-4o-mini'} as LanguageModel;
+
+  it('normalizes line endings, Unicode and surrounding whitespace', () => {
+    expect(normalizeCacheInput('  Café\r\nok\r')).toBe('Café\nok');
+  });
+
+  it('ignores option order and undefined options', async () => {
+    const a = await computeResultCacheKey({
+      schema,
+      model,
+      input: 'money back?',
+      segments: [],
+      options: {temperature: 0, systemPrompt: 'Classify', maxTokens: undefined},
+    });
+    const b = await computeResultCacheKey({
+      schema,
+      model,
+      input: 'money back? ',
+      segments: [],
+      options: {systemPrompt: 'Classify', temperature: 0},
+    });
+
+    expect(a).toMatch(/^[0-9a-f]{64}$/);
+    expect(b).toBe(a);
+  });
+
+  it('distinguishes schema, model, segments and options', async () => {
+    const base = {
+      schema,
+      model,
+      input: 'money back?',
+      segments: [],
+      options: {},
+    };
+    const keys = await Promise.all([
+      computeResultCacheKey(base),
+      computeResultCacheKey({
+        ...base,
+        schema: z.object({intent: z.string()}),
+      }),
+      computeResultCacheKey({...base, model: 'gpt-4o'}),
+      computeResultCacheKey({
+        ...base,
+        segments: [{content: 'Policy', scope: 'developer-content'}],
+      }),
+      computeResultCacheKey({...base, options: {temperature: 1}}),
+    ]);
+
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Memoized inference results for Mullion clients.
+ *
+ * Unlike cache segments (which ask the provider to cache a prompt prefix),
+ * the result cache skips the provider call entirely when an identical
+ * inference was already made in the same scope. Results live in a
+ * per-scope `AsyncScopedCache`, so a value inferred in one scope is never
+ * returned to another.
+ *
+ * @module cache/result-cache
+ */
+
+import type {LanguageModel} from 'ai';
+import type {z} from 'zod';
+import type {ScopedCacheStore} from '@mullion/core';
+import {computeSchemaSignature} from './schema-conflict.js';
+import type {CacheScope} from './types.js';
+
+/**
+ * Configuration for the client's inference result cache.
+ *
+ * @example
+ * ```typescript
+ * const client = createMullionClient(openai('gpt-4o-mini'), {
+ *   resultCache: {
+ *     store: new RespCacheStore({host: 'redis.internal'}),
+ *     ttlMs: 3_600_000,
+ *   },
+ * });
+ * ```
+ */
+export interface ResultCacheOptions {
+  /**
+   * Backend shared by all scopes (entries are namespaced per scope).
+   *
+   * @default new MemoryCacheStore()
+   */
+  readonly store?: ScopedCacheStore;
+
+  /**
+   * Time-to-live of cached results. Entries never expire when omitted.
+   */
+  readonly ttlMs?: number;
+
+  /**
+   * Key namespace, so several clients can share one store.
+   *
+   * @default 'mullion-infer'
+   */
+  readonly namespace?: string;
+}
+
+/**
+ * Per-call result cache mode.
+ *
+ * - `'use'`: return a cached result when there is one, otherwise infer
+ *   and store the result
+ * - `'refresh'`: always infer, then overwrite the cached result
+ * - `'none'`: bypass the result cache
+ */
+export type ResultCacheMode = 'use' | 'refresh' | 'none';
+
+/**
+ * Result cache counters for a scope, reported by `ctx.getCacheStats()`.
+ */
+export interface ResultCacheStats {
+  /** infer() calls answered from the result cache */
+  readonly hits: number;
+
+  /** infer() calls that went to the provider and stored their result */
+  readonly misses: number;
+
+  /** hits / (hits + misses), 0 when nothing was looked up */
+  readonly hitRate: number;
+}
+
+/**
+ * Everything that determines the outcome of an inference call.
+ */
+export interface ResultCacheKeyParts {
+  /** Schema the output is validated against */
+  readonly schema: z.ZodType;
+
+  /** Model that serves the call */
+  readonly model: LanguageModel;
+
+  /** Prompt input (normalized before hashing) */
+  readonly input: string;
+
+  /** Cache segments prepended to the prompt */
+  readonly segments: readonly {
+    readonly content: string;
+    readonly scope: CacheScope;
+  }[];
+
+  /**
+   * Call options that change the request (system prompt, temperature,
+   * provider options, ...). Must be JSON-serializable.
+   */
+  readonly options: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * Normalizes prompt input for cache keys: Unicode NFC, `\n` line endings
+ * and no leading or trailing whitespace.
+ *
+ * @param input - Raw prompt input
+ * @returns Normalized input
+ */
+export function normalizeCacheInput(input: string): string {
+  return input.normalize('NFC').replace(/\r\n?/g, '\n').trim();
+}
+
+/**
+ * Serializes a JSON value with object keys sorted and `undefined` fields
+ * dropped, so keys do not depend on property order.
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item ?? null)).join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const fields = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Computes the result cache key of an inference call: a SHA-256 digest of
+ * the schema signature, model, normalized input, cache segments and call
+ * options.
+ *
+ * Uses the Web Crypto API, available in Node.js and browsers.
+ *
+ * @param parts - Inputs of the call
+ * @returns Lowercase hex digest
+ *
+ * @example
+ * ```typescript
+ * const key = await computeResultCacheKey({
+ *   schema: IntentSchema,
+ *   model: openai('gpt-4o-mini'),
+ *   input: message,
+ *   segments: ctx.cache.getSegments(),
+ *   options: {temperature: 0},
+ * });
+ * ```
+ */
+export async function computeResultCacheKey(
+  parts: ResultCacheKeyParts,
+): Promise<string> {
+  const payload = canonicalJson({
+    schema: computeSchemaSignature(parts.schema),
+    model:
+      typeof parts.model === 'string'
+        ? parts.model
+        : `${parts.model.provider}:${parts.model.modelId}`,
+    input: normalizeCacheInput(parts.input),
+    segments: parts.segments.map(({content, scope}) => ({content, scope})),
+    options: parts.options,
+  });
+  const digest = await globalThis.crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(payload),
+  );
+
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, '0'),
+  ).join('');
+}
@@ -1,5 +1,6 @@
 import {describe, it, expect} from 'vitest';
 import {z} from 'zod';
+import {SchemaConflictError} from '../errors.js';
 
 import {
   computeSchemaSignature,
@@ -273,6 +274,9 @@ describe('schema-conflict', () => {
       expect(() => handleSchemaConflict(conflict, 'error')).toThrow(
         /Schema conflict detected/,
       );
+      expect(() => handleSchemaConflict(conflict, 'error')).toThrow(
+        SchemaConflictError,
+      );
     });
 
     it('should return undefined for allow behavior', () => {
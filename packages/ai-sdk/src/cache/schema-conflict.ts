@@ -11,6 +11,7 @@
 
 import type {z} from 'zod';
 import type {SchemaConflictBehavior, SchemaConflictResult} from '@mullion/core';
+import {SchemaConflictError} from '../errors.js';
 
 /**
  * Information about a schema used in a fork branch.
@@ -385,7 +386,7 @@ export function handleSchemaConflict(
 
   switch (behavior) {
     case 'error':
-      throw new Error(
+      throw new SchemaConflictError(
         `Schema conflict detected: ${conflict.message}\n` +
           'Consider: (1) universal schema, (2) generateText + post-process, (3) accept no cache sharing',
       );
@@ -9,6 +9,7 @@ import {
   type SegmentOptions,
 } from './segments.js';
 import {createDefaultCacheConfig, createUserContentConfig} from './types.js';
+import {CacheSegmentValidationError} from '../errors.js';
 
 describe('CacheSegmentManager', () => {
   let manager: CacheSegmentManager;
@@ -128,6 +129,24 @@ describe('CacheSegmentManager', () => {
       }).toThrow("Cache key 'duplicate-key' already exists");
     });
 
+    it('throws CacheSegmentValidationError with structured details', () => {
+      manager.segment('duplicate-key', 'First content with this key.');
+
+      try {
+        manager.segment('duplicate-key', 'Second content with same key.');
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(CacheSegmentValidationError);
+        expect(error).toMatchObject({
+          code: 'CACHE_SEGMENT_INVALID',
+          segmentKey: 'duplicate-key',
+        });
+        expect((error as CacheSegmentValidationError).errors).toContain(
+          "Cache key 'duplicate-key' already exists",
+        );
+      }
+    });
+
     it('validates TTL values against provider capabilities', () => {
       expect(() => {
         // This should fail because '24h' is not in the supported TTL list
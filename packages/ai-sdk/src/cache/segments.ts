@@ -10,6 +10,7 @@ import type {CacheCapabilities, Provider} from './capabilities.js';
 import {getCacheCapabilities} from './capabilities.js';
 import type {CacheConfig, CacheScope, CacheTTL} from './types.js';
 import {validateMinTokens, validateBreakpointLimit} from './types.js';
+import {CacheSegmentValidationError} from '../errors.js';
 
 /**
  * Options for creating a cache segment.
@@ -98,7 +99,7 @@ export class CacheSegmentManager {
    * @param key - Unique cache key for this segment
    * @param content - Content to cache (will be stringified if object)
    * @param options - Cache segment options
-   * @throws Error if validation fails and force is not enabled
+   * @throws CacheSegmentValidationError if validation fails and force is not enabled
    */
   segment(
     key: string,
@@ -126,8 +127,9 @@ export class CacheSegmentManager {
       options.force,
     );
     if (!validation.valid && !options.force) {
-      throw new Error(
+      throw new CacheSegmentValidationError(
         `Cache segment validation failed: ${validation.errors.join(', ')}`,
+        {segmentKey: key, errors: validation.errors},
       );
     }
 
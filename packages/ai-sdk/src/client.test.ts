@@ -1,10 +1,41 @@
-import {describe, it, expect, vi, beforeEach} from 'vitest';
+import {describe, it, expect, expectTypeOf, vi, beforeEach} from 'vitest';
 import {z} from 'zod';
+import {createMullionClient, getCalibrationSchemaKey} from './client.js';
 import {
-  createMullionClient,
+  createLogprobConfidenceEstimator,
   extractConfidenceFromFinishReason,
-} from './client.js';
+} from './confidence.js';
 import type {LanguageModel, FinishReason} from 'ai';
+import {APICallError, NoObjectGeneratedError} from 'ai';
+import {
+  AuditLog,
+  CalibrationRegistry,
+  MemoryAuditLogStore,
+  InvalidArgumentError,
+  ScopeMismatchError,
+  bridge,
+  clearAuditSink,
+  clearCalibrationRegistry,
+  clearScopeRegistry,
+  createOwned,
+  defineScopes,
+  fork,
+  LowConfidenceError,
+  MemoryCacheStore,
+  isSemanticValue,
+  setAuditSink,
+  setCalibrationRegistry,
+  setScopeRegistry,
+} from '@mullion/core';
+import type {Context, Owned} from '@mullion/core';
+import {
+  BudgetExceededError,
+  ScopeCeilingExceededError,
+  ToolScopeViolationError,
+} from './errors.js';
+import type {InferErrorEvent, MullionPlugin} from './plugins.js';
+import {calculateBatchCost, calculateCost} from './cost/calculator.js';
+import {defineScopedTool} from './tools.js';
 
 // Mock the generateObject function from 'ai'
 vi.mock('ai', async () => {
@@ -12,12 +43,18 @@ vi.mock('ai', async () => {
   return {
     ...actual,
     generateObject: vi.fn(),
+    streamObject: vi.fn(),
+    generateText: vi.fn(),
+    streamText: vi.fn(),
   };
 });
 
-import {generateObject} from 'ai';
+import {generateObject, generateText, streamObject, streamText} from 'ai';
 
 const mockGenerateObject = vi.mocked(generateObject);
+const mockStreamObject = vi.mocked(streamObject);
+const mockGenerateText = vi.mocked(generateText);
+const mockStreamText = vi.mocked(streamText);
 
 describe('createMullionClient', () => {
   beforeEach(() => {
@@ -243,6 +280,110 @@ describe('createMullionClient', () => {
     expect(result.value).toEqual({data: 'test'});
   });
 
+  it('should record bridges in the value lineage', async () => {
+    const mockModel = {} as LanguageModel;
+    const client = createMullionClient(mockModel);
+
+    const TestSchema = z.object({data: z.string()});
+
+    mockGenerateObject.mockResolvedValue({
+      object: {data: 'test'},
+      finishReason: 'stop',
+      usage: {promptTokens: 10, completionTokens: 5, totalTokens: 15},
+      warnings: undefined,
+      request: {} as never,
+      response: {} as never,
+      rawResponse: {} as never,
+    });
+
+    const result = await client.scope('source', async (sourceCtx) => {
+      const sourceData = await sourceCtx.infer(TestSchema, 'Get data');
+
+      return await client.scope('target', async (targetCtx) =>
+        targetCtx.bridge(sourceData, {reason: 'handoff'}),
+      );
+    });
+
+    expect(result.lineage?.origin).toBe('source');
+    expect(result.lineage?.hops).toEqual([
+      expect.objectContaining({
+        kind: 'context',
+        from: 'source',
+        to: 'target',
+        context: 'target',
+        reason: 'handoff',
+      }),
+    ]);
+  });
+
+  it('should enforce the registered scope policy on bridge', async () => {
+    const mockModel = {} as LanguageModel;
+    const client = createMullionClient(mockModel);
+
+    setScopeRegistry(
+      defineScopes({levels: ['public', 'internal', 'confidential']}),
+    );
+
+    try {
+      const secret = createOwned({value: 'notes', scope: 'confidential'});
+
+      await expect(
+        client.scope('public', async (ctx) => ctx.bridge(secret)),
+      ).rejects.toThrow(/may not flow/);
+
+      const upgraded = await client.scope('confidential', async (ctx) =>
+        ctx.bridge(createOwned({value: 'faq', scope: 'public'})),
+      );
+      expect(upgraded.__scope).toBe('confidential');
+
+      // Routing through an undeclared scope keeps the original restriction
+      const laundered = await client.scope('scratch', async (ctx) =>
+        ctx.bridge(secret),
+      );
+      await expect(
+        client.scope('public', async (ctx) => ctx.bridge(laundered)),
+      ).rejects.toThrow(/'confidential' may not flow/);
+    } finally {
+      clearScopeRegistry();
+    }
+  });
+
+  it('should record bridges and use() mismatches in the audit log', async () => {
+    const mockModel = {} as LanguageModel;
+    const client = createMullionClient(mockModel);
+    const log = new AuditLog(new MemoryAuditLogStore());
+    setAuditSink(log);
+
+    try {
+      const secret = createOwned({value: 'notes', scope: 'admin'});
+
+      await client.scope('customer', async (ctx) => {
+        ctx.bridge(secret, {reason: 'approved'});
+        expect(() => ctx.use(secret as never)).toThrow(ScopeMismatchError);
+      });
+
+      const entries = await log.entries();
+      expect(entries.map((entry) => entry.event)).toEqual([
+        expect.objectContaining({
+          type: 'bridge',
+          kind: 'context',
+          from: 'admin',
+          to: 'customer',
+          reason: 'approved',
+        }),
+        expect.objectContaining({
+          type: 'scope-violation',
+          check: 'use',
+          from: 'admin',
+          to: 'customer',
+        }),
+      ]);
+      expect((await log.verify()).valid).toBe(true);
+    } finally {
+      clearAuditSink();
+    }
+  });
+
   it('should throw error when using value from wrong scope', async () => {
     const mockModel = {} as LanguageModel;
     const client = createMullionClient(mockModel);
@@ -298,6 +439,1426 @@ describe('createMullionClient', () => {
     expect(result).toEqual({data: 'test'});
   });
 
+  describe('semantic inference', () => {
+    const IntentSchema = z.enum(['refund', 'cancel', 'question']);
+
+    const mockSemanticResult = () => {
+      mockGenerateObject.mockResolvedValueOnce({
+        object: {
+          value: 'refund',
+          alternatives: [
+            {value: 'question', confidence: 0.2},
+            {value: 'cancel', confidence: 0.4},
+          ],
+          reasoning: 'Customer asks for their money back',
+        },
+        finishReason: 'length',
+        usage: {promptTokens: 10, completionTokens: 5, totalTokens: 15},
+        warnings: undefined,
+        request: {} as never,
+        response: {} as never,
+        rawResponse: {} as never,
+      });
+    };
+
+    it('should return a SemanticValue from inferSemantic()', async () => {
+      const client = createMullionClient({} as LanguageModel);
+      mockSemanticResult();
+
+      const result = await client.scope('support', (ctx) =>
+        ctx.inferSemantic(IntentSchema, 'I want my money back', {
+          systemPrompt: 'Classify the intent.',
+        }),
+      );
+
+      expect(isSemanticValue(result)).toBe(true);
+      expect(result.value).toBe('refund');
+      expect(result.__scope).toBe('support');
+      expect(result.confidence).toBe(0.75);
+      expect(result.reasoning).toBe('Customer asks for their money back');
+      expect(result.alternatives).toEqual([
+        {value: 'cancel', confidence: 0.4},
+        {value: 'question', confidence: 0.2},
+      ]);
+
+      const call = mockGenerateObject.mock.calls[0][0] as {
+        schema: z.ZodType;
+        system?: string;
+      };
+      expect(call.system).toMatch(/^Classify the intent\.\n\n/);
+      expect(
+        call.schema.safeParse({
+          value: 'refund',
+          alternatives: [{value: 'upgrade', confidence: 0.1}],
+          reasoning: '',
+        }).success,
+      ).toBe(false);
+    });
+
+    it('should honour includeAlternatives in infer()', async () => {
+      const client = createMullionClient({} as LanguageModel);
+      mockSemanticResult();
+
+      const result = await client.scope('support', (ctx) =>
+        ctx.infer(IntentSchema, 'I want my money back', {
+          includeAlternatives: true,
+        }),
+      );
+
+      expect(isSemanticValue(result)).toBe(true);
+      expect(result.value).toBe('refund');
+    });
+  });
+
+  describe('calibration', () => {
+    const IntentSchema = z.enum(['refund', 'cancel']);
+
+    it('should apply the registered calibrator and track raw confidence', async () => {
+      const registry = new CalibrationRegistry({minSamples: 1});
+      for (let i = 0; i < 4; i++) {
+        await registry.recordFeedback({
+          traceId: `seed-${i}`,
+          predicted: 1,
+          correct: i < 3,
+          model: 'gpt-4o-mini',
+          schema: getCalibrationSchemaKey(IntentSchema),
+        });
+      }
+      await registry.fit();
+      setCalibrationRegistry(registry);
+
+      try {
+        const client = createMullionClient({} as LanguageModel, {
+          model: 'gpt-4o-mini',
+        });
+        mockGenerateObject.mockResolvedValueOnce({
+          object: 'refund',
+          finishReason: 'stop',
+          usage: {promptTokens: 10, completionTokens: 5, totalTokens: 15},
+          warnings: undefined,
+          request: {} as never,
+          response: {} as never,
+          rawResponse: {} as never,
+        });
+
+        const result = await client.scope('support', (ctx) =>
+          ctx.infer(IntentSchema, 'I want my money back'),
+        );
+
+        expect(result.confidence).toBe(0.75);
+        await expect(
+          registry.recordFeedback({traceId: result.traceId, correct: true}),
+        ).resolves.toMatchObject({predicted: 1, model: 'gpt-4o-mini'});
+      } finally {
+        clearCalibrationRegistry();
+      }
+    });
+
+    it('should derive stable schema keys', () => {
+      expect(getCalibrationSchemaKey(IntentSchema)).toMatch(
+        /^schema-[0-9a-f]{8}$/,
+      );
+      expect(getCalibrationSchemaKey(z.enum(['refund', 'cancel']))).toBe(
+        getCalibrationSchemaKey(IntentSchema),
+      );
+      expect(getCalibrationSchemaKey(z.string())).not.toBe(
+        getCalibrationSchemaKey(IntentSchema),
+      );
+    });
+  });
+
+  describe('confidence policies', () => {
+    const IntentSchema = z.enum(['refund', 'cancel']);
+
+    const mockResult = (object: unknown, finishReason: FinishReason) => {
+      mockGenerateObject.mockResolvedValueOnce({
+        object,
+        finishReason,
+        usage: {promptTokens: 10, completionTokens: 5, totalTokens: 15},
+        warnings: undefined,
+        request: {} as never,
+        response: {} as never,
+        rawResponse: {} as never,
+      });
+    };
+
+    it('should apply the scope policy declared on the client', async () => {
+      const client = createMullionClient({} as LanguageModel, {
+        confidencePolicies: {support: {minConfidence: 0.8}},
+      });
+      mockResult('refund', 'length');
+
+      const error = await client
+        .scope('support', async (ctx) =>
+          ctx.require(await ctx.infer(IntentSchema, 'money back?')),
+        )
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(LowConfidenceError);
+      expect(error).toMatchObject({
+        confidence: 0.75,
+        minConfidence: 0.8,
+        scope: 'support',
+      });
+    });
+
+    it('should retry with the policy retry model', async () => {
+      const strongModel = {modelId: 'gpt-4o'} as LanguageModel;
+      const client = createMullionClient({} as LanguageModel, {
+        model: 'gpt-4o-mini',
+      });
+      mockResult('refund', 'length');
+      mockResult('cancel', 'stop');
+
+      const result = await client.scope('support', async (ctx) => {
+        const intent = await ctx.infer(IntentSchema, 'money back?', {
+          temperature: 0.2,
+        });
+        return ctx.require(intent, {
+          minConfidence: 0.8,
+          action: 'retry',
+          retryModel: strongModel,
+        });
+      });
+
+      expect(result.value).toBe('cancel');
+      expect(result.confidence).toBe(1);
+      expect(mockGenerateObject).toHaveBeenCalledTimes(2);
+      expect(mockGenerateObject.mock.calls[1][0]).toMatchObject({
+        model: strongModel,
+        temperature: 0.2,
+        prompt: 'money back?',
+      });
+    });
+
+    it('should fall back when retries stay below the minimum', async () => {
+      const client = createMullionClient({} as LanguageModel);
+      mockResult('refund', 'length');
+      mockResult('refund', 'length');
+
+      const result = await client.scope('support', async (ctx) =>
+        ctx.require(await ctx.infer(IntentSchema, 'money back?'), {
+          minConfidence: 0.8,
+          action: 'retry',
+          fallback: 'cancel',
+        }),
+      );
+
+      expect(result).toMatchObject({value: 'cancel', confidence: 1});
+      expect(mockGenerateObject).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject scopes without a policy and unknown retries', async () => {
+      const client = createMullionClient({} as LanguageModel);
+      const external = createOwned({
+        value: 'refund' as const,
+        scope: 'support',
+        confidence: 0.5,
+      });
+
+      await expect(
+        client.scope('support', (ctx) => ctx.require(external)),
+      ).rejects.toThrow(/No confidence policy for scope 'support'/);
+      await expect(
+        client.scope('support', (ctx) =>
+          ctx.require(external, {minConfidence: 0.8, action: 'retry'}),
+        ),
+      ).rejects.toThrow(/not inferred by ctx.infer\(\)/);
+    });
+  });
+
+  describe('result cache', () => {
+    const IntentSchema = z.enum(['refund', 'cancel']);
+
+    const mockResult = (
+      object: unknown,
+      finishReason: FinishReason = 'stop',
+    ) => {
+      mockGenerateObject.mockResolvedValueOnce({
+        object,
+        finishReason,
+        usage: {promptTokens: 10, completionTokens: 5, totalTokens: 15},
+        warnings: undefined,
+        request: {} as never,
+        response: {} as never,
+        rawResponse: {} as never,
+      });
+    };
+
+    it('should memoize identical calls in a scope', async () => {
+      const client = createMullionClient({} as LanguageModel, {
+        resultCache: true,
+      });
+      mockResult('refund');
+      mockResult('cancel');
+      mockResult('cancel');
+
+      const stats = await client.scope('support', async (ctx) => {
+        const first = await ctx.infer(IntentSchema, 'money back?');
+        const second = await ctx.infer(IntentSchema, '  money back?\r\n');
+        expect(second).toBe(first);
+
+        // Different options and cache segments change the key
+        await ctx.infer(IntentSchema, 'money back?', {temperature: 0});
+        ctx.cache.system('Classify the intent.', {force: true});
+        await ctx.infer(IntentSchema, 'money back?');
+
+        return ctx.getCacheStats();
+      });
+
+      expect(mockGenerateObject).toHaveBeenCalledTimes(3);
+      expect(stats.resultCache).toEqual({hits: 1, misses: 3, hitRate: 0.25});
+    });
+
+    it('should never share results between scopes', async () => {
+      const store = new MemoryCacheStore();
+      const client = createMullionClient({} as LanguageModel, {
+        resultCache: {store},
+      });
+      mockResult('refund');
+      mockResult('cancel');
+
+      const admin = await client.scope('admin', (ctx) =>
+        ctx.infer(IntentSchema, 'money back?'),
+      );
+      const customer = await client.scope('customer', (ctx) =>
+        ctx.infer(IntentSchema, 'money back?'),
+      );
+
+      expect(admin).toMatchObject({value: 'refund', __scope: 'admin'});
+      expect(customer).toMatchObject({value: 'cancel', __scope: 'customer'});
+      expect(mockGenerateObject).toHaveBeenCalledTimes(2);
+      expect(store.size).toBe(2);
+    });
+
+    it('should bypass the cache for retries and opted-out calls', async () => {
+      const client = createMullionClient({} as LanguageModel, {
+        resultCache: true,
+      });
+      mockResult('refund', 'length');
+      mockResult('cancel');
+      mockResult('refund');
+
+      const results = await client.scope('support', async (ctx) => {
+        const retried = await ctx.require(
+          await ctx.infer(IntentSchema, 'money back?'),
+          {minConfidence: 0.8, action: 'retry'},
+        );
+        const cached = await ctx.infer(IntentSchema, 'money back?');
+        const uncached = await ctx.infer(IntentSchema, 'money back?', {
+          resultCache: 'none',
+        });
+        return {retried, cached, uncached};
+      });
+
+      expect(results.retried.value).toBe('cancel');
+      expect(results.cached).toBe(results.retried);
+      expect(results.uncached.value).toBe('refund');
+      expect(mockGenerateObject).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('budgets', () => {
+    const IntentSchema = z.enum(['refund', 'cancel']);
+
+    const mockResult = (object: unknown) => {
+      mockGenerateObject.mockResolvedValueOnce({
+        object,
+        finishReason: 'stop',
+        usage: {inputTokens: 1000, outputTokens: 100, totalTokens: 1100},
+        warnings: undefined,
+        request: {} as never,
+        response: {} as never,
+        rawResponse: {} as never,
+      } as never);
+    };
+
+    it('should reject calls over budget before calling the provider', async () => {
+      const client = createMullionClient({} as LanguageModel, {
+        provider: 'openai',
+        model: 'gpt-4o-mini',
+      });
+      mockResult('refund');
+
+      const status = await client.scope(
+        'support',
+        async (ctx) => {
+          await ctx.infer(IntentSchema, 'money back?');
+          await expect(
+            ctx.infer(IntentSchema, 'cancel please'),
+          ).rejects.toMatchObject({
+            code: 'BUDGET_EXCEEDED',
+            scope: 'support',
+            limit: 'maxCalls',
+            max: 1,
+            spent: 1,
+            requested: 1,
+          });
+          return ctx.getBudgetStatus();
+        },
+        {budget: {maxCalls: 1, maxInputTokens: 5000}},
+      );
+
+      expect(mockGenerateObject).toHaveBeenCalledTimes(1);
+      expect(status.spent).toMatchObject({inputTokens: 1000, calls: 1});
+      expect(status.spent.usd).toBeGreaterThan(0);
+      expect(status.reserved).toEqual({usd: 0, inputTokens: 0, calls: 0});
+      expect(status.remaining).toEqual({calls: 0, inputTokens: 4000});
+    });
+
+    it('should check the estimated cost of the next call', async () => {
+      const client = createMullionClient({} as LanguageModel, {
+        model: 'gpt-4o-mini',
+      });
+
+      const error = await client
+        .scope(
+          'support',
+          (ctx) => ctx.infer(IntentSchema, 'ticket '.repeat(20_000)),
+          {budget: {maxUsd: 0.0001}},
+        )
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(BudgetExceededError);
+      expect(error).toMatchObject({limit: 'maxUsd', spent: 0});
+      expect(mockGenerateObject).not.toHaveBeenCalled();
+    });
+
+    it('should account failed calls at their estimate', async () => {
+      const client = createMullionClient({} as LanguageModel, {
+        model: 'gpt-4o-mini',
+      });
+      mockGenerateObject
+        .mockRejectedValueOnce(new Error('socket hang up'))
+        .mockRejectedValueOnce(new Error('socket hang up'));
+
+      const status = await client.scope(
+        'support',
+        async (ctx) => {
+          for (let i = 0; i < 2; i++) {
+            await expect(
+              ctx.infer(IntentSchema, 'ticket '.repeat(400)),
+            ).rejects.toThrow('socket hang up');
+          }
+          await expect(
+            ctx.infer(IntentSchema, 'ticket '.repeat(400)),
+          ).rejects.toMatchObject({limit: 'maxInputTokens'});
+          return ctx.getBudgetStatus();
+        },
+        {budget: {maxInputTokens: 1500}},
+      );
+
+      expect(mockGenerateObject).toHaveBeenCalledTimes(2);
+      expect(status.spent.calls).toBe(2);
+      expect(status.spent.inputTokens).toBeGreaterThan(0);
+      expect(status.spent.usd).toBeGreaterThan(0);
+      expect(status.reserved.calls).toBe(0);
+    });
+
+    it('should share the budget with parallel fork branches', async () => {
+      const client = createMullionClient({} as LanguageModel);
+      mockResult('refund');
+      mockResult('cancel');
+
+      const status = await client.scope(
+        'support',
+        async (ctx) => {
+          await expect(
+            fork(ctx, {
+              strategy: 'fast-parallel',
+              branches: [1, 2, 3].map(
+                (n) => (branch: Context<'support'>) =>
+                  branch.infer(IntentSchema, `ticket ${n}`),
+              ),
+            }),
+          ).rejects.toBeInstanceOf(BudgetExceededError);
+          return ctx.getBudgetStatus();
+        },
+        {budget: {maxCalls: 2}},
+      );
+
+      expect(mockGenerateObject).toHaveBeenCalledTimes(2);
+      expect(status.spent.calls).toBe(2);
+      expect(status.budget).toEqual({maxCalls: 2});
+    });
+  });
+
+  describe('plugins', () => {
+    const IntentSchema = z.enum(['refund', 'cancel']);
+
+    const mockResult = (object: unknown) => {
+      mockGenerateObject.mockResolvedValueOnce({
+        object,
+        finishReason: 'stop',
+        usage: {inputTokens: 10, outputTokens: 5, totalTokens: 15},
+        warnings: undefined,
+        request: {} as never,
+        response: {} as never,
+        rawResponse: {} as never,
+      } as never);
+    };
+
+    it('should run hooks in order with per-scope state', async () => {
+      const log: string[] = [];
+      const counter: MullionPlugin<{calls: number}> = {
+        name: 'counter',
+        createState: () => ({calls: 0}),
+        beforeInfer(call, {state}) {
+          state.calls++;
+          return {input: `${call.input} [${state.calls}]`};
+        },
+        onScopeExit({scope, state}, exit) {
+          log.push(`${scope} ${exit.status} after ${state.calls} calls`);
+        },
+      };
+      const tracer: MullionPlugin = {
+        name: 'tracer',
+        onScopeEnter: ({scope}) => void log.push(`enter ${scope}`),
+        beforeInfer: (call) => void log.push(`infer ${call.input}`),
+        afterInfer: (result) =>
+          createOwned({
+            value: `${String(result.value)}!`,
+            scope: result.__scope,
+            traceId: result.traceId,
+          }),
+      };
+      const client = createMullionClient({} as LanguageModel, {
+        use: [counter, tracer],
+      });
+      mockResult('refund');
+      mockResult('cancel');
+
+      const values = await client.scope('support', async (ctx) => [
+        (await ctx.infer(IntentSchema, 'money back?')).value,
+        (await ctx.infer(IntentSchema, 'stop it')).value,
+      ]);
+      await client.scope('billing', async () => undefined);
+
+      expect(values).toEqual(['refund!', 'cancel!']);
+      expect(mockGenerateObject.mock.calls[1][0]).toMatchObject({
+        prompt: 'stop it [2]',
+      });
+      expect(log).toEqual([
+        'enter support',
+        'infer money back? [1]',
+        'infer stop it [2]',
+        'support success after 2 calls',
+        'enter billing',
+        'billing success after 0 calls',
+      ]);
+    });
+
+    it('should run values recovered by onError through afterInfer', async () => {
+      const recoveries: string[] = [];
+      const client = createMullionClient({} as LanguageModel, {
+        use: [
+          {
+            name: 'reject-refunds',
+            afterInfer(result) {
+              if (result.value === 'refund') throw new Error('no refunds');
+              return createOwned({
+                value: `${String(result.value)}!`,
+                scope: result.__scope,
+                traceId: result.traceId,
+              });
+            },
+          },
+          {
+            name: 'recover',
+            async onError(_error, event) {
+              recoveries.push(event.input);
+              return event.input === 'fallback'
+                ? createOwned({value: 'refund', scope: 'support'})
+                : event.retry();
+            },
+          },
+        ],
+      });
+      mockGenerateObject.mockRejectedValueOnce(new Error('overloaded'));
+      mockResult('cancel');
+      mockGenerateObject.mockRejectedValueOnce(new Error('overloaded'));
+      mockResult('refund');
+      mockGenerateObject.mockRejectedValueOnce(new Error('overloaded'));
+
+      const result = await client.scope('support', async (ctx) => {
+        const retried = await ctx.infer(IntentSchema, 'money back?');
+        await expect(ctx.infer(IntentSchema, 'again')).rejects.toThrow(
+          'no refunds',
+        );
+        await expect(ctx.infer(IntentSchema, 'fallback')).rejects.toThrow(
+          'no refunds',
+        );
+        return retried;
+      });
+
+      // afterInfer ran once on the retried value
+      expect(result).toMatchObject({value: 'cancel!', __scope: 'support'});
+      expect(recoveries).toEqual(['money back?', 'again', 'fallback']);
+    });
+
+    it('should not let onError override an afterInfer rejection', async () => {
+      const onError = vi.fn((_error: unknown, event: InferErrorEvent) =>
+        event.retry(),
+      );
+      const client = createMullionClient({} as LanguageModel, {
+        use: [
+          {
+            name: 'reject-refunds',
+            afterInfer(result) {
+              if (result.value === 'refund') throw new Error('no refunds');
+            },
+          },
+          {name: 'retry', onError},
+        ],
+      });
+      mockResult('refund');
+
+      await expect(
+        client.scope('support', (ctx) => ctx.infer(IntentSchema, 'refund?')),
+      ).rejects.toThrow('no refunds');
+      expect(onError).not.toHaveBeenCalled();
+      expect(mockGenerateObject).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject replacements of another shape', async () => {
+      const plain = createOwned({value: 'cancel', scope: 'support'});
+      const client = createMullionClient({} as LanguageModel, {
+        use: [
+          {
+            name: 'flatten',
+            afterInfer: (result) =>
+              result.value === 'refund' ? plain : ('cancel' as never),
+          },
+          {name: 'recover', onError: () => plain},
+        ],
+      });
+      mockResult({value: 'refund', alternatives: [], reasoning: ''});
+      mockResult('cancel');
+      mockGenerateObject.mockRejectedValueOnce(new Error('overloaded'));
+
+      await client.scope('support', async (ctx) => {
+        await expect(
+          ctx.inferSemantic(IntentSchema, 'money back?'),
+        ).rejects.toThrow(
+          'afterInfer returned a plain Owned value in place of a SemanticValue',
+        );
+        await expect(ctx.infer(IntentSchema, 'stop it')).rejects.toThrow(
+          'afterInfer returned a non-Owned value',
+        );
+        await expect(
+          ctx.inferSemantic(IntentSchema, 'money back?'),
+        ).rejects.toBeInstanceOf(InvalidArgumentError);
+      });
+    });
+
+    it('should let plugins block bridges into a scope', async () => {
+      const bridges: string[] = [];
+      const client = createMullionClient({} as LanguageModel, {
+        use: [
+          {
+            name: 'no-admin',
+            onBridge({from, to}) {
+              bridges.push(`${from} -> ${to}`);
+              if (from === 'admin') throw new Error('blocked');
+            },
+          },
+        ],
+      });
+
+      await client.scope('customer', async (ctx) => {
+        ctx.bridge(createOwned({value: 'hi', scope: 'public'}));
+        expect(() =>
+          ctx.bridge(createOwned({value: 'secret', scope: 'admin'})),
+        ).toThrow('blocked');
+      });
+
+      expect(bridges).toEqual(['public -> customer', 'admin -> customer']);
+    });
+  });
+
+  describe('schema repair', () => {
+    const InvoiceSchema = z.object({total: z.number(), currency: z.string()});
+    const usage = {inputTokens: 400, outputTokens: 30, totalTokens: 430};
+
+    const invalidOutput = (text: string) =>
+      new NoObjectGeneratedError({
+        message: 'No object generated: response did not match schema.',
+        text,
+        response: {} as never,
+        usage,
+        finishReason: 'stop',
+      });
+
+    it('should re-prompt with the validation issues', async () => {
+      const client = createMullionClient({} as LanguageModel, {
+        provider: 'openai',
+        model: 'gpt-4o-mini',
+      });
+      mockGenerateObject
+        .mockRejectedValueOnce(invalidOutput('{"total": "42"}'))
+        .mockResolvedValueOnce({
+          object: {total: 42, currency: 'EUR'},
+          finishReason: 'stop',
+          usage,
+        } as never);
+
+      const {invoice, cost} = await client.scope('billing', async (ctx) => {
+        const invoice = await ctx.infer(InvoiceSchema, 'Invoice: 42 EUR', {
+          repair: {maxRepairs: 2},
+        });
+        return {invoice, cost: ctx.getLastCallCost()};
+      });
+
+      expect(mockGenerateObject).toHaveBeenCalledTimes(2);
+      const repairPrompt = JSON.stringify(mockGenerateObject.mock.calls[1][0]);
+      expect(repairPrompt).toContain('Invoice: 42 EUR');
+      expect(repairPrompt).toContain('total: Invalid input');
+      expect(repairPrompt).toContain('currency: Invalid input');
+
+      expect(invoice).toMatchObject({
+        value: {total: 42, currency: 'EUR'},
+        __scope: 'billing',
+        confidence: 0.8,
+      });
+      expect(invoice.lineage?.hops).toMatchObject([
+        {
+          kind: 'repair',
+          from: 'billing',
+          to: 'billing',
+          metadata: {attempts: 2, lenient: false},
+        },
+      ]);
+      expect(cost?.totalCost).toBeCloseTo(
+        calculateBatchCost(
+          [
+            {usage, cacheStats: null},
+            {usage, cacheStats: null},
+          ],
+          'gpt-4o-mini',
+        ).totalCost,
+      );
+    });
+
+    it('should coerce the last output when lenient', async () => {
+      const client = createMullionClient({} as LanguageModel, {
+        repair: {maxRepairs: 0, lenient: true},
+      });
+      mockGenerateObject.mockRejectedValueOnce(
+        invalidOutput(
+          'Here it is: {"total": "42.5", "currency": "EUR", "note": "paid"}',
+        ),
+      );
+
+      const invoice = await client.scope('billing', (ctx) =>
+        ctx.infer(InvoiceSchema, 'Invoice: 42.50 EUR'),
+      );
+
+      expect(mockGenerateObject).toHaveBeenCalledTimes(1);
+      expect(invoice.value).toEqual({total: 42.5, currency: 'EUR'});
+      expect(invoice.confidence).toBe(0.5);
+      expect(invoice.lineage?.hops).toMatchObject([
+        {kind: 'repair', metadata: {attempts: 1, lenient: true}},
+      ]);
+    });
+
+    it('should throw when the output cannot be repaired', async () => {
+      const client = createMullionClient({} as LanguageModel);
+      const error = invalidOutput('not json');
+      mockGenerateObject.mockRejectedValueOnce(error);
+
+      await expect(
+        client.scope('billing', (ctx) =>
+          ctx.infer(InvoiceSchema, 'Invoice: 42 EUR'),
+        ),
+      ).rejects.toBe(error);
+      expect(mockGenerateObject).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('model routing', () => {
+    const IntentSchema = z.enum(['refund', 'cancel']);
+    const usage = {inputTokens: 1000, outputTokens: 100, totalTokens: 1100};
+    const mini = {provider: 'openai', modelId: 'gpt-4o-mini'} as LanguageModel;
+    const full = {provider: 'openai', modelId: 'gpt-4o'} as LanguageModel;
+
+    const mockResult = (object: unknown, finishReason: FinishReason) => {
+      mockGenerateObject.mockResolvedValueOnce({
+        object,
+        finishReason,
+        usage,
+      } as never);
+    };
+
+    it('should escalate when confidence is below the threshold', async () => {
+      const client = createMullionClient(mini, {
+        provider: 'openai',
+        model: 'gpt-4o-mini',
+        routing: {fallbacks: [full], minConfidence: 0.8},
+      });
+      mockResult('cancel', 'length');
+      mockResult('refund', 'stop');
+
+      const {intent, cost} = await client.scope('support', async (ctx) => {
+        const intent = await ctx.infer(IntentSchema, 'money back?');
+        return {intent, cost: ctx.getLastCallCost()};
+      });
+
+      expect(mockGenerateObject.mock.calls.map(([call]) => call.model)).toEqual(
+        [mini, full],
+      );
+      expect(intent).toMatchObject({value: 'refund', confidence: 1.0});
+      expect(intent.lineage?.hops).toMatchObject([
+        {
+          kind: 'route',
+          from: 'support',
+          to: 'support',
+          metadata: {
+            model: 'gpt-4o',
+            attempts: [
+              {model: 'gpt-4o-mini', confidence: 0.75},
+              {model: 'gpt-4o', confidence: 1.0},
+            ],
+          },
+        },
+      ]);
+      expect(cost?.totalCost).toBeCloseTo(
+        calculateCost(usage, null, 'gpt-4o-mini').totalCost +
+          calculateCost(usage, null, 'gpt-4o').totalCost,
+      );
+    });
+
+    it('should escalate failed calls and keep the most confident result', async () => {
+      const client = createMullionClient(mini, {
+        routing: {fallbacks: [full, full], minConfidence: 0.8},
+      });
+      mockGenerateObject.mockRejectedValueOnce(
+        new Error('Rate limit exceeded'),
+      );
+      mockResult('cancel', 'length');
+      mockGenerateObject.mockRejectedValueOnce(new Error('Request timed out'));
+
+      const intent = await client.scope('support', (ctx) =>
+        ctx.infer(IntentSchema, 'money back?'),
+      );
+
+      expect(mockGenerateObject).toHaveBeenCalledTimes(3);
+      expect(intent).toMatchObject({value: 'cancel', confidence: 0.75});
+      expect(intent.lineage?.hops).toMatchObject([
+        {
+          kind: 'route',
+          metadata: {
+            model: 'gpt-4o',
+            attempts: [
+              {model: 'gpt-4o-mini', error: 'Rate limit exceeded'},
+              {model: 'gpt-4o', confidence: 0.75},
+              {model: 'gpt-4o', error: 'Request timed out'},
+            ],
+          },
+        },
+      ]);
+    });
+
+    it('should only report the cost of priced calls', async () => {
+      const client = createMullionClient(mini, {
+        routing: {fallbacks: [full], minConfidence: 0.8},
+      });
+      mockResult('refund', 'stop');
+      mockResult('cancel', 'length');
+      mockResult('refund', 'stop');
+
+      const costs = await client.scope('support', async (ctx) => {
+        await ctx.infer(IntentSchema, 'money back?');
+        const first = ctx.getLastCallCost();
+        await ctx.infer(IntentSchema, 'cancel it?');
+        return [first, ctx.getLastCallCost()];
+      });
+
+      // Only fallbacks name a model to price the call with
+      expect(costs[0]).toBeNull();
+      expect(costs[1]?.totalCost).toBeCloseTo(
+        calculateCost(usage, null, 'gpt-4o').totalCost,
+      );
+    });
+
+    it('should rethrow errors that do not escalate', async () => {
+      const client = createMullionClient(mini);
+      const error = new Error('Invalid API key');
+      mockGenerateObject.mockRejectedValueOnce(error);
+
+      await expect(
+        client.scope('support', (ctx) =>
+          ctx.infer(IntentSchema, 'money back?', {
+            routing: {fallbacks: [full], escalateOn: () => false},
+          }),
+        ),
+      ).rejects.toBe(error);
+      expect(mockGenerateObject).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('scheduling', () => {
+    const IntentSchema = z.enum(['refund', 'cancel']);
+    const usage = {inputTokens: 100, outputTokens: 10, totalTokens: 110};
+
+    it('should run fork branches within the concurrency limit', async () => {
+      const client = createMullionClient({} as LanguageModel, {
+        scheduler: {maxConcurrent: 2},
+      });
+      let active = 0;
+      let maxActive = 0;
+      for (let i = 0; i < 5; i++) {
+        mockGenerateObject.mockImplementationOnce(async () => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          active--;
+          return {object: 'refund', finishReason: 'stop', usage} as never;
+        });
+      }
+
+      const {results} = await client.scope('support', (ctx) =>
+        fork(ctx, {
+          strategy: 'fast-parallel',
+          branches: [1, 2, 3, 4, 5].map(
+            (n) => (branch: Context<'support'>) =>
+              branch.infer(IntentSchema, `ticket ${n}`),
+          ),
+        }),
+      );
+
+      expect(results).toHaveLength(5);
+      expect(mockGenerateObject).toHaveBeenCalledTimes(5);
+      expect(maxActive).toBe(2);
+      // The scheduler owns retries
+      expect(mockGenerateObject.mock.calls[0][0]).toMatchObject({
+        maxRetries: 0,
+      });
+    });
+
+    it('should retry rate-limited calls', async () => {
+      const client = createMullionClient({} as LanguageModel, {
+        scheduler: {initialDelayMs: 0},
+      });
+      mockGenerateObject
+        .mockRejectedValueOnce(
+          new APICallError({
+            message: 'Too many requests',
+            url: 'https://api.example.com',
+            requestBodyValues: {},
+            statusCode: 429,
+          }),
+        )
+        .mockResolvedValueOnce({
+          object: 'cancel',
+          finishReason: 'stop',
+          usage,
+        } as never);
+
+      const intent = await client.scope('support', (ctx) =>
+        ctx.infer(IntentSchema, 'cancel please'),
+      );
+
+      expect(intent.value).toBe('cancel');
+      expect(mockGenerateObject).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('streaming', () => {
+    const ReplySchema = z.object({reply: z.string(), tone: z.string()});
+
+    const mockStream = (partials: unknown[], object: Promise<unknown>) => {
+      mockStreamObject.mockReturnValueOnce({
+        partialObjectStream: (async function* () {
+          yield* partials;
+        })(),
+        object,
+        finishReason: Promise.resolve('stop'),
+        usage: Promise.resolve({
+          inputTokens: 200,
+          outputTokens: 50,
+          totalTokens: 250,
+        }),
+        providerMetadata: Promise.resolve(undefined),
+      } as never);
+    };
+
+    it('should stream scoped snapshots and then the validated value', async () => {
+      const operations: string[] = [];
+      const client = createMullionClient({} as LanguageModel, {
+        provider: 'openai',
+        model: 'gpt-4o-mini',
+        use: [
+          {
+            name: 'ops',
+            beforeInfer: (call) => void operations.push(call.operation),
+          },
+        ],
+      });
+      const final = {reply: 'Refund issued', tone: 'warm'};
+      mockStream(
+        [{reply: 'Refund'}, {reply: 'Refund issued'}, final],
+        Promise.resolve(final),
+      );
+
+      const {snapshots, result, cost, status} = await client.scope(
+        'support',
+        async (ctx) => {
+          const stream = ctx.inferStream(ReplySchema, 'where is my money?');
+          const snapshots = [];
+          for await (const partial of stream) {
+            snapshots.push(partial);
+          }
+          return {
+            snapshots,
+            result: await stream.object,
+            cost: ctx.getLastCallCost(),
+            status: ctx.getBudgetStatus(),
+          };
+        },
+      );
+
+      expect(snapshots.map((snapshot) => snapshot.value)).toEqual([
+        {reply: 'Refund'},
+        {reply: 'Refund issued'},
+        final,
+      ]);
+      for (const snapshot of snapshots) {
+        expect(snapshot).toMatchObject({
+          __scope: 'support',
+          confidence: 0,
+          traceId: result.traceId,
+        });
+      }
+      expect(result).toMatchObject({
+        value: final,
+        __scope: 'support',
+        confidence: 1.0,
+      });
+      expect(mockStreamObject).toHaveBeenCalledWith(
+        expect.objectContaining({
+          prompt: 'where is my money?',
+          schema: ReplySchema,
+        }),
+      );
+      expect(operations).toEqual(['inferStream']);
+      expect(cost?.totalCost).toBeGreaterThan(0);
+      expect(status.spent).toMatchObject({inputTokens: 200, calls: 1});
+    });
+
+    it('should reject the stream when the final object is invalid', async () => {
+      const client = createMullionClient({} as LanguageModel);
+      mockStream([{reply: 'Hel'}], Promise.reject(new Error('invalid')));
+
+      const {snapshots, status} = await client.scope('support', async (ctx) => {
+        const stream = ctx.inferStream(ReplySchema, 'hello');
+        const snapshots: unknown[] = [];
+        await expect(
+          (async () => {
+            for await (const partial of stream) {
+              snapshots.push(partial.value);
+            }
+          })(),
+        ).rejects.toThrow('invalid');
+        await expect(stream.object).rejects.toThrow('invalid');
+        return {snapshots, status: ctx.getBudgetStatus()};
+      });
+
+      expect(snapshots).toEqual([{reply: 'Hel'}]);
+      // The failed stream is accounted at its estimate
+      expect(status.spent.calls).toBe(1);
+      expect(status.spent.inputTokens).toBeGreaterThan(0);
+      expect(status.reserved.calls).toBe(0);
+    });
+  });
+
+  describe('text generation', () => {
+    const usage = {inputTokens: 300, outputTokens: 40, totalTokens: 340};
+
+    it('should generate owned text with segments, cost and confidence', async () => {
+      const client = createMullionClient({} as LanguageModel, {
+        provider: 'openai',
+        model: 'gpt-4o-mini',
+      });
+      mockGenerateText.mockResolvedValueOnce({
+        text: 'Refunds take 5 business days.',
+        finishReason: 'length',
+        totalUsage: usage,
+        providerMetadata: undefined,
+      } as never);
+
+      const {answer, cost} = await client.scope('support', async (ctx) => {
+        ctx.cache.system('Answer from the refund policy.', {force: true});
+        const answer = await ctx.generate('How long do refunds take?');
+        return {answer, cost: ctx.getLastCallCost()};
+      });
+
+      expect(answer).toMatchObject({
+        value: 'Refunds take 5 business days.',
+        __scope: 'support',
+        confidence: 0.75,
+      });
+      expect(mockGenerateText.mock.calls[0][0]).toMatchObject({
+        messages: [
+          {role: 'system', content: 'Answer from the refund policy.'},
+          {
+            role: 'user',
+            content: [{type: 'text', text: 'How long do refunds take?'}],
+          },
+        ],
+      });
+      expect(cost?.totalCost).toBeGreaterThan(0);
+    });
+
+    it('should stream the text generated so far', async () => {
+      const client = createMullionClient({} as LanguageModel);
+      mockStreamText.mockReturnValueOnce({
+        textStream: (async function* () {
+          yield* ['Refunds ', 'take ', '5 days.'];
+        })(),
+        text: Promise.resolve('Refunds take 5 days.'),
+        finishReason: Promise.resolve('stop'),
+        totalUsage: Promise.resolve(usage),
+        providerMetadata: Promise.resolve(undefined),
+      } as never);
+
+      const {snapshots, answer} = await client.scope('support', async (ctx) => {
+        const stream = ctx.generateStream('How long do refunds take?');
+        const snapshots: string[] = [];
+        for await (const partial of stream) {
+          expect(partial.traceId).toBe(stream.traceId);
+          snapshots.push(partial.value);
+        }
+        return {snapshots, answer: await stream.text};
+      });
+
+      expect(snapshots).toEqual([
+        'Refunds ',
+        'Refunds take ',
+        'Refunds take 5 days.',
+      ]);
+      expect(answer).toMatchObject({
+        value: 'Refunds take 5 days.',
+        __scope: 'support',
+        confidence: 1.0,
+      });
+    });
+  });
+
+  describe('scoped tools', () => {
+    const StatusSchema = z.object({status: z.string()});
+    const usage = {inputTokens: 500, outputTokens: 60, totalTokens: 560};
+
+    const lookupOrder = defineScopedTool({
+      inputSchema: z.object({orderId: z.string()}),
+      accepts: ['internal'],
+      produces: 'tool:orders',
+      execute: vi.fn(({orderId}: {orderId: string}) => ({
+        orderId,
+        status: 'shipped',
+      })),
+    });
+
+    // Calls the tool like the AI SDK does: failures go back to the model
+    const mockToolLoop = () => {
+      mockGenerateText.mockImplementationOnce((async ({
+        tools,
+      }: {
+        tools: Record<string, {execute: (...args: unknown[]) => unknown}>;
+      }) => {
+        await Promise.resolve(
+          tools.lookupOrder.execute(
+            {orderId: 'A-1'},
+            {toolCallId: 'call-1', messages: []},
+          ),
+        ).catch(() => undefined);
+        return {
+          output: {status: 'Order A-1 has shipped'},
+          finishReason: 'stop',
+          totalUsage: usage,
+          providerMetadata: undefined,
+        };
+      }) as never);
+    };
+
+    it('should infer with tool results owned by the tool scope', async () => {
+      const client = createMullionClient({} as LanguageModel);
+      mockToolLoop();
+
+      const {value, toolResults} = await client.scope('internal', (ctx) =>
+        ctx.inferWithTools(StatusSchema, 'Where is order A-1?', {
+          tools: {lookupOrder},
+        }),
+      );
+
+      expect(value).toMatchObject({
+        value: {status: 'Order A-1 has shipped'},
+        __scope: 'internal',
+        confidence: 1.0,
+      });
+      expect(toolResults).toHaveLength(1);
+      expect(toolResults[0].output).toMatchObject({
+        value: {orderId: 'A-1', status: 'shipped'},
+        __scope: 'tool:orders',
+        traceId: value.traceId,
+      });
+      expect(value.lineage?.hops).toMatchObject([
+        {kind: 'context', from: 'tool:orders', to: 'internal'},
+      ]);
+      expect(mockGenerateText.mock.calls[0][0]).toMatchObject({
+        prompt: 'Where is order A-1?',
+        tools: {lookupOrder: expect.any(Object)},
+      });
+    });
+
+    it('should reject tool calls from scopes the tool does not accept', async () => {
+      const client = createMullionClient({} as LanguageModel);
+      mockToolLoop();
+
+      const error = await client
+        .scope('customer', (ctx) =>
+          ctx.inferWithTools(StatusSchema, 'Where is my order A-1?', {
+            tools: {lookupOrder},
+          }),
+        )
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(ToolScopeViolationError);
+      expect(error).toMatchObject({
+        toolName: 'lookupOrder',
+        sourceScope: 'customer',
+      });
+      expect(lookupOrder.execute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('agents', () => {
+    const usage = {inputTokens: 400, outputTokens: 50, totalTokens: 450};
+
+    const lookupCustomer = defineScopedTool({
+      inputSchema: z.object({email: z.string()}),
+      accepts: ['support', 'tool:crm'],
+      produces: 'tool:crm',
+      execute: ({email}: {email: string}) => ({email, plan: 'pro'}),
+    });
+    const lookupInvoice = defineScopedTool({
+      inputSchema: z.object({email: z.string()}),
+      accepts: ['support', 'tool:crm'],
+      produces: 'tool:billing',
+      execute: vi.fn(() => ({due: 42})),
+    });
+
+    interface LoopCall {
+      tools: Record<string, {execute: (...args: unknown[]) => unknown}>;
+      prepareStep: (options: {steps: {usage: typeof usage}[]}) => unknown;
+      onStepFinish: (step: object) => void;
+    }
+
+    // Runs one tool call per turn, then answers, like the AI SDK loop
+    const mockAgentLoop = (toolNames: string[], answer: string) => {
+      mockGenerateText.mockImplementationOnce((async ({
+        tools,
+        prepareStep,
+        onStepFinish,
+      }: LoopCall) => {
+        const steps: {usage: typeof usage}[] = [];
+        const turn = (text: string, finishReason: FinishReason) => {
+          const step = {text, finishReason, usage};
+          onStepFinish(step);
+          steps.push(step);
+        };
+        for (const [index, toolName] of toolNames.entries()) {
+          prepareStep({steps});
+          const failed = await Promise.resolve(
+            tools[toolName].execute(
+              {email: 'ada@example.com'},
+              {toolCallId: `call-${index}`, messages: []},
+            ),
+          ).then(
+            () => false,
+            () => true,
+          );
+          turn('', 'tool-calls');
+          if (failed) break;
+        }
+        prepareStep({steps});
+        turn(answer, 'stop');
+        return {
+          output: answer,
+          finishReason: 'stop',
+          totalUsage: usage,
+          providerMetadata: undefined,
+        };
+      }) as never);
+    };
+
+    it('should return a union-scoped answer with a transcript', async () => {
+      const client = createMullionClient({} as LanguageModel);
+      mockAgentLoop(['lookupCustomer', 'lookupInvoice'], 'Ada owes $42');
+
+      const {run, status} = await client.scope('support', async (ctx) => {
+        const agent = ctx.agent({tools: {lookupCustomer, lookupInvoice}});
+        return {
+          run: await agent.run('Why was Ada charged?'),
+          status: ctx.getBudgetStatus(),
+        };
+      });
+
+      expectTypeOf(run.value).toEqualTypeOf<
+        Owned<string, 'support' | 'tool:crm' | 'tool:billing'>
+      >();
+      expect(run.value).toMatchObject({
+        value: 'Ada owes $42',
+        __scope: 'support',
+      });
+      expect(run.scopes).toEqual(['support', 'tool:crm', 'tool:billing']);
+      expect(
+        run.steps.map((step) => [
+          step.finishReason,
+          step.toolResults.map((result) => result.output.__scope),
+          step.scopes.length,
+        ]),
+      ).toEqual([
+        ['tool-calls', ['tool:crm'], 2],
+        ['tool-calls', ['tool:billing'], 3],
+        ['stop', [], 3],
+      ]);
+      expect(status.spent).toMatchObject({inputTokens: 1200, calls: 3});
+      expect(status.reserved.calls).toBe(0);
+    });
+
+    it('should stop before reading a scope beyond the ceiling', async () => {
+      const client = createMullionClient({} as LanguageModel);
+      mockAgentLoop(['lookupCustomer', 'lookupInvoice'], 'Ada owes $42');
+
+      const error = await client
+        .scope('support', (ctx) =>
+          ctx
+            .agent({
+              tools: {lookupCustomer, lookupInvoice},
+              ceiling: ['tool:crm'],
+            })
+            .run('Why was Ada charged?'),
+        )
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(ScopeCeilingExceededError);
+      expect(error).toMatchObject({scope: 'tool:billing'});
+      expect(lookupInvoice.execute).not.toHaveBeenCalled();
+    });
+
+    it('should check bridges of the answer against the scopes it read', async () => {
+      const client = createMullionClient({} as LanguageModel);
+      mockAgentLoop(['lookupCustomer', 'lookupInvoice'], 'Ada owes $42');
+      setScopeRegistry(
+        defineScopes({
+          levels: ['support', 'reporting', 'tool:billing'],
+          allow: [{from: 'tool:billing', to: 'support'}],
+        }),
+      );
+
+      try {
+        const {value} = await client.scope('support', (ctx) =>
+          ctx
+            .agent({tools: {lookupCustomer, lookupInvoice}})
+            .run('Why was Ada charged?'),
+        );
+
+        expect(() => bridge(value, 'reporting')).toThrow(
+          /'tool:billing' may not flow to scope 'reporting'/,
+        );
+        expect(
+          bridge(createOwned({value: 'faq', scope: 'support'}), 'reporting')
+            .__scope,
+        ).toBe('reporting');
+      } finally {
+        clearScopeRegistry();
+      }
+    });
+
+    it('should check every turn against the scope budget', async () => {
+      const client = createMullionClient({} as LanguageModel);
+      mockAgentLoop(['lookupCustomer'], 'Ada is on the pro plan');
+
+      await expect(
+        client.scope(
+          'support',
+          (ctx) =>
+            ctx.agent({tools: {lookupCustomer}}).run('Which plan is Ada on?'),
+          {budget: {maxCalls: 1}},
+        ),
+      ).rejects.toBeInstanceOf(BudgetExceededError);
+    });
+  });
+
+  describe('self-consistency sampling', () => {
+    const IntentSchema = z.enum(['refund', 'cancel', 'question']);
+
+    const mockSample = (object: unknown) => {
+      mockGenerateObject.mockResolvedValueOnce({
+        object,
+        finishReason: 'stop',
+        usage: {promptTokens: 10, completionTokens: 5, totalTokens: 15},
+        warnings: undefined,
+        request: {} as never,
+        response: {} as never,
+        rawResponse: {} as never,
+      });
+    };
+
+    it('should derive confidence from agreement between samples', async () => {
+      const client = createMullionClient({} as LanguageModel);
+      ['refund', 'cancel', 'refund', 'refund', 'question'].forEach(mockSample);
+
+      const result = await client.scope('support', (ctx) =>
+        ctx.infer(IntentSchema, 'I want my money back', {
+          sampling: {samples: 5},
+        }),
+      );
+
+      expect(mockGenerateObject).toHaveBeenCalledTimes(5);
+      expect(isSemanticValue(result)).toBe(true);
+      expect(result.value).toBe('refund');
+      expect(result.__scope).toBe('support');
+      expect(result.confidence).toBeCloseTo(0.6);
+      if (!isSemanticValue(result)) throw new Error('expected SemanticValue');
+      expect(result.alternatives.map((a) => a.value)).toEqual([
+        'cancel',
+        'question',
+      ]);
+      expect(result.alternatives[0].confidence).toBeCloseTo(0.2);
+      expect(result.reasoning).toBe('3 of 5 samples agreed');
+    });
+
+    it('should merge object samples field by field', async () => {
+      const client = createMullionClient({} as LanguageModel);
+      const TicketSchema = z.object({
+        category: z.string(),
+        tags: z.array(z.string()),
+      });
+      mockSample({category: 'billing', tags: ['refund']});
+      mockSample({category: 'billing', tags: ['refund']});
+      mockSample({category: 'billing', tags: ['refund']});
+
+      const result = await client.scope('support', (ctx) =>
+        ctx.infer(TicketSchema, 'ticket', {sampling: {samples: 3}}),
+      );
+
+      expect(result.value).toEqual({category: 'billing', tags: ['refund']});
+      expect(result.confidence).toBe(1);
+    });
+
+    it('should reject fewer than two samples', async () => {
+      const client = createMullionClient({} as LanguageModel);
+
+      await expect(
+        client.scope('support', (ctx) =>
+          ctx.infer(IntentSchema, 'input', {sampling: {samples: 1}}),
+        ),
+      ).rejects.toThrow(/at least 2/);
+      expect(mockGenerateObject).not.toHaveBeenCalled();
+    });
+  });
+
   describe('confidence extraction', () => {
     it('should extract confidence 1.0 for finishReason "stop"', async () => {
       const mockModel = {} as LanguageModel;
@@ -390,6 +1951,71 @@ describe('createMullionClient', () => {
 
       expect(result.confidence).toBe(0.3);
     });
+
+    it('should use a custom confidenceEstimator', async () => {
+      const estimate = vi.fn(() => 0.42);
+      const client = createMullionClient({} as LanguageModel, {
+        confidenceEstimator: {name: 'fixed', estimate},
+      });
+
+      const TestSchema = z.object({data: z.string()});
+
+      mockGenerateObject.mockResolvedValueOnce({
+        object: {data: 'x'},
+        finishReason: 'stop',
+        providerMetadata: {openai: {}},
+        usage: {promptTokens: 10, completionTokens: 5, totalTokens: 15},
+        warnings: undefined,
+        request: {} as never,
+        response: {} as never,
+        rawResponse: {} as never,
+      });
+
+      const result = await client.scope('test', (ctx) =>
+        ctx.infer(TestSchema, 'input'),
+      );
+
+      expect(result.confidence).toBe(0.42);
+      expect(estimate).toHaveBeenCalledWith({
+        finishReason: 'stop',
+        providerMetadata: {openai: {}},
+        schema: TestSchema,
+        object: {data: 'x'},
+      });
+    });
+
+    it('should derive confidence from logprobs when available', async () => {
+      const client = createMullionClient({} as LanguageModel, {
+        confidenceEstimator: createLogprobConfidenceEstimator(),
+      });
+
+      const IntentSchema = z.object({intent: z.enum(['refund', 'cancel'])});
+
+      mockGenerateObject.mockResolvedValueOnce({
+        object: {intent: 'refund'},
+        finishReason: 'stop',
+        providerMetadata: {
+          openai: {
+            logprobs: [
+              {token: '{"intent":', logprob: 0},
+              {token: '"refund"', logprob: Math.log(0.6)},
+              {token: '}', logprob: 0},
+            ],
+          },
+        },
+        usage: {promptTokens: 10, completionTokens: 5, totalTokens: 15},
+        warnings: undefined,
+        request: {} as never,
+        response: {} as never,
+        rawResponse: {} as never,
+      });
+
+      const result = await client.scope('test', (ctx) =>
+        ctx.infer(IntentSchema, 'input'),
+      );
+
+      expect(result.confidence).toBeCloseTo(0.6);
+    });
   });
 });
 
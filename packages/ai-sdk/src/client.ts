@@ -1,8 +1,52 @@
-import type {LanguageModel, FinishReason, ModelMessage, Prompt} from 'ai';
-import {generateObject} from 'ai';
-import type {z} from 'zod';
-import {createOwned} from '@mullion/core';
-import type {Context, InferOptions, Owned} from '@mullion/core';
+import type {
+  DeepPartial,
+  FinishReason,
+  LanguageModel,
+  LanguageModelUsage,
+  ModelMessage,
+  Prompt,
+  ProviderMetadata,
+  StopCondition,
+  ToolSet,
+} from 'ai';
+import {
+  NoObjectGeneratedError,
+  Output,
+  generateObject,
+  generateText,
+  stepCountIs,
+  streamObject,
+  streamText,
+  wrapLanguageModel,
+} from 'ai';
+import {z} from 'zod';
+import {
+  InvalidConfigurationError,
+  MemoryCacheStore,
+  ScopeMismatchError,
+  appendLineageHop,
+  assertOwnedScopeFlow,
+  calibrateConfidence,
+  createAsyncScopedCache,
+  createCacheKey,
+  createOwned,
+  createSemanticValue,
+  emitAuditEvent,
+  emitBridgeAuditEvent,
+  enforceConfidencePolicy,
+  fork,
+  getCalibrationRegistry,
+} from '@mullion/core';
+import type {
+  BridgeOptions,
+  ConfidencePolicy,
+  Context,
+  InferOptions,
+  Lineage,
+  Owned,
+  ScopedCacheStore,
+  SemanticValue,
+} from '@mullion/core';
 import type {CacheSegmentManager} from './cache/segments.js';
 import {createCacheSegmentManager} from './cache/segments.js';
 import {createDefaultCacheConfig, createGeminiAdapter} from './cache/types.js';
@@ -10,8 +54,45 @@ import type {Provider} from './cache/capabilities.js';
 import type {CacheStats} from './cache/metrics.js';
 import {CacheMetricsCollector} from './cache/metrics.js';
 import type {CostBreakdown, TokenUsage} from './cost/calculator.js';
-import {calculateCost, estimateCost} from './cost/calculator.js';
+import {calculateCost, combineCosts, estimateCost} from './cost/calculator.js';
 import {estimateTokens} from './cost/tokens.js';
+import {computeSchemaSignature} from './cache/schema-conflict.js';
+import type {
+  ResultCacheMode,
+  ResultCacheOptions,
+} from './cache/result-cache.js';
+import {computeResultCacheKey} from './cache/result-cache.js';
+import {
+  DEFAULT_MAX_ALTERNATIVES,
+  buildSemanticSystemPrompt,
+  createSemanticSchema,
+  toSemanticParts,
+} from './semantic.js';
+import type {ConfidenceEstimator} from './confidence.js';
+import {finishReasonConfidenceEstimator} from './confidence.js';
+import type {SamplingOptions} from './sampling.js';
+import type {BudgetStatus, ScopeBudget} from './budget.js';
+import {createBudgetTracker} from './budget.js';
+import type {InferCall, MullionPlugin} from './plugins.js';
+import {createPluginPipeline} from './plugins.js';
+import type {ScopedToolResult, ScopedToolSet, ToolScope} from './tools.js';
+import {createToolRuntime} from './tools.js';
+import type {RepairAttempt, SchemaRepairOptions} from './repair.js';
+import {
+  buildRepairPrompt,
+  describeSchemaIssues,
+  parseLeniently,
+  repairedConfidence,
+} from './repair.js';
+import type {ModelAttempt, ModelRoutingOptions} from './routing.js';
+import {isEscalatableError, validateRoutingOptions} from './routing.js';
+import type {
+  RequestScheduler,
+  ScheduledRequest,
+  SchedulerOptions,
+} from './scheduler.js';
+import {createRequestScheduler} from './scheduler.js';
+import {aggregateSamples, validateSamplingOptions} from './sampling.js';
 
 type JsonValue =
   | null
@@ -24,6 +105,46 @@ type JsonValue =
 type ProviderPromptOptions = Record<string, Record<string, JsonValue>>;
 type ProviderCallOptions = Record<string, Record<string, JsonValue>>;
 
+/**
+ * What a finished provider call reports, for cost and confidence.
+ */
+interface ProviderCallResult<T> {
+  object: T;
+  finishReason: FinishReason;
+  usage?: LanguageModelUsage;
+  providerMetadata?: ProviderMetadata;
+}
+
+/**
+ * A structured inference, ready to be wrapped in an Owned or
+ * SemanticValue.
+ */
+interface InferenceResult<T> {
+  object: T;
+  confidence: number;
+  traceId: string;
+  lineage?: Lineage;
+}
+
+/**
+ * Schema of generated text, seen by plugins, confidence estimators and
+ * calibration.
+ */
+const TEXT_SCHEMA = z.string();
+
+/**
+ * Turns a stream of text deltas into the text generated so far.
+ */
+async function* accumulateText(
+  deltas: AsyncIterable<string>,
+): AsyncGenerator<string> {
+  let text = '';
+  for await (const delta of deltas) {
+    text += delta;
+    yield text;
+  }
+}
+
 function mergeProviderCallOptions(
   base: ProviderCallOptions | undefined,
   additional: ProviderCallOptions,
@@ -52,6 +173,20 @@ function readGoogleCachedContent(
     : undefined;
 }
 
+/**
+ * Returns a shallow copy of `value` without the given keys.
+ */
+function omitKeys<T extends object, K extends keyof T>(
+  value: T,
+  keys: readonly K[],
+): Omit<T, K> {
+  const rest: Partial<T> = {...value};
+  for (const key of keys) {
+    delete rest[key];
+  }
+  return rest as Omit<T, K>;
+}
+
 function withoutGoogleCachedContent(
   options: ProviderCallOptions | undefined,
 ): ProviderCallOptions | undefined {
@@ -72,47 +207,20 @@ function withoutGoogleCachedContent(
 }
 
 /**
- * Confidence scores mapped to LLM finish reasons.
- *
- * These values represent how confident we can be in the LLM output
- * based on why it stopped generating.
- */
-const FINISH_REASON_CONFIDENCE: Record<FinishReason, number> = {
-  /** Model completed naturally - highest confidence */
-  stop: 1.0,
-  /** Model made tool calls - high confidence (intentional action) */
-  'tool-calls': 0.95,
-  /** Output truncated due to token limit - medium-high confidence */
-  length: 0.75,
-  /** Content was filtered - medium confidence */
-  'content-filter': 0.6,
-  /** Unknown reason - medium confidence */
-  other: 0.5,
-  /** Error occurred - low confidence */
-  error: 0.3,
-};
-
-/**
- * Extract a confidence score from the LLM finish reason.
- *
- * This function maps the finish reason to a confidence score between 0 and 1.
- * The mapping is based on how reliable the output is likely to be given
- * why the model stopped generating.
+ * Compact, stable calibration key for a schema: an FNV-1a hash of its
+ * structural signature.
  *
- * @param finishReason - The reason the model finished generating
- * @returns A confidence score between 0 and 1
- *
- * @example
- * ```typescript
- * extractConfidenceFromFinishReason('stop');    // 1.0
- * extractConfidenceFromFinishReason('length');  // 0.75
- * extractConfidenceFromFinishReason('error');   // 0.3
- * ```
+ * @param schema - Zod schema passed to infer()
+ * @returns A key like `schema-1a2b3c4d`
  */
-export function extractConfidenceFromFinishReason(
-  finishReason: FinishReason,
-): number {
-  return FINISH_REASON_CONFIDENCE[finishReason] ?? 0.5;
+export function getCalibrationSchemaKey(schema: z.ZodType): string {
+  const signature = computeSchemaSignature(schema);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < signature.length; i++) {
+    hash ^= signature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `schema-${(hash >>> 0).toString(16).padStart(8, '0')}`;
 }
 
 /**
@@ -182,13 +290,42 @@ export interface MullionClient {
    *   });
    * });
    * ```
+   *
+   * @example
+   * ```typescript
+   * // Stop spending once the scope reaches its budget
+   * await client.scope(
+   *   'triage',
+   *   async (ctx) => {
+   *     const result = await ctx.infer(TriageSchema, ticket);
+   *     console.log(ctx.getBudgetStatus().remaining.usd);
+   *     return result;
+   *   },
+   *   {budget: {maxUsd: 0.5, maxCalls: 20}},
+   * );
+   * ```
    */
   scope<S extends string, R>(
     name: S,
     fn: (ctx: MullionContext<S>) => Promise<R>,
+    options?: MullionScopeOptions,
   ): Promise<R>;
 }
 
+/**
+ * Options for a single `client.scope()` call.
+ */
+export interface MullionScopeOptions {
+  /**
+   * Limits for the provider calls made in this scope, including fork
+   * branches and sampling. Each call is checked against its estimate
+   * before it is made (throwing `BudgetExceededError`) and accounted at
+   * its actual usage afterwards. Nested `client.scope()` calls have their
+   * own budgets.
+   */
+  budget?: ScopeBudget;
+}
+
 /**
  * Creates a Mullion client with Vercel AI SDK integration.
  *
@@ -247,6 +384,77 @@ export interface MullionClientOptions {
 
   /** Default provider-specific options for all infer() calls */
   readonly providerOptions?: ProviderCallOptions;
+
+  /**
+   * Derives the confidence of every result (default: finish-reason mapping).
+   * See `createLogprobConfidenceEstimator()` for logprob-based confidence.
+   */
+  readonly confidenceEstimator?: ConfidenceEstimator;
+
+  /**
+   * Confidence policies applied by `ctx.require()`, keyed by scope name.
+   */
+  readonly confidencePolicies?: Readonly<
+    Record<string, MullionConfidencePolicy>
+  >;
+
+  /**
+   * Memoize inference results per scope (default: disabled). `true` uses
+   * an in-memory LRU store; pass {@link ResultCacheOptions} for a shared
+   * store or a TTL. Identical calls (schema, model, input, cache segments
+   * and options) in the same scope then skip the provider.
+   */
+  readonly resultCache?: boolean | ResultCacheOptions;
+
+  /**
+   * Plugins run around the operations of every scope (inference, bridges,
+   * errors, scope enter and exit), in order.
+   */
+  readonly use?: readonly MullionPlugin[];
+
+  /**
+   * Default schema repair for every `infer()` call (default: disabled).
+   * See {@link SchemaRepairOptions}.
+   */
+  readonly repair?: SchemaRepairOptions;
+
+  /**
+   * Model fallback chain for every `infer()` call (default: disabled).
+   * See {@link ModelRoutingOptions}.
+   */
+  readonly routing?: ModelRoutingOptions;
+
+  /**
+   * Concurrency and rate limits of provider calls (default: none). Pass
+   * {@link SchedulerOptions}, or a scheduler from
+   * `createRequestScheduler()` to share limits between clients.
+   */
+  readonly scheduler?: SchedulerOptions | RequestScheduler;
+}
+
+/**
+ * Confidence policy for `ctx.require()`.
+ *
+ * Extends the core {@link ConfidencePolicy} with the model used by the
+ * `retry` action.
+ *
+ * @example
+ * ```typescript
+ * const client = createMullionClient(openai('gpt-4o-mini'), {
+ *   confidencePolicies: {
+ *     intake: {minConfidence: 0.8, action: 'retry', retryModel: openai('gpt-4o')},
+ *   },
+ * });
+ * ```
+ */
+export interface MullionConfidencePolicy<
+  T = unknown,
+> extends ConfidencePolicy<T> {
+  /**
+   * Model used to re-run the inference for the `retry` action
+   * (default: the model of the original call).
+   */
+  readonly retryModel?: LanguageModel;
 }
 
 /**
@@ -263,6 +471,276 @@ export interface CacheOptions {
 export interface MullionInferOptions extends InferOptions, CacheOptions {
   /** Provider-specific options for this inference call */
   readonly providerOptions?: ProviderCallOptions;
+
+  /**
+   * Self-consistency sampling. When set, the inference runs
+   * `sampling.samples` times and the result is a SemanticValue whose
+   * confidence is the agreement between samples (see {@link SamplingOptions}).
+   */
+  readonly sampling?: SamplingOptions;
+
+  /**
+   * Model for this call instead of the client's model. Cost and
+   * calibration are attributed to this model.
+   */
+  readonly model?: LanguageModel;
+
+  /**
+   * Result cache mode for this call when the client has a `resultCache`
+   * (default: `'use'`).
+   */
+  readonly resultCache?: ResultCacheMode;
+
+  /**
+   * Re-prompt the model when its output does not match the schema,
+   * instead of throwing (default: the client's `repair`, or disabled).
+   * Repaired values have a lower confidence and a `repair` lineage hop.
+   */
+  readonly repair?: SchemaRepairOptions;
+
+  /**
+   * Escalate to fallback models when the call fails or its confidence is
+   * too low (default: the client's `routing`, or disabled). The result
+   * gets a `route` lineage hop naming the model that produced it.
+   */
+  readonly routing?: ModelRoutingOptions;
+}
+
+/**
+ * Options for inferSemantic().
+ */
+export interface MullionSemanticInferOptions extends MullionInferOptions {
+  /**
+   * Maximum number of alternatives to request from the model.
+   *
+   * @default 3
+   */
+  readonly maxAlternatives?: number;
+}
+
+/**
+ * Options for inferStream(). Streams are never sampled, never include
+ * alternatives, are never memoized in the result cache, and are never
+ * repaired or routed.
+ */
+export type MullionStreamInferOptions = Omit<
+  MullionInferOptions,
+  'sampling' | 'includeAlternatives' | 'resultCache' | 'repair' | 'routing'
+>;
+
+/**
+ * A streaming inference, returned by `ctx.inferStream()`.
+ *
+ * Iterate it for partial snapshots of the object as it is generated, and
+ * await `object` for the validated result. Every snapshot and the result
+ * share the scope and `traceId`.
+ *
+ * @template T - Type of the complete object
+ * @template S - Scope of the values
+ */
+export interface MullionInferStream<T, S extends string> extends AsyncIterable<
+  Owned<DeepPartial<T>, S>
+> {
+  /**
+   * Trace ID shared by every snapshot and the final value.
+   */
+  readonly traceId: string;
+
+  /**
+   * The validated object, with its confidence, once the stream finishes.
+   * Rejects if the stream fails or the object does not match the schema.
+   */
+  readonly object: Promise<Owned<T, S>>;
+}
+
+/**
+ * Options for generate() and generateStream(): the same as for
+ * inferStream().
+ */
+export type MullionGenerateOptions = MullionStreamInferOptions;
+
+/**
+ * A streaming text generation, returned by `ctx.generateStream()`.
+ *
+ * Iterate it for the text generated so far, and await `text` for the
+ * complete text. Every snapshot and the result share the scope and
+ * `traceId`.
+ *
+ * @template S - Scope of the values
+ */
+export interface MullionTextStream<S extends string> extends AsyncIterable<
+  Owned<string, S>
+> {
+  /**
+   * Trace ID shared by every snapshot and the final text.
+   */
+  readonly traceId: string;
+
+  /**
+   * The complete text, with its confidence, once the stream finishes.
+   * Rejects if the stream fails.
+   */
+  readonly text: Promise<Owned<string, S>>;
+}
+
+/**
+ * Options for inferWithTools().
+ *
+ * @template Tools - Scoped tools the model may call
+ */
+export interface MullionToolInferOptions<
+  Tools extends ScopedToolSet,
+> extends MullionGenerateOptions {
+  /**
+   * Tools the model may call, defined with `defineScopedTool()`.
+   */
+  tools: Tools;
+
+  /**
+   * Maximum number of model steps: tool call rounds plus the final
+   * answer.
+   * @default 5
+   */
+  maxSteps?: number;
+}
+
+/**
+ * Result of `ctx.inferWithTools()`.
+ *
+ * @template T - Type of the inferred value
+ * @template S - Scope of the context
+ * @template P - Result scopes of the tools
+ */
+export interface MullionToolInference<T, S extends string, P extends string> {
+  /**
+   * The inferred value, owned by the context's scope. Tool results only
+   * reached the model after passing the scope policy; its lineage records
+   * a hop from every tool scope read, so bridges of the value are checked
+   * against them.
+   */
+  readonly value: Owned<T, S>;
+
+  /**
+   * Tool calls made during the inference, in order, with results owned by
+   * each tool's `produces` scope.
+   */
+  readonly toolResults: readonly ScopedToolResult<P>[];
+}
+
+/**
+ * Configuration of an agent created with `ctx.agent()`.
+ *
+ * @template Tools - Scoped tools the agent may call
+ * @template T - Type of the final answer (text without a `schema`)
+ */
+export interface MullionAgentOptions<
+  Tools extends ScopedToolSet,
+  T = string,
+> extends MullionGenerateOptions {
+  /**
+   * Tools the agent may call, defined with `defineScopedTool()`.
+   */
+  tools: Tools;
+
+  /**
+   * Schema of the final answer. Without one, the answer is text.
+   */
+  schema?: z.ZodType<T>;
+
+  /**
+   * Maximum number of model turns.
+   * @default 10
+   */
+  maxSteps?: number;
+
+  /**
+   * Additional AI SDK stop conditions, e.g. `hasToolCall('escalate')`.
+   */
+  stopWhen?: StopCondition<ToolSet> | StopCondition<ToolSet>[];
+
+  /**
+   * Scopes the run may read besides the context's own. A tool whose result
+   * would add any other scope is not executed and the run is aborted with
+   * `ScopeCeilingExceededError`. Without a ceiling, the run may read every
+   * scope its tools produce.
+   */
+  ceiling?: readonly string[];
+}
+
+/**
+ * One model turn of an agent run.
+ *
+ * @template P - Result scopes of the tools
+ */
+export interface MullionAgentStep<P extends string> {
+  /**
+   * Index of the turn, from 0.
+   */
+  readonly stepNumber: number;
+
+  /**
+   * Text the model generated in the turn.
+   */
+  readonly text: string;
+
+  /**
+   * Why the turn ended (`tool-calls` when the model called tools).
+   */
+  readonly finishReason: FinishReason;
+
+  /**
+   * Tool calls executed in the turn, with results owned by each tool's
+   * `produces` scope.
+   */
+  readonly toolResults: readonly ScopedToolResult<P>[];
+
+  /**
+   * Scopes read by the run after the turn.
+   */
+  readonly scopes: readonly string[];
+}
+
+/**
+ * Result of an agent run.
+ *
+ * @template T - Type of the final answer
+ * @template S - Scope of the context
+ * @template P - Result scopes of the tools
+ */
+export interface MullionAgentRun<T, S extends string, P extends string> {
+  /**
+   * Final answer. It may be derived from every scope the run read, so its
+   * scope type is the union of the context's and the tools' scopes, and its
+   * lineage records a hop from every tool scope read: bridges of the answer
+   * are checked against all of them.
+   */
+  readonly value: Owned<T, S | P>;
+
+  /**
+   * Transcript of the run, one entry per model turn.
+   */
+  readonly steps: readonly MullionAgentStep<P>[];
+
+  /**
+   * Scopes the run read: the context's scope and those of the tool
+   * results, in the order they were first read.
+   */
+  readonly scopes: readonly string[];
+}
+
+/**
+ * An agent bound to a scope, created with `ctx.agent()`.
+ *
+ * @template T - Type of the final answer
+ * @template S - Scope of the context
+ * @template P - Result scopes of the tools
+ */
+export interface MullionAgent<T, S extends string, P extends string> {
+  /**
+   * Runs the agent loop (model turn, tool calls, model turn, ...) on an
+   * input until the model answers or a stop condition is met.
+   */
+  run(input: string): Promise<MullionAgentRun<T, S, P>>;
 }
 
 /**
@@ -272,64 +750,270 @@ export interface MullionContext<S extends string> extends Context<S> {
   /** Cache segments manager for this context */
   readonly cache: CacheSegmentManager;
 
-  /** Enhanced infer method with cache options */
+  /**
+   * Enhanced infer method with cache options.
+   *
+   * With `includeAlternatives: true` the result is a SemanticValue (see
+   * {@link MullionContext.inferSemantic}); use `isSemanticValue()` to narrow.
+   *
+   * With `sampling` the inference runs several times and the result is a
+   * SemanticValue whose confidence is the agreement between samples and
+   * whose alternatives are the minority answers.
+   *
+   * @example
+   * ```typescript
+   * const intent = await ctx.infer(IntentSchema, message, {
+   *   sampling: {samples: 5},
+   * });
+   *
+   * intent.confidence; // 0.8 when 4 of 5 samples agree
+   * ```
+   */
   infer<T>(
     schema: z.ZodType<T> & {_type?: T},
     input: string,
     options?: MullionInferOptions,
   ): Promise<Owned<T, S>>;
 
-  /** Get aggregated cache statistics for this context */
-  getCacheStats(): CacheStats;
-
   /**
-   * Get cost breakdown for the last API call made in this context.
+   * Infer a value together with ranked alternatives and reasoning.
    *
-   * Returns detailed cost information including input/output costs,
-   * cache costs, and savings analysis. Returns null if no calls have
-   * been made yet.
-   *
-   * @returns Cost breakdown from last infer() call or null
+   * The model is asked for its chosen value, up to `maxAlternatives` other
+   * plausible values with confidence scores, and a short explanation. The
+   * value and every alternative are validated against `schema`.
    *
    * @example
    * ```typescript
-   * await ctx.infer(schema, prompt);
-   * const cost = ctx.getLastCallCost();
-   * if (cost) {
-   *   console.log(`Total: $${cost.totalCost.toFixed(4)}`);
-   *   console.log(`Savings: ${cost.savingsPercent.toFixed(1)}%`);
-   * }
+   * const intent = await ctx.inferSemantic(IntentSchema, message);
+   *
+   * intent.value; // 'refund'
+   * intent.alternatives; // [{value: 'cancel', confidence: 0.4}]
+   * intent.reasoning; // 'Customer asks for their money back'
    * ```
    */
-  getLastCallCost(): CostBreakdown | null;
+  inferSemantic<T>(
+    schema: z.ZodType<T> & {_type?: T},
+    input: string,
+    options?: MullionSemanticInferOptions,
+  ): Promise<SemanticValue<T, S>>;
 
   /**
-   * Estimate cost for a potential API call before making it.
+   * Infer a typed value, streaming partial snapshots while the model
+   * generates it.
    *
-   * Provides pre-call cost estimation based on token count estimation
-   * and current model pricing. Useful for cost-aware decision making.
-   *
-   * @param prompt - The prompt text to estimate cost for
-   * @param estimatedOutputTokens - Expected output tokens (default: 500)
-   * @returns Estimated cost breakdown
+   * Snapshots are unvalidated, so their confidence is 0; the final
+   * `object` is validated against `schema` and carries the real
+   * confidence. Cache metrics, cost and budget usage are recorded once
+   * the stream finishes. Plugin hooks run as for `infer()`, with
+   * `afterInfer` applied to the final value.
    *
    * @example
    * ```typescript
-   * const estimate = ctx.estimateNextCallCost(longDocument);
-   * if (estimate.totalCost > 0.10) {
-   *   console.warn('This call will be expensive!');
+   * const stream = ctx.inferStream(ReplySchema, ticket);
+   *
+   * for await (const partial of stream) {
+   *   render(partial.value.reply ?? '');
    * }
-   * await ctx.infer(schema, longDocument);
+   *
+   * const reply = await stream.object; // Owned<Reply, 'support'>
    * ```
+   */
+  inferStream<T>(
+    schema: z.ZodType<T> & {_type?: T},
+    input: string,
+    options?: MullionStreamInferOptions,
+  ): MullionInferStream<T, S>;
+
+  /**
+   * Generate free text, such as a plain answer, without a schema.
+   *
+   * Uses the same cache segments, cost tracking, metrics collection and
+   * confidence extraction as `infer()`. Plugins see the call with
+   * `operation: 'generate'` and schema `z.string()`.
    *
    * @example
    * ```typescript
-   * // Compare estimate vs actual
-   * const estimate = ctx.estimateNextCallCost(prompt, 200);
-   * await ctx.infer(schema, prompt);
-   * const actual = ctx.getLastCallCost();
+   * const answer = await ctx.generate(`Answer from the context: ${question}`, {
+   *   systemPrompt: 'Answer in two sentences.',
+   * });
    *
-   * if (actual) {
+   * answer.value; // 'Refunds take 5 business days. ...'
+   * ```
+   */
+  generate(
+    input: string,
+    options?: MullionGenerateOptions,
+  ): Promise<Owned<string, S>>;
+
+  /**
+   * Generate free text, streaming the text generated so far.
+   *
+   * Snapshots get confidence 0; the final `text` carries the confidence
+   * derived from the finish reason. Cost and cache metrics are recorded
+   * once the stream finishes.
+   *
+   * @example
+   * ```typescript
+   * const stream = ctx.generateStream(question);
+   *
+   * for await (const partial of stream) {
+   *   render(partial.value);
+   * }
+   *
+   * const answer = await stream.text; // Owned<string, 'support'>
+   * ```
+   */
+  generateStream(
+    input: string,
+    options?: MullionGenerateOptions,
+  ): MullionTextStream<S>;
+
+  /**
+   * Infer a typed value, letting the model call scoped tools first.
+   *
+   * A tool call is rejected with `ToolScopeViolationError` (and the
+   * inference aborted) when its arguments may be derived from a scope the
+   * tool does not accept: this scope, or the scope of an earlier tool
+   * result. Tool results are checked against the scope policy before they
+   * reach the model, like a bridge into this scope.
+   *
+   * The tool loop is one call for the scope budget and is priced at its
+   * total usage. Plugins see it with `operation: 'inferWithTools'`.
+   *
+   * @example
+   * ```typescript
+   * const lookupOrder = defineScopedTool({
+   *   inputSchema: z.object({orderId: z.string()}),
+   *   accepts: ['internal'],
+   *   produces: 'tool:orders',
+   *   execute: ({orderId}) => orders.get(orderId),
+   * });
+   *
+   * await client.scope('internal', async (ctx) => {
+   *   const {value, toolResults} = await ctx.inferWithTools(
+   *     StatusSchema,
+   *     'Where is order A-1?',
+   *     {tools: {lookupOrder}},
+   *   );
+   *   // value: Owned<Status, 'internal'>
+   *   // toolResults[0].output: Owned<unknown, 'tool:orders'>
+   * });
+   * ```
+   */
+  inferWithTools<T, Tools extends ScopedToolSet>(
+    schema: z.ZodType<T> & {_type?: T},
+    input: string,
+    options: MullionToolInferOptions<Tools>,
+  ): Promise<MullionToolInference<T, S, ToolScope<Tools>>>;
+
+  /**
+   * Create an agent that loops model turn → tool calls → model turn in
+   * this scope.
+   *
+   * Tools are checked like in `inferWithTools()`. The run tracks the union
+   * of scopes it read and aborts with `ScopeCeilingExceededError` before a
+   * tool would widen it beyond `ceiling`. Every model turn is a provider
+   * call for the scope budget: later turns are checked against it before
+   * they are made, so a budget caps the cost of a run. Plugins see each
+   * run with `operation: 'agent'`.
+   *
+   * @example
+   * ```typescript
+   * const supportAgent = ctx.agent({
+   *   tools: {lookupCustomer, lookupInvoice},
+   *   maxSteps: 6,
+   *   ceiling: ['tool:crm'], // may read the CRM, never billing
+   * });
+   *
+   * const {value, steps, scopes} = await supportAgent.run(ticket);
+   * // value: Owned<string, 'support' | 'tool:crm' | 'tool:billing'>
+   * ```
+   */
+  agent<Tools extends ScopedToolSet, T = string>(
+    options: MullionAgentOptions<Tools, T>,
+  ): MullionAgent<T, S, ToolScope<Tools>>;
+
+  /**
+   * Enforce a confidence policy on a value inferred in this scope.
+   *
+   * Uses `policy` if given, otherwise the client's
+   * `confidencePolicies[scope]`. Values below `minConfidence` are thrown
+   * as `LowConfidenceError`, replaced by the policy's fallback, or
+   * re-inferred (optionally with `retryModel`), depending on `action`.
+   *
+   * The eslint rule `require-confidence-check` treats `ctx.require()` as a
+   * confidence check.
+   *
+   * @throws {LowConfidenceError} If the value stays below the minimum and
+   *   no fallback applies
+   * @throws {InvalidConfigurationError} If no policy applies to this scope,
+   *   or a retry is requested for a value not inferred in this scope
+   *
+   * @example
+   * ```typescript
+   * const intent = await ctx.require(await ctx.infer(IntentSchema, message), {
+   *   minConfidence: 0.8,
+   *   action: 'fallback',
+   *   fallback: 'unknown',
+   * });
+   * ```
+   */
+  require<T>(
+    owned: Owned<T, S>,
+    policy?: MullionConfidencePolicy<T>,
+  ): Promise<Owned<T, S>>;
+
+  /** Get aggregated cache statistics for this context */
+  getCacheStats(): CacheStats;
+
+  /**
+   * Get cost breakdown for the last API call made in this context.
+   *
+   * Returns detailed cost information including input/output costs,
+   * cache costs, and savings analysis. Returns null if no calls have
+   * been made yet.
+   *
+   * @returns Cost breakdown from last infer() call or null
+   *
+   * @example
+   * ```typescript
+   * await ctx.infer(schema, prompt);
+   * const cost = ctx.getLastCallCost();
+   * if (cost) {
+   *   console.log(`Total: $${cost.totalCost.toFixed(4)}`);
+   *   console.log(`Savings: ${cost.savingsPercent.toFixed(1)}%`);
+   * }
+   * ```
+   */
+  getLastCallCost(): CostBreakdown | null;
+
+  /**
+   * Estimate cost for a potential API call before making it.
+   *
+   * Provides pre-call cost estimation based on token count estimation
+   * and current model pricing. Useful for cost-aware decision making.
+   *
+   * @param prompt - The prompt text to estimate cost for
+   * @param estimatedOutputTokens - Expected output tokens (default: 500)
+   * @returns Estimated cost breakdown
+   *
+   * @example
+   * ```typescript
+   * const estimate = ctx.estimateNextCallCost(longDocument);
+   * if (estimate.totalCost > 0.10) {
+   *   console.warn('This call will be expensive!');
+   * }
+   * await ctx.infer(schema, longDocument);
+   * ```
+   *
+   * @example
+   * ```typescript
+   * // Compare estimate vs actual
+   * const estimate = ctx.estimateNextCallCost(prompt, 200);
+   * await ctx.infer(schema, prompt);
+   * const actual = ctx.getLastCallCost();
+   *
+   * if (actual) {
    *   const diff = actual.totalCost - estimate.totalCost;
    *   console.log(`Estimation error: $${Math.abs(diff).toFixed(4)}`);
    * }
@@ -339,17 +1023,68 @@ export interface MullionContext<S extends string> extends Context<S> {
     prompt: string,
     estimatedOutputTokens?: number,
   ): CostBreakdown;
+
+  /**
+   * Get the usage of this scope and what is left of its budget.
+   *
+   * Usage is tracked for every scope; `budget` and `remaining` are only
+   * set for limits passed to `client.scope(name, fn, {budget})`.
+   *
+   * @returns Spent, reserved (in flight) and remaining usage
+   *
+   * @example
+   * ```typescript
+   * const {spent, remaining} = ctx.getBudgetStatus();
+   * console.log(`$${spent.usd.toFixed(4)} spent, ${remaining.calls} calls left`);
+   * ```
+   */
+  getBudgetStatus(): BudgetStatus;
+}
+
+/**
+ * Model identifier of a language model (string IDs are returned as-is).
+ */
+function getModelId(model: LanguageModel): string {
+  return (typeof model === 'string' ? model : model.modelId) ?? 'unknown';
 }
 
 export function createMullionClient(
   model: LanguageModel,
   clientOptions: MullionClientOptions = {},
 ): MullionClient {
+  // Model identifier used as the calibration key
+  const modelKey = clientOptions.model ?? getModelId(model);
+
+  // Shared by every scope (and fork branch) of the client
+  const scheduler = !clientOptions.scheduler
+    ? undefined
+    : 'acquire' in clientOptions.scheduler
+      ? clientOptions.scheduler
+      : createRequestScheduler(clientOptions.scheduler);
+
+  // Result cache store, shared by every scope of this client
+  const resultCacheOptions: ResultCacheOptions | undefined =
+    typeof clientOptions.resultCache === 'object'
+      ? clientOptions.resultCache
+      : clientOptions.resultCache
+        ? {}
+        : undefined;
+  const resultCacheStore: ScopedCacheStore | undefined = resultCacheOptions
+    ? (resultCacheOptions.store ?? new MemoryCacheStore())
+    : undefined;
+
   return {
     async scope<S extends string, R>(
       name: S,
       fn: (ctx: MullionContext<S>) => Promise<R>,
+      scopeOptions: MullionScopeOptions = {},
     ): Promise<R> {
+      // Usage of every provider call in this scope, checked against its budget
+      const budget = createBudgetTracker(name, scopeOptions.budget);
+
+      // Client plugins, with their state for this scope
+      const plugins = createPluginPipeline(clientOptions.use ?? [], name);
+
       // Create cache segment manager (always create one, but it may be disabled)
       const cacheManager =
         clientOptions.enableCache &&
@@ -378,6 +1113,1100 @@ export function createMullionClient(
       // Cost tracking state
       let lastCallCost: CostBreakdown | null = null;
 
+      // Memoized inference results for this scope
+      const resultCache = resultCacheStore
+        ? createAsyncScopedCache<S, unknown>(name, resultCacheStore, {
+            namespace: resultCacheOptions?.namespace ?? 'mullion-infer',
+            defaultTtlMs: resultCacheOptions?.ttlMs,
+          })
+        : undefined;
+      let resultCacheHits = 0;
+      let resultCacheMisses = 0;
+
+      /**
+       * Returns the memoized result of an inference call, or runs it and
+       * stores the result. Concurrent identical calls share one run.
+       */
+      async function memoize<R extends Owned<unknown, S>>(
+        kind: 'infer' | 'semantic',
+        schema: z.ZodType,
+        input: string,
+        options: MullionInferOptions | undefined,
+        run: () => Promise<R>,
+      ): Promise<R> {
+        const mode = options?.resultCache ?? 'use';
+        if (!resultCache || mode === 'none') {
+          return run();
+        }
+
+        // The model is keyed separately; metadata does not reach the provider
+        const {model: callModel, routing} = options ?? {};
+        const keyOptions = omitKeys(options ?? {}, [
+          'model',
+          'resultCache',
+          'metadata',
+          'routing',
+        ]);
+        const key = createCacheKey(
+          name,
+          await computeResultCacheKey({
+            schema,
+            model: callModel ?? model,
+            input,
+            segments: cacheManager.getSegments(),
+            options: {
+              kind,
+              ...keyOptions,
+              // Fallback models are keyed by identifier
+              ...(routing
+                ? {
+                    routing: {
+                      fallbacks: routing.fallbacks.map(getModelId),
+                      minConfidence: routing.minConfidence,
+                    },
+                  }
+                : {}),
+            },
+          }),
+        );
+
+        if (mode === 'refresh') {
+          const result = await run();
+          await resultCache.set(key, result);
+          resultCacheMisses++;
+          return result;
+        }
+
+        let computed = false;
+        const result = await resultCache.getOrSet(key, () => {
+          computed = true;
+          return run();
+        });
+        if (computed) {
+          resultCacheMisses++;
+        } else {
+          resultCacheHits++;
+        }
+        return result as R;
+      }
+
+      /**
+       * Generates the trace ID of a value inferred in this scope.
+       */
+      const createTraceId = (): string =>
+        `${name}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+      // Re-runs of the values inferred in this scope (for retries), held
+      // only as long as the values are
+      const reruns = new WeakMap<
+        Owned<unknown, S>,
+        (retryModel?: LanguageModel) => Promise<Owned<unknown, S>>
+      >();
+
+      /**
+       * Builds the provider call for an inference (prompt with cache
+       * segments, provider options) and reserves its estimated usage in the
+       * scope budget.
+       */
+      function prepareCall(input: string, options?: MullionInferOptions) {
+        // Determine cache strategy (use client-level provider/model info)
+        const cacheStrategy = options?.cache ?? 'use-segments';
+        const useCache = cacheStrategy !== 'none' && cacheManager;
+        const segments = cacheManager.getSegments();
+        const baseProviderOptions =
+          options?.providerOptions ?? clientOptions.providerOptions;
+
+        const applyCacheControl =
+          useCache &&
+          clientOptions.provider === 'anthropic' &&
+          !!clientOptions.model;
+
+        const buildCacheProviderOptions = (
+          ttl?: '5m' | '1h',
+        ): ProviderPromptOptions | undefined =>
+          applyCacheControl
+            ? {
+                anthropic: {
+                  cacheControl: {
+                    type: 'ephemeral' as const,
+                    ...(ttl ? {ttl} : {}),
+                  },
+                },
+              }
+            : undefined;
+
+        const buildPromptOptions = (): Prompt => {
+          if (segments.length === 0) {
+            return {
+              prompt: input,
+              system: options?.systemPrompt,
+            };
+          }
+
+          const systemMessages: ModelMessage[] = [];
+          if (options?.systemPrompt) {
+            systemMessages.push({
+              role: 'system',
+              content: options.systemPrompt,
+            });
+          }
+
+          const userParts: {
+            type: 'text';
+            text: string;
+            providerOptions?: ProviderPromptOptions;
+          }[] = [];
+
+          for (const segment of segments) {
+            const providerOptions = buildCacheProviderOptions(segment.ttl);
+            if (segment.scope === 'system-only') {
+              systemMessages.push({
+                role: 'system',
+                content: segment.content,
+                ...(providerOptions ? {providerOptions} : {}),
+              });
+            } else {
+              userParts.push({
+                type: 'text',
+                text: segment.content,
+                ...(providerOptions ? {providerOptions} : {}),
+              });
+            }
+          }
+
+          userParts.push({type: 'text', text: input});
+
+          const messages: ModelMessage[] = [
+            ...systemMessages,
+            {role: 'user', content: userParts},
+          ];
+
+          return {messages};
+        };
+
+        const buildCallProviderOptions = ():
+          | ProviderCallOptions
+          | undefined => {
+          if (
+            !useCache ||
+            clientOptions.provider !== 'google' ||
+            !clientOptions.model
+          ) {
+            return baseProviderOptions;
+          }
+
+          const geminiAdapter = createGeminiAdapter(clientOptions.model);
+          const geminiOptions = geminiAdapter.toProviderOptions({
+            enabled: true,
+            ttl: segments[0]?.ttl,
+            breakpoints: segments.length,
+            cachedContent: readGoogleCachedContent(baseProviderOptions),
+          });
+
+          if (Object.keys(geminiOptions).length === 0) {
+            return withoutGoogleCachedContent(baseProviderOptions);
+          }
+
+          return mergeProviderCallOptions(baseProviderOptions, {
+            google: geminiOptions as Record<string, JsonValue>,
+          });
+        };
+
+        const branchIndex = options?.metadata?.__forkBranchIndex;
+
+        // Check the estimated usage against the scope budget before the call
+        const pricingModel = options?.model
+          ? getModelId(options.model)
+          : clientOptions.model;
+        const estimatedInputTokens = estimateTokens(
+          [options?.systemPrompt, ...segments.map((s) => s.content), input]
+            .filter((part) => part !== undefined)
+            .join('\n'),
+          pricingModel ?? modelKey,
+        ).count;
+        const reservation = budget.reserve({
+          inputTokens: estimatedInputTokens,
+          usd: estimateCost(
+            estimatedInputTokens,
+            options?.maxTokens ?? 500,
+            pricingModel ?? modelKey,
+            !!applyCacheControl && segments.length > 0,
+          ).totalCost,
+        });
+
+        return {
+          call: {
+            model: options?.model ?? model,
+            ...buildPromptOptions(),
+            temperature: options?.temperature,
+            maxTokens: options?.maxTokens,
+            providerOptions: buildCallProviderOptions(),
+          },
+          pricingModel,
+          reservation,
+          request: {
+            model: options?.model ?? model,
+            tokens: estimatedInputTokens + (options?.maxTokens ?? 500),
+            // Fork branches queue separately, so they are served in turn
+            group:
+              typeof branchIndex === 'number' ? `${name}#${branchIndex}` : name,
+          } satisfies ScheduledRequest,
+        };
+      }
+
+      type PreparedCall = ReturnType<typeof prepareCall>;
+
+      /**
+       * Runs a single provider call through the client's scheduler, which
+       * queues it within the rate limits and retries it when it is rate
+       * limited (the AI SDK's own retries are then disabled).
+       */
+      function scheduleCall<T>(
+        prepared: PreparedCall,
+        call: (retries: {maxRetries?: number}) => Promise<T>,
+      ): Promise<T> {
+        return scheduler
+          ? scheduler.run(prepared.request, () => call({maxRetries: 0}))
+          : call({});
+      }
+
+      /**
+       * Holds a scheduler slot for a call that cannot be retried as a
+       * whole (streams) until it settles.
+       */
+      async function holdSlot<T>(
+        prepared: PreparedCall,
+        call: () => Promise<T>,
+      ): Promise<T> {
+        if (!scheduler) {
+          return call();
+        }
+        const release = await scheduler.acquire(prepared.request);
+        try {
+          return await call();
+        } finally {
+          release();
+        }
+      }
+
+      /**
+       * Runs a tool loop with the client's scheduler: every step's provider
+       * request is queued and retried on its own, and tools run outside the
+       * scheduler (so they may infer in turn). Models given as strings hold
+       * one slot for the whole loop instead.
+       */
+      function scheduleSteps<T>(
+        prepared: PreparedCall,
+        call: (scheduling: {
+          model?: LanguageModel;
+          maxRetries?: number;
+        }) => Promise<T>,
+      ): Promise<T> {
+        if (!scheduler) {
+          return call({});
+        }
+        const callModel = prepared.call.model;
+        if (
+          typeof callModel === 'string' ||
+          callModel.specificationVersion !== 'v3'
+        ) {
+          return holdSlot(prepared, () => call({}));
+        }
+
+        const tokenModel = prepared.pricingModel ?? modelKey;
+        return call({
+          maxRetries: 0,
+          model: wrapLanguageModel({
+            model: callModel,
+            middleware: {
+              specificationVersion: 'v3',
+              wrapGenerate: ({doGenerate, params}) =>
+                scheduler.run(
+                  {
+                    ...prepared.request,
+                    tokens:
+                      estimateTokens(JSON.stringify(params.prompt), tokenModel)
+                        .count + (params.maxOutputTokens ?? 500),
+                  },
+                  doGenerate,
+                ),
+            },
+          }),
+        });
+      }
+
+      /**
+       * Records a finished provider call: cache metrics, cost and budget
+       * usage. Derives the result's confidence from the finish reason (or
+       * the client's confidence estimator) and calibrates it.
+       */
+      async function completeCall(
+        prepared: PreparedCall,
+        result: ProviderCallResult<unknown>,
+        schema: z.ZodType,
+        traceId: string,
+        options?: MullionInferOptions,
+      ): Promise<number> {
+        recordCall(prepared, result);
+        return estimateConfidence(result, schema, traceId, options);
+      }
+
+      /**
+       * Records the cache metrics, cost and budget usage of a provider
+       * call, whether or not its output was usable. Returns its cost when
+       * a pricing model is configured, for the total cost of a repaired or
+       * escalated inference.
+       */
+      function recordCall(
+        prepared: PreparedCall,
+        result: Pick<ProviderCallResult<unknown>, 'usage' | 'providerMetadata'>,
+      ): CostBreakdown | undefined {
+        const {pricingModel, reservation} = prepared;
+
+        // Collect cache metrics from the result
+        if (metricsCollector && result.usage) {
+          const usageWithRaw = result.usage as {
+            raw?: Record<string, unknown>;
+          };
+          const providerMetadata = result.providerMetadata as
+            | Record<string, unknown>
+            | undefined;
+          let providerUsage: Record<string, unknown> | undefined;
+          if (providerMetadata && typeof providerMetadata === 'object') {
+            for (const entry of Object.values(providerMetadata)) {
+              if (!entry || typeof entry !== 'object') {
+                continue;
+              }
+
+              if ('usage' in entry) {
+                const usage = (entry as Record<string, unknown>).usage;
+                if (usage && typeof usage === 'object') {
+                  providerUsage = usage as Record<string, unknown>;
+                  break;
+                }
+              }
+
+              if ('usageMetadata' in entry) {
+                const usageMetadata = (entry as Record<string, unknown>)
+                  .usageMetadata;
+                if (usageMetadata && typeof usageMetadata === 'object') {
+                  providerUsage = {
+                    usageMetadata: usageMetadata as Record<string, unknown>,
+                  };
+                  break;
+                }
+              }
+            }
+          }
+          const metricsSource =
+            usageWithRaw.raw && typeof usageWithRaw.raw === 'object'
+              ? usageWithRaw.raw
+              : providerUsage && typeof providerUsage === 'object'
+                ? providerUsage
+                : (result.usage as Record<string, unknown>);
+
+          metricsCollector.addMetrics(metricsSource);
+        }
+
+        // Calculate cost for this call. Without a configured pricing model
+        // the cost is only used for the scope budget, priced with the
+        // client model.
+        let callCost: CostBreakdown | undefined;
+        if (result.usage) {
+          const usage: TokenUsage = {
+            inputTokens: result.usage.inputTokens ?? 0,
+            outputTokens: result.usage.outputTokens ?? 0,
+          };
+
+          // Get the most recent cache stats (last item in the array)
+          const individualStats = metricsCollector
+            ? metricsCollector.getIndividualStats()
+            : [];
+          const cacheStats =
+            individualStats.length > 0
+              ? individualStats[individualStats.length - 1]
+              : null;
+
+          callCost = calculateCost(usage, cacheStats, pricingModel ?? modelKey);
+          if (pricingModel) {
+            lastCallCost = callCost;
+          }
+        }
+
+        // Account the actual usage against the scope budget
+        reservation.settle({
+          inputTokens: result.usage?.inputTokens,
+          usd: callCost?.totalCost,
+        });
+
+        return pricingModel ? callCost : undefined;
+      }
+
+      /**
+       * Derives the confidence of a provider call's result.
+       */
+      async function estimateConfidence(
+        result: ProviderCallResult<unknown>,
+        schema: z.ZodType,
+        traceId: string,
+        options?: MullionInferOptions,
+      ): Promise<number> {
+        // Derive confidence (finish reason by default, or a custom estimator)
+        // and calibrate it when a calibration registry is registered
+        const confidenceEstimator =
+          clientOptions.confidenceEstimator ?? finishReasonConfidenceEstimator;
+        const rawConfidence = await confidenceEstimator.estimate({
+          finishReason: result.finishReason,
+          providerMetadata: result.providerMetadata,
+          schema,
+          object: result.object,
+        });
+        return getCalibrationRegistry()
+          ? calibrateConfidence({
+              traceId,
+              model: options?.model ? getModelId(options.model) : modelKey,
+              schema: getCalibrationSchemaKey(schema),
+              confidence: rawConfidence,
+            })
+          : rawConfidence;
+      }
+
+      /**
+       * Shared generateObject pipeline for infer() and inferSemantic():
+       * builds the prompt with cache segments, calls the model, records
+       * cache metrics and cost, and derives confidence from the finish
+       * reason. With `repair`, invalid outputs are re-prompted (and, if
+       * lenient, coerced) and the result carries a `repair` lineage hop.
+       * The cost of every priced provider call is pushed to `costs`.
+       */
+      async function runInference<O>(
+        schema: z.ZodType<O>,
+        input: string,
+        options?: MullionInferOptions,
+        costs: CostBreakdown[] = [],
+      ): Promise<InferenceResult<O>> {
+        const repair = options?.repair ?? clientOptions.repair;
+        const maxRepairs = repair?.maxRepairs ?? 1;
+        const attempts: RepairAttempt[] = [];
+        const firstCost = costs.length;
+
+        for (;;) {
+          const prepared = prepareCall(
+            attempts.length > 0
+              ? buildRepairPrompt(input, attempts[attempts.length - 1])
+              : input,
+            options,
+          );
+
+          // Use Vercel AI SDK to generate structured output
+          const outcome = await scheduleCall(prepared, (retries) =>
+            generateObject({...prepared.call, ...retries, schema}),
+          ).then(
+            (result) => ({result, error: undefined}),
+            (error: unknown) => {
+              if (repair && NoObjectGeneratedError.isInstance(error)) {
+                return {result: undefined, error};
+              }
+              // The call was made but its usage is unknown: it is accounted
+              // at its estimate
+              prepared.reservation.settle();
+              throw error;
+            },
+          );
+
+          let result: ProviderCallResult<O>;
+          let lenient = false;
+
+          if (outcome.result) {
+            result = outcome.result;
+            const cost = recordCall(prepared, result);
+            if (cost) costs.push(cost);
+          } else {
+            // The output did not match the schema: re-prompt with its issues
+            const {error} = outcome;
+            const cost = recordCall(prepared, error);
+            if (cost) costs.push(cost);
+            attempts.push({
+              text: error.text,
+              issues: describeSchemaIssues(schema, error.text),
+            });
+            if (attempts.length <= maxRepairs) {
+              continue;
+            }
+
+            const parsed = repair?.lenient
+              ? parseLeniently(schema, error.text)
+              : undefined;
+            if (!parsed) {
+              throw error;
+            }
+            result = {
+              object: parsed.value,
+              finishReason: error.finishReason ?? 'other',
+              usage: error.usage,
+            };
+            lenient = true;
+          }
+
+          // Generate trace ID with cache information
+          const traceId = createTraceId();
+          const confidence = await estimateConfidence(
+            result,
+            schema,
+            traceId,
+            options,
+          );
+          if (attempts.length === 0) {
+            return {object: result.object, confidence, traceId};
+          }
+
+          // Every attempt is part of the inference's cost
+          const repairCosts = costs.slice(firstCost);
+          if (repairCosts.length > 0) {
+            lastCallCost = combineCosts(repairCosts, repairCosts[0].pricing);
+          }
+          const repairs = lenient ? attempts.length - 1 : attempts.length;
+          return {
+            object: result.object,
+            confidence: repairedConfidence(confidence, repairs, lenient),
+            traceId,
+            lineage: appendLineageHop(
+              {__scope: name, traceId},
+              {
+                kind: 'repair',
+                from: name,
+                to: name,
+                reason: lenient ? 'lenient schema parse' : 'schema repair',
+                metadata: {
+                  attempts: attempts.length + (lenient ? 0 : 1),
+                  lenient,
+                  issues: attempts.map((attempt) => attempt.issues),
+                },
+              },
+            ),
+          };
+        }
+      }
+
+      /**
+       * runInference() through the model fallback chain of `routing`:
+       * escalates to the next model when a call fails or its confidence is
+       * below `minConfidence`, and records the models tried in a `route`
+       * lineage hop. The last call cost covers every attempt.
+       */
+      async function routeInference<O>(
+        schema: z.ZodType<O>,
+        input: string,
+        options?: MullionInferOptions,
+      ): Promise<InferenceResult<O>> {
+        const routing = options?.routing ?? clientOptions.routing;
+        if (!routing) {
+          return runInference(schema, input, options);
+        }
+        validateRoutingOptions(routing);
+
+        const {minConfidence, escalateOn = isEscalatableError} = routing;
+        const chain = [options?.model ?? model, ...routing.fallbacks];
+        const costs: CostBreakdown[] = [];
+        const attempts: ModelAttempt[] = [];
+        let best: (InferenceResult<O> & {model: string}) | undefined;
+        let lastError: unknown;
+
+        try {
+          for (const [index, candidate] of chain.entries()) {
+            // The first attempt keeps the client's pricing and calibration key
+            const modelId =
+              index === 0 && !options?.model ? modelKey : getModelId(candidate);
+            try {
+              const result = await runInference(
+                schema,
+                input,
+                index === 0 ? options : {...options, model: candidate},
+                costs,
+              );
+              attempts.push({model: modelId, confidence: result.confidence});
+              if (!best || result.confidence > best.confidence) {
+                best = {...result, model: modelId};
+              }
+              if (
+                minConfidence === undefined ||
+                result.confidence >= minConfidence
+              ) {
+                break;
+              }
+            } catch (error) {
+              attempts.push({
+                model: modelId,
+                error: error instanceof Error ? error.message : String(error),
+              });
+              if (!escalateOn(error)) {
+                throw error;
+              }
+              lastError = error;
+            }
+          }
+        } finally {
+          // Every attempt is part of the inference's cost
+          if (costs.length > 0) {
+            lastCallCost = combineCosts(costs, costs[costs.length - 1].pricing);
+          }
+        }
+
+        // The chain is exhausted: keep the most confident result, if any
+        if (!best) {
+          throw lastError;
+        }
+        const {model: producedBy, ...result} = best;
+        return {
+          ...result,
+          lineage: appendLineageHop(
+            {__scope: name, traceId: result.traceId, lineage: result.lineage},
+            {
+              kind: 'route',
+              from: name,
+              to: name,
+              reason: `produced by ${producedBy}`,
+              metadata: {model: producedBy, attempts},
+            },
+          ),
+        };
+      }
+
+      /**
+       * The generateText counterpart of runInference() for generate().
+       */
+      async function runGeneration(
+        input: string,
+        options?: MullionGenerateOptions,
+      ): Promise<Owned<string, S>> {
+        const prepared = prepareCall(input, options);
+
+        const result = await scheduleCall(prepared, (retries) =>
+          generateText({...prepared.call, ...retries}),
+        ).catch((error: unknown) => {
+          // The call was made but its usage is unknown: it is accounted at
+          // its estimate
+          prepared.reservation.settle();
+          throw error;
+        });
+
+        const traceId = createTraceId();
+        const confidence = await completeCall(
+          prepared,
+          {
+            object: result.text,
+            finishReason: result.finishReason,
+            usage: result.totalUsage,
+            providerMetadata: result.providerMetadata,
+          },
+          TEXT_SCHEMA,
+          traceId,
+          options,
+        );
+
+        return createOwned({
+          value: result.text,
+          scope: name,
+          confidence,
+          traceId,
+        });
+      }
+
+      /**
+       * Infer a value together with ranked alternatives and reasoning.
+       */
+      async function inferSemantic<T>(
+        schema: z.ZodType<T> & {_type?: T},
+        input: string,
+        options: MullionSemanticInferOptions = {},
+      ): Promise<SemanticValue<T, S>> {
+        const maxAlternatives =
+          options.maxAlternatives ?? DEFAULT_MAX_ALTERNATIVES;
+        const {object, confidence, traceId, lineage} = await routeInference(
+          createSemanticSchema(schema, maxAlternatives),
+          input,
+          {
+            ...options,
+            systemPrompt: buildSemanticSystemPrompt(
+              options.systemPrompt,
+              maxAlternatives,
+            ),
+          },
+        );
+
+        return createSemanticValue({
+          ...toSemanticParts(object, confidence, maxAlternatives),
+          scope: name,
+          confidence,
+          traceId,
+          lineage,
+        });
+      }
+
+      /**
+       * Self-consistency sampling: runs the inference once per sample in a
+       * cache-optimized fork and merges the samples by agreement.
+       */
+      async function inferWithSampling<T>(
+        schema: z.ZodType<T> & {_type?: T},
+        input: string,
+        options: MullionInferOptions & {sampling: SamplingOptions},
+      ): Promise<SemanticValue<T, S>> {
+        const {sampling, ...sampleOptions} = options;
+        validateSamplingOptions(sampling);
+
+        // Samples skip plugin hooks: the sampled result runs them once
+        const {results} = await fork(
+          {...ctx, infer: inferOwned},
+          {
+            strategy: 'cache-optimized',
+            warmup: sampling.warmup ?? 'first-branch',
+            branches: Array.from(
+              {length: sampling.samples},
+              () => (branch: Context<S>) =>
+                // Samples must not be answered from the result cache
+                branch.infer(schema, input, {
+                  ...sampleOptions,
+                  resultCache: 'none',
+                } as MullionInferOptions),
+            ),
+          },
+        );
+
+        return createSemanticValue({
+          ...aggregateSamples(results, sampling),
+          scope: name,
+          traceId: createTraceId(),
+        });
+      }
+
+      /**
+       * ctx.infer() without plugin hooks: sampling, alternatives or a
+       * single structured call, memoized in the result cache.
+       */
+      function inferOwned<T>(
+        schema: z.ZodType<T> & {_type?: T},
+        input: string,
+        options?: MullionInferOptions,
+      ): Promise<Owned<T, S>> {
+        return memoize(
+          'infer',
+          schema,
+          input,
+          options,
+          async (): Promise<Owned<T, S>> => {
+            if (options?.sampling) {
+              return inferWithSampling(schema, input, {
+                ...options,
+                sampling: options.sampling,
+              });
+            }
+            if (options?.includeAlternatives) {
+              return inferSemantic(schema, input, options);
+            }
+
+            const {object, confidence, traceId, lineage} = await routeInference(
+              schema,
+              input,
+              options,
+            );
+
+            // Wrap in Owned with scope and confidence
+            return createOwned({
+              value: object,
+              scope: name,
+              confidence,
+              traceId,
+              lineage,
+            });
+          },
+        );
+      }
+
+      /**
+       * The tool loop of inferWithTools(): a generateText call with scoped
+       * tools and structured output, accounted like runInference().
+       */
+      async function runToolInference<T, Tools extends ScopedToolSet>(
+        schema: z.ZodType<T>,
+        input: string,
+        tools: Tools,
+        maxSteps: number,
+        options?: MullionGenerateOptions,
+      ): Promise<{
+        value: Owned<T, S>;
+        toolResults: readonly ScopedToolResult<ToolScope<Tools>>[];
+      }> {
+        const prepared = prepareCall(input, options);
+        const traceId = createTraceId();
+        const runtime = createToolRuntime(tools, name, traceId);
+
+        const result = await scheduleSteps(prepared, (scheduling) =>
+          generateText({
+            ...prepared.call,
+            ...scheduling,
+            tools: runtime.tools,
+            output: Output.object({schema}),
+            stopWhen: [stepCountIs(maxSteps), runtime.stopOnViolation],
+          }),
+        ).catch((error: unknown) => {
+          // The call was made but its usage is unknown: it is accounted at
+          // its estimate
+          prepared.reservation.settle();
+          throw error;
+        });
+
+        if (runtime.violation) {
+          prepared.reservation.settle({
+            inputTokens: result.totalUsage.inputTokens,
+          });
+          throw runtime.violation;
+        }
+
+        const confidence = await completeCall(
+          prepared,
+          {
+            object: result.output,
+            finishReason: result.finishReason,
+            usage: result.totalUsage,
+            providerMetadata: result.providerMetadata,
+          },
+          schema,
+          traceId,
+          options,
+        );
+
+        return {
+          value: createOwned({
+            value: result.output,
+            scope: name,
+            confidence,
+            traceId,
+            // Bridging the value is checked against the scopes it read
+            lineage: runtime.lineage,
+          }),
+          toolResults: runtime.results,
+        };
+      }
+
+      /**
+       * The loop of an agent run: a generateText call with scoped tools in
+       * which every model turn reserves and settles its own budget.
+       */
+      async function runAgent<T, Tools extends ScopedToolSet>(
+        input: string,
+        agent: {
+          tools: Tools;
+          schema?: z.ZodType<T>;
+          maxSteps: number;
+          stopWhen: StopCondition<ToolSet>[];
+          ceiling?: readonly string[];
+        },
+        options?: MullionGenerateOptions,
+      ): Promise<{
+        value: Owned<T, S>;
+        steps: MullionAgentStep<ToolScope<Tools>>[];
+        scopes: readonly string[];
+      }> {
+        const prepared = prepareCall(input, options);
+        const pricingModel = prepared.pricingModel ?? modelKey;
+        const traceId = createTraceId();
+        const runtime = createToolRuntime(agent.tools, name, traceId, {
+          ceiling: agent.ceiling,
+        });
+        const steps: MullionAgentStep<ToolScope<Tools>>[] = [];
+
+        // The first turn holds the reservation of prepareCall(); later
+        // turns are estimated from the conversation so far
+        let reservation = prepared.reservation;
+        const result = await scheduleSteps(prepared, (scheduling) =>
+          generateText({
+            ...prepared.call,
+            ...scheduling,
+            tools: runtime.tools,
+            output: agent.schema
+              ? Output.object({schema: agent.schema})
+              : Output.text(),
+            stopWhen: [
+              stepCountIs(agent.maxSteps),
+              runtime.stopOnViolation,
+              ...agent.stopWhen,
+            ],
+            prepareStep: ({steps: previous}) => {
+              const last = previous.at(-1);
+              if (last) {
+                const inputTokens =
+                  (last.usage.inputTokens ?? 0) +
+                  (last.usage.outputTokens ?? 0);
+                reservation = budget.reserve({
+                  inputTokens,
+                  usd: estimateCost(
+                    inputTokens,
+                    options?.maxTokens ?? 500,
+                    pricingModel,
+                  ).totalCost,
+                });
+              }
+              return undefined;
+            },
+            onStepFinish: (step) => {
+              reservation.settle({
+                inputTokens: step.usage.inputTokens,
+                usd: calculateCost(
+                  {
+                    inputTokens: step.usage.inputTokens ?? 0,
+                    outputTokens: step.usage.outputTokens ?? 0,
+                  },
+                  null,
+                  pricingModel,
+                ).totalCost,
+              });
+
+              const executed = steps.reduce(
+                (count, previous) => count + previous.toolResults.length,
+                0,
+              );
+              steps.push({
+                stepNumber: steps.length,
+                text: step.text,
+                finishReason: step.finishReason,
+                toolResults: runtime.results.slice(executed),
+                scopes: runtime.scopes,
+              });
+            },
+          }),
+        ).catch((error: unknown) => {
+          // The turn in flight was made but its usage is unknown: it is
+          // accounted at its estimate
+          reservation.settle();
+          throw error;
+        });
+
+        if (runtime.violation) {
+          throw runtime.violation;
+        }
+
+        // Records metrics and cost of the whole run; the budget is settled
+        const confidence = await completeCall(
+          prepared,
+          {
+            object: result.output,
+            finishReason: result.finishReason,
+            usage: result.totalUsage,
+            providerMetadata: result.providerMetadata,
+          },
+          agent.schema ?? TEXT_SCHEMA,
+          traceId,
+          options,
+        );
+
+        return {
+          value: createOwned({
+            // Without a schema, T is the default string
+            value: result.output as T,
+            scope: name,
+            confidence,
+            traceId,
+            // Bridging the answer is checked against the scopes it read
+            lineage: runtime.lineage,
+          }),
+          steps,
+          scopes: runtime.scopes,
+        };
+      }
+
+      /**
+       * Shared pipeline of inferStream() and generateStream(): runs the
+       * call through plugin hooks, exposes the provider's partial results
+       * as scoped snapshots (confidence 0) and records the finished call
+       * like runInference(). The trace ID is created up front so that the
+       * snapshots and the final value share it.
+       */
+      function streamOwned<T, P>(
+        call: InferCall,
+        start: (prepared: PreparedCall['call']) => {
+          partials: AsyncIterable<P>;
+          finished: Promise<ProviderCallResult<T>>;
+        },
+        rerun: (retryModel?: LanguageModel) => Promise<Owned<unknown, S>>,
+      ): {
+        traceId: string;
+        final: Promise<Owned<T, S>>;
+        snapshots: AsyncIterable<Owned<P, S>>;
+      } {
+        const traceId = createTraceId();
+
+        // Resolved once plugin hooks ran and the provider stream started
+        let resolvePartials: (partials: AsyncIterable<P>) => void = () =>
+          undefined;
+        const partialsReady = new Promise<AsyncIterable<P>>((resolve) => {
+          resolvePartials = resolve;
+        });
+
+        const final = plugins
+          .infer(call, async (input, options): Promise<Owned<T, S>> => {
+            const prepared = prepareCall(input, options);
+            const result = await holdSlot(prepared, () => {
+              const {partials, finished} = start(prepared.call);
+              resolvePartials(partials);
+              return finished;
+            }).catch((error: unknown) => {
+              // The call was made but its usage is unknown: it is accounted
+              // at its estimate
+              prepared.reservation.settle();
+              throw error;
+            });
+
+            const confidence = await completeCall(
+              prepared,
+              result,
+              call.schema,
+              traceId,
+              options,
+            );
+
+            return createOwned({
+              value: result.object,
+              scope: name,
+              confidence,
+              traceId,
+            });
+          })
+          .then((result) => {
+            reruns.set(result, rerun);
+            return result;
+          });
+        // Callers that only iterate observe the failure through iteration
+        final.catch(() => undefined);
+
+        return {
+          traceId,
+          final,
+          snapshots: {
+            async *[Symbol.asyncIterator]() {
+              // Hooks or the call may fail before the stream starts (or a
+              // plugin may recover without streaming): then only the final
+              // value is awaited
+              const partials = await Promise.race([
+                partialsReady,
+                final.then(() => undefined),
+              ]);
+              if (partials) {
+                for await (const partial of partials) {
+                  yield createOwned({
+                    value: partial,
+                    scope: name,
+                    confidence: 0,
+                    traceId,
+                  });
+                }
+              }
+              await final;
+            },
+          },
+        };
+      }
+
       // Create context with working infer implementation and cache manager
       const ctx: MullionContext<S> = {
         scope: name,
@@ -401,222 +2230,358 @@ export function createMullionClient(
          * - `content-filter` (0.6): Content was filtered
          * - `other` (0.5): Unknown reason
          * - `error` (0.3): Error occurred
+         *
+         * With a client `resultCache`, identical calls in this scope return
+         * the memoized result without calling the provider.
          */
         async infer<T>(
           schema: z.ZodType<T> & {_type?: T},
-          input: string,
-          options?: MullionInferOptions,
+          originalInput: string,
+          originalOptions?: MullionInferOptions,
         ): Promise<Owned<T, S>> {
-          // Determine cache strategy (use client-level provider/model info)
-          const cacheStrategy = options?.cache ?? 'use-segments';
-          const useCache = cacheStrategy !== 'none' && cacheManager;
-          const segments = cacheManager.getSegments();
-          const baseProviderOptions =
-            options?.providerOptions ?? clientOptions.providerOptions;
-
-          const applyCacheControl =
-            useCache &&
-            clientOptions.provider === 'anthropic' &&
-            !!clientOptions.model;
-
-          const buildCacheProviderOptions = (
-            ttl?: '5m' | '1h',
-          ): ProviderPromptOptions | undefined =>
-            applyCacheControl
-              ? {
-                  anthropic: {
-                    cacheControl: {
-                      type: 'ephemeral' as const,
-                      ...(ttl ? {ttl} : {}),
-                    },
-                  },
-                }
-              : undefined;
-
-          const buildPromptOptions = (): Prompt => {
-            if (segments.length === 0) {
-              return {
-                prompt: input,
-                system: options?.systemPrompt,
-              };
-            }
+          const result = await plugins.infer(
+            {
+              operation: 'infer',
+              schema,
+              input: originalInput,
+              options: originalOptions,
+            },
+            (input, options) => inferOwned(schema, input, options),
+          );
 
-            const systemMessages: ModelMessage[] = [];
-            if (options?.systemPrompt) {
-              systemMessages.push({
-                role: 'system',
-                content: options.systemPrompt,
-              });
-            }
+          // Retries bypass the memoized result and replace it
+          reruns.set(result, (retryModel) =>
+            ctx.infer(schema, originalInput, {
+              ...originalOptions,
+              model: retryModel ?? originalOptions?.model,
+              resultCache: 'refresh',
+            }),
+          );
+          return result;
+        },
 
-            const userParts: {
-              type: 'text';
-              text: string;
-              providerOptions?: ProviderPromptOptions;
-            }[] = [];
-
-            for (const segment of segments) {
-              const providerOptions = buildCacheProviderOptions(segment.ttl);
-              if (segment.scope === 'system-only') {
-                systemMessages.push({
-                  role: 'system',
-                  content: segment.content,
-                  ...(providerOptions ? {providerOptions} : {}),
-                });
-              } else {
-                userParts.push({
-                  type: 'text',
-                  text: segment.content,
-                  ...(providerOptions ? {providerOptions} : {}),
-                });
-              }
-            }
+        async inferSemantic<T>(
+          schema: z.ZodType<T> & {_type?: T},
+          originalInput: string,
+          originalOptions?: MullionSemanticInferOptions,
+        ): Promise<SemanticValue<T, S>> {
+          const result = await plugins.infer(
+            {
+              operation: 'inferSemantic',
+              schema,
+              input: originalInput,
+              options: originalOptions,
+            },
+            (input, options) =>
+              memoize('semantic', schema, input, options, () =>
+                inferSemantic(schema, input, options),
+              ),
+          );
 
-            userParts.push({type: 'text', text: input});
+          reruns.set(result, (retryModel) =>
+            ctx.inferSemantic(schema, originalInput, {
+              ...originalOptions,
+              model: retryModel ?? originalOptions?.model,
+              resultCache: 'refresh',
+            }),
+          );
+          return result;
+        },
 
-            const messages: ModelMessage[] = [
-              ...systemMessages,
-              {role: 'user', content: userParts},
-            ];
+        /**
+         * Infer a typed value with Vercel AI SDK's streamObject.
+         *
+         * Snapshots are not validated against the schema and get
+         * confidence 0.
+         */
+        inferStream<T>(
+          schema: z.ZodType<T> & {_type?: T},
+          originalInput: string,
+          originalOptions?: MullionStreamInferOptions,
+        ): MullionInferStream<T, S> {
+          const {traceId, final, snapshots} = streamOwned(
+            {
+              operation: 'inferStream',
+              schema,
+              input: originalInput,
+              options: originalOptions,
+            },
+            (call) => {
+              const streamed = streamObject({...call, schema});
+              return {
+                partials: streamed.partialObjectStream as AsyncIterable<
+                  DeepPartial<T>
+                >,
+                finished: Promise.all([
+                  streamed.object,
+                  streamed.finishReason,
+                  streamed.usage,
+                  streamed.providerMetadata,
+                ]).then(([object, finishReason, usage, providerMetadata]) => ({
+                  object,
+                  finishReason,
+                  usage,
+                  providerMetadata,
+                })),
+              };
+            },
+            (retryModel) =>
+              ctx.inferStream(schema, originalInput, {
+                ...originalOptions,
+                model: retryModel ?? originalOptions?.model,
+              }).object,
+          );
 
-            return {messages};
+          return {
+            traceId,
+            object: final,
+            [Symbol.asyncIterator]: () => snapshots[Symbol.asyncIterator](),
           };
+        },
 
-          const buildCallProviderOptions = ():
-            | ProviderCallOptions
-            | undefined => {
-            if (
-              !useCache ||
-              clientOptions.provider !== 'google' ||
-              !clientOptions.model
-            ) {
-              return baseProviderOptions;
-            }
+        /**
+         * Generate free text with Vercel AI SDK's generateText.
+         */
+        async generate(
+          originalInput: string,
+          originalOptions?: MullionGenerateOptions,
+        ): Promise<Owned<string, S>> {
+          const result = await plugins.infer(
+            {
+              operation: 'generate',
+              schema: TEXT_SCHEMA,
+              input: originalInput,
+              options: originalOptions,
+            },
+            (input, options) => runGeneration(input, options),
+          );
 
-            const geminiAdapter = createGeminiAdapter(clientOptions.model);
-            const geminiOptions = geminiAdapter.toProviderOptions({
-              enabled: true,
-              ttl: segments[0]?.ttl,
-              breakpoints: segments.length,
-              cachedContent: readGoogleCachedContent(baseProviderOptions),
-            });
+          reruns.set(result, (retryModel) =>
+            ctx.generate(originalInput, {
+              ...originalOptions,
+              model: retryModel ?? originalOptions?.model,
+            }),
+          );
+          return result;
+        },
 
-            if (Object.keys(geminiOptions).length === 0) {
-              return withoutGoogleCachedContent(baseProviderOptions);
-            }
+        /**
+         * Generate free text with Vercel AI SDK's streamText.
+         *
+         * Snapshots hold the text generated so far and get confidence 0.
+         */
+        generateStream(
+          originalInput: string,
+          originalOptions?: MullionGenerateOptions,
+        ): MullionTextStream<S> {
+          const {traceId, final, snapshots} = streamOwned(
+            {
+              operation: 'generateStream',
+              schema: TEXT_SCHEMA,
+              input: originalInput,
+              options: originalOptions,
+            },
+            (call) => {
+              const streamed = streamText(call);
+              return {
+                partials: accumulateText(streamed.textStream),
+                finished: Promise.all([
+                  streamed.text,
+                  streamed.finishReason,
+                  streamed.totalUsage,
+                  streamed.providerMetadata,
+                ]).then(([object, finishReason, usage, providerMetadata]) => ({
+                  object,
+                  finishReason,
+                  usage,
+                  providerMetadata,
+                })),
+              };
+            },
+            (retryModel) =>
+              ctx.generateStream(originalInput, {
+                ...originalOptions,
+                model: retryModel ?? originalOptions?.model,
+              }).text,
+          );
 
-            return mergeProviderCallOptions(baseProviderOptions, {
-              google: geminiOptions as Record<string, JsonValue>,
-            });
+          return {
+            traceId,
+            text: final,
+            [Symbol.asyncIterator]: () => snapshots[Symbol.asyncIterator](),
           };
+        },
 
-          // Use Vercel AI SDK to generate structured output
-          const result = await generateObject({
-            model,
-            schema,
-            ...buildPromptOptions(),
-            temperature: options?.temperature,
-            maxTokens: options?.maxTokens,
-            providerOptions: buildCallProviderOptions(),
-          });
+        /**
+         * Infer a typed value with Vercel AI SDK's generateText, scoped
+         * tools and structured output.
+         */
+        async inferWithTools<T, Tools extends ScopedToolSet>(
+          schema: z.ZodType<T> & {_type?: T},
+          originalInput: string,
+          originalOptions: MullionToolInferOptions<Tools>,
+        ): Promise<MullionToolInference<T, S, ToolScope<Tools>>> {
+          const {tools, maxSteps = 5, ...inferOptions} = originalOptions;
 
-          // Extract confidence from finish reason
-          const confidence = extractConfidenceFromFinishReason(
-            result.finishReason,
+          // Plugins see and return the value; the tool results of the run
+          // that produced it are kept aside
+          let toolResults: readonly ScopedToolResult<ToolScope<Tools>>[] = [];
+          const value = await plugins.infer(
+            {
+              operation: 'inferWithTools',
+              schema,
+              input: originalInput,
+              options: inferOptions,
+            },
+            async (input, options) => {
+              const result = await runToolInference(
+                schema,
+                input,
+                tools,
+                maxSteps,
+                options,
+              );
+              toolResults = result.toolResults;
+              return result.value;
+            },
           );
 
-          // Collect cache metrics from the result
-          if (metricsCollector && result.usage) {
-            const usageWithRaw = result.usage as {
-              raw?: Record<string, unknown>;
-            };
-            const providerMetadata = result.providerMetadata as
-              | Record<string, unknown>
-              | undefined;
-            let providerUsage: Record<string, unknown> | undefined;
-            if (providerMetadata && typeof providerMetadata === 'object') {
-              for (const entry of Object.values(providerMetadata)) {
-                if (!entry || typeof entry !== 'object') {
-                  continue;
-                }
+          reruns.set(value, async (retryModel) => {
+            const retried = await ctx.inferWithTools(schema, originalInput, {
+              ...originalOptions,
+              model: retryModel ?? originalOptions.model,
+            });
+            return retried.value;
+          });
+          return {value, toolResults};
+        },
 
-                if ('usage' in entry) {
-                  const usage = (entry as Record<string, unknown>).usage;
-                  if (usage && typeof usage === 'object') {
-                    providerUsage = usage as Record<string, unknown>;
-                    break;
-                  }
-                }
+        /**
+         * Create an agent running Vercel AI SDK's generateText tool loop.
+         */
+        agent<Tools extends ScopedToolSet, T = string>(
+          agentOptions: MullionAgentOptions<Tools, T>,
+        ): MullionAgent<T, S, ToolScope<Tools>> {
+          const {
+            tools,
+            schema,
+            maxSteps = 10,
+            stopWhen = [],
+            ceiling,
+            ...generateOptions
+          } = agentOptions;
+          const agent = {
+            tools,
+            schema,
+            maxSteps,
+            stopWhen: Array.isArray(stopWhen) ? stopWhen : [stopWhen],
+            ceiling,
+          };
 
-                if ('usageMetadata' in entry) {
-                  const usageMetadata = (entry as Record<string, unknown>)
-                    .usageMetadata;
-                  if (usageMetadata && typeof usageMetadata === 'object') {
-                    providerUsage = {
-                      usageMetadata: usageMetadata as Record<string, unknown>,
-                    };
-                    break;
-                  }
-                }
-              }
-            }
-            const metricsSource =
-              usageWithRaw.raw && typeof usageWithRaw.raw === 'object'
-                ? usageWithRaw.raw
-                : providerUsage && typeof providerUsage === 'object'
-                  ? providerUsage
-                  : (result.usage as Record<string, unknown>);
-
-            metricsCollector.addMetrics(metricsSource);
-          }
+          return {
+            async run(originalInput) {
+              // Plugins see and return the answer; the transcript of the
+              // run that produced it is kept aside
+              let steps: readonly MullionAgentStep<ToolScope<Tools>>[] = [];
+              let scopes: readonly string[] = [name];
+              const value = await plugins.infer(
+                {
+                  operation: 'agent',
+                  schema: schema ?? TEXT_SCHEMA,
+                  input: originalInput,
+                  options: generateOptions,
+                },
+                async (input, options) => {
+                  const run = await runAgent(input, agent, options);
+                  steps = run.steps;
+                  scopes = run.scopes;
+                  return run.value;
+                },
+              );
 
-          // Calculate cost for this call
-          if (result.usage && clientOptions.model) {
-            const usage: TokenUsage = {
-              inputTokens: result.usage.inputTokens ?? 0,
-              outputTokens: result.usage.outputTokens ?? 0,
-            };
+              return {value, steps, scopes};
+            },
+          };
+        },
 
-            // Get the most recent cache stats (last item in the array)
-            const individualStats = metricsCollector
-              ? metricsCollector.getIndividualStats()
-              : [];
-            const cacheStats =
-              individualStats.length > 0
-                ? individualStats[individualStats.length - 1]
-                : null;
-
-            lastCallCost = calculateCost(
-              usage,
-              cacheStats,
-              clientOptions.model,
+        /**
+         * Enforce a confidence policy on a value inferred in this scope.
+         *
+         * Retries re-run the original inference call (same schema, input
+         * and options) with the policy's `retryModel`, if set.
+         */
+        async require<T>(
+          owned: Owned<T, S>,
+          policy?: MullionConfidencePolicy<T>,
+        ): Promise<Owned<T, S>> {
+          const resolved =
+            policy ??
+            (clientOptions.confidencePolicies?.[name] as
+              | MullionConfidencePolicy<T>
+              | undefined);
+          if (!resolved) {
+            throw new InvalidConfigurationError(
+              `No confidence policy for scope '${name}': pass one to ` +
+                `require() or set confidencePolicies['${name}'] on the client`,
             );
           }
 
-          // Generate trace ID with cache information
-          const traceId = `${name}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+          return enforceConfidencePolicy(
+            owned,
+            resolved,
+            (_attempt, previous) => {
+              const rerun = reruns.get(previous);
+              if (!rerun) {
+                throw new InvalidConfigurationError(
+                  `Cannot retry value '${previous.traceId}': it was not ` +
+                    `inferred by ctx.infer() in scope '${name}'`,
+                );
+              }
 
-          // Wrap in Owned with scope and confidence
-          return createOwned({
-            value: result.object,
-            scope: name,
-            confidence,
-            traceId,
-          });
+              return rerun(resolved.retryModel) as Promise<Owned<T, S>>;
+            },
+          );
         },
 
         /**
          * Bridge a value from another scope into this context.
          *
          * Creates a new Owned value with a union scope type that tracks
-         * both the source and destination scopes.
+         * both the source and destination scopes, and records the hop in
+         * the value's lineage. Throws if a registered scope policy forbids
+         * the flow.
          */
-        bridge<T, OS extends string>(owned: Owned<T, OS>): Owned<T, S | OS> {
+        bridge<T, OS extends string>(
+          owned: Owned<T, OS>,
+          options: BridgeOptions = {},
+        ): Owned<T, S | OS> {
+          assertOwnedScopeFlow(owned, name);
+          plugins.bridge({
+            value: owned,
+            from: owned.__scope,
+            to: name,
+            options,
+          });
+
+          const lineage = appendLineageHop(owned, {
+            kind: 'context',
+            from: owned.__scope,
+            to: name,
+            context: name,
+            reason: options.reason,
+            metadata: options.metadata,
+          });
+          emitBridgeAuditEvent(
+            owned.traceId,
+            lineage.hops[lineage.hops.length - 1],
+          );
+
           return {
             value: owned.value,
             confidence: owned.confidence,
             __scope: name as S | OS,
             traceId: owned.traceId,
+            lineage,
           };
         },
 
@@ -628,9 +2593,19 @@ export function createMullionClient(
          */
         use<T>(owned: Owned<T, S>): T {
           if (owned.__scope !== name) {
-            throw new Error(
+            emitAuditEvent({
+              type: 'scope-violation',
+              timestamp: Date.now(),
+              check: 'use',
+              from: owned.__scope,
+              to: name,
+              traceId: owned.traceId,
+            });
+            throw new ScopeMismatchError(
               `Scope mismatch: attempting to use value from scope '${owned.__scope}' ` +
                 `in scope '${name}'. Use bridge() to explicitly transfer values between scopes.`,
+              {sourceScope: owned.__scope, targetScope: name, check: 'use'},
+              {traceId: owned.traceId},
             );
           }
 
@@ -641,22 +2616,34 @@ export function createMullionClient(
          * Get aggregated cache statistics for this context.
          *
          * Returns cumulative metrics from all infer() calls made within
-         * this scope, including cache hit rates and cost savings.
+         * this scope, including cache hit rates and cost savings, plus
+         * result cache hits and misses when the result cache is enabled.
          */
         getCacheStats(): CacheStats {
-          return (
-            metricsCollector?.getAggregatedStats() ?? {
-              provider: 'unknown',
-              cacheWriteTokens: 0,
-              cacheReadTokens: 0,
-              inputTokens: 0,
-              outputTokens: 0,
-              savedTokens: 0,
-              cacheHitRate: 0,
-              estimatedSavingsUsd: 0,
-              raw: {noMetrics: true},
-            }
-          );
+          const stats = metricsCollector?.getAggregatedStats() ?? {
+            provider: 'unknown',
+            cacheWriteTokens: 0,
+            cacheReadTokens: 0,
+            inputTokens: 0,
+            outputTokens: 0,
+            savedTokens: 0,
+            cacheHitRate: 0,
+            estimatedSavingsUsd: 0,
+            raw: {noMetrics: true},
+          };
+          if (!resultCache) {
+            return stats;
+          }
+
+          const lookups = resultCacheHits + resultCacheMisses;
+          return {
+            ...stats,
+            resultCache: {
+              hits: resultCacheHits,
+              misses: resultCacheMisses,
+              hitRate: lookups > 0 ? resultCacheHits / lookups : 0,
+            },
+          };
         },
 
         /**
@@ -666,6 +2653,13 @@ export function createMullionClient(
           return lastCallCost;
         },
 
+        /**
+         * Get the usage of this scope and what is left of its budget.
+         */
+        getBudgetStatus(): BudgetStatus {
+          return budget.status();
+        },
+
         /**
          * Estimate cost for a potential API call before making it.
          */
@@ -674,7 +2668,7 @@ export function createMullionClient(
           estimatedOutputTokens = 500,
         ): CostBreakdown {
           if (!clientOptions.model) {
-            throw new Error(
+            throw new InvalidConfigurationError(
               'Cannot estimate cost: model identifier not provided in client options',
             );
           }
@@ -697,8 +2691,18 @@ export function createMullionClient(
         },
       };
 
-      // Execute the scoped function with the context
-      return await fn(ctx);
+      // Execute the scoped function with the context, between the plugins'
+      // scope hooks
+      await plugins.enter();
+      let result: R;
+      try {
+        result = await fn(ctx);
+      } catch (error) {
+        await plugins.exit({status: 'error', error});
+        throw error;
+      }
+      await plugins.exit({status: 'success', result});
+      return result;
     },
   };
 }
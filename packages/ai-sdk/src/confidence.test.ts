@@ -0,0 +1,151 @@
+import {describe, expect, it} from 'vitest';
+import {z} from 'zod';
+import {
+  analyzeLogprobs,
+  createLogprobConfidenceEstimator,
+  extractTokenLogprobs,
+  finishReasonConfidenceEstimator,
+} from './confidence.js';
+import type {TokenLogprob} from './confidence.js';
+
+const tokens = (...parts: [string, number][]): TokenLogprob[] =>
+  parts.map(([token, probability]) => ({
+    token,
+    logprob: Math.log(probability),
+  }));
+
+describe('extractTokenLogprobs', () => {
+  it('should read the chat completions format', () => {
+    expect(
+      extractTokenLogprobs({
+        openai: {logprobs: [{token: 'a', logprob: -0.1, top_logprobs: []}]},
+      }),
+    ).toEqual([{token: 'a', logprob: -0.1}]);
+  });
+
+  it('should flatten the responses format', () => {
+    expect(
+      extractTokenLogprobs({
+        openai: {
+          logprobs: [
+            [{token: 'a', logprob: -0.1}],
+            [{token: 'b', logprob: -0.2}],
+          ],
+        },
+      }),
+    ).toEqual([
+      {token: 'a', logprob: -0.1},
+      {token: 'b', logprob: -0.2},
+    ]);
+  });
+
+  it('should read the legacy completions format under any provider key', () => {
+    expect(
+      extractTokenLogprobs({
+        compatible: {logprobs: {tokens: ['a', 'b'], token_logprobs: [-1, -2]}},
+      }),
+    ).toEqual([
+      {token: 'a', logprob: -1},
+      {token: 'b', logprob: -2},
+    ]);
+  });
+
+  it('should return undefined without logprobs', () => {
+    expect(extractTokenLogprobs(undefined)).toBeUndefined();
+    expect(extractTokenLogprobs({openai: {}})).toBeUndefined();
+  });
+});
+
+describe('analyzeLogprobs', () => {
+  it('should average tokens overlapping values and skip the rest', () => {
+    const analysis = analyzeLogprobs(
+      tokens(
+        ['{"', 0.1],
+        ['intent', 0.1],
+        ['":"', 0.1],
+        ['ref', 0.8],
+        ['und', 0.5],
+        ['","score":', 0.1],
+        ['3', 0.9],
+        ['}', 0.1],
+      ),
+    );
+
+    expect(analysis.meanProbability).toBeCloseTo(
+      (0.1 + 0.8 + 0.5 + 0.1 + 0.9) / 5,
+    );
+    expect(analysis.fieldProbabilities.intent).toBeCloseTo(
+      0.1 * 0.8 * 0.5 * 0.1,
+    );
+    expect(analysis.fieldProbabilities.score).toBeCloseTo(0.9);
+  });
+
+  it('should key array items by index', () => {
+    const analysis = analyzeLogprobs(
+      tokens(['{"tags":["a",', 1], ['"b"', 0.5], [']}', 1]),
+    );
+
+    expect(Object.keys(analysis.fieldProbabilities)).toEqual([
+      'tags.0',
+      'tags.1',
+    ]);
+    expect(analysis.fieldProbabilities['tags.1']).toBeCloseTo(0.5);
+  });
+
+  it('should fall back to all tokens for non-JSON output', () => {
+    const analysis = analyzeLogprobs(tokens(['hello', 0.5], [' world', 1]));
+
+    expect(analysis.meanProbability).toBeCloseTo(0.75);
+    expect(analysis.fieldProbabilities).toEqual({});
+  });
+});
+
+describe('createLogprobConfidenceEstimator', () => {
+  const schema = z.object({
+    intent: z.enum(['refund', 'cancel']),
+    note: z.string(),
+  });
+  const providerMetadata = {
+    openai: {
+      logprobs: [
+        {token: '{"intent":', logprob: 0},
+        {token: '"cancel"', logprob: Math.log(0.4)},
+        {token: ',"note":', logprob: 0},
+        {token: '"late order"', logprob: Math.log(0.9)},
+        {token: '}', logprob: 0},
+      ],
+    },
+  };
+  const signals = {
+    finishReason: 'stop' as const,
+    providerMetadata,
+    schema,
+    object: {intent: 'cancel', note: 'late order'},
+  };
+
+  it('should lower confidence to the least likely enum field', () => {
+    expect(createLogprobConfidenceEstimator().estimate(signals)).toBeCloseTo(
+      0.4,
+    );
+  });
+
+  it('should use only the mean when enumFields is false', () => {
+    expect(
+      createLogprobConfidenceEstimator({enumFields: false}).estimate(signals),
+    ).toBeCloseTo(0.65);
+  });
+
+  it('should fall back when the provider returned no logprobs', () => {
+    const estimator = createLogprobConfidenceEstimator();
+
+    expect(estimator.estimate({...signals, providerMetadata: undefined})).toBe(
+      1,
+    );
+    expect(
+      finishReasonConfidenceEstimator.estimate({
+        ...signals,
+        finishReason: 'length',
+      }),
+    ).toBe(0.75);
+  });
+});
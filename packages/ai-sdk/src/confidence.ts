@@ -0,0 +1,479 @@
+/**
+ * Pluggable confidence estimation for inference results.
+ *
+ * `createMullionClient` derives the confidence of every result through a
+ * {@link ConfidenceEstimator}. The default maps the finish reason to a fixed
+ * score; {@link createLogprobConfidenceEstimator} uses token log
+ * probabilities from providers that expose them (OpenAI and compatible APIs).
+ *
+ * @module confidence
+ */
+
+import type {FinishReason, ProviderMetadata} from 'ai';
+import {z} from 'zod';
+
+/**
+ * Confidence scores mapped to LLM finish reasons.
+ *
+ * These values represent how confident we can be in the LLM output
+ * based on why it stopped generating.
+ */
+const FINISH_REASON_CONFIDENCE: Record<FinishReason, number> = {
+  /** Model completed naturally - highest confidence */
+  stop: 1.0,
+  /** Model made tool calls - high confidence (intentional action) */
+  'tool-calls': 0.95,
+  /** Output truncated due to token limit - medium-high confidence */
+  length: 0.75,
+  /** Content was filtered - medium confidence */
+  'content-filter': 0.6,
+  /** Unknown reason - medium confidence */
+  other: 0.5,
+  /** Error occurred - low confidence */
+  error: 0.3,
+};
+
+/**
+ * Extract a confidence score from the LLM finish reason.
+ *
+ * This function maps the finish reason to a confidence score between 0 and 1.
+ * The mapping is based on how reliable the output is likely to be given
+ * why the model stopped generating.
+ *
+ * @param finishReason - The reason the model finished generating
+ * @returns A confidence score between 0 and 1
+ *
+ * @example
+ * ```typescript
+ * extractConfidenceFromFinishReason('stop');    // 1.0
+ * extractConfidenceFromFinishReason('length');  // 0.75
+ * extractConfidenceFromFinishReason('error');   // 0.3
+ * ```
+ */
+export function extractConfidenceFromFinishReason(
+  finishReason: FinishReason,
+): number {
+  return FINISH_REASON_CONFIDENCE[finishReason] ?? 0.5;
+}
+
+/**
+ * Everything a {@link ConfidenceEstimator} can inspect about a model call.
+ */
+export interface ConfidenceSignals {
+  /** Why the model stopped generating */
+  readonly finishReason: FinishReason;
+
+  /** Provider metadata returned with the result (logprobs live here) */
+  readonly providerMetadata?: ProviderMetadata;
+
+  /** Schema the output was validated against */
+  readonly schema: z.ZodType;
+
+  /** The validated output */
+  readonly object: unknown;
+}
+
+/**
+ * Derives a confidence score between 0 and 1 for an inference result.
+ *
+ * @example
+ * ```typescript
+ * const client = createMullionClient(model, {
+ *   confidenceEstimator: {
+ *     name: 'always-unsure',
+ *     estimate: () => 0.5,
+ *   },
+ * });
+ * ```
+ */
+export interface ConfidenceEstimator {
+  /** Human-readable estimator name */
+  readonly name: string;
+
+  /**
+   * Estimates the confidence of a result.
+   *
+   * @param signals - Finish reason, provider metadata, schema and output
+   * @returns A confidence score between 0 and 1
+   */
+  estimate(signals: ConfidenceSignals): number | Promise<number>;
+}
+
+/**
+ * Default estimator: maps the finish reason to a fixed score (see
+ * {@link extractConfidenceFromFinishReason}).
+ */
+export const finishReasonConfidenceEstimator: ConfidenceEstimator = {
+  name: 'finish-reason',
+  estimate: ({finishReason}) => extractConfidenceFromFinishReason(finishReason),
+};
+
+/**
+ * Log probability of a single generated token.
+ */
+export interface TokenLogprob {
+  readonly token: string;
+  readonly logprob: number;
+}
+
+function isTokenLogprob(value: unknown): value is TokenLogprob {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as TokenLogprob).token === 'string' &&
+    typeof (value as TokenLogprob).logprob === 'number'
+  );
+}
+
+function collectTokenLogprobs(value: unknown, tokens: TokenLogprob[]): void {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      collectTokenLogprobs(item, tokens);
+    }
+    return;
+  }
+
+  if (isTokenLogprob(value)) {
+    tokens.push({token: value.token, logprob: value.logprob});
+    return;
+  }
+
+  // Legacy completions format: {tokens: string[], token_logprobs: number[]}
+  if (typeof value === 'object' && value !== null) {
+    const {tokens: texts, token_logprobs: logprobs} = value as {
+      tokens?: unknown;
+      token_logprobs?: unknown;
+    };
+    if (Array.isArray(texts) && Array.isArray(logprobs)) {
+      texts.forEach((token, index) => {
+        const logprob: unknown = logprobs[index];
+        if (typeof token === 'string' && typeof logprob === 'number') {
+          tokens.push({token, logprob});
+        }
+      });
+    }
+  }
+}
+
+/**
+ * Reads generated-token log probabilities from provider metadata.
+ *
+ * Looks for a `logprobs` entry under any provider key, in the chat
+ * completions format (`[{token, logprob}]`), the responses format (one such
+ * array per output part) or the legacy completions format
+ * (`{tokens, token_logprobs}`).
+ *
+ * @param providerMetadata - Provider metadata from the model result
+ * @returns Token log probabilities in output order, or undefined if the
+ *   provider returned none
+ */
+export function extractTokenLogprobs(
+  providerMetadata: ProviderMetadata | undefined,
+): TokenLogprob[] | undefined {
+  if (!providerMetadata) {
+    return undefined;
+  }
+
+  for (const entry of Object.values(providerMetadata)) {
+    const tokens: TokenLogprob[] = [];
+    collectTokenLogprobs(entry?.logprobs, tokens);
+    if (tokens.length > 0) {
+      return tokens;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Character range of a leaf value in the generated JSON text.
+ */
+interface ValueSpan {
+  path: string[];
+  start: number;
+  end: number;
+}
+
+/**
+ * Finds the spans of all leaf values (strings, numbers, booleans, null) in
+ * a JSON document. Returns undefined if the text is not valid JSON.
+ */
+function findValueSpans(text: string): ValueSpan[] | undefined {
+  const spans: ValueSpan[] = [];
+  let index = 0;
+
+  const skipWhitespace = () => {
+    while (index < text.length && /\s/.test(text[index])) index++;
+  };
+
+  const readString = (): string => {
+    const start = index;
+    index++;
+    while (index < text.length && text[index] !== '"') {
+      index += text[index] === '\\' ? 2 : 1;
+    }
+    if (index >= text.length) throw new SyntaxError('Unterminated string');
+    index++;
+    return JSON.parse(text.slice(start, index)) as string;
+  };
+
+  const readValue = (path: string[]): void => {
+    skipWhitespace();
+    const char = text[index];
+
+    if (char === '{') {
+      index++;
+      skipWhitespace();
+      if (text[index] === '}') {
+        index++;
+        return;
+      }
+      for (;;) {
+        skipWhitespace();
+        if (text[index] !== '"') throw new SyntaxError('Expected key');
+        const key = readString();
+        skipWhitespace();
+        if (text[index] !== ':') throw new SyntaxError('Expected colon');
+        index++;
+        readValue([...path, key]);
+        skipWhitespace();
+        if (text[index] === ',') {
+          index++;
+          continue;
+        }
+        if (text[index] !== '}') throw new SyntaxError('Expected }');
+        index++;
+        return;
+      }
+    }
+
+    if (char === '[') {
+      index++;
+      skipWhitespace();
+      if (text[index] === ']') {
+        index++;
+        return;
+      }
+      for (let item = 0; ; item++) {
+        readValue([...path, String(item)]);
+        skipWhitespace();
+        if (text[index] === ',') {
+          index++;
+          continue;
+        }
+        if (text[index] !== ']') throw new SyntaxError('Expected ]');
+        index++;
+        return;
+      }
+    }
+
+    const start = index;
+    if (char === '"') {
+      readString();
+    } else {
+      const match =
+        /^(?:-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/.exec(
+          text.slice(index),
+        );
+      if (!match) throw new SyntaxError('Unexpected token');
+      index += match[0].length;
+    }
+    spans.push({path, start, end: index});
+  };
+
+  try {
+    readValue([]);
+    skipWhitespace();
+    return index === text.length ? spans : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Token-probability signals computed from a JSON completion.
+ */
+export interface LogprobAnalysis {
+  /**
+   * Mean probability of the tokens that make up JSON values (keys and
+   * punctuation excluded). Falls back to all tokens when the output is not
+   * a JSON document.
+   */
+  readonly meanProbability: number;
+
+  /**
+   * Joint probability of each leaf value's tokens, keyed by dotted path
+   * (`items.0.category`). Empty when the output is not a JSON document.
+   */
+  readonly fieldProbabilities: Readonly<Record<string, number>>;
+}
+
+/**
+ * Computes token-probability signals for a JSON completion.
+ *
+ * @param tokens - Generated tokens with log probabilities, in order
+ * @returns Mean value-token probability and per-field joint probabilities
+ *
+ * @example
+ * ```typescript
+ * const analysis = analyzeLogprobs(extractTokenLogprobs(providerMetadata)!);
+ * analysis.meanProbability; // 0.93
+ * analysis.fieldProbabilities['intent']; // 0.71
+ * ```
+ */
+export function analyzeLogprobs(
+  tokens: readonly TokenLogprob[],
+): LogprobAnalysis {
+  const offsets: number[] = [];
+  let text = '';
+  for (const {token} of tokens) {
+    offsets.push(text.length);
+    text += token;
+  }
+
+  const probabilities = tokens.map(({logprob}) => Math.exp(logprob));
+  const mean = (values: number[]) =>
+    values.length > 0
+      ? values.reduce((sum, value) => sum + value, 0) / values.length
+      : 1;
+
+  const spans = findValueSpans(text);
+  if (!spans) {
+    return {meanProbability: mean(probabilities), fieldProbabilities: {}};
+  }
+
+  const valueTokens = new Set<number>();
+  const fieldProbabilities: Record<string, number> = {};
+
+  for (const span of spans) {
+    let joint = 1;
+    tokens.forEach(({token}, index) => {
+      const start = offsets[index];
+      if (start < span.end && start + token.length > span.start) {
+        valueTokens.add(index);
+        joint *= probabilities[index];
+      }
+    });
+    fieldProbabilities[span.path.join('.')] = joint;
+  }
+
+  return {
+    meanProbability: mean([...valueTokens].map((i) => probabilities[i])),
+    fieldProbabilities,
+  };
+}
+
+interface JsonSchemaNode {
+  properties?: Record<string, JsonSchemaNode>;
+  items?: JsonSchemaNode;
+  anyOf?: JsonSchemaNode[];
+  enum?: unknown[];
+  const?: unknown;
+}
+
+function isEnumPath(node: JsonSchemaNode | undefined, path: string[]): boolean {
+  if (!node) return false;
+
+  if (node.anyOf) {
+    return node.anyOf.some((branch) => isEnumPath(branch, path));
+  }
+
+  if (path.length === 0) {
+    return Array.isArray(node.enum) || 'const' in node;
+  }
+
+  const [segment, ...rest] = path;
+  return isEnumPath(node.properties?.[segment] ?? node.items, rest);
+}
+
+/**
+ * Dotted paths of enum (and literal) fields in the analysed output.
+ */
+function enumFieldPaths(
+  schema: z.ZodType,
+  fieldProbabilities: Readonly<Record<string, number>>,
+): string[] {
+  let jsonSchema: JsonSchemaNode;
+  try {
+    jsonSchema = z.toJSONSchema(schema, {
+      unrepresentable: 'any',
+    }) as JsonSchemaNode;
+  } catch {
+    return [];
+  }
+
+  return Object.keys(fieldProbabilities).filter((path) =>
+    isEnumPath(jsonSchema, path === '' ? [] : path.split('.')),
+  );
+}
+
+/**
+ * Options for {@link createLogprobConfidenceEstimator}.
+ */
+export interface LogprobConfidenceOptions {
+  /**
+   * Also consider the joint probability of each enum field. When true, the
+   * confidence is the lower of the mean value-token probability and the
+   * least likely enum field.
+   *
+   * @default true
+   */
+  readonly enumFields?: boolean;
+
+  /**
+   * Estimator used when the provider returned no logprobs.
+   *
+   * @default finishReasonConfidenceEstimator
+   */
+  readonly fallback?: ConfidenceEstimator;
+}
+
+/**
+ * Creates an estimator that derives confidence from token log probabilities.
+ *
+ * Logprobs must be requested from the provider, e.g. with
+ * `providerOptions: {openai: {logprobs: true}}`. Calls without logprobs use
+ * the fallback estimator.
+ *
+ * @param options - Enum-field handling and fallback estimator
+ * @returns A confidence estimator
+ *
+ * @example
+ * ```typescript
+ * const client = createMullionClient(openai('gpt-4o-mini'), {
+ *   providerOptions: {openai: {logprobs: true}},
+ *   confidenceEstimator: createLogprobConfidenceEstimator(),
+ * });
+ *
+ * const intent = await ctx.infer(IntentSchema, message);
+ * intent.confidence; // 0.71 — the model was unsure between two intents
+ * ```
+ */
+export function createLogprobConfidenceEstimator(
+  options: LogprobConfidenceOptions = {},
+): ConfidenceEstimator {
+  const {enumFields = true, fallback = finishReasonConfidenceEstimator} =
+    options;
+
+  return {
+    name: 'logprob',
+
+    estimate(signals) {
+      const tokens = extractTokenLogprobs(signals.providerMetadata);
+      if (!tokens) {
+        return fallback.estimate(signals);
+      }
+
+      const {meanProbability, fieldProbabilities} = analyzeLogprobs(tokens);
+      let confidence = meanProbability;
+
+      if (enumFields) {
+        for (const path of enumFieldPaths(signals.schema, fieldProbabilities)) {
+          confidence = Math.min(confidence, fieldProbabilities[path]);
+        }
+      }
+
+      return Math.min(1, Math.max(0, confidence));
+    },
+  };
+}
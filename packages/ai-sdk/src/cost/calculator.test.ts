@@ -3,6 +3,7 @@ import {
   calculateCost,
   estimateCost,
   calculateBatchCost,
+  combineCosts,
   formatCostBreakdown,
   compareCosts,
 } from './calculator.js';
@@ -410,6 +411,20 @@ describe('calculateBatchCost', () => {
   });
 });
 
+describe('combineCosts', () => {
+  it('should sum costs of calls to different models', () => {
+    const usage: TokenUsage = {inputTokens: 1000, outputTokens: 100};
+    const mini = calculateCost(usage, null, 'gpt-4o-mini');
+    const full = calculateCost(usage, null, 'gpt-4o');
+
+    const total = combineCosts([mini, full], full.pricing);
+
+    expect(total.totalCost).toBeCloseTo(mini.totalCost + full.totalCost, 8);
+    expect(total.inputCost).toBeCloseTo(mini.inputCost + full.inputCost, 8);
+    expect(total.pricing).toBe(full.pricing);
+  });
+});
+
 describe('formatCostBreakdown', () => {
   it('should format simple cost breakdown', () => {
     const cost: CostBreakdown = {
@@ -208,7 +208,31 @@ export function calculateBatchCost(
     calculateCost(call.usage, call.cacheStats, model, pricingOverrides),
   );
 
-  // Sum all costs
+  return combineCosts(
+    costs,
+    costs[0]?.pricing ?? getPricing(model, pricingOverrides),
+  );
+}
+
+/**
+ * Sum cost breakdowns, e.g. of calls to different models
+ *
+ * @param costs - Cost breakdowns to sum
+ * @param pricing - Pricing reported on the combined breakdown
+ * @returns Aggregated cost breakdown
+ *
+ * @example
+ * ```typescript
+ * const total = combineCosts(
+ *   [calculateCost(usage, null, 'gpt-4o-mini'), calculateCost(usage, null, 'gpt-4o')],
+ *   getPricing('gpt-4o'),
+ * );
+ * ```
+ */
+export function combineCosts(
+  costs: readonly CostBreakdown[],
+  pricing: ModelPricing,
+): CostBreakdown {
   const totalInputCost = costs.reduce((sum, c) => sum + c.inputCost, 0);
   const totalOutputCost = costs.reduce((sum, c) => sum + c.outputCost, 0);
   const totalCacheWriteCost = costs.reduce(
@@ -231,7 +255,7 @@ export function calculateBatchCost(
     savings: totalSavings,
     savingsPercent: totalSavingsPercent,
     noCacheCost: totalNoCacheCost,
-    pricing: costs[0]?.pricing ?? getPricing(model, pricingOverrides),
+    pricing,
   };
 }
 
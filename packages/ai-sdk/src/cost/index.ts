@@ -22,6 +22,7 @@ export {
   calculateCost,
   estimateCost,
   calculateBatchCost,
+  combineCosts,
   formatCostBreakdown,
   compareCosts,
 } from './calculator.js';
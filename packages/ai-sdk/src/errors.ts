@@ -0,0 +1,198 @@
+/**
+ * Mullion errors specific to the Vercel AI SDK integration.
+ *
+ * All classes extend `MullionError` from `@mullion/core`, so they share its
+ * stable `code` and `traceId` fields.
+ *
+ * @module errors
+ */
+
+import {MullionError} from '@mullion/core';
+import type {MullionErrorOptions} from '@mullion/core';
+import type {BudgetLimit} from './budget.js';
+
+/**
+ * A cache segment failed validation (size, TTL ordering, breakpoint limit).
+ */
+export class CacheSegmentValidationError extends MullionError {
+  declare readonly code: 'CACHE_SEGMENT_INVALID';
+
+  /**
+   * Key of the rejected segment.
+   */
+  readonly segmentKey: string;
+
+  /**
+   * Every validation error reported for the segment.
+   */
+  readonly errors: readonly string[];
+
+  constructor(
+    message: string,
+    details: {segmentKey: string; errors: readonly string[]},
+    options?: MullionErrorOptions,
+  ) {
+    super('CACHE_SEGMENT_INVALID', message, options);
+    this.name = 'CacheSegmentValidationError';
+    this.segmentKey = details.segmentKey;
+    this.errors = details.errors;
+  }
+}
+
+/**
+ * Fork branches use different schemas while schema conflicts are configured
+ * to be errors.
+ */
+export class SchemaConflictError extends MullionError {
+  declare readonly code: 'SCHEMA_CONFLICT';
+
+  constructor(message: string, options?: MullionErrorOptions) {
+    super('SCHEMA_CONFLICT', message, options);
+    this.name = 'SchemaConflictError';
+  }
+}
+
+/**
+ * A request to a provider API outside of inference failed.
+ */
+export class ProviderRequestError extends MullionError {
+  declare readonly code: 'PROVIDER_REQUEST_FAILED';
+
+  /**
+   * HTTP status returned by the provider.
+   */
+  readonly status: number;
+
+  constructor(message: string, status: number, options?: MullionErrorOptions) {
+    super('PROVIDER_REQUEST_FAILED', message, options);
+    this.name = 'ProviderRequestError';
+    this.status = status;
+  }
+}
+
+/**
+ * An inference call would exceed its scope's budget. Thrown before the
+ * provider is called.
+ */
+export class BudgetExceededError extends MullionError {
+  declare readonly code: 'BUDGET_EXCEEDED';
+
+  /**
+   * Scope whose budget would be exceeded.
+   */
+  readonly scope: string;
+
+  /**
+   * Budget limit that would be exceeded.
+   */
+  readonly limit: BudgetLimit;
+
+  /**
+   * Value of that limit.
+   */
+  readonly max: number;
+
+  /**
+   * Amount already spent or reserved by in-flight calls.
+   */
+  readonly spent: number;
+
+  /**
+   * Estimated amount the rejected call would add.
+   */
+  readonly requested: number;
+
+  constructor(
+    message: string,
+    details: {
+      scope: string;
+      limit: BudgetLimit;
+      max: number;
+      spent: number;
+      requested: number;
+    },
+    options?: MullionErrorOptions,
+  ) {
+    super('BUDGET_EXCEEDED', message, options);
+    this.name = 'BudgetExceededError';
+    this.scope = details.scope;
+    this.limit = details.limit;
+    this.max = details.max;
+    this.spent = details.spent;
+    this.requested = details.requested;
+  }
+}
+
+/**
+ * A scoped tool was called with arguments derived from a scope it does not
+ * accept. The tool is not executed and the inference is aborted.
+ */
+export class ToolScopeViolationError extends MullionError {
+  declare readonly code: 'TOOL_SCOPE_VIOLATION';
+
+  /**
+   * Name of the rejected tool.
+   */
+  readonly toolName: string;
+
+  /**
+   * Scope of data the arguments were derived from.
+   */
+  readonly sourceScope: string;
+
+  /**
+   * Scopes the tool accepts.
+   */
+  readonly accepts: readonly string[];
+
+  constructor(
+    message: string,
+    details: {
+      toolName: string;
+      sourceScope: string;
+      accepts: readonly string[];
+    },
+    options?: MullionErrorOptions,
+  ) {
+    super('TOOL_SCOPE_VIOLATION', message, options);
+    this.name = 'ToolScopeViolationError';
+    this.toolName = details.toolName;
+    this.sourceScope = details.sourceScope;
+    this.accepts = details.accepts;
+  }
+}
+
+/**
+ * An agent run would read a scope beyond its ceiling. The tool producing
+ * it is not executed and the run is aborted.
+ */
+export class ScopeCeilingExceededError extends MullionError {
+  declare readonly code: 'SCOPE_CEILING_EXCEEDED';
+
+  /**
+   * Name of the rejected tool.
+   */
+  readonly toolName: string;
+
+  /**
+   * Scope the tool's result would have added.
+   */
+  readonly scope: string;
+
+  /**
+   * Scopes the run may read besides its own.
+   */
+  readonly ceiling: readonly string[];
+
+  constructor(
+    message: string,
+    details: {toolName: string; scope: string; ceiling: readonly string[]},
+    options?: MullionErrorOptions,
+  ) {
+    super('SCOPE_CEILING_EXCEEDED', message, options);
+    this.name = 'ScopeCeilingExceededError';
+    this.toolName = details.toolName;
+    this.scope = details.scope;
+    this.ceiling = details.ceiling;
+  }
+}
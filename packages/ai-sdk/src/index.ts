@@ -1,17 +1,113 @@
 // @mullion/ai-sdk - Vercel AI SDK integration for Mullion
 
-export {
-  createMullionClient,
-  extractConfidenceFromFinishReason,
-} from './client.js';
+export {createMullionClient, getCalibrationSchemaKey} from './client.js';
 export type {
   MullionClient,
   MullionClientOptions,
   MullionContext,
   MullionInferOptions,
+  MullionSemanticInferOptions,
+  MullionStreamInferOptions,
+  MullionInferStream,
+  MullionGenerateOptions,
+  MullionTextStream,
+  MullionToolInferOptions,
+  MullionToolInference,
+  MullionAgent,
+  MullionAgentOptions,
+  MullionAgentRun,
+  MullionAgentStep,
+  MullionScopeOptions,
   CacheOptions,
 } from './client.js';
 
+// Plugin pipeline around context operations
+export type {
+  MullionPlugin,
+  PluginContext,
+  InferCall,
+  InferErrorEvent,
+  BridgeEvent,
+  ScopeExit,
+} from './plugins.js';
+
+// Scope-aware tool calling
+export {defineScopedTool} from './tools.js';
+export type {
+  ScopedTool,
+  ScopedToolCallContext,
+  ScopedToolResult,
+  ScopedToolSet,
+  ToolScope,
+} from './tools.js';
+
+// Schema validation repair
+export type {RepairAttempt, SchemaRepairOptions} from './repair.js';
+
+// Model fallback chains
+export {validateRoutingOptions} from './routing.js';
+export type {ModelAttempt, ModelRoutingOptions} from './routing.js';
+
+// Concurrency and rate limits
+export {createRequestScheduler, validateSchedulerOptions} from './scheduler.js';
+export type {
+  RateLimits,
+  RequestScheduler,
+  ScheduledRequest,
+  SchedulerOptions,
+} from './scheduler.js';
+
+// Per-scope token and cost budgets
+export type {
+  BudgetLimit,
+  BudgetStatus,
+  BudgetUsage,
+  ScopeBudget,
+} from './budget.js';
+
+// Confidence estimation
+export {
+  extractConfidenceFromFinishReason,
+  finishReasonConfidenceEstimator,
+  createLogprobConfidenceEstimator,
+  extractTokenLogprobs,
+  analyzeLogprobs,
+} from './confidence.js';
+export type {
+  ConfidenceEstimator,
+  ConfidenceSignals,
+  LogprobAnalysis,
+  LogprobConfidenceOptions,
+  TokenLogprob,
+} from './confidence.js';
+
+// Semantic inference helpers
+export {
+  DEFAULT_MAX_ALTERNATIVES,
+  createSemanticSchema,
+  buildSemanticSystemPrompt,
+  toSemanticParts,
+} from './semantic.js';
+export type {SemanticEnvelope} from './semantic.js';
+
+// Self-consistency sampling
+export {aggregateSamples, validateSamplingOptions} from './sampling.js';
+export type {
+  SampleAggregate,
+  SamplingMerge,
+  SamplingOptions,
+} from './sampling.js';
+
+// Integration-specific errors (extend MullionError from @mullion/core)
+export {
+  CacheSegmentValidationError,
+  SchemaConflictError,
+  ProviderRequestError,
+  BudgetExceededError,
+  ToolScopeViolationError,
+  ScopeCeilingExceededError,
+} from './errors.js';
+
 // Cache capabilities for provider optimization
 export {
   getCacheCapabilities,
@@ -135,6 +231,18 @@ export type {
   DetailedSchemaConflictResult,
 } from './cache/schema-conflict.js';
 
+// Memoized inference results
+export {
+  computeResultCacheKey,
+  normalizeCacheInput,
+} from './cache/result-cache.js';
+export type {
+  ResultCacheOptions,
+  ResultCacheMode,
+  ResultCacheStats,
+  ResultCacheKeyParts,
+} from './cache/result-cache.js';
+
 // Cost estimation and tracking
 export {estimateTokens, estimateTokensForSegments} from './cost/tokens.js';
 export type {TokenEstimate} from './cost/tokens.js';
@@ -154,6 +262,7 @@ export {
   calculateCost,
   estimateCost,
   calculateBatchCost,
+  combineCosts,
   formatCostBreakdown,
   compareCosts,
 } from './cost/calculator.js';
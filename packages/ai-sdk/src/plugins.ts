@@ -0,0 +1,365 @@
+/**
+ * Plugin pipeline around `MullionContext` operations.
+ *
+ * Plugins passed to `createMullionClient(model, {use: [plugin]})` observe
+ * and rewrite what happens in every scope of the client: the prompt and
+ * options of each inference, its result, bridges, failures, and the scope
+ * lifecycle. They add cross-cutting behaviour (logging, PII scanning,
+ * metrics, retries) without wrapping the client.
+ *
+ * @module plugins
+ */
+
+import type {z} from 'zod';
+import type {BridgeOptions, Owned} from '@mullion/core';
+import {
+  InvalidArgumentError,
+  assertOwnedScope,
+  isOwned,
+  isSemanticValue,
+} from '@mullion/core';
+import type {MullionSemanticInferOptions} from './client.js';
+
+/**
+ * What a plugin hook knows about the scope it runs in.
+ *
+ * @template State - Per-scope state created by `createState()`
+ */
+export interface PluginContext<State = unknown> {
+  /**
+   * Name of the scope.
+   */
+  readonly scope: string;
+
+  /**
+   * This plugin's state for the scope (undefined without `createState`).
+   * Hooks may mutate it; it is discarded when the scope exits.
+   */
+  readonly state: State;
+}
+
+/**
+ * An inference or text generation call, as seen by `beforeInfer`,
+ * `afterInfer` and `onError`.
+ */
+export interface InferCall {
+  /**
+   * Context method that was called.
+   */
+  readonly operation:
+    | 'infer'
+    | 'inferSemantic'
+    | 'inferStream'
+    | 'generate'
+    | 'generateStream'
+    | 'inferWithTools'
+    | 'agent';
+
+  /**
+   * Schema of the result (`z.string()` for generated text).
+   */
+  readonly schema: z.ZodType;
+
+  /**
+   * Prompt sent to the model (after earlier plugins' rewrites).
+   */
+  readonly input: string;
+
+  /**
+   * Call options (after earlier plugins' rewrites).
+   */
+  readonly options?: MullionSemanticInferOptions;
+}
+
+/**
+ * A failed inference call, as seen by `onError`.
+ */
+export interface InferErrorEvent extends InferCall {
+  /**
+   * Runs the call again with the same input and options and passes the
+   * result through `afterInfer` hooks. Before hooks are not run again.
+   */
+  retry(): Promise<Owned<unknown, string>>;
+}
+
+/**
+ * A bridge into a scope, as seen by `onBridge`.
+ */
+export interface BridgeEvent {
+  /**
+   * Value being bridged.
+   */
+  readonly value: Owned<unknown, string>;
+
+  /**
+   * Scope of the value.
+   */
+  readonly from: string;
+
+  /**
+   * Scope the value is bridged into.
+   */
+  readonly to: string;
+
+  /**
+   * Options passed to `ctx.bridge()`.
+   */
+  readonly options: BridgeOptions;
+}
+
+/**
+ * How a scope ended, as seen by `onScopeExit`.
+ */
+export type ScopeExit =
+  | {readonly status: 'success'; readonly result: unknown}
+  | {readonly status: 'error'; readonly error: unknown};
+
+/**
+ * A plugin: any subset of hooks around context operations.
+ *
+ * Plugins run in the order they are passed to `use`, for every hook. Each
+ * hook receives the scope name and the plugin's own per-scope state.
+ *
+ * @template State - Per-scope state created by `createState()`
+ *
+ * @example
+ * ```typescript
+ * const callCounter: MullionPlugin<{calls: number}> = {
+ *   name: 'call-counter',
+ *   createState: () => ({calls: 0}),
+ *   beforeInfer(call, {state}) {
+ *     state.calls++;
+ *   },
+ *   onScopeExit({scope, state}) {
+ *     console.log(`${scope}: ${state.calls} calls`);
+ *   },
+ * };
+ *
+ * const client = createMullionClient(model, {use: [callCounter]});
+ * ```
+ */
+export interface MullionPlugin<State = unknown> {
+  /**
+   * Plugin name, for debugging.
+   */
+  readonly name: string;
+
+  /**
+   * Creates the plugin's state for a new scope.
+   */
+  createState?(scope: string): State;
+
+  /**
+   * Called when a scope starts, before its function runs.
+   */
+  onScopeEnter?(context: PluginContext<State>): void | Promise<void>;
+
+  /**
+   * Called when a scope ends, after its function resolved or threw.
+   */
+  onScopeExit?(
+    context: PluginContext<State>,
+    exit: ScopeExit,
+  ): void | Promise<void>;
+
+  /**
+   * Called before every inference and text generation call, including
+   * result cache hits, fork branches and retries (a sampled inference runs
+   * the hooks once, not per sample). Return a new `input` and/or `options`
+   * to rewrite the call for later plugins and the model.
+   */
+  beforeInfer?(
+    call: InferCall,
+    context: PluginContext<State>,
+  ):
+    | Partial<Pick<InferCall, 'input' | 'options'>>
+    | void
+    | Promise<Partial<Pick<InferCall, 'input' | 'options'>> | void>;
+
+  /**
+   * Called with every inference result, including values recovered by
+   * `onError`. Return a new value (in the same scope, and a SemanticValue
+   * if the result is one) to replace it, or throw to reject it; a
+   * rejection is final and does not reach `onError`.
+   */
+  afterInfer?(
+    result: Owned<unknown, string>,
+    call: InferCall,
+    context: PluginContext<State>,
+  ): Owned<unknown, string> | void | Promise<Owned<unknown, string> | void>;
+
+  /**
+   * Called when an inference call or a `beforeInfer` hook throws. Return a
+   * value (in the same scope, and a SemanticValue for `inferSemantic`) to
+   * recover, e.g. from `event.retry()`; it is
+   * checked by `afterInfer` hooks like any result, and later plugins'
+   * `onError` are not called. If no plugin recovers, the error is rethrown.
+   */
+  onError?(
+    error: unknown,
+    event: InferErrorEvent,
+    context: PluginContext<State>,
+  ): Owned<unknown, string> | void | Promise<Owned<unknown, string> | void>;
+
+  /**
+   * Called when `ctx.bridge()` moves a value into the scope, after the
+   * scope policy allowed it. Throw to block the bridge.
+   */
+  onBridge?(event: BridgeEvent, context: PluginContext<State>): void;
+}
+
+/**
+ * The plugins of a client bound to one scope, with their states.
+ *
+ * @internal
+ */
+export interface PluginPipeline {
+  /** Runs `onScopeEnter` hooks */
+  enter(): Promise<void>;
+
+  /** Runs `onScopeExit` hooks */
+  exit(exit: ScopeExit): Promise<void>;
+
+  /**
+   * Runs an inference call through `beforeInfer`, `afterInfer` and
+   * `onError` hooks.
+   */
+  infer<R extends Owned<unknown, string>>(
+    call: InferCall,
+    run: (input: string, options?: MullionSemanticInferOptions) => Promise<R>,
+  ): Promise<R>;
+
+  /** Runs `onBridge` hooks */
+  bridge(event: BridgeEvent): void;
+}
+
+/**
+ * Checks that a value returned by `afterInfer` or `onError` can stand in
+ * for the call's result: an Owned value in the pipeline's scope, and a
+ * SemanticValue where the call produces one.
+ *
+ * @throws {InvalidArgumentError} If the value is not an Owned value, or
+ *   not a SemanticValue where one is expected
+ * @throws {ScopeMismatchError} If the value is in another scope
+ */
+function checkReplacement<R extends Owned<unknown, string>>(
+  replacement: unknown,
+  scope: string,
+  semantic: boolean,
+  hook: 'afterInfer' | 'onError',
+): R {
+  if (!isOwned(replacement)) {
+    throw new InvalidArgumentError(`${hook} returned a non-Owned value`);
+  }
+  if (semantic && !isSemanticValue(replacement)) {
+    throw new InvalidArgumentError(
+      `${hook} returned a plain Owned value in place of a SemanticValue`,
+      {traceId: replacement.traceId},
+    );
+  }
+
+  return assertOwnedScope(replacement, scope) as R;
+}
+
+/**
+ * Binds plugins to a scope, creating their per-scope states.
+ *
+ * @param plugins - Plugins, in order
+ * @param scope - Scope the pipeline runs in
+ * @returns The scope's pipeline
+ *
+ * @internal
+ */
+export function createPluginPipeline(
+  plugins: readonly MullionPlugin[],
+  scope: string,
+): PluginPipeline {
+  const bound = plugins.map((plugin) => ({
+    plugin,
+    context: {scope, state: plugin.createState?.(scope)},
+  }));
+
+  return {
+    async enter() {
+      for (const {plugin, context} of bound) {
+        await plugin.onScopeEnter?.(context);
+      }
+    },
+
+    async exit(exit) {
+      for (const {plugin, context} of bound) {
+        await plugin.onScopeExit?.(context, exit);
+      }
+    },
+
+    async infer<R extends Owned<unknown, string>>(
+      initial: InferCall,
+      run: (input: string, options?: MullionSemanticInferOptions) => Promise<R>,
+    ): Promise<R> {
+      if (bound.length === 0) {
+        return run(initial.input, initial.options);
+      }
+
+      // Results that went through afterInfer, so a recovery returning
+      // one of them (from retry()) is not checked twice
+      const checked = new WeakSet<Owned<unknown, string>>();
+      const after = async (result: R, call: InferCall): Promise<R> => {
+        for (const {plugin, context} of bound) {
+          const replacement = await plugin.afterInfer?.(result, call, context);
+          if (replacement) {
+            result = checkReplacement(
+              replacement,
+              scope,
+              isSemanticValue(result),
+              'afterInfer',
+            );
+          }
+        }
+        checked.add(result);
+        return result;
+      };
+
+      let call = initial;
+      let result: R;
+      try {
+        for (const {plugin, context} of bound) {
+          const rewrite = await plugin.beforeInfer?.(call, context);
+          if (rewrite) {
+            call = {...call, ...rewrite};
+          }
+        }
+
+        result = await run(call.input, call.options);
+      } catch (error) {
+        const failed = call;
+        const event: InferErrorEvent = {
+          ...failed,
+          retry: async () =>
+            after(await run(failed.input, failed.options), failed),
+        };
+        for (const {plugin, context} of bound) {
+          const recovered = await plugin.onError?.(error, event, context);
+          if (recovered) {
+            const owned = checkReplacement<R>(
+              recovered,
+              scope,
+              failed.operation === 'inferSemantic',
+              'onError',
+            );
+            return checked.has(owned) ? owned : after(owned, failed);
+          }
+        }
+        throw error;
+      }
+
+      // Outside the try: an afterInfer rejection is final
+      return after(result, call);
+    },
+
+    bridge(event) {
+      for (const {plugin, context} of bound) {
+        plugin.onBridge?.(event, context);
+      }
+    },
+  };
+}
@@ -5,6 +5,9 @@
  * Instead, it resolves available models dynamically via `models.list`.
  */
 
+import {InvalidConfigurationError} from '@mullion/core';
+import {ProviderRequestError} from '../errors.js';
+
 const DEFAULT_GEMINI_MODELS_URL =
   'https://generativelanguage.googleapis.com/v1beta/models';
 const DEFAULT_CACHE_TTL_MS = 10 * 60 * 1000;
@@ -145,8 +148,9 @@ export async function listGeminiModels(
 
     if (!response.ok) {
       const details = await safeReadResponseText(response);
-      throw new Error(
+      throw new ProviderRequestError(
         `Gemini models.list failed (${response.status} ${response.statusText})${details ? `: ${details}` : ''}`,
+        response.status,
       );
     }
 
@@ -236,7 +240,7 @@ function resolveGeminiApiKey(explicitApiKey?: string): string {
     return fromEnv;
   }
 
-  throw new Error(
+  throw new InvalidConfigurationError(
     'Gemini API key is required. Pass apiKey option or set GOOGLE_GENERATIVE_AI_API_KEY.',
   );
 }
@@ -247,7 +251,9 @@ function resolveFetcher(fetcher?: typeof fetch): typeof fetch {
   }
 
   if (typeof globalThis.fetch !== 'function') {
-    throw new Error('Global fetch is unavailable. Provide fetcher option.');
+    throw new InvalidConfigurationError(
+      'Global fetch is unavailable. Provide fetcher option.',
+    );
   }
 
   return globalThis.fetch;
@@ -0,0 +1,78 @@
+import {describe, expect, it} from 'vitest';
+import {z} from 'zod';
+import {
+  buildRepairPrompt,
+  describeSchemaIssues,
+  parseLeniently,
+  repairedConfidence,
+} from './repair.js';
+
+const ContactSchema = z.object({
+  name: z.string(),
+  age: z.number(),
+  subscribed: z.boolean().optional(),
+  tags: z.array(z.string()),
+});
+
+describe('describeSchemaIssues', () => {
+  it('lists one issue per invalid field', () => {
+    expect(
+      describeSchemaIssues(
+        ContactSchema,
+        '{"name": "Ada", "age": "36", "tags": [1]}',
+      ),
+    ).toEqual([
+      'age: Invalid input: expected number, received string',
+      'tags.0: Invalid input: expected string, received number',
+    ]);
+  });
+
+  it('describes empty and malformed outputs', () => {
+    expect(describeSchemaIssues(ContactSchema, undefined)).toEqual([
+      'The response was empty',
+    ]);
+    expect(describeSchemaIssues(ContactSchema, '{"name":')[0]).toMatch(
+      /^The response is not valid JSON: /,
+    );
+  });
+});
+
+describe('buildRepairPrompt', () => {
+  it('appends the rejected output and its issues to the input', () => {
+    const prompt = buildRepairPrompt('Extract the contact.', {
+      text: '{"name": "Ada"}',
+      issues: ['age: Required'],
+    });
+
+    expect(prompt).toContain('Extract the contact.\n');
+    expect(prompt).toContain('Previous response:\n{"name": "Ada"}');
+    expect(prompt).toContain('- age: Required');
+  });
+});
+
+describe('parseLeniently', () => {
+  it('coerces scalars and drops unknown keys', () => {
+    expect(
+      parseLeniently(
+        ContactSchema,
+        '```json\n{"name": "Ada", "age": "36", "subscribed": "true", ' +
+          '"tags": [1, "vip"], "extra": true}\n```',
+      ),
+    ).toEqual({
+      value: {name: 'Ada', age: 36, subscribed: true, tags: ['1', 'vip']},
+    });
+  });
+
+  it('returns undefined when the output still does not match', () => {
+    expect(parseLeniently(ContactSchema, '{"name": "Ada"}')).toBeUndefined();
+    expect(parseLeniently(ContactSchema, 'no json here')).toBeUndefined();
+  });
+});
+
+describe('repairedConfidence', () => {
+  it('lowers confidence per re-prompt and for coerced values', () => {
+    expect(repairedConfidence(1, 0, false)).toBe(1);
+    expect(repairedConfidence(1, 2, false)).toBeCloseTo(0.64);
+    expect(repairedConfidence(0.9, 1, true)).toBeCloseTo(0.36);
+  });
+});
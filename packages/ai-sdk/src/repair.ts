@@ -0,0 +1,253 @@
+/**
+ * Schema validation repair for `infer()`.
+ *
+ * When the model's output does not parse or does not match the schema,
+ * `infer()` with a `repair` option re-prompts the model with the validation
+ * issues listed, up to `maxRepairs` times. With `lenient: true`, the last
+ * output is then coerced to the schema as a final fallback. Repaired values
+ * get a lower confidence.
+ *
+ * @module repair
+ */
+
+import type {z} from 'zod';
+
+/**
+ * Repair of outputs that fail schema validation.
+ *
+ * @example
+ * ```typescript
+ * const invoice = await ctx.infer(InvoiceSchema, document, {
+ *   repair: {maxRepairs: 2, lenient: true},
+ * });
+ * ```
+ */
+export interface SchemaRepairOptions {
+  /**
+   * Re-prompts after an invalid output, each listing the validation
+   * issues of the previous output.
+   * @default 1
+   */
+  readonly maxRepairs?: number;
+
+  /**
+   * When the last re-prompt still fails, coerce its output to the schema
+   * (numbers and booleans from strings, strings from scalars, unknown keys
+   * dropped) instead of throwing.
+   * @default false
+   */
+  readonly lenient?: boolean;
+}
+
+/**
+ * A failed attempt of a repaired inference.
+ */
+export interface RepairAttempt {
+  /**
+   * Raw output of the model, if any.
+   */
+  readonly text: string | undefined;
+
+  /**
+   * Why it was rejected, one entry per validation issue.
+   */
+  readonly issues: readonly string[];
+}
+
+/**
+ * Confidence is multiplied by this factor for every re-prompt.
+ */
+const REPAIR_CONFIDENCE_FACTOR = 0.8;
+
+/**
+ * Confidence is multiplied by this factor when the value was coerced.
+ */
+const LENIENT_CONFIDENCE_FACTOR = 0.5;
+
+/**
+ * Lists the validation issues of a raw model output.
+ *
+ * @param schema - Schema the output must match
+ * @param text - Raw output of the model
+ * @returns Issues as `path: message` lines
+ *
+ * @internal
+ */
+export function describeSchemaIssues(
+  schema: z.ZodType,
+  text: string | undefined,
+): string[] {
+  if (text === undefined || text.trim() === '') {
+    return ['The response was empty'];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return [
+      `The response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    ];
+  }
+
+  const result = schema.safeParse(parsed);
+  if (result.success) {
+    return [];
+  }
+  return result.error.issues.map(
+    (issue) =>
+      `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`,
+  );
+}
+
+/**
+ * Builds the prompt of a repair attempt: the original input, followed by
+ * the rejected output and its issues.
+ *
+ * @internal
+ */
+export function buildRepairPrompt(
+  input: string,
+  attempt: RepairAttempt,
+): string {
+  return [
+    input,
+    '',
+    'Your previous response did not match the required schema.',
+    ...(attempt.text ? ['Previous response:', attempt.text] : []),
+    'Validation issues:',
+    ...attempt.issues.map((issue) => `- ${issue}`),
+    'Respond again with an object that fixes every issue.',
+  ].join('\n');
+}
+
+/**
+ * Coerces a raw model output to a schema: extracts the JSON value, converts
+ * scalars to the expected types and drops unknown keys.
+ *
+ * @param schema - Schema the output must match
+ * @param text - Raw output of the model
+ * @returns The parsed value, or undefined if it still does not match
+ *
+ * @internal
+ */
+export function parseLeniently<T>(
+  schema: z.ZodType<T>,
+  text: string | undefined,
+): {value: T} | undefined {
+  const json = extractJson(text);
+  if (json === undefined) {
+    return undefined;
+  }
+
+  const result = schema.safeParse(coerce(schema, json.value));
+  return result.success ? {value: result.data} : undefined;
+}
+
+/**
+ * Lowers the confidence of a repaired value.
+ *
+ * @param confidence - Confidence of the final attempt
+ * @param repairs - Number of re-prompts
+ * @param lenient - Whether the value was coerced
+ *
+ * @internal
+ */
+export function repairedConfidence(
+  confidence: number,
+  repairs: number,
+  lenient: boolean,
+): number {
+  return (
+    confidence *
+    REPAIR_CONFIDENCE_FACTOR ** repairs *
+    (lenient ? LENIENT_CONFIDENCE_FACTOR : 1)
+  );
+}
+
+/**
+ * Internal Zod v4 definition fields used for coercion.
+ */
+interface ZodDef {
+  type?: string;
+  shape?: Record<string, z.ZodType>;
+  element?: z.ZodType;
+  innerType?: z.ZodType;
+  options?: z.ZodType[];
+}
+
+function extractJson(text: string | undefined): {value: unknown} | undefined {
+  if (text === undefined) {
+    return undefined;
+  }
+
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  for (const candidate of [text, text.slice(start, end + 1)]) {
+    try {
+      return {value: JSON.parse(candidate) as unknown};
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return undefined;
+}
+
+function coerce(schema: z.ZodType, value: unknown): unknown {
+  const def = (schema as unknown as {_def?: ZodDef})._def;
+
+  switch (def?.type) {
+    case 'object': {
+      if (!isRecord(value) || !def.shape) return value;
+      const result: Record<string, unknown> = {};
+      for (const [key, field] of Object.entries(def.shape)) {
+        if (key in value) {
+          result[key] = coerce(field, value[key]);
+        }
+      }
+      return result;
+    }
+
+    case 'array': {
+      const {element} = def;
+      return Array.isArray(value) && element
+        ? value.map((item) => coerce(element, item))
+        : value;
+    }
+
+    case 'optional':
+    case 'nullable':
+    case 'default':
+      return value === undefined || value === null || !def.innerType
+        ? value
+        : coerce(def.innerType, value);
+
+    case 'union': {
+      const match = def.options?.find(
+        (option) => option.safeParse(coerce(option, value)).success,
+      );
+      return match ? coerce(match, value) : value;
+    }
+
+    case 'number': {
+      const number =
+        typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+      return Number.isFinite(number) ? number : value;
+    }
+
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value;
+
+    case 'string':
+      return typeof value === 'number' || typeof value === 'boolean'
+        ? String(value)
+        : value;
+
+    default:
+      return value;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
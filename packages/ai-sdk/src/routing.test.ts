@@ -0,0 +1,35 @@
+import {describe, expect, it} from 'vitest';
+import {InvalidArgumentError, ScopeFlowViolationError} from '@mullion/core';
+import {isEscalatableError, validateRoutingOptions} from './routing.js';
+
+describe('validateRoutingOptions', () => {
+  it('rejects confidence thresholds outside 0..1', () => {
+    expect(() =>
+      validateRoutingOptions({fallbacks: [], minConfidence: 1.5}),
+    ).toThrow(InvalidArgumentError);
+    expect(() =>
+      validateRoutingOptions({fallbacks: [], minConfidence: NaN}),
+    ).toThrow(InvalidArgumentError);
+    expect(() =>
+      validateRoutingOptions({fallbacks: [], minConfidence: 0.8}),
+    ).not.toThrow();
+  });
+});
+
+describe('isEscalatableError', () => {
+  it('escalates provider failures only', () => {
+    const abort = new Error('The operation was aborted');
+    abort.name = 'AbortError';
+
+    expect(isEscalatableError(new Error('Rate limit exceeded'))).toBe(true);
+    expect(isEscalatableError(abort)).toBe(false);
+    expect(
+      isEscalatableError(
+        new ScopeFlowViolationError('blocked', {
+          sourceScope: 'a',
+          targetScope: 'b',
+        }),
+      ),
+    ).toBe(false);
+  });
+});
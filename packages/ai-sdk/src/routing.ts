@@ -0,0 +1,101 @@
+/**
+ * Model fallback chains with confidence-based escalation.
+ *
+ * `infer()` with a `routing` option tries the call's model first and
+ * escalates to the next model of `fallbacks` when the call fails (rate
+ * limit, timeout, content filter) or its confidence is below
+ * `minConfidence`. The result records which model produced it, and the
+ * cost of every attempt is accounted.
+ *
+ * @module routing
+ */
+
+import type {LanguageModel} from 'ai';
+import {InvalidArgumentError, isMullionError} from '@mullion/core';
+
+/**
+ * Options for model fallback chains.
+ *
+ * @example
+ * ```typescript
+ * const client = createMullionClient(openai('gpt-5-nano'), {
+ *   routing: {
+ *     fallbacks: [openai('gpt-5-mini'), anthropic('claude-sonnet-4-5')],
+ *     minConfidence: 0.8,
+ *   },
+ * });
+ * ```
+ */
+export interface ModelRoutingOptions {
+  /**
+   * Models to escalate to, in order, after the call's model. Order them
+   * from cheapest to most capable.
+   */
+  readonly fallbacks: readonly LanguageModel[];
+
+  /**
+   * Escalate when the result's confidence is below this threshold
+   * (0 to 1). Without it, only failed calls escalate.
+   */
+  readonly minConfidence?: number;
+
+  /**
+   * Whether a failed call escalates to the next model.
+   *
+   * @default every error except Mullion errors (budgets, scope policy)
+   *   and aborts
+   */
+  readonly escalateOn?: (error: unknown) => boolean;
+}
+
+/**
+ * One model tried by a routed inference, recorded in the `route` lineage
+ * hop of the result.
+ */
+export interface ModelAttempt {
+  /**
+   * Model identifier.
+   */
+  readonly model: string;
+
+  /**
+   * Confidence of the result, if the call succeeded.
+   */
+  readonly confidence?: number;
+
+  /**
+   * Error message, if the call failed.
+   */
+  readonly error?: string;
+}
+
+/**
+ * Validates routing options.
+ *
+ * @param options - Routing options to validate
+ * @throws {InvalidArgumentError} If `minConfidence` is not between 0 and 1
+ */
+export function validateRoutingOptions(options: ModelRoutingOptions): void {
+  const {minConfidence} = options;
+  if (
+    minConfidence !== undefined &&
+    !(minConfidence >= 0 && minConfidence <= 1)
+  ) {
+    throw new InvalidArgumentError(
+      `routing.minConfidence must be between 0 and 1, got ${minConfidence}`,
+    );
+  }
+}
+
+/**
+ * Default `escalateOn`: provider failures escalate, while Mullion errors
+ * (which another model would hit as well) and aborts do not.
+ *
+ * @internal
+ */
+export function isEscalatableError(error: unknown): boolean {
+  if (isMullionError(error)) {
+    return false;
+  }
+  return !(error instanceof Error && error.name === 'AbortError');
+}
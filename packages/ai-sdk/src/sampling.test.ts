@@ -0,0 +1,84 @@
+import {describe, expect, it} from 'vitest';
+import {createOwned} from '@mullion/core';
+import {aggregateSamples, validateSamplingOptions} from './sampling.js';
+
+const sample = <T>(value: T, confidence = 1) =>
+  createOwned({value, scope: 'support', confidence});
+
+describe('aggregateSamples', () => {
+  it('should vote on whole values and expose minority answers', () => {
+    const aggregate = aggregateSamples([
+      sample('refund'),
+      sample('cancel'),
+      sample('refund'),
+      sample('question', 0.5),
+    ]);
+
+    expect(aggregate.value).toBe('refund');
+    expect(aggregate.confidence).toBeCloseTo(2 / 3.5);
+    expect(aggregate.alternatives).toEqual([
+      {value: 'cancel', confidence: 1 / 3.5},
+      {value: 'question', confidence: 0.5 / 3.5},
+    ]);
+    expect(aggregate.reasoning).toBe('2 of 4 samples agreed');
+  });
+
+  it('should group structurally equal arrays', () => {
+    const aggregate = aggregateSamples([
+      sample(['a', 'b']),
+      sample(['a', 'b']),
+      sample(['c']),
+    ]);
+
+    expect(aggregate.value).toEqual(['a', 'b']);
+    expect(aggregate.confidence).toBeCloseTo(2 / 3);
+    expect(aggregate.alternatives).toHaveLength(1);
+  });
+
+  it('should merge plain objects field by field', () => {
+    const aggregate = aggregateSamples([
+      sample({category: 'billing', tags: ['refund']}),
+      sample({category: 'billing', tags: ['refund']}),
+      sample({category: 'shipping', tags: ['refund']}),
+    ]);
+
+    expect(aggregate.value).toEqual({category: 'billing', tags: ['refund']});
+    expect(aggregate.confidence).toBe(0.5);
+    expect(aggregate.alternatives).toEqual([
+      {value: {category: 'shipping', tags: ['refund']}, confidence: 1 / 3},
+    ]);
+    expect(aggregate.reasoning).toBe(
+      '3 samples merged field by field; 1 of 2 fields disagreed',
+    );
+  });
+
+  it('should vote on whole objects with merge: categorical', () => {
+    const aggregate = aggregateSamples(
+      [sample({a: 1, b: 2}), sample({a: 1, b: 3}), sample({a: 1, b: 3})],
+      {merge: 'categorical'},
+    );
+
+    expect(aggregate.value).toEqual({a: 1, b: 3});
+    expect(aggregate.confidence).toBeCloseTo(2 / 3);
+  });
+
+  it('should truncate alternatives to maxAlternatives', () => {
+    const aggregate = aggregateSamples(
+      [sample('a'), sample('a'), sample('b'), sample('c')],
+      {maxAlternatives: 1},
+    );
+
+    expect(aggregate.alternatives).toHaveLength(1);
+  });
+});
+
+describe('validateSamplingOptions', () => {
+  it('should reject invalid sample counts and alternative limits', () => {
+    expect(() => validateSamplingOptions({samples: 1})).toThrow(/at least 2/);
+    expect(() => validateSamplingOptions({samples: 2.5})).toThrow(/at least 2/);
+    expect(() =>
+      validateSamplingOptions({samples: 3, maxAlternatives: -1}),
+    ).toThrow(/non-negative/);
+    expect(() => validateSamplingOptions({samples: 3})).not.toThrow();
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Self-consistency sampling: confidence from agreement between samples.
+ *
+ * `infer()` with a `sampling` option runs the same inference several times
+ * through `fork()` (cache-optimized, so samples share the cached prefix) and
+ * aggregates the samples with the core `categorical` / `object` merge
+ * strategies. The merged value's confidence is the measured agreement level,
+ * and the answers the minority of samples gave become alternatives.
+ *
+ * @module sampling
+ */
+
+import {InvalidArgumentError, categorical, object} from '@mullion/core';
+import type {Alternative, Owned, WarmupStrategy} from '@mullion/core';
+import {DEFAULT_MAX_ALTERNATIVES} from './semantic.js';
+
+/**
+ * How samples are merged.
+ *
+ * - `'categorical'`: weighted vote over whole values
+ * - `'object'`: field-by-field weighted vote (plain objects only)
+ * - `'auto'`: `'object'` when every sample is a plain object, otherwise
+ *   `'categorical'`
+ */
+export type SamplingMerge = 'auto' | 'categorical' | 'object';
+
+/**
+ * Options for self-consistency sampling.
+ */
+export interface SamplingOptions {
+  /**
+   * Number of samples to draw. Must be an integer of at least 2.
+   */
+  readonly samples: number;
+
+  /**
+   * How samples are merged.
+   *
+   * @default 'auto'
+   */
+  readonly merge?: SamplingMerge;
+
+  /**
+   * Warmup strategy for the cache-optimized fork. With `'first-branch'` the
+   * first sample primes the cache for the others.
+   *
+   * @default 'first-branch'
+   */
+  readonly warmup?: WarmupStrategy;
+
+  /**
+   * Maximum number of minority answers kept as alternatives.
+   *
+   * @default 3
+   */
+  readonly maxAlternatives?: number;
+}
+
+/**
+ * Aggregated samples, ready to be wrapped in a SemanticValue.
+ *
+ * @template T - Type of each sample
+ */
+export interface SampleAggregate<T> {
+  value: T;
+  confidence: number;
+  alternatives: Alternative<T>[];
+  reasoning: string;
+}
+
+/**
+ * Validates sampling options.
+ *
+ * @param options - Sampling options to validate
+ * @throws {InvalidArgumentError} If `samples` is not an integer of at least
+ *   2 or `maxAlternatives` is not a non-negative integer
+ */
+export function validateSamplingOptions(options: SamplingOptions): void {
+  if (!Number.isInteger(options.samples) || options.samples < 2) {
+    throw new InvalidArgumentError(
+      `sampling.samples must be an integer of at least 2, got ${options.samples}`,
+    );
+  }
+
+  const {maxAlternatives} = options;
+  if (
+    maxAlternatives !== undefined &&
+    (!Number.isInteger(maxAlternatives) || maxAlternatives < 0)
+  ) {
+    throw new InvalidArgumentError(
+      `sampling.maxAlternatives must be a non-negative integer, got ${maxAlternatives}`,
+    );
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Keys a value by its JSON form so structurally equal samples vote together.
+ */
+function sampleKey(value: unknown): string {
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+/**
+ * Replaces structurally equal field values with one shared instance, so the
+ * fieldwise strategy (which compares by identity) treats them as agreeing.
+ */
+function internFields<T>(
+  samples: readonly Owned<T, string>[],
+): Owned<Record<string, unknown>, string>[] {
+  const interned = new Map<string, Map<string, unknown>>();
+
+  return samples.map((sample) => {
+    const fields: Record<string, unknown> = {};
+
+    for (const [field, value] of Object.entries(
+      sample.value as Record<string, unknown>,
+    )) {
+      const byKey = interned.get(field) ?? new Map<string, unknown>();
+      interned.set(field, byKey);
+
+      const key = sampleKey(value);
+      if (!byKey.has(key)) {
+        byKey.set(key, value);
+      }
+      fields[field] = byKey.get(key);
+    }
+
+    return {...sample, value: fields};
+  });
+}
+
+/**
+ * Merges samples and measures how much they agree.
+ *
+ * Samples are weighted by their own confidence (derived from the finish
+ * reason). The result's confidence is the merge strategy's consensus level:
+ * the weighted share of samples that voted for the winner (categorical) or
+ * the share of fields every sample agreed on (object). Distinct answers that
+ * differ from the merged value are returned as alternatives, scored by their
+ * weighted share and capped at the merged confidence.
+ *
+ * @template T - Type of each sample
+ * @param samples - Samples to merge (at least one)
+ * @param options - Merge mode and alternative limit
+ * @returns Merged value, agreement-based confidence, alternatives and a
+ *   short description of the agreement
+ *
+ * @example
+ * ```typescript
+ * const aggregate = aggregateSamples([
+ *   createOwned({value: 'refund', scope: 's'}),
+ *   createOwned({value: 'refund', scope: 's'}),
+ *   createOwned({value: 'cancel', scope: 's'}),
+ * ]);
+ *
+ * // aggregate.value === 'refund'
+ * // aggregate.confidence ≈ 0.67
+ * // aggregate.alternatives ≈ [{value: 'cancel', confidence: 0.33}]
+ * ```
+ */
+export function aggregateSamples<T>(
+  samples: readonly Owned<T, string>[],
+  options: Omit<SamplingOptions, 'samples' | 'warmup'> = {},
+): SampleAggregate<T> {
+  const {merge = 'auto', maxAlternatives = DEFAULT_MAX_ALTERNATIVES} = options;
+
+  const useObject =
+    merge === 'object' ||
+    (merge === 'auto' &&
+      samples.every((sample) => isPlainObject(sample.value)));
+
+  let value: T;
+  let confidence: number;
+  let reasoning: string;
+
+  if (useObject) {
+    const result = object
+      .fieldwise({allowPartial: true})
+      .merge(internFields(samples));
+    const fieldCount = new Set(
+      samples.flatMap((sample) =>
+        Object.keys(sample.value as Record<string, unknown>),
+      ),
+    ).size;
+
+    value = result.value.value as T;
+    confidence = result.provenance.consensusLevel;
+    reasoning =
+      `${samples.length} samples merged field by field; ` +
+      `${result.conflicts.length} of ${fieldCount} fields disagreed`;
+  } else {
+    const keyed = samples.map((sample) => ({
+      ...sample,
+      value: sampleKey(sample.value),
+    }));
+    const result = categorical.weightedVote<string>().merge(keyed);
+    const winner = samples[result.provenance.contributingBranches[0]];
+
+    value = winner.value;
+    confidence = result.provenance.consensusLevel;
+    reasoning =
+      `${result.provenance.contributingBranches.length} of ` +
+      `${samples.length} samples agreed`;
+  }
+
+  const totalWeight = samples.reduce(
+    (sum, sample) => sum + sample.confidence,
+    0,
+  );
+  const mergedKey = sampleKey(value);
+  const minority = new Map<string, Alternative<T>>();
+
+  for (const sample of samples) {
+    const key = sampleKey(sample.value);
+    if (key === mergedKey) continue;
+
+    const share = totalWeight > 0 ? sample.confidence / totalWeight : 0;
+    const existing = minority.get(key);
+    minority.set(key, {
+      value: existing?.value ?? sample.value,
+      confidence: (existing?.confidence ?? 0) + share,
+    });
+  }
+
+  const alternatives = [...minority.values()]
+    .map((alternative) => ({
+      value: alternative.value,
+      confidence: Math.min(alternative.confidence, confidence),
+    }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, maxAlternatives);
+
+  return {value, confidence, alternatives, reasoning};
+}
@@ -0,0 +1,180 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import type {LanguageModel} from 'ai';
+import {APICallError} from 'ai';
+import {InvalidConfigurationError} from '@mullion/core';
+import {createRequestScheduler} from './scheduler.js';
+
+const mini = {provider: 'openai.chat', modelId: 'gpt-4o-mini'} as LanguageModel;
+
+const rateLimited = (headers: Record<string, string> = {}) =>
+  new APICallError({
+    message: 'Rate limit exceeded',
+    url: 'https://api.example.com',
+    requestBodyValues: {},
+    statusCode: 429,
+    responseHeaders: headers,
+  });
+
+describe('createRequestScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('limits calls in flight', async () => {
+    const scheduler = createRequestScheduler({maxConcurrent: 2});
+    const started: number[] = [];
+    const releases = await Promise.all(
+      [0, 1].map((index) =>
+        scheduler.acquire({model: mini, tokens: 10}).then((release) => {
+          started.push(index);
+          return release;
+        }),
+      ),
+    );
+    const third = scheduler.acquire({model: mini, tokens: 10});
+    void third.then(() => started.push(2));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 1]);
+
+    releases[0]();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 1, 2]);
+  });
+
+  it('refills request and token buckets over the minute', async () => {
+    const scheduler = createRequestScheduler({
+      requestsPerMinute: 2,
+      tokensPerMinute: 1000,
+    });
+    const started: string[] = [];
+    const start = (label: string, tokens: number) =>
+      void scheduler.acquire({model: mini, tokens}).then((release) => {
+        started.push(label);
+        release();
+      });
+
+    start('a', 600);
+    start('b', 600);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual(['a']);
+
+    // 200 more tokens refill in 12 seconds
+    await vi.advanceTimersByTimeAsync(11_999);
+    expect(started).toEqual(['a']);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toEqual(['a', 'b']);
+
+    // 0.4 requests are left: a whole one refills in 18 more seconds
+    start('c', 1);
+    await vi.advanceTimersByTimeAsync(17_900);
+    expect(started).toEqual(['a', 'b']);
+    await vi.advanceTimersByTimeAsync(200);
+    expect(started).toEqual(['a', 'b', 'c']);
+  });
+
+  it('serves waiting groups in turn', async () => {
+    const scheduler = createRequestScheduler({maxConcurrent: 1});
+    const started: string[] = [];
+    const run = (label: string, group: string) =>
+      scheduler.run({model: mini, tokens: 10, group}, async () => {
+        started.push(label);
+        await Promise.resolve();
+      });
+
+    await Promise.all([
+      run('a1', 'a'),
+      run('a2', 'a'),
+      run('a3', 'a'),
+      run('b1', 'b'),
+    ]);
+
+    expect(started).toEqual(['a1', 'a2', 'b1', 'a3']);
+  });
+
+  it('shares provider limits between its models', async () => {
+    const scheduler = createRequestScheduler({
+      limits: {anthropic: {maxConcurrent: 1}},
+    });
+    const haiku = {
+      provider: 'anthropic.messages',
+      modelId: 'claude-haiku',
+    } as LanguageModel;
+    const sonnet = {
+      provider: 'anthropic.messages',
+      modelId: 'claude-sonnet',
+    } as LanguageModel;
+
+    const release = await scheduler.acquire({model: haiku, tokens: 10});
+    let started = false;
+    void scheduler
+      .acquire({model: sonnet, tokens: 10})
+      .then(() => (started = true));
+    await scheduler.acquire({model: mini, tokens: 10});
+
+    expect(started).toBe(false);
+    release();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toBe(true);
+  });
+
+  it('retries rate-limited calls after retry-after', async () => {
+    const scheduler = createRequestScheduler({maxRetries: 1});
+    const call = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(rateLimited({'retry-after': '2'}))
+      .mockResolvedValueOnce('ok');
+
+    const result = scheduler.run({model: mini, tokens: 10}, call);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(call).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toBe('ok');
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('backs off exponentially and gives up after maxRetries', async () => {
+    const scheduler = createRequestScheduler({
+      maxRetries: 2,
+      initialDelayMs: 100,
+    });
+    const error = rateLimited();
+    const call = vi.fn<() => Promise<string>>().mockRejectedValue(error);
+
+    const result = scheduler.run({model: mini, tokens: 10}, call);
+    result.catch(() => undefined);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(call).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(199);
+    expect(call).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).rejects.toBe(error);
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry other errors', async () => {
+    const scheduler = createRequestScheduler({});
+    const error = new Error('Invalid API key');
+    const call = vi.fn<() => Promise<string>>().mockRejectedValue(error);
+
+    await expect(scheduler.run({model: mini, tokens: 10}, call)).rejects.toBe(
+      error,
+    );
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects non-positive limits', () => {
+    expect(() => createRequestScheduler({maxConcurrent: 0})).toThrow(
+      InvalidConfigurationError,
+    );
+    expect(() =>
+      createRequestScheduler({limits: {openai: {tokensPerMinute: -1}}}),
+    ).toThrow(/scheduler\.limits\.openai\.tokensPerMinute/);
+  });
+});
@@ -0,0 +1,418 @@
+/**
+ * Client-side request scheduling: concurrency limits, token-bucket rate
+ * limits and retries.
+ *
+ * A client created with a `scheduler` option queues every provider call
+ * until its model's limits allow it: at most `maxConcurrent` calls in
+ * flight, `requestsPerMinute` calls and `tokensPerMinute` estimated tokens
+ * per minute. Waiting calls are queued per scope and fork branch and served
+ * round-robin, so one branch making many calls cannot starve the others.
+ * Calls failing with a retryable provider error (429, 5xx) are retried with
+ * exponential backoff, honouring the provider's `retry-after` header.
+ *
+ * @module scheduler
+ */
+
+import type {LanguageModel} from 'ai';
+import {APICallError} from 'ai';
+import {InvalidConfigurationError} from '@mullion/core';
+
+/**
+ * Limits of the calls to a model or provider.
+ */
+export interface RateLimits {
+  /**
+   * Maximum number of calls in flight.
+   */
+  readonly maxConcurrent?: number;
+
+  /**
+   * Maximum number of calls started per minute (token bucket refilled
+   * continuously).
+   */
+  readonly requestsPerMinute?: number;
+
+  /**
+   * Maximum number of estimated tokens (prompt and `maxTokens` output) per
+   * minute (token bucket refilled continuously).
+   */
+  readonly tokensPerMinute?: number;
+}
+
+/**
+ * Options of a request scheduler.
+ *
+ * The top-level limits apply to every model separately. `limits` replaces
+ * them for a model identifier (e.g. `'gpt-4o-mini'`) or a provider name
+ * (e.g. `'anthropic'`); a provider entry is shared by all of its models.
+ *
+ * @example
+ * ```typescript
+ * const client = createMullionClient(openai('gpt-4o-mini'), {
+ *   scheduler: {
+ *     maxConcurrent: 4,
+ *     requestsPerMinute: 500,
+ *     limits: {anthropic: {maxConcurrent: 2, tokensPerMinute: 40_000}},
+ *   },
+ * });
+ * ```
+ */
+export interface SchedulerOptions extends RateLimits {
+  /**
+   * Limits by model identifier or provider name.
+   */
+  readonly limits?: Readonly<Record<string, RateLimits>>;
+
+  /**
+   * Retries of a call failing with a retryable provider error.
+   * @default 3
+   */
+  readonly maxRetries?: number;
+
+  /**
+   * Delay before the first retry when the provider sends no `retry-after`
+   * header; doubles with every retry.
+   * @default 1000
+   */
+  readonly initialDelayMs?: number;
+
+  /**
+   * Longest delay before a retry. A call whose `retry-after` asks for more
+   * is not retried.
+   * @default 60000
+   */
+  readonly maxDelayMs?: number;
+}
+
+/**
+ * A provider call waiting for the scheduler.
+ */
+export interface ScheduledRequest {
+  /**
+   * Model the call is made to.
+   */
+  readonly model: LanguageModel;
+
+  /**
+   * Estimated tokens of the call, counted against `tokensPerMinute`.
+   */
+  readonly tokens: number;
+
+  /**
+   * Fair-queuing group (default: one shared group). Groups waiting for the
+   * same limits are served in turn.
+   */
+  readonly group?: string;
+}
+
+/**
+ * Schedules provider calls within rate limits, created by
+ * {@link createRequestScheduler}.
+ */
+export interface RequestScheduler {
+  /**
+   * Runs a call once the limits of its model allow it, retrying it (queued
+   * again) when it fails with a retryable provider error.
+   */
+  run<T>(request: ScheduledRequest, call: () => PromiseLike<T>): Promise<T>;
+
+  /**
+   * Waits until the limits of the model allow a call and takes a slot,
+   * without retries. Call the returned function when the call finished.
+   */
+  acquire(request: ScheduledRequest): Promise<() => void>;
+}
+
+interface Waiter {
+  tokens: number;
+  resolve: (release: () => void) => void;
+}
+
+interface Bucket {
+  limits: RateLimits;
+  active: number;
+  requests: number;
+  tokens: number;
+  refilledAt: number;
+  blockedUntil: number;
+  queues: Map<string, Waiter[]>;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+const MINUTE_MS = 60_000;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_INITIAL_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 60_000;
+
+/**
+ * Creates a request scheduler.
+ *
+ * @param options - Limits and retry policy
+ * @returns The scheduler
+ * @throws {InvalidConfigurationError} If a limit is not a positive number
+ *   or a retry option is negative
+ */
+export function createRequestScheduler(
+  options: SchedulerOptions,
+): RequestScheduler {
+  validateSchedulerOptions(options);
+
+  const {
+    maxRetries = DEFAULT_MAX_RETRIES,
+    initialDelayMs = DEFAULT_INITIAL_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+  } = options;
+  const buckets = new Map<string, Bucket>();
+
+  const getBucket = (model: LanguageModel): Bucket => {
+    const {modelId, provider} = describeModel(model);
+    const override =
+      options.limits?.[modelId] !== undefined
+        ? {key: `model:${modelId}`, limits: options.limits[modelId]}
+        : provider !== undefined && options.limits?.[provider] !== undefined
+          ? {key: `provider:${provider}`, limits: options.limits[provider]}
+          : undefined;
+    const {key, limits} = override ?? {
+      key: `model:${modelId}`,
+      limits: options,
+    };
+
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = {
+        limits,
+        active: 0,
+        requests: limits.requestsPerMinute ?? 0,
+        tokens: limits.tokensPerMinute ?? 0,
+        refilledAt: Date.now(),
+        blockedUntil: 0,
+        queues: new Map(),
+      };
+      buckets.set(key, bucket);
+    }
+    return bucket;
+  };
+
+  const wake = (bucket: Bucket, delayMs: number): void => {
+    bucket.timer = setTimeout(() => {
+      bucket.timer = undefined;
+      dispatch(bucket);
+    }, Math.ceil(delayMs));
+  };
+
+  const dispatch = (bucket: Bucket): void => {
+    if (bucket.timer !== undefined) {
+      clearTimeout(bucket.timer);
+      bucket.timer = undefined;
+    }
+
+    const {maxConcurrent, requestsPerMinute, tokensPerMinute} = bucket.limits;
+    for (;;) {
+      // Groups are kept in round-robin order: the next one is first
+      const next = bucket.queues.entries().next();
+      if (next.done) return;
+      const [group, waiters] = next.value;
+
+      if (maxConcurrent !== undefined && bucket.active >= maxConcurrent) {
+        return; // A release dispatches again
+      }
+
+      const now = Date.now();
+      if (bucket.blockedUntil > now) {
+        wake(bucket, bucket.blockedUntil - now);
+        return;
+      }
+
+      refill(bucket, now);
+      const waiter = waiters[0];
+      const tokens = Math.min(waiter.tokens, tokensPerMinute ?? Infinity);
+      const delayMs = Math.max(
+        requestsPerMinute !== undefined && bucket.requests < 1
+          ? ((1 - bucket.requests) * MINUTE_MS) / requestsPerMinute
+          : 0,
+        tokensPerMinute !== undefined && bucket.tokens < tokens
+          ? ((tokens - bucket.tokens) * MINUTE_MS) / tokensPerMinute
+          : 0,
+      );
+      if (delayMs > 0) {
+        wake(bucket, delayMs);
+        return;
+      }
+
+      bucket.requests -= 1;
+      bucket.tokens -= tokens;
+      bucket.active++;
+      waiters.shift();
+      bucket.queues.delete(group);
+      if (waiters.length > 0) {
+        bucket.queues.set(group, waiters);
+      }
+
+      let released = false;
+      waiter.resolve(() => {
+        if (released) return;
+        released = true;
+        bucket.active--;
+        dispatch(bucket);
+      });
+    }
+  };
+
+  const acquire = (request: ScheduledRequest): Promise<() => void> => {
+    const bucket = getBucket(request.model);
+    const group = request.group ?? '';
+    return new Promise((resolve) => {
+      const waiters = bucket.queues.get(group);
+      const waiter = {tokens: request.tokens, resolve};
+      if (waiters) {
+        waiters.push(waiter);
+      } else {
+        bucket.queues.set(group, [waiter]);
+      }
+      dispatch(bucket);
+    });
+  };
+
+  return {
+    acquire,
+
+    async run<T>(request: ScheduledRequest, call: () => PromiseLike<T>) {
+      for (let retry = 0; ; retry++) {
+        const release = await acquire(request);
+        try {
+          return await call();
+        } catch (error) {
+          // Other calls may run while this one waits for its retry
+          release();
+          if (retry >= maxRetries || !isRetryableError(error)) {
+            throw error;
+          }
+
+          const retryAfterMs = getRetryAfterMs(error);
+          if (retryAfterMs === undefined) {
+            await sleep(Math.min(initialDelayMs * 2 ** retry, maxDelayMs));
+          } else if (retryAfterMs <= maxDelayMs) {
+            // The provider is rate limiting every call to this model
+            const bucket = getBucket(request.model);
+            bucket.blockedUntil = Math.max(
+              bucket.blockedUntil,
+              Date.now() + retryAfterMs,
+            );
+          } else {
+            throw error;
+          }
+        } finally {
+          release();
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Validates scheduler options.
+ *
+ * @param options - Scheduler options to validate
+ * @throws {InvalidConfigurationError} If a limit is not a positive number
+ *   or a retry option is negative
+ */
+export function validateSchedulerOptions(options: SchedulerOptions): void {
+  const entries: [string, RateLimits][] = [
+    ['scheduler', options],
+    ...Object.entries(options.limits ?? {}).map(
+      ([key, limits]): [string, RateLimits] => [
+        `scheduler.limits.${key}`,
+        limits,
+      ],
+    ),
+  ];
+  for (const [path, limits] of entries) {
+    for (const field of [
+      'maxConcurrent',
+      'requestsPerMinute',
+      'tokensPerMinute',
+    ] as const) {
+      const value = limits[field];
+      if (value !== undefined && !(value > 0)) {
+        throw new InvalidConfigurationError(
+          `${path}.${field} must be a positive number, got ${value}`,
+        );
+      }
+    }
+  }
+
+  for (const field of ['maxRetries', 'initialDelayMs', 'maxDelayMs'] as const) {
+    const value = options[field];
+    if (value !== undefined && !(value >= 0)) {
+      throw new InvalidConfigurationError(
+        `scheduler.${field} must be a non-negative number, got ${value}`,
+      );
+    }
+  }
+}
+
+function refill(bucket: Bucket, now: number): void {
+  const elapsed = now - bucket.refilledAt;
+  const {requestsPerMinute, tokensPerMinute} = bucket.limits;
+  if (requestsPerMinute !== undefined) {
+    bucket.requests = Math.min(
+      requestsPerMinute,
+      bucket.requests + (elapsed * requestsPerMinute) / MINUTE_MS,
+    );
+  }
+  if (tokensPerMinute !== undefined) {
+    bucket.tokens = Math.min(
+      tokensPerMinute,
+      bucket.tokens + (elapsed * tokensPerMinute) / MINUTE_MS,
+    );
+  }
+  bucket.refilledAt = now;
+}
+
+function describeModel(model: LanguageModel): {
+  modelId: string;
+  provider: string | undefined;
+} {
+  if (typeof model === 'string') {
+    // Gateway model strings are 'provider/model'
+    const [provider, modelId] = model.includes('/')
+      ? model.split('/', 2)
+      : [undefined, model];
+    return {modelId: modelId ?? model, provider};
+  }
+  // Provider names of AI SDK models are e.g. 'openai.chat'
+  return {
+    modelId: model.modelId ?? 'unknown',
+    provider: (model.provider as string | undefined)?.split('.')[0],
+  };
+}
+
+function isRetryableError(error: unknown): error is APICallError {
+  return APICallError.isInstance(error) && error.isRetryable;
+}
+
+/**
+ * Delay asked for by the `retry-after-ms` or `retry-after` (seconds or
+ * HTTP date) header of a provider error.
+ */
+function getRetryAfterMs(error: APICallError): number | undefined {
+  const headers = error.responseHeaders;
+  if (!headers) return undefined;
+
+  const retryAfterMs = parseFloat(headers['retry-after-ms'] ?? '');
+  if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = headers['retry-after'];
+  if (retryAfter === undefined) return undefined;
+  const seconds = parseFloat(retryAfter);
+  const ms = Number.isFinite(seconds)
+    ? seconds * 1000
+    : Date.parse(retryAfter) - Date.now();
+  return Number.isFinite(ms) ? Math.max(ms, 0) : undefined;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,84 @@
+import {describe, expect, it} from 'vitest';
+import {z} from 'zod';
+import {
+  buildSemanticSystemPrompt,
+  createSemanticSchema,
+  toSemanticParts,
+} from './semantic.js';
+
+const Intent = z.enum(['refund', 'cancel', 'question']);
+
+describe('createSemanticSchema', () => {
+  it('should validate the value and every alternative against the schema', () => {
+    const schema = createSemanticSchema(Intent, 2);
+
+    expect(
+      schema.safeParse({
+        value: 'refund',
+        alternatives: [{value: 'cancel', confidence: 0.4}],
+        reasoning: 'asks for money back',
+      }).success,
+    ).toBe(true);
+
+    expect(
+      schema.safeParse({
+        value: 'refund',
+        alternatives: [{value: 'upgrade', confidence: 0.4}],
+        reasoning: 'x',
+      }).success,
+    ).toBe(false);
+
+    expect(
+      schema.safeParse({
+        value: 'refund',
+        alternatives: [{value: 'cancel', confidence: 1.4}],
+        reasoning: 'x',
+      }).success,
+    ).toBe(false);
+  });
+
+  it('should reject invalid maxAlternatives', () => {
+    expect(() => createSemanticSchema(Intent, -1)).toThrow(/non-negative/);
+    expect(() => createSemanticSchema(Intent, 1.5)).toThrow(/non-negative/);
+  });
+});
+
+describe('buildSemanticSystemPrompt', () => {
+  it('should append instructions to the caller prompt', () => {
+    const prompt = buildSemanticSystemPrompt('Be concise.', 3);
+
+    expect(prompt.startsWith('Be concise.\n\n')).toBe(true);
+    expect(prompt).toContain('up to 3 different plausible answers');
+  });
+
+  it('should ask for no alternatives when none are wanted', () => {
+    expect(buildSemanticSystemPrompt(undefined, 0)).toContain(
+      'Leave `alternatives` empty',
+    );
+  });
+});
+
+describe('toSemanticParts', () => {
+  it('should rank, deduplicate, cap and truncate alternatives', () => {
+    const parts = toSemanticParts(
+      {
+        value: 'refund',
+        alternatives: [
+          {value: 'question', confidence: 0.2},
+          {value: 'refund', confidence: 0.9},
+          {value: 'cancel', confidence: 0.95},
+          {value: 'question', confidence: 0.3},
+        ],
+        reasoning: 'asks for money back',
+      },
+      0.75,
+      1,
+    );
+
+    expect(parts).toEqual({
+      value: 'refund',
+      alternatives: [{value: 'cancel', confidence: 0.75}],
+      reasoning: 'asks for money back',
+    });
+  });
+});
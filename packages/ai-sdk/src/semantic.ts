@@ -0,0 +1,133 @@
+/**
+ * Semantic inference: values with ranked alternatives and reasoning.
+ *
+ * `inferSemantic()` (and `infer()` with `includeAlternatives: true`) wraps
+ * the caller's schema in an envelope asking the model for its chosen value,
+ * alternative interpretations with confidence scores, and a short
+ * explanation. Every alternative is validated against the caller's schema
+ * by `generateObject`, exactly like the primary value.
+ *
+ * @module semantic
+ */
+
+import {z} from 'zod';
+import {InvalidArgumentError} from '@mullion/core';
+import type {Alternative} from '@mullion/core';
+
+/**
+ * Default number of alternatives requested from the model.
+ */
+export const DEFAULT_MAX_ALTERNATIVES = 3;
+
+/**
+ * Raw object returned by the model for a semantic inference.
+ *
+ * @template T - Type described by the caller's schema
+ */
+export interface SemanticEnvelope<T> {
+  value: T;
+  alternatives: {value: T; confidence: number}[];
+  reasoning: string;
+}
+
+/**
+ * Wraps a schema in the envelope used for semantic inference.
+ *
+ * @param schema - The caller's schema for the primary value
+ * @param maxAlternatives - Maximum number of alternatives to request
+ * @returns A schema for {@link SemanticEnvelope}
+ * @throws {InvalidArgumentError} If maxAlternatives is not a non-negative
+ *   integer
+ */
+export function createSemanticSchema<T>(
+  schema: z.ZodType<T>,
+  maxAlternatives: number,
+): z.ZodType<SemanticEnvelope<T>> {
+  if (!Number.isInteger(maxAlternatives) || maxAlternatives < 0) {
+    throw new InvalidArgumentError(
+      `maxAlternatives must be a non-negative integer, got ${maxAlternatives}`,
+    );
+  }
+
+  return z.object({
+    value: schema.describe('The most likely value'),
+    alternatives: z
+      .array(
+        z.object({
+          value: schema,
+          confidence: z.number().min(0).max(1),
+        }),
+      )
+      .describe(
+        `Up to ${maxAlternatives} other plausible values, most likely first`,
+      ),
+    reasoning: z
+      .string()
+      .describe('Brief explanation of why the value was chosen'),
+  });
+}
+
+/**
+ * Appends semantic-inference instructions to the caller's system prompt.
+ *
+ * @param systemPrompt - The caller's system prompt, if any
+ * @param maxAlternatives - Maximum number of alternatives to request
+ * @returns The combined system prompt
+ */
+export function buildSemanticSystemPrompt(
+  systemPrompt: string | undefined,
+  maxAlternatives: number,
+): string {
+  const instructions =
+    'Put your answer in `value`. ' +
+    (maxAlternatives > 0
+      ? `List up to ${maxAlternatives} different plausible answers in ` +
+        '`alternatives`, each with a confidence between 0 and 1, most likely ' +
+        'first. '
+      : 'Leave `alternatives` empty. ') +
+    'Explain your choice briefly in `reasoning`.';
+
+  return systemPrompt ? `${systemPrompt}\n\n${instructions}` : instructions;
+}
+
+/**
+ * Normalizes a model envelope into SemanticValue fields.
+ *
+ * Alternatives that repeat the primary value are dropped, the rest are
+ * ranked by confidence and truncated to `maxAlternatives`. Alternative
+ * confidence is capped at the primary confidence so an alternative never
+ * outranks the chosen value.
+ *
+ * @param envelope - Object returned by the model
+ * @param confidence - Confidence of the primary value
+ * @param maxAlternatives - Maximum number of alternatives to keep
+ * @returns Value, ranked alternatives and reasoning
+ */
+export function toSemanticParts<T>(
+  envelope: SemanticEnvelope<T>,
+  confidence: number,
+  maxAlternatives: number,
+): {value: T; alternatives: Alternative<T>[]; reasoning: string} {
+  const primaryKey = JSON.stringify(envelope.value);
+  const seen = new Set<string>([primaryKey]);
+
+  const alternatives = envelope.alternatives
+    .filter((alternative) => {
+      const key = JSON.stringify(alternative.value);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map((alternative) => ({
+      value: alternative.value,
+      confidence: Math.min(alternative.confidence, confidence),
+    }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, maxAlternatives);
+
+  return {
+    value: envelope.value,
+    alternatives,
+    reasoning: envelope.reasoning,
+  };
+}
@@ -0,0 +1,169 @@
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {z} from 'zod';
+import {
+  InvalidConfigurationError,
+  ScopeFlowViolationError,
+  clearAuditSink,
+  clearScopeRegistry,
+  defineScopes,
+  setAuditSink,
+  setScopeRegistry,
+} from '@mullion/core';
+import type {AuditEvent} from '@mullion/core';
+import {ScopeCeilingExceededError, ToolScopeViolationError} from './errors.js';
+import {createToolRuntime, defineScopedTool} from './tools.js';
+
+const callOptions = (toolCallId: string) => ({toolCallId, messages: []});
+
+describe('defineScopedTool', () => {
+  it('rejects tools that accept no scope', () => {
+    expect(() =>
+      defineScopedTool({
+        inputSchema: z.object({}),
+        accepts: [],
+        produces: 'tool:crm',
+        execute: () => null,
+      }),
+    ).toThrow(InvalidConfigurationError);
+  });
+});
+
+describe('createToolRuntime', () => {
+  afterEach(() => {
+    clearAuditSink();
+    clearScopeRegistry();
+  });
+
+  const lookupCustomer = defineScopedTool({
+    inputSchema: z.object({email: z.string()}),
+    accepts: ['internal'],
+    produces: 'tool:crm',
+    execute: ({email}) => ({email, plan: 'pro'}),
+  });
+
+  it('runs accepted calls and owns their results in the tool scope', async () => {
+    const runtime = createToolRuntime({lookupCustomer}, 'internal', 'trace-1');
+
+    const output = await runtime.tools.lookupCustomer.execute?.(
+      {email: 'ada@example.com'},
+      callOptions('call-1'),
+    );
+
+    expect(output).toEqual({email: 'ada@example.com', plan: 'pro'});
+    expect(runtime.results).toMatchObject([
+      {
+        toolName: 'lookupCustomer',
+        toolCallId: 'call-1',
+        input: {email: 'ada@example.com'},
+        output: {
+          value: {email: 'ada@example.com', plan: 'pro'},
+          __scope: 'tool:crm',
+          traceId: 'trace-1',
+        },
+      },
+    ]);
+    expect(runtime.violation).toBeUndefined();
+  });
+
+  it('rejects calls whose arguments may derive from other scopes', async () => {
+    const events: AuditEvent[] = [];
+    setAuditSink({record: (event) => void events.push(event)});
+    const sendEmail = vi.fn();
+    const runtime = createToolRuntime(
+      {
+        lookupCustomer,
+        sendEmail: defineScopedTool({
+          inputSchema: z.object({body: z.string()}),
+          accepts: ['internal'],
+          produces: 'tool:email',
+          execute: sendEmail,
+        }),
+      },
+      'internal',
+      'trace-1',
+    );
+
+    await runtime.tools.lookupCustomer.execute?.(
+      {email: 'ada@example.com'},
+      callOptions('call-1'),
+    );
+    await expect(
+      runtime.tools.sendEmail.execute?.({body: 'Plan: pro'}, callOptions('2')),
+    ).rejects.toMatchObject({
+      code: 'TOOL_SCOPE_VIOLATION',
+      toolName: 'sendEmail',
+      sourceScope: 'tool:crm',
+      accepts: ['internal'],
+    });
+
+    expect(sendEmail).not.toHaveBeenCalled();
+    expect(runtime.violation).toBeInstanceOf(ToolScopeViolationError);
+    expect(runtime.stopOnViolation({steps: []})).toBe(true);
+    expect(events).toMatchObject([
+      {
+        type: 'scope-violation',
+        check: 'tool-arguments',
+        from: 'tool:crm',
+        to: 'tool:email',
+        traceId: 'trace-1',
+      },
+    ]);
+  });
+
+  it('rejects calls that would read beyond the ceiling', async () => {
+    const lookupInvoice = vi.fn();
+    const runtime = createToolRuntime(
+      {
+        lookupCustomer,
+        lookupInvoice: defineScopedTool({
+          inputSchema: z.object({email: z.string()}),
+          accepts: ['internal', 'tool:crm'],
+          produces: 'tool:billing',
+          execute: lookupInvoice,
+        }),
+      },
+      'internal',
+      'trace-1',
+      {ceiling: ['tool:crm']},
+    );
+
+    await runtime.tools.lookupCustomer.execute?.(
+      {email: 'ada@example.com'},
+      callOptions('call-1'),
+    );
+    await expect(
+      runtime.tools.lookupInvoice.execute?.(
+        {email: 'ada@example.com'},
+        callOptions('call-2'),
+      ),
+    ).rejects.toBeInstanceOf(ScopeCeilingExceededError);
+
+    expect(lookupInvoice).not.toHaveBeenCalled();
+    expect(runtime.scopes).toEqual(['internal', 'tool:crm']);
+    expect(runtime.violation).toMatchObject({
+      code: 'SCOPE_CEILING_EXCEEDED',
+      toolName: 'lookupInvoice',
+      scope: 'tool:billing',
+      ceiling: ['tool:crm'],
+    });
+  });
+
+  it('checks tool results against the scope policy', async () => {
+    setScopeRegistry(
+      defineScopes({
+        levels: ['public', 'internal'] as const,
+        forbid: [{from: 'tool:crm', to: 'internal'}],
+      }),
+    );
+    const runtime = createToolRuntime({lookupCustomer}, 'internal', 'trace-1');
+
+    await expect(
+      runtime.tools.lookupCustomer.execute?.(
+        {email: 'ada@example.com'},
+        callOptions('call-1'),
+      ),
+    ).rejects.toBeInstanceOf(ScopeFlowViolationError);
+    expect(runtime.results).toEqual([]);
+    expect(runtime.violation).toBeInstanceOf(ScopeFlowViolationError);
+  });
+});
@@ -0,0 +1,378 @@
+/**
+ * Scope-aware tool calling.
+ *
+ * Tools defined with `defineScopedTool()` declare which scopes of data they
+ * may receive (`accepts`) and the scope of what they return (`produces`).
+ * `ctx.inferWithTools()` tracks the scopes of everything the model has
+ * seen during the call (the context's own scope and the scopes of earlier
+ * tool results) and rejects tool calls whose arguments may be derived from
+ * a scope the tool does not accept.
+ *
+ * @module tools
+ */
+
+import type {StopCondition, ToolSet} from 'ai';
+import {tool} from 'ai';
+import type {z} from 'zod';
+import type {Lineage, MullionError, Owned} from '@mullion/core';
+import {
+  InvalidConfigurationError,
+  appendLineageHop,
+  assertScopeFlow,
+  createLineage,
+  createOwned,
+  emitAuditEvent,
+  isMullionError,
+} from '@mullion/core';
+import {ScopeCeilingExceededError, ToolScopeViolationError} from './errors.js';
+
+/**
+ * What a scoped tool knows about the call it executes.
+ */
+export interface ScopedToolCallContext {
+  /**
+   * ID of the tool call, as reported by the provider.
+   */
+  readonly toolCallId: string;
+
+  /**
+   * Scopes of the data the arguments may be derived from. All of them are
+   * in the tool's `accepts`.
+   */
+  readonly scopes: readonly string[];
+
+  /**
+   * Signal aborting the inference, if any.
+   */
+  readonly abortSignal?: AbortSignal;
+}
+
+/**
+ * A tool with declared scopes, created by {@link defineScopedTool}.
+ *
+ * @template Input - Type of the tool arguments
+ * @template Output - Type of the tool result
+ * @template A - Scopes the tool accepts data from
+ * @template P - Scope of the tool's results
+ */
+export interface ScopedTool<
+  Input = unknown,
+  Output = unknown,
+  A extends string = string,
+  P extends string = string,
+> {
+  /**
+   * Description shown to the model.
+   */
+  readonly description?: string;
+
+  /**
+   * Schema of the tool arguments.
+   */
+  readonly inputSchema: z.ZodType<Input>;
+
+  /**
+   * Scopes whose data may flow into the tool's arguments.
+   */
+  readonly accepts: readonly A[];
+
+  /**
+   * Scope of the tool's results.
+   */
+  readonly produces: P;
+
+  /**
+   * Runs the tool.
+   */
+  execute(
+    input: Input,
+    context: ScopedToolCallContext,
+  ): Output | Promise<Output>;
+}
+
+/**
+ * Scoped tools by name, as passed to `ctx.inferWithTools()`.
+ */
+export type ScopedToolSet = Record<string, ScopedTool>;
+
+/**
+ * Union of the result scopes of a tool set.
+ */
+export type ToolScope<Tools extends ScopedToolSet> =
+  Tools[keyof Tools]['produces'];
+
+/**
+ * A tool call made during an inference, with its result.
+ *
+ * @template P - Scope of the result
+ */
+export interface ScopedToolResult<P extends string = string> {
+  /**
+   * Name of the tool in the tool set.
+   */
+  readonly toolName: string;
+
+  /**
+   * ID of the tool call.
+   */
+  readonly toolCallId: string;
+
+  /**
+   * Arguments the model called the tool with.
+   */
+  readonly input: unknown;
+
+  /**
+   * Result, owned by the tool's `produces` scope.
+   */
+  readonly output: Owned<unknown, P>;
+}
+
+/**
+ * Defines a tool that declares which scopes it may receive data from and
+ * which scope its results belong to.
+ *
+ * @param definition - Schema, scopes and implementation of the tool
+ * @returns The tool, for the `tools` option of `ctx.inferWithTools()`
+ * @throws {InvalidConfigurationError} If `accepts` is empty or a scope name
+ *   is empty
+ *
+ * @example
+ * ```typescript
+ * const lookupCustomer = defineScopedTool({
+ *   description: 'Look up a customer by email',
+ *   inputSchema: z.object({email: z.string()}),
+ *   accepts: ['internal'],
+ *   produces: 'tool:crm',
+ *   execute: ({email}) => crm.findByEmail(email),
+ * });
+ * ```
+ */
+export function defineScopedTool<
+  Input,
+  Output,
+  const A extends string,
+  const P extends string,
+>(
+  definition: ScopedTool<Input, Output, A, P>,
+): ScopedTool<Input, Output, A, P> {
+  if (definition.accepts.length === 0) {
+    throw new InvalidConfigurationError(
+      `Scoped tool producing '${definition.produces}' must accept at least one scope`,
+    );
+  }
+  if (
+    definition.produces.length === 0 ||
+    definition.accepts.some((scope) => scope.length === 0)
+  ) {
+    throw new InvalidConfigurationError(
+      'Scoped tool scopes must be non-empty strings',
+    );
+  }
+
+  return definition;
+}
+
+/**
+ * Options of {@link createToolRuntime}.
+ *
+ * @internal
+ */
+export interface ToolRuntimeOptions {
+  /**
+   * Scopes the inference may read besides its own. A call whose result
+   * would add another scope is not executed.
+   */
+  ceiling?: readonly string[];
+}
+
+/**
+ * The tools of one inference, bound to its scope.
+ *
+ * @internal
+ */
+export interface ToolRuntime<P extends string> {
+  /**
+   * AI SDK tools that enforce `accepts` before executing.
+   */
+  readonly tools: ToolSet;
+
+  /**
+   * Results of the tool calls executed so far.
+   */
+  readonly results: readonly ScopedToolResult<P>[];
+
+  /**
+   * Scopes of the data the model has seen so far: the inference's scope
+   * and the scopes of the tool results.
+   */
+  readonly scopes: readonly string[];
+
+  /**
+   * Lineage of a value derived from what the model has seen: a `context`
+   * hop into the inference's scope from the scope of every tool result, so
+   * bridging the value is checked against all of them.
+   */
+  readonly lineage: Lineage;
+
+  /**
+   * Ends the tool loop after the step in which a call was rejected.
+   */
+  readonly stopOnViolation: StopCondition<ToolSet>;
+
+  /**
+   * Error of the first rejected tool call, if any.
+   */
+  readonly violation: MullionError | undefined;
+}
+
+/**
+ * Binds scoped tools to an inference in a scope.
+ *
+ * The arguments of every call may be derived from the scope and from the
+ * results of the calls before it, so each call is checked against all
+ * scopes seen so far. A rejected call is not executed; the model sees it
+ * fail and the loop stops after the step. Tool results flow back into the
+ * scope, so they are checked against the scope policy like a bridge, and
+ * against the ceiling before the tool runs.
+ *
+ * @param tools - Scoped tools by name
+ * @param scope - Scope of the inference
+ * @param traceId - Trace ID of the inference, shared by the tool results
+ * @param options - Scope ceiling of the inference
+ * @returns The runtime of the inference
+ *
+ * @internal
+ */
+export function createToolRuntime<Tools extends ScopedToolSet>(
+  tools: Tools,
+  scope: string,
+  traceId: string,
+  options: ToolRuntimeOptions = {},
+): ToolRuntime<ToolScope<Tools>> {
+  const scopes = new Set<string>([scope]);
+  const results: ScopedToolResult<ToolScope<Tools>>[] = [];
+  let violation: MullionError | undefined;
+
+  const reject = (error: MullionError): never => {
+    violation ??= error;
+    throw error;
+  };
+
+  const aiTools: ToolSet = {};
+  for (const [toolName, definition] of Object.entries(tools)) {
+    aiTools[toolName] = tool({
+      description: definition.description,
+      inputSchema: definition.inputSchema,
+      execute: async (input, {toolCallId, abortSignal}) => {
+        if (violation) {
+          throw violation;
+        }
+
+        const sourceScope = [...scopes].find(
+          (seen) => !definition.accepts.includes(seen),
+        );
+        if (sourceScope !== undefined) {
+          emitAuditEvent({
+            type: 'scope-violation',
+            timestamp: Date.now(),
+            check: 'tool-arguments',
+            from: sourceScope,
+            to: definition.produces,
+            traceId,
+          });
+          reject(
+            new ToolScopeViolationError(
+              `Tool '${toolName}' accepts data from scopes ` +
+                `${definition.accepts.map((s) => `'${s}'`).join(', ')}, ` +
+                `but its arguments may be derived from scope '${sourceScope}'`,
+              {toolName, sourceScope, accepts: definition.accepts},
+              {traceId},
+            ),
+          );
+        }
+
+        const {ceiling} = options;
+        if (
+          ceiling &&
+          !scopes.has(definition.produces) &&
+          !ceiling.includes(definition.produces)
+        ) {
+          emitAuditEvent({
+            type: 'scope-violation',
+            timestamp: Date.now(),
+            check: 'scope-ceiling',
+            from: definition.produces,
+            to: scope,
+            traceId,
+          });
+          reject(
+            new ScopeCeilingExceededError(
+              `Tool '${toolName}' would add scope '${definition.produces}' ` +
+                `to the data read in scope '${scope}', beyond its ceiling ` +
+                `(${[scope, ...ceiling].map((s) => `'${s}'`).join(', ')})`,
+              {toolName, scope: definition.produces, ceiling},
+              {traceId},
+            ),
+          );
+        }
+
+        const value = await definition.execute(input, {
+          toolCallId,
+          scopes: [...scopes],
+          abortSignal,
+        });
+
+        // The result joins the scope's conversation
+        try {
+          assertScopeFlow(definition.produces, scope);
+        } catch (error) {
+          if (isMullionError(error)) reject(error);
+          throw error;
+        }
+        scopes.add(definition.produces);
+        results.push({
+          toolName,
+          toolCallId,
+          input,
+          output: createOwned({
+            value,
+            scope: definition.produces as ToolScope<Tools>,
+            traceId,
+          }),
+        });
+
+        return value;
+      },
+    });
+  }
+
+  return {
+    tools: aiTools,
+    results,
+    get scopes() {
+      return [...scopes];
+    },
+    get lineage() {
+      let lineage = createLineage(scope, traceId);
+      for (const from of scopes) {
+        if (from === scope) continue;
+        lineage = appendLineageHop(
+          {__scope: scope, traceId, lineage},
+          {
+            kind: 'context',
+            from,
+            to: scope,
+            context: scope,
+            reason: 'Tool result',
+          },
+        );
+      }
+      return lineage;
+    },
+    stopOnViolation: () => violation !== undefined,
+    get violation() {
+      return violation;
+    },
+  };
+}
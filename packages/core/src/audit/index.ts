@@ -0,0 +1,41 @@
+/**
+ * Audit module for recording scope boundary crossings.
+ *
+ * @module audit
+ */
+
+export type {
+  AuditEventBase,
+  AuditEvent,
+  BridgeAuditEvent,
+  DeclassifyAuditEvent,
+  ReviewAuditEvent,
+  ScopeViolationCheck,
+  ScopeViolationAuditEvent,
+  AuditSink,
+} from './types.js';
+
+export {
+  setAuditSink,
+  getAuditSink,
+  clearAuditSink,
+  emitAuditEvent,
+  emitBridgeAuditEvent,
+} from './sink.js';
+
+export type {
+  AuditLogEntry,
+  AuditLogStore,
+  AuditLogIssueKind,
+  AuditLogIssue,
+  AuditLogVerification,
+  VerifyAuditLogOptions,
+} from './log.js';
+export {
+  GENESIS_HASH,
+  AuditLog,
+  computeAuditEntryHash,
+  verifyAuditLog,
+} from './log.js';
+
+export {MemoryAuditLogStore, JsonlFileAuditLogStore} from './stores.js';
@@ -0,0 +1,251 @@
+import {mkdtemp, readFile, rm, writeFile} from 'node:fs/promises';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {afterEach, describe, expect, it} from 'vitest';
+import {bridge, bridgeWithMetadata} from '../bridge.js';
+import {declassify} from '../declassify.js';
+import {createOwned} from '../owned.js';
+import {
+  assertOwnedScope,
+  createCacheKey,
+  createScopedCache,
+} from '../scoped-cache.js';
+import {scope} from '../scope.js';
+import {
+  clearScopeRegistry,
+  defineScopes,
+  setScopeRegistry,
+} from '../scope-registry.js';
+import type {AuditLogEntry} from './log.js';
+import {AuditLog, GENESIS_HASH, verifyAuditLog} from './log.js';
+import {clearAuditSink, setAuditSink} from './sink.js';
+import {JsonlFileAuditLogStore, MemoryAuditLogStore} from './stores.js';
+import type {AuditEvent} from './types.js';
+
+const event = (traceId: string): AuditEvent => ({
+  type: 'bridge',
+  timestamp: 1735689600000,
+  traceId,
+  kind: 'bridge',
+  from: 'admin',
+  to: 'customer',
+});
+
+async function buildLog(count: number): Promise<AuditLogEntry[]> {
+  const log = new AuditLog(new MemoryAuditLogStore());
+  for (let i = 0; i < count; i++) {
+    await log.record(event(`trace-${i}`));
+  }
+  return log.entries();
+}
+
+describe('audit log', () => {
+  afterEach(() => {
+    clearAuditSink();
+    clearScopeRegistry();
+  });
+
+  describe('AuditLog', () => {
+    it('should chain entries by hash', async () => {
+      const entries = await buildLog(3);
+
+      expect(entries.map((entry) => entry.sequence)).toEqual([0, 1, 2]);
+      expect(entries[0].previousHash).toBe(GENESIS_HASH);
+      expect(entries[1].previousHash).toBe(entries[0].hash);
+      expect(entries[2].previousHash).toBe(entries[1].hash);
+      expect(entries[0].hash).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should serialize concurrent records into one chain', async () => {
+      const log = new AuditLog(new MemoryAuditLogStore());
+
+      await Promise.all(
+        Array.from({length: 5}, (_, i) => log.record(event(`trace-${i}`))),
+      );
+
+      const result = await log.verify();
+      expect(result.valid).toBe(true);
+      expect(result.entries).toBe(5);
+    });
+  });
+
+  describe('verifyAuditLog()', () => {
+    it('should accept an untouched log', async () => {
+      const entries = await buildLog(3);
+      const result = await verifyAuditLog(entries);
+
+      expect(result.valid).toBe(true);
+      expect(result.headHash).toBe(entries[2].hash);
+      expect(result.issues).toEqual([]);
+    });
+
+    it('should detect edited entries', async () => {
+      const entries = await buildLog(3);
+      const tampered = entries.map((entry, i) =>
+        i === 1 ? {...entry, event: {...entry.event, to: 'public'}} : entry,
+      );
+
+      const result = await verifyAuditLog(tampered);
+
+      expect(result.valid).toBe(false);
+      expect(result.issues).toEqual([
+        expect.objectContaining({kind: 'hash-mismatch', sequence: 1}),
+      ]);
+    });
+
+    it('should detect removed entries', async () => {
+      const entries = await buildLog(4);
+      const result = await verifyAuditLog([entries[0], ...entries.slice(2)]);
+
+      expect(result.valid).toBe(false);
+      expect(result.issues.map((issue) => issue.kind)).toEqual(
+        expect.arrayContaining(['sequence-gap', 'chain-break']),
+      );
+      expect(result.issues[0].index).toBe(1);
+    });
+
+    it('should detect truncation against an expected head', async () => {
+      const entries = await buildLog(3);
+      const head = entries[2].hash;
+
+      const result = await verifyAuditLog(entries.slice(0, 2), {
+        expectedHeadHash: head,
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.issues[0].kind).toBe('head-mismatch');
+      expect(
+        (await verifyAuditLog(entries, {expectedHeadHash: head})).valid,
+      ).toBe(true);
+    });
+  });
+
+  describe('JsonlFileAuditLogStore', () => {
+    it('should persist entries and resume the chain', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'mullion-audit-'));
+      const path = join(dir, 'audit.jsonl');
+
+      try {
+        const store = new JsonlFileAuditLogStore(path);
+        expect(await store.readAll()).toEqual([]);
+
+        await new AuditLog(store).record(event('trace-a'));
+        await new AuditLog(new JsonlFileAuditLogStore(path)).record(
+          event('trace-b'),
+        );
+
+        const lines = (await readFile(path, 'utf8')).trim().split('\n');
+        expect(lines).toHaveLength(2);
+
+        const result = await verifyAuditLog(store);
+        expect(result.valid).toBe(true);
+        expect(result.entries).toBe(2);
+
+        await writeFile(path, lines[1].replace('trace-b', 'trace-x') + '\n');
+        const tampered = await verifyAuditLog(store);
+        expect(tampered.valid).toBe(false);
+      } finally {
+        await rm(dir, {recursive: true, force: true});
+      }
+    });
+  });
+
+  describe('recorded events', () => {
+    async function capture(fn: () => unknown): Promise<AuditEvent[]> {
+      const log = new AuditLog(new MemoryAuditLogStore());
+      setAuditSink(log);
+      try {
+        await fn();
+      } catch {
+        // Violations are expected to throw
+      }
+      const entries = await log.entries();
+      return entries.map((entry) => entry.event);
+    }
+
+    const secret = () =>
+      createOwned({value: 'secret', scope: 'admin', traceId: 'trace-1'});
+
+    it('should record standalone and context bridges', async () => {
+      const events = await capture(async () => {
+        bridge(secret(), 'processing', {reason: 'summarize'});
+        bridgeWithMetadata(secret(), 'audit', 'compliance');
+        await scope('customer', async (ctx) => ctx.bridge(secret()));
+      });
+
+      expect(events).toEqual([
+        expect.objectContaining({
+          type: 'bridge',
+          kind: 'bridge',
+          from: 'admin',
+          to: 'processing',
+          reason: 'summarize',
+          traceId: 'trace-1',
+        }),
+        expect.objectContaining({kind: 'bridgeWithMetadata', to: 'audit'}),
+        expect.objectContaining({kind: 'context', context: 'customer'}),
+      ]);
+    });
+
+    it('should record declassifications', async () => {
+      const events = await capture(() =>
+        declassify(secret(), {to: 'public', reason: 'Approved'}),
+      );
+
+      expect(events).toEqual([
+        expect.objectContaining({type: 'declassify', reason: 'Approved'}),
+      ]);
+    });
+
+    it('should record use() scope mismatches', async () => {
+      const events = await capture(() =>
+        scope('customer', async (ctx) =>
+          ctx.use(secret() as unknown as Parameters<typeof ctx.use>[0]),
+        ),
+      );
+
+      expect(events).toEqual([
+        expect.objectContaining({
+          type: 'scope-violation',
+          check: 'use',
+          from: 'admin',
+          to: 'customer',
+          traceId: 'trace-1',
+        }),
+      ]);
+    });
+
+    it('should record assertOwnedScope and cache mismatches', async () => {
+      const events = await capture(() => {
+        const cache = createScopedCache<'customer', string>('customer');
+        expect(() =>
+          cache.get(
+            createCacheKey('admin', 'k') as unknown as Parameters<
+              typeof cache.get
+            >[0],
+          ),
+        ).toThrow();
+        expect(() => assertOwnedScope(secret(), 'customer')).toThrow();
+      });
+
+      expect(
+        events.map((e) => e.type === 'scope-violation' && e.check),
+      ).toEqual(['cache-key', 'assertOwnedScope']);
+    });
+
+    it('should record flow policy violations', async () => {
+      setScopeRegistry(defineScopes({levels: ['customer', 'admin']}));
+
+      const events = await capture(() => bridge(secret(), 'customer'));
+
+      expect(events).toEqual([
+        expect.objectContaining({
+          type: 'scope-violation',
+          check: 'flow-policy',
+          from: 'admin',
+          to: 'customer',
+        }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * Tamper-evident, append-only audit log.
+ *
+ * Every entry stores the SHA-256 hash of its predecessor, so editing,
+ * deleting or reordering entries breaks the chain. {@link verifyAuditLog}
+ * recomputes the chain and reports where it breaks.
+ *
+ * @module audit/log
+ */
+
+import type {AuditEvent, AuditSink} from './types.js';
+
+/**
+ * A single entry in the hash chain.
+ */
+export interface AuditLogEntry {
+  /**
+   * Position in the log, starting at 0. Contiguous.
+   */
+  readonly sequence: number;
+
+  /**
+   * The recorded event, normalized to its JSON representation.
+   */
+  readonly event: AuditEvent;
+
+  /**
+   * Hash of the previous entry, or {@link GENESIS_HASH} for the first one.
+   */
+  readonly previousHash: string;
+
+  /**
+   * SHA-256 (hex) of this entry's sequence, event and previous hash.
+   */
+  readonly hash: string;
+}
+
+/**
+ * Persistence backend for an {@link AuditLog}.
+ *
+ * Stores only ever append; they never rewrite existing entries.
+ */
+export interface AuditLogStore {
+  /**
+   * Appends an entry to the end of the log.
+   */
+  append(entry: AuditLogEntry): Promise<void>;
+
+  /**
+   * Reads every entry, oldest first.
+   */
+  readAll(): Promise<AuditLogEntry[]>;
+}
+
+/**
+ * Kind of problem found by {@link verifyAuditLog}.
+ *
+ * - `hash-mismatch`: an entry's content no longer matches its hash (edited)
+ * - `chain-break`: an entry does not point at the previous entry's hash
+ * - `sequence-gap`: sequence numbers are not contiguous (deleted or
+ *   reordered entries)
+ * - `head-mismatch`: the last entry differs from the expected head
+ *   (truncated log)
+ */
+export type AuditLogIssueKind =
+  | 'hash-mismatch'
+  | 'chain-break'
+  | 'sequence-gap'
+  | 'head-mismatch';
+
+/**
+ * A problem found while verifying an audit log.
+ */
+export interface AuditLogIssue {
+  readonly kind: AuditLogIssueKind;
+
+  /**
+   * Index of the offending entry in the log as read.
+   */
+  readonly index: number;
+
+  /**
+   * Sequence number recorded on the offending entry.
+   */
+  readonly sequence: number;
+
+  /**
+   * Human-readable description.
+   */
+  readonly message: string;
+}
+
+/**
+ * Result of {@link verifyAuditLog}.
+ */
+export interface AuditLogVerification {
+  /**
+   * True when no issues were found.
+   */
+  readonly valid: boolean;
+
+  /**
+   * Number of entries checked.
+   */
+  readonly entries: number;
+
+  /**
+   * Hash of the last entry, or {@link GENESIS_HASH} for an empty log.
+   * Store it externally to detect truncation later.
+   */
+  readonly headHash: string;
+
+  /**
+   * Every problem found, in log order.
+   */
+  readonly issues: readonly AuditLogIssue[];
+}
+
+/**
+ * Options for {@link verifyAuditLog}.
+ */
+export interface VerifyAuditLogOptions {
+  /**
+   * Previously observed head hash. Verification fails if the log no longer
+   * contains an entry with this hash, which detects truncation.
+   */
+  expectedHeadHash?: string;
+}
+
+/**
+ * Previous-hash value of the first entry in every log.
+ */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Serializes a JSON value with object keys sorted, so hashes do not depend
+ * on property order.
+ *
+ * @internal
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const fields = Object.keys(record)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Computes the hash of an entry from its sequence, event and previous hash.
+ *
+ * Uses the Web Crypto API, available in Node.js and browsers.
+ *
+ * @param entry - Entry fields covered by the hash
+ * @returns Lowercase hex SHA-256 digest
+ */
+export async function computeAuditEntryHash(
+  entry: Omit<AuditLogEntry, 'hash'>,
+): Promise<string> {
+  const payload = canonicalJson({
+    sequence: entry.sequence,
+    event: entry.event,
+    previousHash: entry.previousHash,
+  });
+  const digest = await globalThis.crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(payload),
+  );
+
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, '0'),
+  ).join('');
+}
+
+/**
+ * Append-only, hash-chained audit log usable as the global audit sink.
+ *
+ * Appends are serialized, so concurrent events still form a single chain.
+ * When opened on a store that already has entries, the log continues the
+ * existing chain.
+ *
+ * @example
+ * ```typescript
+ * const log = new AuditLog(new JsonlFileAuditLogStore('./audit.jsonl'));
+ * setAuditSink(log);
+ *
+ * // ... bridges, declassifications and scope violations are recorded ...
+ *
+ * await log.flush();
+ * const result = await log.verify();
+ * if (!result.valid) {
+ *   console.error(result.issues);
+ * }
+ * ```
+ */
+export class AuditLog implements AuditSink {
+  private readonly store: AuditLogStore;
+  private head: {sequence: number; hash: string} | undefined;
+  private tail: Promise<void> = Promise.resolve();
+
+  constructor(store: AuditLogStore) {
+    this.store = store;
+  }
+
+  /**
+   * Appends an event to the chain.
+   *
+   * @param event - The event to record
+   * @returns Resolves once the entry is persisted
+   */
+  record(event: AuditEvent): Promise<void> {
+    const next = this.tail.then(() => this.append(event));
+    this.tail = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Waits until every pending event has been persisted.
+   */
+  async flush(): Promise<void> {
+    await this.tail;
+  }
+
+  /**
+   * Reads every persisted entry after pending appends complete.
+   */
+  async entries(): Promise<AuditLogEntry[]> {
+    await this.flush();
+    return this.store.readAll();
+  }
+
+  /**
+   * Verifies the persisted chain after pending appends complete.
+   */
+  async verify(
+    options: VerifyAuditLogOptions = {},
+  ): Promise<AuditLogVerification> {
+    await this.flush();
+    return verifyAuditLog(this.store, options);
+  }
+
+  private async append(event: AuditEvent): Promise<void> {
+    if (!this.head) {
+      const existing = await this.store.readAll();
+      const last = existing.at(-1);
+      this.head = last
+        ? {sequence: last.sequence, hash: last.hash}
+        : {sequence: -1, hash: GENESIS_HASH};
+    }
+
+    const unhashed = {
+      sequence: this.head.sequence + 1,
+      event: JSON.parse(JSON.stringify(event)) as AuditEvent,
+      previousHash: this.head.hash,
+    };
+    const entry: AuditLogEntry = {
+      ...unhashed,
+      hash: await computeAuditEntryHash(unhashed),
+    };
+
+    await this.store.append(entry);
+    this.head = {sequence: entry.sequence, hash: entry.hash};
+  }
+}
+
+/**
+ * Recomputes an audit log's hash chain and reports edits, gaps and breaks.
+ *
+ * @param source - A store or an array of entries, oldest first
+ * @param options - Optional expected head hash to detect truncation
+ * @returns Verification result with every issue found
+ *
+ * @example
+ * ```typescript
+ * const result = await verifyAuditLog(
+ *   new JsonlFileAuditLogStore('./audit.jsonl'),
+ *   {expectedHeadHash: lastAnchoredHash},
+ * );
+ *
+ * result.valid; // false if any entry was edited, removed or reordered
+ * ```
+ */
+export async function verifyAuditLog(
+  source: AuditLogStore | readonly AuditLogEntry[],
+  options: VerifyAuditLogOptions = {},
+): Promise<AuditLogVerification> {
+  const entries = Array.isArray(source)
+    ? (source as readonly AuditLogEntry[])
+    : await (source as AuditLogStore).readAll();
+  const issues: AuditLogIssue[] = [];
+
+  let previousHash = GENESIS_HASH;
+  for (const [index, entry] of entries.entries()) {
+    const {sequence} = entry;
+
+    if (sequence !== index) {
+      issues.push({
+        kind: 'sequence-gap',
+        index,
+        sequence,
+        message: `Expected sequence ${index}, found ${sequence}`,
+      });
+    }
+
+    if (entry.previousHash !== previousHash) {
+      issues.push({
+        kind: 'chain-break',
+        index,
+        sequence,
+        message: `Entry ${sequence} does not reference the hash of the previous entry`,
+      });
+    }
+
+    const expected = await computeAuditEntryHash(entry);
+    if (entry.hash !== expected) {
+      issues.push({
+        kind: 'hash-mismatch',
+        index,
+        sequence,
+        message: `Entry ${sequence} content does not match its hash`,
+      });
+    }
+
+    previousHash = entry.hash;
+  }
+
+  const {expectedHeadHash} = options;
+  if (
+    expectedHeadHash !== undefined &&
+    expectedHeadHash !== GENESIS_HASH &&
+    !entries.some((entry) => entry.hash === expectedHeadHash)
+  ) {
+    const last = entries.at(-1);
+    issues.push({
+      kind: 'head-mismatch',
+      index: entries.length - 1,
+      sequence: last?.sequence ?? -1,
+      message: `Expected head ${expectedHeadHash} is missing from the log`,
+    });
+  }
+
+  return {
+    valid: issues.length === 0,
+    entries: entries.length,
+    headHash: previousHash,
+    issues,
+  };
+}
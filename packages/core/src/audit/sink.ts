@@ -0,0 +1,94 @@
+/**
+ * Global audit sink registration.
+ *
+ * @module audit/sink
+ */
+
+import type {LineageHop} from '../lineage.js';
+import type {AuditEvent, AuditSink} from './types.js';
+
+/**
+ * Global audit sink that receives every emitted audit event.
+ *
+ * @internal
+ */
+let globalAuditSink: AuditSink | undefined;
+
+/**
+ * Registers the sink that receives all audit events.
+ *
+ * @param sink - The audit sink
+ *
+ * @example
+ * ```typescript
+ * const events: AuditEvent[] = [];
+ * setAuditSink({record: (event) => void events.push(event)});
+ * ```
+ */
+export function setAuditSink(sink: AuditSink): void {
+  globalAuditSink = sink;
+}
+
+/**
+ * Gets the currently registered audit sink.
+ *
+ * @returns The registered sink, or undefined if none registered
+ */
+export function getAuditSink(): AuditSink | undefined {
+  return globalAuditSink;
+}
+
+/**
+ * Clears the registered audit sink.
+ *
+ * Primarily used for testing to reset state between tests.
+ */
+export function clearAuditSink(): void {
+  globalAuditSink = undefined;
+}
+
+/**
+ * Sends an event to the registered audit sink, if any.
+ *
+ * Synchronous sink errors propagate; asynchronous failures are logged so
+ * that auditing never leaves an unhandled rejection behind.
+ *
+ * @param event - The event to record
+ */
+export function emitAuditEvent(event: AuditEvent): void {
+  if (!globalAuditSink) return;
+
+  const result = globalAuditSink.record(event);
+  if (result instanceof Promise) {
+    result.catch((error: unknown) => {
+      console.error('Failed to record audit event:', error);
+    });
+  }
+}
+
+/**
+ * Emits a `bridge` audit event describing a lineage hop.
+ *
+ * Called by every bridge path after the hop is appended, so the audit log
+ * and the value's lineage record the same crossing.
+ *
+ * @param traceId - Trace ID of the bridged value
+ * @param hop - The hop appended to the value's lineage
+ */
+export function emitBridgeAuditEvent(traceId: string, hop: LineageHop): void {
+  if (!globalAuditSink || hop.kind === 'declassify' || hop.kind === 'review') {
+    return;
+  }
+
+  emitAuditEvent({
+    type: 'bridge',
+    timestamp: hop.timestamp,
+    traceId,
+    kind: hop.kind,
+    from: hop.from,
+    to: hop.to,
+    ...(hop.reason !== undefined ? {reason: hop.reason} : {}),
+    ...(hop.context !== undefined ? {context: hop.context} : {}),
+    ...(hop.metadata ? {metadata: hop.metadata} : {}),
+  });
+}
@@ -0,0 +1,84 @@
+/**
+ * Audit log storage backends.
+ *
+ * @module audit/stores
+ */
+
+import type {AuditLogEntry, AuditLogStore} from './log.js';
+import {AuditLogError} from '../errors.js';
+
+/**
+ * In-memory audit log store.
+ *
+ * Useful for tests and short-lived processes. Entries are lost when the
+ * process exits.
+ *
+ * @example
+ * ```typescript
+ * const log = new AuditLog(new MemoryAuditLogStore());
+ * ```
+ */
+export class MemoryAuditLogStore implements AuditLogStore {
+  private readonly entries: AuditLogEntry[] = [];
+
+  append(entry: AuditLogEntry): Promise<void> {
+    this.entries.push(Object.freeze({...entry}));
+    return Promise.resolve();
+  }
+
+  readAll(): Promise<AuditLogEntry[]> {
+    return Promise.resolve([...this.entries]);
+  }
+}
+
+/**
+ * Append-only JSON Lines file store (one entry per line).
+ *
+ * Node.js only. `node:fs` is loaded lazily so importing `@mullion/core`
+ * stays browser-safe.
+ *
+ * @example
+ * ```typescript
+ * const log = new AuditLog(new JsonlFileAuditLogStore('./audit.jsonl'));
+ * setAuditSink(log);
+ * ```
+ */
+export class JsonlFileAuditLogStore implements AuditLogStore {
+  readonly path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async append(entry: AuditLogEntry): Promise<void> {
+    const {appendFile} = await import('node:fs/promises');
+    await appendFile(this.path, `${JSON.stringify(entry)}\n`, 'utf8');
+  }
+
+  async readAll(): Promise<AuditLogEntry[]> {
+    const {readFile} = await import('node:fs/promises');
+
+    let content: string;
+    try {
+      content = await readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    return content
+      .split('\n')
+      .map((line, index) => ({line, index}))
+      .filter(({line}) => line.trim() !== '')
+      .map(({line, index}) => {
+        try {
+          return JSON.parse(line) as AuditLogEntry;
+        } catch (error) {
+          throw new AuditLogError(
+            `Malformed audit log entry at ${this.path}:${index + 1}`,
+            {cause: error},
+          );
+        }
+      });
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * Audit event types for Mullion boundary crossings.
+ *
+ * Audit events describe *that* a value crossed a scope boundary and why.
+ * They never contain the raw value, so they are safe to persist in logs
+ * with a different retention or access policy than the data itself.
+ *
+ * @module audit/types
+ */
+
+import type {LineageHopKind} from '../lineage.js';
+
+/**
+ * Fields shared by every audit event.
+ */
+export interface AuditEventBase {
+  /**
+   * Event discriminator.
+   */
+  readonly type: string;
+
+  /**
+   * Unix timestamp (ms) when the event occurred.
+   */
+  readonly timestamp: number;
+}
+
+/**
+ * Emitted for every bridge operation (standalone utilities and
+ * `Context.bridge()`), mirroring the lineage hop appended to the value.
+ *
+ * @example
+ * ```typescript
+ * const event: BridgeAuditEvent = {
+ *   type: 'bridge',
+ *   timestamp: 1735689600000,
+ *   traceId: 'trace-123',
+ *   kind: 'context',
+ *   from: 'admin',
+ *   to: 'customer',
+ *   context: 'customer',
+ * };
+ * ```
+ */
+export interface BridgeAuditEvent extends AuditEventBase {
+  readonly type: 'bridge';
+
+  /**
+   * Trace ID of the bridged value.
+   */
+  readonly traceId: string;
+
+  /**
+   * Bridge operation that performed the crossing.
+   */
+  readonly kind: Exclude<LineageHopKind, 'declassify' | 'review'>;
+
+  /**
+   * Scope the value was in before the bridge.
+   */
+  readonly from: string;
+
+  /**
+   * Scope the value was bridged to.
+   */
+  readonly to: string;
+
+  /**
+   * Reason given for the bridge, if any.
+   */
+  readonly reason?: string;
+
+  /**
+   * Scope of the context that performed the bridge, if any.
+   */
+  readonly context?: string;
+
+  /**
+   * Additional caller-supplied context.
+   */
+  readonly metadata?: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * Runtime check that rejected a scope boundary crossing.
+ *
+ * - `use`: `Context.use()` received a value from another scope
+ * - `assertOwnedScope`: `assertOwnedScope()` failed
+ * - `cache-key` / `cache-value`: a `ScopedCache` received a key or value
+ *   from another scope
+ * - `flow-policy`: the scope registry rejected a bridge
+ * - `tool-arguments`: a scoped tool was called with arguments derived from
+ *   a scope it does not accept
+ * - `scope-ceiling`: a tool result would widen an agent run beyond its
+ *   scope ceiling
+ */
+export type ScopeViolationCheck =
+  | 'use'
+  | 'assertOwnedScope'
+  | 'cache-key'
+  | 'cache-value'
+  | 'flow-policy'
+  | 'tool-arguments'
+  | 'scope-ceiling';
+
+/**
+ * Emitted when a runtime scope check rejects a value, just before the
+ * corresponding error is thrown.
+ *
+ * `from` is the scope of the offending value or key, `to` the scope it was
+ * used in.
+ *
+ * @example
+ * ```typescript
+ * const event: ScopeViolationAuditEvent = {
+ *   type: 'scope-violation',
+ *   timestamp: 1735689600000,
+ *   check: 'use',
+ *   from: 'admin',
+ *   to: 'customer',
+ *   traceId: 'trace-123',
+ * };
+ * ```
+ */
+export interface ScopeViolationAuditEvent extends AuditEventBase {
+  readonly type: 'scope-violation';
+
+  /**
+   * Which check rejected the value.
+   */
+  readonly check: ScopeViolationCheck;
+
+  /**
+   * Scope of the offending value or key.
+   */
+  readonly from: string;
+
+  /**
+   * Scope the value or key was used in.
+   */
+  readonly to: string;
+
+  /**
+   * Trace ID of the offending value, when known. Cache keys carry none.
+   */
+  readonly traceId?: string;
+}
+
+/**
+ * Emitted by `declassify()` when a value is deliberately released to a
+ * less restrictive scope.
+ *
+ * @example
+ * ```typescript
+ * const event: DeclassifyAuditEvent = {
+ *   type: 'declassify',
+ *   timestamp: 1735689600000,
+ *   traceId: 'trace-123',
+ *   from: 'confidential',
+ *   to: 'public',
+ *   reason: 'Approved customer-facing summary',
+ *   approver: 'lead-7',
+ *   transformed: true,
+ * };
+ * ```
+ */
+export interface DeclassifyAuditEvent extends AuditEventBase {
+  readonly type: 'declassify';
+
+  /**
+   * Trace ID of the released value.
+   */
+  readonly traceId: string;
+
+  /**
+   * Scope the value was released from.
+   */
+  readonly from: string;
+
+  /**
+   * Scope the value was released to.
+   */
+  readonly to: string;
+
+  /**
+   * Mandatory justification for the release.
+   */
+  readonly reason: string;
+
+  /**
+   * Who approved the release, if recorded.
+   */
+  readonly approver?: string;
+
+  /**
+   * Whether a sanitizing transform was applied before release.
+   */
+  readonly transformed: boolean;
+
+  /**
+   * Additional caller-supplied context.
+   */
+  readonly metadata?: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * Emitted by `ReviewQueue` when a reviewer resolves a queued value.
+ *
+ * @example
+ * ```typescript
+ * const event: ReviewAuditEvent = {
+ *   type: 'review',
+ *   timestamp: 1735689600000,
+ *   traceId: 'trace-123',
+ *   scope: 'intake',
+ *   reviewId: 'review-1',
+ *   decision: 'alternative',
+ *   reviewer: 'agent-7',
+ *   correct: false,
+ * };
+ * ```
+ */
+export interface ReviewAuditEvent extends AuditEventBase {
+  readonly type: 'review';
+
+  /**
+   * Trace ID of the reviewed value.
+   */
+  readonly traceId: string;
+
+  /**
+   * Scope of the reviewed value.
+   */
+  readonly scope: string;
+
+  /**
+   * ID of the review item.
+   */
+  readonly reviewId: string;
+
+  /**
+   * What the reviewer did.
+   */
+  readonly decision: 'approve' | 'alternative' | 'override';
+
+  /**
+   * Who resolved the item.
+   */
+  readonly reviewer: string;
+
+  /**
+   * Whether the model's original value was kept.
+   */
+  readonly correct: boolean;
+}
+
+/**
+ * Any audit event emitted by Mullion.
+ */
+export type AuditEvent =
+  | BridgeAuditEvent
+  | DeclassifyAuditEvent
+  | ReviewAuditEvent
+  | ScopeViolationAuditEvent;
+
+/**
+ * Destination for audit events.
+ *
+ * Implementations may be synchronous or asynchronous. Errors thrown
+ * synchronously propagate to the caller; rejected promises are logged and
+ * do not break the operation that emitted the event.
+ *
+ * @example
+ * ```typescript
+ * const sink: AuditSink = {
+ *   record(event) {
+ *     auditLogger.info(event);
+ *   },
+ * };
+ *
+ * setAuditSink(sink);
+ * ```
+ */
+export interface AuditSink {
+  record(event: AuditEvent): void | Promise<void>;
+}
@@ -4,6 +4,7 @@ import {
   bridgeSemantic,
   bridgeMultiple,
   getProvenance,
+  isBridged,
   bridgeWithMetadata,
 } from './bridge.js';
 import type {Owned} from './owned.js';
@@ -266,6 +267,119 @@ describe('bridge', () => {
     });
   });
 
+  describe('lineage', () => {
+    it('should start with an empty lineage at the origin scope', () => {
+      const original = createOwned({
+        value: 'data',
+        scope: 'admin',
+        traceId: 'trace-1',
+      });
+
+      expect(original.lineage).toEqual({
+        origin: 'admin',
+        originTraceId: 'trace-1',
+        hops: [],
+      });
+      expect(isBridged(original)).toBe(false);
+    });
+
+    it('should append a hop with reason and metadata for each bridge', () => {
+      const original = createOwned({value: 'data', scope: 'admin'});
+
+      const step1 = bridge(original, 'processing', {reason: 'summarize'});
+      const step2 = bridge(step1, 'customer', {
+        reason: 'approved reply',
+        metadata: {approvedBy: 'lead-7'},
+      });
+
+      expect(step2.lineage?.origin).toBe('admin');
+      expect(step2.lineage?.hops).toHaveLength(2);
+      expect(step2.lineage?.hops[0]).toMatchObject({
+        kind: 'bridge',
+        from: 'admin',
+        to: 'processing',
+        reason: 'summarize',
+      });
+      expect(step2.lineage?.hops[1]).toMatchObject({
+        kind: 'bridge',
+        from: 'processing',
+        to: 'customer',
+        reason: 'approved reply',
+        metadata: {approvedBy: 'lead-7'},
+      });
+      expect(typeof step2.lineage?.hops[1].timestamp).toBe('number');
+      expect(isBridged(step2)).toBe(true);
+    });
+
+    it('should not mutate the lineage of the source value', () => {
+      const original = createOwned({value: 'data', scope: 'admin'});
+      const step1 = bridge(original, 'processing');
+      bridge(step1, 'customer');
+
+      expect(original.lineage?.hops).toHaveLength(0);
+      expect(step1.lineage?.hops).toHaveLength(1);
+    });
+
+    it('should freeze lineage records', () => {
+      const bridged = bridge(
+        createOwned({value: 'data', scope: 'admin'}),
+        'customer',
+      );
+
+      expect(Object.isFrozen(bridged.lineage)).toBe(true);
+      expect(Object.isFrozen(bridged.lineage?.hops)).toBe(true);
+      expect(Object.isFrozen(bridged.lineage?.hops[0])).toBe(true);
+    });
+
+    it('should synthesize lineage for values created without one', () => {
+      const literal: Owned<string, 'legacy'> = {
+        value: 'data',
+        confidence: 1,
+        __scope: 'legacy',
+        traceId: 'trace-legacy',
+      };
+
+      const bridged = bridge(literal, 'modern');
+
+      expect(bridged.lineage?.origin).toBe('legacy');
+      expect(bridged.lineage?.originTraceId).toBe('trace-legacy');
+      expect(bridged.lineage?.hops).toHaveLength(1);
+    });
+
+    it('should record the bridge kind for each utility', () => {
+      const original = createOwned({value: 'data', scope: 'admin'});
+      const semantic = createSemanticValue({value: 'data', scope: 'admin'});
+
+      expect(bridgeSemantic(semantic, 'x').lineage?.hops[0].kind).toBe(
+        'bridgeSemantic',
+      );
+      expect(
+        bridgeMultiple([original], 'x', {metadata: {batch: 1}})[0].lineage
+          ?.hops[0],
+      ).toMatchObject({kind: 'bridgeMultiple', metadata: {batch: 1}});
+      expect(
+        bridgeWithMetadata(original, 'x', 'audit').bridged.lineage?.hops[0],
+      ).toMatchObject({kind: 'bridgeWithMetadata', reason: 'audit'});
+    });
+
+    it('should expose the full path through getProvenance()', () => {
+      const original = createOwned({
+        value: 'data',
+        scope: 'input',
+        traceId: 'trace-origin',
+      });
+
+      const provenance = getProvenance(
+        bridge(bridge(original, 'processing'), 'output'),
+      );
+
+      expect(provenance.originScope).toBe('input');
+      expect(provenance.originTraceId).toBe('trace-origin');
+      expect(provenance.path).toEqual(['input', 'processing', 'output']);
+      expect(provenance.hops).toHaveLength(2);
+    });
+  });
+
   describe('bridgeWithMetadata()', () => {
     it('should bridge value and return metadata', () => {
       const original: Owned<string, 'admin'> = createOwned({
@@ -1,5 +1,10 @@
+import {emitBridgeAuditEvent} from './audit/sink.js';
+import type {LineageHop} from './lineage.js';
+import {appendLineageHop, getLineage} from './lineage.js';
 import type {Owned} from './owned.js';
+import {assertOwnedScopeFlow} from './scope-registry.js';
 import type {SemanticValue} from './semantic-value.js';
+import {InvalidArgumentError} from './errors.js';
 
 /**
  * Bridge utilities for transferring values across scope boundaries.
@@ -19,11 +24,17 @@ import type {SemanticValue} from './semantic-value.js';
  * Unlike Context.bridge() which is called within a scope, this function can be used
  * anywhere to create bridged values.
  *
+ * When a scope registry is registered, the flow from every scope in the
+ * value's lineage to the target is checked at runtime. The target is not
+ * checked at compile time, since the registry is only known at runtime;
+ * use the registry's own `bridge()` for that.
+ *
  * @template T - The type of the wrapped value
  * @template S1 - The source scope
  * @template S2 - The target scope to bridge to
  * @param owned - The Owned value to bridge
  * @param targetScope - The scope identifier to bridge to
+ * @param options - Optional reason and metadata recorded in the value's lineage
  * @returns A new Owned value with union scope type (S1 | S2)
  *
  * @example
@@ -55,17 +66,62 @@ import type {SemanticValue} from './semantic-value.js';
  * const step2 = bridge(step1, 'output');
  * // step2: Owned<string, 'input' | 'processing' | 'output'>
  * // Full data flow visible in the type!
+ *
+ * // ...and at runtime in the lineage
+ * console.log(step2.lineage?.hops.map((hop) => hop.to)); // ['processing', 'output']
  * ```
  */
 export function bridge<T, S1 extends string, S2 extends string>(
   owned: Owned<T, S1>,
   targetScope: S2,
+  options: BridgeOptions = {},
 ): Owned<T, S1 | S2> {
+  return bridgeWithKind(owned, targetScope, 'bridge', options);
+}
+
+/**
+ * Options for a single bridge operation.
+ */
+export interface BridgeOptions {
+  /**
+   * Why the value is crossing the boundary. Recorded in the lineage hop.
+   */
+  reason?: string;
+
+  /**
+   * Additional context recorded in the lineage hop.
+   */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Shared implementation for the standalone bridge utilities.
+ *
+ * @internal
+ */
+function bridgeWithKind<T, S1 extends string, S2 extends string>(
+  owned: Owned<T, S1>,
+  targetScope: S2,
+  kind: LineageHop['kind'],
+  options: BridgeOptions,
+): Owned<T, S1 | S2> {
+  assertOwnedScopeFlow(owned, targetScope);
+
+  const lineage = appendLineageHop(owned, {
+    kind,
+    from: owned.__scope,
+    to: targetScope,
+    reason: options.reason,
+    metadata: options.metadata,
+  });
+  emitBridgeAuditEvent(owned.traceId, lineage.hops[lineage.hops.length - 1]);
+
   return {
     value: owned.value,
     confidence: owned.confidence,
     __scope: targetScope as S1 | S2,
     traceId: owned.traceId,
+    lineage,
   };
 }
 
@@ -80,6 +136,7 @@ export function bridge<T, S1 extends string, S2 extends string>(
  * @template S2 - The target scope to bridge to
  * @param semantic - The SemanticValue to bridge
  * @param targetScope - The scope identifier to bridge to
+ * @param options - Optional reason and metadata recorded in the value's lineage
  * @returns A new SemanticValue with union scope type (S1 | S2)
  *
  * @example
@@ -106,12 +163,10 @@ export function bridge<T, S1 extends string, S2 extends string>(
 export function bridgeSemantic<T, S1 extends string, S2 extends string>(
   semantic: SemanticValue<T, S1>,
   targetScope: S2,
+  options: BridgeOptions = {},
 ): SemanticValue<T, S1 | S2> {
   return {
-    value: semantic.value,
-    confidence: semantic.confidence,
-    __scope: targetScope as S1 | S2,
-    traceId: semantic.traceId,
+    ...bridgeWithKind(semantic, targetScope, 'bridgeSemantic', options),
     alternatives: semantic.alternatives,
     reasoning: semantic.reasoning,
   };
@@ -123,10 +178,16 @@ export function bridgeSemantic<T, S1 extends string, S2 extends string>(
 export interface BridgeMultipleOptions {
   /**
    * Optional metadata to attach to the bridge operation.
-   * Useful for tracking why values were bridged.
+   * Useful for tracking why values were bridged. Recorded in each
+   * bridged value's lineage.
    */
   metadata?: Record<string, unknown>;
 
+  /**
+   * Optional reason recorded in each bridged value's lineage.
+   */
+  reason?: string;
+
   /**
    * Whether to validate that all values have the same source scope.
    * @default false
@@ -140,6 +201,9 @@ export interface BridgeMultipleOptions {
  * Useful when you need to bridge many values at once, such as when aggregating
  * data from multiple sources into a single scope.
  *
+ * Like {@link bridge}, each flow is checked against the registered scope
+ * registry at runtime only.
+ *
  * @template T - The type of the wrapped values
  * @template S - The source scope(s)
  * @template TS - The target scope
@@ -173,7 +237,7 @@ export function bridgeMultiple<T, S extends string, TS extends string>(
   targetScope: TS,
   options: BridgeMultipleOptions = {},
 ): Owned<T, S | TS>[] {
-  const {requireSameScope = false} = options;
+  const {requireSameScope = false, reason, metadata} = options;
 
   // Validate all values have same scope if required
   if (requireSameScope && values.length > 0) {
@@ -182,82 +246,118 @@ export function bridgeMultiple<T, S extends string, TS extends string>(
 
     if (!allSame) {
       const scopes = Array.from(new Set(values.map((v) => v.__scope)));
-      throw new Error(
+      throw new InvalidArgumentError(
         `bridgeMultiple with requireSameScope=true received values from different scopes: ${scopes.join(', ')}`,
       );
     }
   }
 
-  return values.map((value) => bridge(value, targetScope));
+  return values.map((value) =>
+    bridgeWithKind(value, targetScope, 'bridgeMultiple', {reason, metadata}),
+  );
+}
+
+/**
+ * Provenance information for an Owned value, derived from its lineage.
+ */
+export interface Provenance {
+  /**
+   * Scope the value currently belongs to.
+   */
+  currentScope: string;
+
+  /**
+   * Trace ID of the value.
+   */
+  traceId: string;
+
+  /**
+   * Scope the value was originally created in.
+   */
+  originScope: string;
+
+  /**
+   * Trace ID of the value at creation time.
+   */
+  originTraceId: string;
+
+  /**
+   * Every scope boundary crossing, oldest first.
+   */
+  hops: readonly LineageHop[];
+
+  /**
+   * Ordered list of scopes the value has been in, starting with the origin.
+   */
+  path: string[];
 }
 
 /**
- * Gets the provenance chain for a bridged value by extracting scope information.
+ * Gets the provenance chain for a value by reading its lineage.
+ *
+ * Every bridge operation appends a hop to the value's lineage, so the full
+ * history is available at runtime regardless of how many times the value
+ * has been bridged. The union scope type `S` carries the same information
+ * at compile time.
  *
- * This is a type-level utility that helps understand which scopes a value has passed through.
- * At runtime, only the target scope is stored, but the union type preserves the full history.
+ * Values created without lineage (e.g. hand-written Owned literals) are
+ * reported as originating in their current scope with no hops.
  *
  * @template T - The type of the wrapped value
  * @template S - The scope type (potentially a union)
  * @param owned - The Owned value to inspect
- * @returns Object with current scope and type-level scope information
+ * @returns Provenance with origin, hops and scope path
  *
  * @example
  * ```typescript
- * const value: Owned<Data, 'scope1' | 'scope2' | 'scope3'> = ...;
+ * const step1 = bridge(adminNotes, 'processing', {reason: 'summarize'});
+ * const step2 = bridge(step1, 'customer', {reason: 'approved reply'});
  *
- * const provenance = getProvenance(value);
- * console.log(provenance.currentScope); // Runtime scope (e.g., 'scope3')
- * console.log(provenance.traceId);      // Trace ID for tracking
+ * const provenance = getProvenance(step2);
+ * console.log(provenance.originScope);  // 'admin'
+ * console.log(provenance.currentScope); // 'customer'
+ * console.log(provenance.path);         // ['admin', 'processing', 'customer']
  *
- * // Type-level: S is 'scope1' | 'scope2' | 'scope3'
- * // This shows the value has passed through all three scopes
+ * provenance.hops.forEach((hop) => {
+ *   console.log(`${hop.from} → ${hop.to}: ${hop.reason}`);
+ * });
  * ```
  */
 export function getProvenance<T, S extends string>(
   owned: Owned<T, S>,
-): {
-  currentScope: string;
-  traceId: string;
-  // The type parameter S preserves the union of all scopes
-} {
+): Provenance {
+  const lineage = getLineage(owned);
+
   return {
     currentScope: owned.__scope,
     traceId: owned.traceId,
+    originScope: lineage.origin,
+    originTraceId: lineage.originTraceId,
+    hops: lineage.hops,
+    path: [lineage.origin, ...lineage.hops.map((hop) => hop.to)],
   };
 }
 
 /**
- * Type guard to check if an Owned value has been bridged.
+ * Checks whether an Owned value has crossed at least one scope boundary.
  *
- * A value is considered bridged if its scope type is a union type.
- * Note: This is primarily a type-level check; at runtime we can only
- * see the current scope.
+ * Reads the value's runtime lineage, so it works regardless of the
+ * compile-time scope type.
  *
  * @param owned - The value to check
- * @returns True if the value's type indicates it has been bridged
+ * @returns True if the value's lineage records at least one bridge
  *
  * @example
  * ```typescript
- * const original: Owned<Data, 'source'> = createOwned({
- *   value: data,
- *   scope: 'source'
- * });
- *
- * const bridged: Owned<Data, 'source' | 'target'> = bridge(original, 'target');
+ * const original = createOwned({value: data, scope: 'source'});
+ * const bridged = bridge(original, 'target');
  *
- * // At type level, we can distinguish:
- * // original has scope 'source'
- * // bridged has scope 'source' | 'target'
+ * isBridged(original); // false
+ * isBridged(bridged);  // true
  * ```
  */
-export function isBridged<T, S extends string>(
-  _owned: Owned<T, S>,
-): _owned is Owned<T, S> {
-  // At runtime, we can't distinguish if it's been bridged
-  // This function is primarily for type-level documentation
-  // In the future, we could add a __bridged flag for runtime detection
-  return true;
+export function isBridged<T, S extends string>(owned: Owned<T, S>): boolean {
+  return getLineage(owned).hops.length > 0;
 }
 
 /**
@@ -328,12 +428,15 @@ export function bridgeWithMetadata<T, S1 extends string, S2 extends string>(
   bridged: Owned<T, S1 | S2>;
   metadata: BridgeMetadata;
 } {
-  const bridged = bridge(owned, targetScope);
+  const bridged = bridgeWithKind(owned, targetScope, 'bridgeWithMetadata', {
+    reason,
+  });
+  const hops = bridged.lineage?.hops ?? [];
 
   const metadata: BridgeMetadata = {
     source: owned.__scope,
     target: targetScope,
-    timestamp: Date.now(),
+    timestamp: hops[hops.length - 1]?.timestamp ?? Date.now(),
     traceId: owned.traceId,
     reason,
   };
@@ -0,0 +1,230 @@
+/**
+ * Filesystem backend for async scoped caches.
+ *
+ * @module cache/file-store
+ */
+
+import {CacheStoreError, InvalidConfigurationError} from '../errors.js';
+import type {CacheStoreSetOptions, ScopedCacheStore} from '../scoped-cache.js';
+
+/**
+ * Options for {@link FileCacheStore}.
+ */
+export interface FileCacheStoreOptions {
+  /**
+   * Directory holding one JSON file per entry. Created on first write.
+   */
+  readonly directory: string;
+
+  /**
+   * Maximum number of entries. The least recently used (read or written)
+   * entries are evicted when a write exceeds it. Unbounded when omitted.
+   */
+  readonly maxEntries?: number;
+
+  /**
+   * Clock used for TTL expiry (ms since epoch). Overridable for tests.
+   *
+   * @default Date.now
+   */
+  readonly now?: () => number;
+}
+
+interface FileEntry {
+  readonly key: string;
+  readonly value: unknown;
+  readonly expiresAt?: number;
+  readonly writtenAt: number;
+}
+
+/**
+ * Store keeping each entry in its own JSON file, named by the SHA-256 of
+ * the key. Writes go through a temporary file and a rename, so readers
+ * never see partial entries. Values must be JSON-serializable.
+ *
+ * With `maxEntries`, the store keeps an in-memory index of its entries by
+ * recency of use, loaded from the directory on the first write (entries
+ * found on disk are ordered by write time). Eviction follows the index, so
+ * entries written by other processes sharing the directory are only
+ * counted once the store is recreated.
+ *
+ * Node.js only. Node modules are loaded lazily so importing
+ * `@mullion/core` stays browser-safe.
+ *
+ * @example
+ * ```typescript
+ * const store = new FileCacheStore({
+ *   directory: './.mullion-cache',
+ *   maxEntries: 10_000,
+ * });
+ * ```
+ */
+export class FileCacheStore implements ScopedCacheStore {
+  readonly directory: string;
+  readonly maxEntries?: number;
+
+  private readonly now: () => number;
+
+  // Entry paths, least recently used first (only with maxEntries)
+  private index?: Set<string>;
+  private indexLoading?: Promise<Set<string>>;
+
+  constructor(options: FileCacheStoreOptions) {
+    const {maxEntries} = options;
+    if (
+      maxEntries !== undefined &&
+      (!Number.isInteger(maxEntries) || maxEntries < 1)
+    ) {
+      throw new InvalidConfigurationError(
+        `FileCacheStore maxEntries must be a positive integer, got ${maxEntries}`,
+      );
+    }
+
+    this.directory = options.directory;
+    this.maxEntries = maxEntries;
+    this.now = options.now ?? Date.now;
+  }
+
+  async get(key: string): Promise<unknown> {
+    const entry = await this.read(key);
+    if (entry && this.maxEntries !== undefined) {
+      await this.touch(await this.pathFor(key));
+    }
+    return entry?.value;
+  }
+
+  async set(
+    key: string,
+    value: unknown,
+    options: CacheStoreSetOptions = {},
+  ): Promise<void> {
+    const {mkdir, rename, writeFile} = await import('node:fs/promises');
+    const now = this.now();
+    const entry: FileEntry = {
+      key,
+      value,
+      ...(options.ttlMs !== undefined ? {expiresAt: now + options.ttlMs} : {}),
+      writtenAt: now,
+    };
+
+    const path = await this.pathFor(key);
+    const temporary = `${path}.${process.pid}.${Math.random().toString(36).substring(2, 9)}.tmp`;
+    await mkdir(this.directory, {recursive: true});
+    await writeFile(temporary, JSON.stringify(entry), 'utf8');
+    await rename(temporary, path);
+
+    if (this.maxEntries !== undefined) {
+      await this.touch(path);
+      await this.evict(this.maxEntries);
+    }
+  }
+
+  async has(key: string): Promise<boolean> {
+    return (await this.read(key)) !== undefined;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const existed = (await this.read(key)) !== undefined;
+    if (existed) await this.remove(await this.pathFor(key));
+    return existed;
+  }
+
+  async clear(prefix?: string): Promise<void> {
+    for (const {path, entry} of await this.readAll()) {
+      if (prefix === undefined || entry.key.startsWith(prefix)) {
+        await this.remove(path);
+      }
+    }
+  }
+
+  private async pathFor(key: string): Promise<string> {
+    const {createHash} = await import('node:crypto');
+    const nodePath = await import('node:path');
+    const hash = createHash('sha256').update(key).digest('hex');
+    return nodePath.join(this.directory, `${hash}.json`);
+  }
+
+  private async readFile(path: string): Promise<FileEntry | undefined> {
+    const {readFile} = await import('node:fs/promises');
+
+    let content: string;
+    try {
+      content = await readFile(path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+
+    try {
+      return JSON.parse(content) as FileEntry;
+    } catch (error) {
+      throw new CacheStoreError(`Malformed cache entry at ${path}`, {
+        cause: error,
+      });
+    }
+  }
+
+  private async read(key: string): Promise<FileEntry | undefined> {
+    const path = await this.pathFor(key);
+    const entry = await this.readFile(path);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= this.now()) {
+      await this.remove(path);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private async readAll(): Promise<{path: string; entry: FileEntry}[]> {
+    const {readdir} = await import('node:fs/promises');
+    const nodePath = await import('node:path');
+
+    let names: string[];
+    try {
+      names = await readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const entries: {path: string; entry: FileEntry}[] = [];
+    for (const name of names) {
+      if (!name.endsWith('.json')) continue;
+      const path = nodePath.join(this.directory, name);
+      const entry = await this.readFile(path);
+      if (entry) entries.push({path, entry});
+    }
+    return entries;
+  }
+
+  private loadIndex(): Promise<Set<string>> {
+    this.indexLoading ??= this.readAll().then((entries) => {
+      entries.sort((a, b) => a.entry.writtenAt - b.entry.writtenAt);
+      this.index = new Set(entries.map(({path}) => path));
+      return this.index;
+    });
+    return this.indexLoading;
+  }
+
+  /**
+   * Marks an entry as the most recently used.
+   */
+  private async touch(path: string): Promise<void> {
+    const index = await this.loadIndex();
+    index.delete(path);
+    index.add(path);
+  }
+
+  private async evict(maxEntries: number): Promise<void> {
+    const index = await this.loadIndex();
+    while (index.size > maxEntries) {
+      const [oldest] = index;
+      await this.remove(oldest);
+    }
+  }
+
+  private async remove(path: string): Promise<void> {
+    const {rm} = await import('node:fs/promises');
+    this.index?.delete(path);
+    await rm(path, {force: true});
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Backends for async scoped caches (see `createAsyncScopedCache`).
+ *
+ * @module cache
+ */
+
+export type {MemoryCacheStoreOptions} from './memory-store.js';
+export {MemoryCacheStore} from './memory-store.js';
+
+export type {FileCacheStoreOptions} from './file-store.js';
+export {FileCacheStore} from './file-store.js';
+
+export type {RespCacheStoreOptions, RespReply} from './resp-store.js';
+export {RespCacheStore} from './resp-store.js';
@@ -0,0 +1,135 @@
+/**
+ * In-memory LRU backend for async scoped caches.
+ *
+ * @module cache/memory-store
+ */
+
+import {InvalidConfigurationError} from '../errors.js';
+import type {CacheStoreSetOptions, ScopedCacheStore} from '../scoped-cache.js';
+
+/**
+ * Options for {@link MemoryCacheStore}.
+ */
+export interface MemoryCacheStoreOptions {
+  /**
+   * Maximum number of entries. The least recently used entry is evicted
+   * when a write exceeds it.
+   *
+   * @default 1000
+   */
+  readonly maxEntries?: number;
+
+  /**
+   * Clock used for TTL expiry (ms since epoch). Overridable for tests.
+   *
+   * @default Date.now
+   */
+  readonly now?: () => number;
+}
+
+interface MemoryEntry {
+  readonly value: unknown;
+  readonly expiresAt?: number;
+}
+
+/**
+ * In-memory store with LRU eviction and lazy TTL expiry.
+ *
+ * Values are kept by reference (no serialization), so callers must not
+ * mutate cached values.
+ *
+ * @example
+ * ```typescript
+ * const store = new MemoryCacheStore({maxEntries: 500});
+ * const cache = createAsyncScopedCache('tenant-a', store);
+ * ```
+ */
+export class MemoryCacheStore implements ScopedCacheStore {
+  readonly maxEntries: number;
+
+  private readonly now: () => number;
+  // Map iteration order doubles as recency order (oldest first)
+  private readonly entries = new Map<string, MemoryEntry>();
+
+  constructor(options: MemoryCacheStoreOptions = {}) {
+    const {maxEntries = 1000} = options;
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      throw new InvalidConfigurationError(
+        `MemoryCacheStore maxEntries must be a positive integer, got ${maxEntries}`,
+      );
+    }
+
+    this.maxEntries = maxEntries;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Number of entries currently held, including expired entries that have
+   * not been read since they expired.
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): Promise<unknown> {
+    const entry = this.read(key);
+    if (entry) {
+      // Move to the most recently used position
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return Promise.resolve(entry?.value);
+  }
+
+  set(
+    key: string,
+    value: unknown,
+    options: CacheStoreSetOptions = {},
+  ): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      ...(options.ttlMs !== undefined
+        ? {expiresAt: this.now() + options.ttlMs}
+        : {}),
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+
+    return Promise.resolve();
+  }
+
+  has(key: string): Promise<boolean> {
+    return Promise.resolve(this.read(key) !== undefined);
+  }
+
+  delete(key: string): Promise<boolean> {
+    const existed = this.read(key) !== undefined;
+    this.entries.delete(key);
+    return Promise.resolve(existed);
+  }
+
+  clear(prefix?: string): Promise<void> {
+    if (prefix === undefined) {
+      this.entries.clear();
+    } else {
+      for (const key of [...this.entries.keys()]) {
+        if (key.startsWith(prefix)) this.entries.delete(key);
+      }
+    }
+    return Promise.resolve();
+  }
+
+  private read(key: string): MemoryEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+}
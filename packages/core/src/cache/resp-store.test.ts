@@ -0,0 +1,219 @@
+import {afterEach, beforeEach, describe, expect, it} from 'vitest';
+import {createServer} from 'node:net';
+import type {AddressInfo, Server, Socket} from 'node:net';
+import {CacheStoreError} from '../errors.js';
+import {createOwned} from '../owned.js';
+import {createAsyncScopedCache, createCacheKey} from '../scoped-cache.js';
+import {RespCacheStore} from './resp-store.js';
+
+/**
+ * Minimal in-process stand-in for a Redis server: GET, SET (with PX),
+ * EXISTS, DEL, SCAN (with MATCH on prefix globs), AUTH, SELECT and QUIT.
+ * EXEC replies with an array holding an error, DEBUG with a malformed reply
+ * and BLPOP never replies.
+ */
+function startStandInServer(clock: {now: number}): Promise<{
+  server: Server;
+  port: number;
+  data: Map<string, {value: string; expiresAt?: number}>;
+  commands: string[][];
+}> {
+  const data = new Map<string, {value: string; expiresAt?: number}>();
+  const commands: string[][] = [];
+
+  const bulk = (value: string | null) =>
+    value === null ? '$-1\r\n' : `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  const live = (key: string) => {
+    const entry = data.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= clock.now) {
+      data.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  const execute = (socket: Socket, args: string[]) => {
+    commands.push(args);
+    const [name, ...rest] = args;
+    switch (name.toUpperCase()) {
+      case 'GET':
+        return bulk(live(rest[0])?.value ?? null);
+      case 'SET': {
+        const px = rest.indexOf('PX');
+        data.set(rest[0], {
+          value: rest[1],
+          ...(px !== -1 ? {expiresAt: clock.now + Number(rest[px + 1])} : {}),
+        });
+        return '+OK\r\n';
+      }
+      case 'EXISTS':
+        return `:${live(rest[0]) ? 1 : 0}\r\n`;
+      case 'DEL':
+        return `:${rest.filter((key) => live(key) && data.delete(key)).length}\r\n`;
+      case 'SCAN': {
+        const pattern = rest[2];
+        const prefix = pattern.slice(0, -1).replace(/\\(.)/g, '$1');
+        const keys = [...data.keys()].filter((key) => key.startsWith(prefix));
+        return `*2\r\n${bulk('0')}*${keys.length}\r\n${keys.map(bulk).join('')}`;
+      }
+      case 'AUTH':
+        return rest.at(-1) === 'secret'
+          ? '+OK\r\n'
+          : '-WRONGPASS invalid password\r\n';
+      case 'SELECT':
+        return '+OK\r\n';
+      case 'EXEC':
+        return '*3\r\n+OK\r\n-WRONGTYPE not a string\r\n:1\r\n';
+      case 'BLPOP':
+        return '';
+      case 'DEBUG':
+        return '?garbage\r\n';
+      case 'QUIT':
+        socket.end('+OK\r\n');
+        return '';
+      default:
+        return `-ERR unknown command '${name}'\r\n`;
+    }
+  };
+
+  const server = createServer((socket) => {
+    let buffer = '';
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      // Commands arrive as arrays of bulk strings: *N, then $len/value pairs
+      for (;;) {
+        const lines = buffer.split('\r\n');
+        const count = Number(lines[0].slice(1));
+        if (lines.length < 1 + count * 2 + 1) return;
+
+        const args: string[] = [];
+        for (let i = 0; i < count; i++) args.push(lines[2 + i * 2]);
+        buffer = lines.slice(1 + count * 2).join('\r\n');
+
+        const reply = execute(socket, args);
+        if (reply) socket.write(reply);
+        if (buffer === '') return;
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        server,
+        port: (server.address() as AddressInfo).port,
+        data,
+        commands,
+      });
+    });
+  });
+}
+
+describe('RespCacheStore', () => {
+  const clock = {now: 0};
+  let stand: Awaited<ReturnType<typeof startStandInServer>>;
+  let store: RespCacheStore;
+
+  beforeEach(async () => {
+    clock.now = Date.now();
+    stand = await startStandInServer(clock);
+    store = new RespCacheStore({port: stand.port, password: 'secret', db: 1});
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await new Promise((resolve) => stand.server.close(resolve));
+  });
+
+  it('round-trips scoped values with TTLs', async () => {
+    const cache = createAsyncScopedCache<'tenant-a', {summary: string}>(
+      'tenant-a',
+      store,
+      {defaultTtlMs: 1000},
+    );
+    const key = createCacheKey('tenant-a', 'doc:1');
+    const value = createOwned({
+      value: {summary: 'Café ☕'},
+      scope: 'tenant-a',
+      confidence: 0.9,
+    });
+
+    await cache.set(key, value);
+    await expect(cache.get(key)).resolves.toEqual(
+      JSON.parse(JSON.stringify(value)),
+    );
+    expect(stand.commands.slice(0, 3)).toEqual([
+      ['AUTH', 'secret'],
+      ['SELECT', '1'],
+      ['SET', 'mullion:tenant-a:doc:1', JSON.stringify(value), 'PX', '1000'],
+    ]);
+
+    clock.now += 1000;
+    await expect(cache.has(key)).resolves.toBe(false);
+  });
+
+  it('deletes and clears by scope prefix', async () => {
+    await store.set('mullion:tenant-a:1', 1);
+    await store.set('mullion:tenant-a:2', 2);
+    await store.set('mullion:tenant-b:1', 3);
+
+    expect(await store.delete('mullion:tenant-a:1')).toBe(true);
+    expect(await store.delete('mullion:tenant-a:1')).toBe(false);
+
+    await store.clear('mullion:tenant-a:');
+    expect([...stand.data.keys()]).toEqual(['mullion:tenant-b:1']);
+  });
+
+  it('surfaces server errors and connection failures', async () => {
+    await expect(store.command(['NOPE'])).rejects.toThrow(
+      /unknown command 'NOPE'/,
+    );
+
+    const unauthorized = new RespCacheStore({
+      port: stand.port,
+      password: 'wrong',
+    });
+    await expect(unauthorized.get('a')).rejects.toThrow(/WRONGPASS/);
+    await unauthorized.close().catch(() => undefined);
+
+    const unreachable = new RespCacheStore({port: 1, connectTimeoutMs: 500});
+    await expect(unreachable.get('a')).rejects.toBeInstanceOf(CacheStoreError);
+  });
+
+  it('consumes the whole array reply holding an error', async () => {
+    await store.set('mullion:tenant-a:1', 1);
+
+    await expect(store.command(['EXEC'])).rejects.toThrow(/WRONGTYPE/);
+    await expect(store.get('mullion:tenant-a:1')).resolves.toBe(1);
+  });
+
+  it('rejects pending commands and reconnects after a malformed reply', async () => {
+    const error = await store
+      .command(['DEBUG'])
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(CacheStoreError);
+    expect((error as CacheStoreError).cause).toMatchObject({
+      message: "Unexpected RESP reply type '?'",
+    });
+    await expect(store.get('mullion:tenant-a:1')).resolves.toBeUndefined();
+  });
+
+  it('times out commands the server does not answer', async () => {
+    const stalled = new RespCacheStore({
+      port: stand.port,
+      commandTimeoutMs: 50,
+    });
+
+    const error = await stalled
+      .command(['BLPOP', 'queue', '0'])
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(CacheStoreError);
+    expect((error as CacheStoreError).cause).toMatchObject({
+      message: 'Timed out after 50 ms waiting for the reply to BLPOP',
+    });
+    await expect(stalled.get('missing')).resolves.toBeUndefined();
+    await stalled.close();
+  });
+});
@@ -0,0 +1,411 @@
+/**
+ * Redis-protocol (RESP2) backend for async scoped caches.
+ *
+ * Speaks the wire protocol directly over TCP, so it works with Redis,
+ * Valkey, KeyDB, Dragonfly and other RESP-compatible servers without a
+ * client library dependency.
+ *
+ * @module cache/resp-store
+ */
+
+import type {Socket} from 'node:net';
+import {CacheStoreError} from '../errors.js';
+import type {CacheStoreSetOptions, ScopedCacheStore} from '../scoped-cache.js';
+
+/**
+ * Options for {@link RespCacheStore}.
+ */
+export interface RespCacheStoreOptions {
+  /**
+   * @default '127.0.0.1'
+   */
+  readonly host?: string;
+
+  /**
+   * @default 6379
+   */
+  readonly port?: number;
+
+  /**
+   * Username for `AUTH` (Redis 6+ ACLs). Requires `password`.
+   */
+  readonly username?: string;
+
+  /**
+   * Password for `AUTH`.
+   */
+  readonly password?: string;
+
+  /**
+   * Database index selected after connecting.
+   */
+  readonly db?: number;
+
+  /**
+   * How long to wait for the TCP connection.
+   *
+   * @default 5000
+   */
+  readonly connectTimeoutMs?: number;
+
+  /**
+   * How long to wait for the reply to a command. A timeout closes the
+   * connection (replies are matched to commands by order) and fails every
+   * command waiting on it; the next command reconnects.
+   *
+   * @default 5000
+   */
+  readonly commandTimeoutMs?: number;
+}
+
+/**
+ * A decoded RESP2 reply.
+ */
+export type RespReply = string | number | null | RespReply[];
+
+interface PendingReply {
+  resolve(reply: RespReply): void;
+  reject(error: Error): void;
+}
+
+/**
+ * Encodes a command as a RESP array of bulk strings.
+ */
+function encodeCommand(args: readonly string[]): Buffer {
+  let encoded = `*${args.length}\r\n`;
+  for (const arg of args) {
+    encoded += `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`;
+  }
+  return Buffer.from(encoded);
+}
+
+/**
+ * Parses one reply starting at `offset`. Returns undefined when the buffer
+ * does not hold a complete reply yet. Error replies are returned as
+ * `Error` instances; an array holding one is returned as its first error,
+ * with the offset past the whole array.
+ *
+ * @throws {CacheStoreError} If the reply is malformed
+ */
+function parseReply(
+  buffer: Buffer,
+  offset: number,
+): {reply: RespReply | Error; offset: number} | undefined {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return undefined;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return {reply: line, offset: next};
+    case '-':
+      return {reply: new Error(line), offset: next};
+    case ':':
+      return {reply: Number(line), offset: next};
+    case '$': {
+      const length = parseLength(line);
+      if (length === -1) return {reply: null, offset: next};
+      if (buffer.length < next + length + 2) return undefined;
+      return {
+        reply: buffer.toString('utf8', next, next + length),
+        offset: next + length + 2,
+      };
+    }
+    case '*': {
+      const count = parseLength(line);
+      if (count === -1) return {reply: null, offset: next};
+
+      // The remaining items are consumed even after an error item
+      const items: RespReply[] = [];
+      let error: Error | undefined;
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position);
+        if (!item) return undefined;
+        if (item.reply instanceof Error) {
+          error ??= item.reply;
+        } else {
+          items.push(item.reply);
+        }
+        position = item.offset;
+      }
+      return {reply: error ?? items, offset: position};
+    }
+    default:
+      throw new CacheStoreError(`Unexpected RESP reply type '${type}'`);
+  }
+}
+
+/**
+ * Parses the length of a bulk string or array reply (-1 for null).
+ */
+function parseLength(line: string): number {
+  const length = Number(line);
+  if (!Number.isInteger(length) || length < -1) {
+    throw new CacheStoreError(`Malformed RESP length '${line}'`);
+  }
+  return length;
+}
+
+/**
+ * Escapes glob metacharacters for `SCAN ... MATCH`.
+ */
+function escapeGlob(pattern: string): string {
+  return pattern.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+/**
+ * Store backed by a Redis-protocol server.
+ *
+ * TTLs map to `SET ... PX`; size limits are the server's job (configure
+ * `maxmemory` and an eviction policy such as `allkeys-lru`). Commands are
+ * pipelined over one lazily opened connection, which reconnects on the
+ * next command after a failure. Values must be JSON-serializable.
+ *
+ * Node.js only. `node:net` is loaded lazily so importing `@mullion/core`
+ * stays browser-safe.
+ *
+ * @example
+ * ```typescript
+ * const store = new RespCacheStore({host: 'redis.internal', db: 2});
+ * const cache = createAsyncScopedCache('tenant-a', store, {
+ *   namespace: 'support-bot',
+ *   defaultTtlMs: 3_600_000,
+ * });
+ *
+ * // On shutdown
+ * await store.close();
+ * ```
+ */
+export class RespCacheStore implements ScopedCacheStore {
+  private readonly options: RespCacheStoreOptions;
+  private connection: Promise<Socket> | undefined;
+  private socket: Socket | undefined;
+  private readonly pending: PendingReply[] = [];
+  private buffer = Buffer.alloc(0);
+
+  constructor(options: RespCacheStoreOptions = {}) {
+    this.options = options;
+  }
+
+  async get(key: string): Promise<unknown> {
+    const reply = await this.command(['GET', key]);
+    if (reply === null) return undefined;
+
+    try {
+      return JSON.parse(String(reply)) as unknown;
+    } catch (error) {
+      throw new CacheStoreError(`Malformed cache entry for key '${key}'`, {
+        cause: error,
+      });
+    }
+  }
+
+  async set(
+    key: string,
+    value: unknown,
+    options: CacheStoreSetOptions = {},
+  ): Promise<void> {
+    const args = ['SET', key, JSON.stringify(value)];
+    if (options.ttlMs !== undefined) {
+      args.push('PX', String(Math.max(1, Math.ceil(options.ttlMs))));
+    }
+    await this.command(args);
+  }
+
+  async has(key: string): Promise<boolean> {
+    return (await this.command(['EXISTS', key])) === 1;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return ((await this.command(['DEL', key])) as number) > 0;
+  }
+
+  async clear(prefix?: string): Promise<void> {
+    const pattern = prefix === undefined ? '*' : `${escapeGlob(prefix)}*`;
+    let cursor = '0';
+
+    do {
+      const [nextCursor, keys] = (await this.command([
+        'SCAN',
+        cursor,
+        'MATCH',
+        pattern,
+        'COUNT',
+        '100',
+      ])) as [string, string[]];
+
+      if (keys.length > 0) await this.command(['DEL', ...keys]);
+      cursor = nextCursor;
+    } while (cursor !== '0');
+  }
+
+  async close(): Promise<void> {
+    const connection = this.connection;
+    if (!connection) return;
+
+    try {
+      await this.command(['QUIT']);
+    } finally {
+      (await connection).end();
+      this.socket = undefined;
+      this.connection = undefined;
+    }
+  }
+
+  /**
+   * Sends a raw command and resolves to its decoded reply.
+   *
+   * @throws {CacheStoreError} On connection failures and error replies
+   */
+  async command(args: readonly string[]): Promise<RespReply> {
+    const socket = await this.connect();
+    return this.send(socket, args);
+  }
+
+  private send(socket: Socket, args: readonly string[]): Promise<RespReply> {
+    const {commandTimeoutMs = 5000} = this.options;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.fail(
+          socket,
+          new CacheStoreError(
+            `Timed out after ${commandTimeoutMs} ms waiting for the reply ` +
+              `to ${args[0]}`,
+          ),
+        );
+      }, commandTimeoutMs);
+
+      this.pending.push({
+        resolve: (reply) => {
+          clearTimeout(timer);
+          resolve(reply);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private connect(): Promise<Socket> {
+    this.connection ??= this.open().catch((error: unknown) => {
+      this.connection = undefined;
+      throw error;
+    });
+    return this.connection;
+  }
+
+  private async open(): Promise<Socket> {
+    const {createConnection} = await import('node:net');
+    const {
+      host = '127.0.0.1',
+      port = 6379,
+      username,
+      password,
+      db,
+      connectTimeoutMs = 5000,
+    } = this.options;
+
+    const socket = await new Promise<Socket>((resolve, reject) => {
+      const connection = createConnection({host, port});
+      connection.setTimeout(connectTimeoutMs, () => {
+        connection.destroy();
+        reject(
+          new CacheStoreError(
+            `Timed out connecting to RESP server at ${host}:${port}`,
+          ),
+        );
+      });
+      connection.once('error', (error) => {
+        reject(
+          new CacheStoreError(
+            `Cannot connect to RESP server at ${host}:${port}`,
+            {cause: error},
+          ),
+        );
+      });
+      connection.once('connect', () => {
+        connection.setTimeout(0);
+        connection.removeAllListeners('error');
+        resolve(connection);
+      });
+    });
+
+    this.socket = socket;
+    socket.on('data', (chunk: Buffer) => {
+      try {
+        this.receive(chunk);
+      } catch (error) {
+        // The stream cannot be resynchronized after a malformed reply
+        this.fail(socket, error as Error);
+      }
+    });
+    socket.on('error', (error) => {
+      this.fail(socket, error);
+    });
+    socket.on('close', () => {
+      this.fail(socket);
+    });
+
+    try {
+      if (password !== undefined) {
+        await this.send(
+          socket,
+          username !== undefined
+            ? ['AUTH', username, password]
+            : ['AUTH', password],
+        );
+      }
+      if (db !== undefined) {
+        await this.send(socket, ['SELECT', String(db)]);
+      }
+    } catch (error) {
+      socket.destroy();
+      throw error;
+    }
+
+    return socket;
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    let parsed = parseReply(this.buffer, 0);
+    while (parsed) {
+      this.buffer = this.buffer.subarray(parsed.offset);
+      const waiter = this.pending.shift();
+      if (parsed.reply instanceof Error) {
+        waiter?.reject(
+          new CacheStoreError(`RESP server error: ${parsed.reply.message}`),
+        );
+      } else {
+        waiter?.resolve(parsed.reply);
+      }
+      parsed = this.buffer.length > 0 ? parseReply(this.buffer, 0) : undefined;
+    }
+  }
+
+  private fail(socket: Socket, cause?: Error): void {
+    socket.destroy();
+    // Ignore late events from a socket that was already replaced
+    if (this.socket !== socket) return;
+
+    this.socket = undefined;
+    this.connection = undefined;
+    this.buffer = Buffer.alloc(0);
+
+    for (const waiter of this.pending.splice(0)) {
+      waiter.reject(
+        new CacheStoreError('RESP connection closed', {
+          ...(cause ? {cause} : {}),
+        }),
+      );
+    }
+  }
+}
@@ -0,0 +1,180 @@
+import {afterEach, beforeEach, describe, expect, it} from 'vitest';
+import {mkdtemp, readdir, rm, writeFile} from 'node:fs/promises';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {CacheStoreError, InvalidConfigurationError} from '../errors.js';
+import {FileCacheStore} from './file-store.js';
+import {MemoryCacheStore} from './memory-store.js';
+
+describe('MemoryCacheStore', () => {
+  it('evicts the least recently used entry', async () => {
+    const store = new MemoryCacheStore({maxEntries: 2});
+    await store.set('a', 1);
+    await store.set('b', 2);
+    await store.get('a');
+    await store.set('c', 3);
+
+    expect(await store.has('a')).toBe(true);
+    expect(await store.has('b')).toBe(false);
+    expect(await store.has('c')).toBe(true);
+    expect(store.size).toBe(2);
+  });
+
+  it('expires entries after their TTL', async () => {
+    let now = 0;
+    const store = new MemoryCacheStore({now: () => now});
+    await store.set('a', 1, {ttlMs: 100});
+    await store.set('b', 2);
+
+    now = 100;
+    expect(await store.get('a')).toBeUndefined();
+    expect(await store.delete('a')).toBe(false);
+    expect(await store.get('b')).toBe(2);
+  });
+
+  it('clears by prefix', async () => {
+    const store = new MemoryCacheStore();
+    await store.set('app:a:1', 1);
+    await store.set('app:b:1', 2);
+
+    await store.clear('app:a:');
+    expect(await store.has('app:a:1')).toBe(false);
+    expect(await store.has('app:b:1')).toBe(true);
+  });
+
+  it('rejects invalid sizes', () => {
+    expect(() => new MemoryCacheStore({maxEntries: 0})).toThrow(
+      InvalidConfigurationError,
+    );
+  });
+});
+
+describe('FileCacheStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'mullion-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, {recursive: true, force: true});
+  });
+
+  it('persists entries across instances', async () => {
+    await new FileCacheStore({directory}).set('app:a:1', {value: 'x'});
+
+    const reopened = new FileCacheStore({directory});
+    expect(await reopened.get('app:a:1')).toEqual({value: 'x'});
+    expect(await reopened.delete('app:a:1')).toBe(true);
+    expect(await reopened.get('app:a:1')).toBeUndefined();
+  });
+
+  it('expires entries and evicts the least recently used', async () => {
+    let now = 0;
+    const store = new FileCacheStore({
+      directory,
+      maxEntries: 2,
+      now: () => ++now,
+    });
+    await store.set('a', 1);
+    await store.set('b', 2, {ttlMs: 1});
+    expect(await store.get('b')).toBeUndefined();
+
+    await store.set('c', 3);
+    expect(await store.get('a')).toBe(1);
+    await store.set('d', 4);
+    expect(await store.has('c')).toBe(false);
+    expect(await store.get('a')).toBe(1);
+    expect(await store.get('d')).toBe(4);
+    expect(await readdir(directory)).toHaveLength(2);
+  });
+
+  it('orders entries found on disk by write time', async () => {
+    let now = 0;
+    const options = {directory, maxEntries: 2, now: () => ++now};
+    const first = new FileCacheStore(options);
+    await first.set('a', 1);
+    await first.set('b', 2);
+
+    const reopened = new FileCacheStore(options);
+    await reopened.set('c', 3);
+    expect(await reopened.has('a')).toBe(false);
+    expect(await reopened.has('b')).toBe(true);
+    expect(await reopened.has('c')).toBe(true);
+  });
+
+  it('clears by prefix', async () => {
+    const store = new MemoryCacheStore();
+    await store.set('app:a:1', 1);
+    await store.set('app:b:1', 2);
+
+    await store.clear('app:a:');
+    expect(await store.has('app:a:1')).toBe(false);
+    expect(await store.has('app:b:1')).toBe(true);
+  });
+
+  it('rejects invalid sizes', () => {
+    expect(() => new MemoryCacheStore({maxEntries: 0})).toThrow(
+      InvalidConfigurationError,
+    );
+  });
+});
+
+describe('FileCacheStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'mullion-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, {recursive: true, force: true});
+  });
+
+  it('persists entries across instances', async () => {
+    await new FileCacheStore({directory}).set('app:a:1', {value: 'x'});
+
+    const reopened = new FileCacheStore({directory});
+    expect(await reopened.get('app:a:1')).toEqual({value: 'x'});
+    expect(await reopened.delete('app:a:1')).toBe(true);
+    expect(await reopened.get('app:a:1')).toBeUndefined();
+  });
+
+  it('expires entries and evicts the oldest writes', async () => {
+    let now = 0;
+    const store = new FileCacheStore({
+      directory,
+      maxEntries: 2,
+      now: () => ++now,
+    });
+    await store.set('a', 1);
+    await store.set('b', 2, {ttlMs: 1});
+    expect(await store.get('b')).toBeUndefined();
+
+    await store.set('c', 3);
+    await store.set('d', 4);
+    expect(await store.has('a')).toBe(false);
+    expect(await store.get('c')).toBe(3);
+    expect(await store.get('d')).toBe(4);
+    expect(await readdir(directory)).toHaveLength(2);
+  });
+
+  it('clears by prefix', async () => {
+    const store = new FileCacheStore({directory});
+    await store.set('app:a:1', 1);
+    await store.set('app:b:1', 2);
+
+    await store.clear('app:a:');
+    expect(await store.has('app:a:1')).toBe(false);
+    expect(await store.has('app:b:1')).toBe(true);
+  });
+
+  it('rejects malformed entries', async () => {
+    const store = new FileCacheStore({directory});
+    await store.set('a', 1);
+    const [name] = await readdir(directory);
+    await writeFile(join(directory, name), '{', 'utf8');
+
+    await expect(store.get('a')).rejects.toBeInstanceOf(CacheStoreError);
+  });
+});
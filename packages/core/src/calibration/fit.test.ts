@@ -0,0 +1,124 @@
+import {describe, expect, it} from 'vitest';
+import type {CalibrationOutcome} from './fit.js';
+import {
+  applyCalibrator,
+  calibratorSchema,
+  expectedCalibrationError,
+  fitCalibrator,
+  fitIsotonic,
+  fitPlatt,
+} from './fit.js';
+
+/**
+ * An overconfident model: says 0.9 but is right 60% of the time, says 0.5
+ * and is right 30% of the time.
+ */
+function overconfident(): CalibrationOutcome[] {
+  const outcomes: CalibrationOutcome[] = [];
+  for (let i = 0; i < 10; i++) {
+    outcomes.push({predicted: 0.9, correct: i < 6});
+    outcomes.push({predicted: 0.5, correct: i < 3});
+  }
+  return outcomes;
+}
+
+describe('fitIsotonic', () => {
+  it('should map each confidence to its observed accuracy', () => {
+    const calibrator = fitIsotonic(overconfident());
+
+    expect(calibrator).toEqual({
+      method: 'isotonic',
+      x: [0.5, 0.9],
+      y: [0.3, 0.6],
+    });
+    expect(applyCalibrator(calibrator, 0.9)).toBeCloseTo(0.6);
+    expect(applyCalibrator(calibrator, 0.7)).toBeCloseTo(0.45);
+    expect(applyCalibrator(calibrator, 0.1)).toBeCloseTo(0.3);
+    expect(applyCalibrator(calibrator, 1)).toBeCloseTo(0.6);
+  });
+
+  it('should pool violators into a non-decreasing step', () => {
+    const calibrator = fitIsotonic([
+      {predicted: 0.2, correct: true},
+      {predicted: 0.4, correct: false},
+      {predicted: 0.8, correct: true},
+    ]);
+
+    expect(calibrator.x).toEqual([0.2, 0.4, 0.8]);
+    expect(calibrator.y).toEqual([0.5, 0.5, 1]);
+  });
+
+  it('should reject empty outcomes', () => {
+    expect(() => fitIsotonic([])).toThrow(/without outcomes/);
+  });
+});
+
+describe('fitPlatt', () => {
+  it('should fit an increasing curve close to the observed accuracy', () => {
+    const calibrator = fitPlatt(overconfident());
+
+    expect(calibrator.method).toBe('platt');
+    expect(calibrator.a).toBeGreaterThan(0);
+    expect(applyCalibrator(calibrator, 0.9)).toBeCloseTo(0.6, 1);
+    expect(applyCalibrator(calibrator, 0.5)).toBeCloseTo(0.3, 1);
+  });
+
+  it('should stay finite when every prediction is identical', () => {
+    const calibrator = fitCalibrator(
+      [
+        {predicted: 0.8, correct: true},
+        {predicted: 0.8, correct: false},
+      ],
+      'platt',
+    );
+
+    expect(Number.isFinite(calibrator.method === 'platt' && calibrator.a)).toBe(
+      true,
+    );
+    expect(applyCalibrator(calibrator, 0.8)).toBeCloseTo(0.5, 1);
+  });
+});
+
+describe('expectedCalibrationError', () => {
+  it('should weight per-bin gaps by bin size', () => {
+    const {ece, bins} = expectedCalibrationError(overconfident());
+
+    // Half the samples have a gap of 0.3, the other half 0.2
+    expect(ece).toBeCloseTo(0.25);
+    expect(bins).toHaveLength(10);
+    expect(bins[9]).toMatchObject({count: 10, accuracy: 0.6});
+    expect(bins[9].meanConfidence).toBeCloseTo(0.9);
+  });
+
+  it('should drop to zero after isotonic calibration', () => {
+    const outcomes = overconfident();
+    const calibrator = fitIsotonic(outcomes);
+
+    const {ece} = expectedCalibrationError(
+      outcomes.map(({predicted, correct}) => ({
+        predicted: applyCalibrator(calibrator, predicted),
+        correct,
+      })),
+    );
+
+    expect(ece).toBeCloseTo(0);
+  });
+
+  it('should handle no outcomes and reject invalid bin counts', () => {
+    expect(expectedCalibrationError([]).ece).toBe(0);
+    expect(() => expectedCalibrationError([], 0)).toThrow(/positive integer/);
+  });
+});
+
+describe('calibratorSchema', () => {
+  it('should validate persisted calibrators', () => {
+    expect(
+      calibratorSchema.safeParse(fitIsotonic(overconfident())).success,
+    ).toBe(true);
+    expect(
+      calibratorSchema.safeParse({method: 'isotonic', x: [0.1, 0.2], y: [0.5]})
+        .success,
+    ).toBe(false);
+    expect(calibratorSchema.safeParse({method: 'beta'}).success).toBe(false);
+  });
+});
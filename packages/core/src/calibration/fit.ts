@@ -0,0 +1,338 @@
+/**
+ * Calibration models and reliability metrics.
+ *
+ * A calibrator maps a raw confidence score to the probability that the
+ * result is actually correct, learned from labelled outcomes. Calibrators
+ * are plain JSON objects so they can be persisted and reloaded.
+ *
+ * @module calibration/fit
+ */
+
+import {z} from 'zod';
+import {InvalidArgumentError} from '../errors.js';
+
+/**
+ * A raw confidence score and whether the result turned out to be correct.
+ */
+export interface CalibrationOutcome {
+  /**
+   * Confidence reported before calibration (0-1).
+   */
+  readonly predicted: number;
+
+  /**
+   * Whether the result was correct.
+   */
+  readonly correct: boolean;
+}
+
+/**
+ * Supported calibration methods.
+ *
+ * - `isotonic`: monotone step function fitted with pool-adjacent-violators,
+ *   interpolated linearly between steps. Flexible; needs more data.
+ * - `platt`: logistic curve `1 / (1 + exp(-(a * x + b)))`. Smooth; works
+ *   with little data but assumes a sigmoid-shaped miscalibration.
+ */
+export type CalibrationMethod = 'isotonic' | 'platt';
+
+/**
+ * Isotonic calibrator: piecewise-linear, non-decreasing mapping through
+ * `(x[i], y[i])`. Inputs outside `[x[0], x[n-1]]` are clamped.
+ */
+export interface IsotonicCalibrator {
+  readonly method: 'isotonic';
+  readonly x: readonly number[];
+  readonly y: readonly number[];
+}
+
+/**
+ * Platt calibrator: `1 / (1 + exp(-(a * confidence + b)))`.
+ */
+export interface PlattCalibrator {
+  readonly method: 'platt';
+  readonly a: number;
+  readonly b: number;
+}
+
+/**
+ * A fitted calibration model.
+ */
+export type Calibrator = IsotonicCalibrator | PlattCalibrator;
+
+/**
+ * Zod schema for {@link Calibrator}, used when loading persisted models.
+ */
+export const calibratorSchema = z.discriminatedUnion('method', [
+  z
+    .object({
+      method: z.literal('isotonic'),
+      x: z.array(z.number()).min(1),
+      y: z.array(z.number().min(0).max(1)).min(1),
+    })
+    .refine(({x, y}) => x.length === y.length, {
+      message: 'x and y must have the same length',
+    }),
+  z.object({
+    method: z.literal('platt'),
+    a: z.number(),
+    b: z.number(),
+  }),
+]);
+
+function assertOutcomes(outcomes: readonly CalibrationOutcome[]): void {
+  if (outcomes.length === 0) {
+    throw new InvalidArgumentError('Cannot fit a calibrator without outcomes');
+  }
+}
+
+/**
+ * Fits an isotonic calibrator with the pool-adjacent-violators algorithm.
+ *
+ * @param outcomes - Labelled outcomes (at least one)
+ * @returns The fitted calibrator
+ * @throws {InvalidArgumentError} If outcomes is empty
+ */
+export function fitIsotonic(
+  outcomes: readonly CalibrationOutcome[],
+): IsotonicCalibrator {
+  assertOutcomes(outcomes);
+
+  // Pool identical predictions first so ties share one fitted value
+  const points = new Map<number, {sum: number; weight: number}>();
+  for (const {predicted, correct} of outcomes) {
+    const point = points.get(predicted) ?? {sum: 0, weight: 0};
+    point.sum += correct ? 1 : 0;
+    point.weight += 1;
+    points.set(predicted, point);
+  }
+
+  const blocks: {sum: number; weight: number; minX: number; maxX: number}[] =
+    [];
+  for (const [x, {sum, weight}] of [...points.entries()].sort(
+    (a, b) => a[0] - b[0],
+  )) {
+    blocks.push({sum, weight, minX: x, maxX: x});
+
+    // Merge backwards while the sequence of block means decreases
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+      if (previous.sum / previous.weight <= last.sum / last.weight) break;
+
+      blocks.pop();
+      previous.sum += last.sum;
+      previous.weight += last.weight;
+      previous.maxX = last.maxX;
+    }
+  }
+
+  const x: number[] = [];
+  const y: number[] = [];
+  for (const block of blocks) {
+    const mean = block.sum / block.weight;
+    x.push(block.minX);
+    y.push(mean);
+    if (block.maxX > block.minX) {
+      x.push(block.maxX);
+      y.push(mean);
+    }
+  }
+
+  return {method: 'isotonic', x, y};
+}
+
+/**
+ * Fits a Platt calibrator by logistic regression (Newton's method), using
+ * Platt's smoothed targets to avoid overfitting small samples.
+ *
+ * @param outcomes - Labelled outcomes (at least one)
+ * @returns The fitted calibrator
+ * @throws {InvalidArgumentError} If outcomes is empty
+ */
+export function fitPlatt(
+  outcomes: readonly CalibrationOutcome[],
+): PlattCalibrator {
+  assertOutcomes(outcomes);
+
+  const positives = outcomes.filter((outcome) => outcome.correct).length;
+  const negatives = outcomes.length - positives;
+  const high = (positives + 1) / (positives + 2);
+  const low = 1 / (negatives + 2);
+
+  let a = 0;
+  let b = Math.log((positives + 1) / (negatives + 1));
+
+  for (let iteration = 0; iteration < 100; iteration++) {
+    // Gradient and (damped) Hessian of the negative log-likelihood
+    let ga = 0;
+    let gb = 0;
+    let haa = 1e-3;
+    let hab = 0;
+    let hbb = 1e-3;
+
+    for (const {predicted, correct} of outcomes) {
+      const p = 1 / (1 + Math.exp(-(a * predicted + b)));
+      const diff = p - (correct ? high : low);
+      const w = p * (1 - p);
+      ga += diff * predicted;
+      gb += diff;
+      haa += w * predicted * predicted;
+      hab += w * predicted;
+      hbb += w;
+    }
+
+    const determinant = haa * hbb - hab * hab;
+    if (determinant <= 0) break;
+
+    const da = (hbb * ga - hab * gb) / determinant;
+    const db = (haa * gb - hab * ga) / determinant;
+    a -= da;
+    b -= db;
+
+    if (Math.abs(da) < 1e-10 && Math.abs(db) < 1e-10) break;
+  }
+
+  return {method: 'platt', a, b};
+}
+
+/**
+ * Fits a calibrator with the given method.
+ *
+ * @param outcomes - Labelled outcomes (at least one)
+ * @param method - Calibration method (default: `isotonic`)
+ * @returns The fitted calibrator
+ * @throws {InvalidArgumentError} If outcomes is empty
+ */
+export function fitCalibrator(
+  outcomes: readonly CalibrationOutcome[],
+  method: CalibrationMethod = 'isotonic',
+): Calibrator {
+  return method === 'platt' ? fitPlatt(outcomes) : fitIsotonic(outcomes);
+}
+
+/**
+ * Maps a raw confidence through a calibrator.
+ *
+ * @param calibrator - A fitted calibrator
+ * @param confidence - Raw confidence (0-1)
+ * @returns Calibrated confidence (0-1)
+ *
+ * @example
+ * ```typescript
+ * const calibrator = fitCalibrator(outcomes);
+ * applyCalibrator(calibrator, 0.9); // 0.72 for an overconfident model
+ * ```
+ */
+export function applyCalibrator(
+  calibrator: Calibrator,
+  confidence: number,
+): number {
+  if (calibrator.method === 'platt') {
+    return 1 / (1 + Math.exp(-(calibrator.a * confidence + calibrator.b)));
+  }
+
+  const {x, y} = calibrator;
+  if (confidence <= x[0]) return y[0];
+  if (confidence >= x[x.length - 1]) return y[y.length - 1];
+
+  let upper = 1;
+  while (x[upper] < confidence) upper++;
+  const lower = upper - 1;
+  const t = (confidence - x[lower]) / (x[upper] - x[lower]);
+
+  return y[lower] + t * (y[upper] - y[lower]);
+}
+
+/**
+ * One confidence bin of a reliability diagram.
+ */
+export interface CalibrationBin {
+  /** Inclusive lower bound of the bin */
+  readonly lower: number;
+  /** Upper bound of the bin (inclusive for the last bin) */
+  readonly upper: number;
+  /** Number of outcomes in the bin */
+  readonly count: number;
+  /** Mean predicted confidence in the bin (0 when empty) */
+  readonly meanConfidence: number;
+  /** Fraction of correct outcomes in the bin (0 when empty) */
+  readonly accuracy: number;
+}
+
+/**
+ * Expected calibration error with its reliability diagram.
+ */
+export interface CalibrationErrorSummary {
+  /**
+   * Expected calibration error: the count-weighted mean gap between
+   * confidence and accuracy across bins. 0 is perfectly calibrated.
+   */
+  readonly ece: number;
+
+  /**
+   * Equal-width bins over [0, 1].
+   */
+  readonly bins: readonly CalibrationBin[];
+}
+
+/**
+ * Computes the expected calibration error (ECE) of a set of outcomes.
+ *
+ * @param outcomes - Predicted confidences with correctness labels
+ * @param binCount - Number of equal-width bins (default: 10)
+ * @returns ECE and per-bin reliability data (ECE is 0 for no outcomes)
+ * @throws {InvalidArgumentError} If binCount is not a positive integer
+ *
+ * @example
+ * ```typescript
+ * const {ece} = expectedCalibrationError([
+ *   {predicted: 0.9, correct: true},
+ *   {predicted: 0.9, correct: false},
+ * ]);
+ * // ece === 0.4
+ * ```
+ */
+export function expectedCalibrationError(
+  outcomes: readonly CalibrationOutcome[],
+  binCount = 10,
+): CalibrationErrorSummary {
+  if (!Number.isInteger(binCount) || binCount < 1) {
+    throw new InvalidArgumentError(
+      `binCount must be a positive integer, got ${binCount}`,
+    );
+  }
+
+  const totals = Array.from({length: binCount}, () => ({
+    count: 0,
+    confidence: 0,
+    correct: 0,
+  }));
+
+  for (const {predicted, correct} of outcomes) {
+    const index = Math.min(binCount - 1, Math.floor(predicted * binCount));
+    totals[index].count += 1;
+    totals[index].confidence += predicted;
+    totals[index].correct += correct ? 1 : 0;
+  }
+
+  let ece = 0;
+  const bins = totals.map((total, index) => {
+    const meanConfidence = total.count ? total.confidence / total.count : 0;
+    const accuracy = total.count ? total.correct / total.count : 0;
+    if (outcomes.length > 0) {
+      ece +=
+        (total.count / outcomes.length) * Math.abs(accuracy - meanConfidence);
+    }
+
+    return {
+      lower: index / binCount,
+      upper: (index + 1) / binCount,
+      count: total.count,
+      meanConfidence,
+      accuracy,
+    };
+  });
+
+  return {ece, bins};
+}
@@ -0,0 +1,46 @@
+/**
+ * Confidence calibration trained on labelled outcomes.
+ *
+ * @module calibration
+ */
+
+export type {
+  CalibrationOutcome,
+  CalibrationMethod,
+  IsotonicCalibrator,
+  PlattCalibrator,
+  Calibrator,
+  CalibrationBin,
+  CalibrationErrorSummary,
+} from './fit.js';
+export {
+  calibratorSchema,
+  fitIsotonic,
+  fitPlatt,
+  fitCalibrator,
+  applyCalibrator,
+  expectedCalibrationError,
+} from './fit.js';
+
+export type {CalibrationSample, CalibrationFeedbackStore} from './stores.js';
+export {MemoryCalibrationStore, JsonlFileCalibrationStore} from './stores.js';
+
+export type {
+  CalibrationKey,
+  TrackedPrediction,
+  CalibrationFeedback,
+  CalibrationEntry,
+  CalibrationSnapshot,
+  CalibrationFitOptions,
+  CalibrationRegistryOptions,
+  CalibrationReport,
+} from './registry.js';
+export {
+  ANY_SCHEMA,
+  calibrationSnapshotSchema,
+  CalibrationRegistry,
+  setCalibrationRegistry,
+  getCalibrationRegistry,
+  clearCalibrationRegistry,
+  calibrateConfidence,
+} from './registry.js';
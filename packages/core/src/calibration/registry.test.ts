@@ -0,0 +1,187 @@
+import {afterEach, describe, expect, it} from 'vitest';
+import {mkdtemp, rm, writeFile} from 'node:fs/promises';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {CalibrationError} from '../errors.js';
+import {
+  ANY_SCHEMA,
+  CalibrationRegistry,
+  calibrateConfidence,
+  clearCalibrationRegistry,
+  setCalibrationRegistry,
+} from './registry.js';
+import {JsonlFileCalibrationStore} from './stores.js';
+
+async function recordOverconfident(
+  registry: CalibrationRegistry,
+  model: string,
+  schema: string,
+): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await registry.recordFeedback({
+      traceId: `${model}-${schema}-${i}`,
+      predicted: 0.9,
+      correct: i < 6,
+      model,
+      schema,
+    });
+  }
+}
+
+describe('CalibrationRegistry', () => {
+  afterEach(() => {
+    clearCalibrationRegistry();
+  });
+
+  it('should record feedback for tracked predictions by trace ID', async () => {
+    const registry = new CalibrationRegistry();
+    registry.trackPrediction({
+      traceId: 't1',
+      model: 'gpt-4o-mini',
+      schema: 'intent',
+      confidence: 0.8,
+    });
+
+    const sample = await registry.recordFeedback({
+      traceId: 't1',
+      correct: true,
+    });
+
+    expect(sample).toMatchObject({
+      traceId: 't1',
+      predicted: 0.8,
+      correct: true,
+      model: 'gpt-4o-mini',
+      schema: 'intent',
+    });
+    await expect(registry.store.readAll()).resolves.toHaveLength(1);
+  });
+
+  it('should reject feedback for unknown traces without details', async () => {
+    const registry = new CalibrationRegistry();
+
+    await expect(
+      registry.recordFeedback({traceId: 'missing', correct: true}),
+    ).rejects.toBeInstanceOf(CalibrationError);
+  });
+
+  it('should forget the oldest tracked predictions', async () => {
+    const registry = new CalibrationRegistry({maxTrackedPredictions: 1});
+    registry.trackPrediction({traceId: 'a', model: 'm', confidence: 0.5});
+    registry.trackPrediction({traceId: 'b', model: 'm', confidence: 0.5});
+
+    await expect(
+      registry.recordFeedback({traceId: 'a', correct: true}),
+    ).rejects.toThrow(/No tracked prediction/);
+    await expect(
+      registry.recordFeedback({traceId: 'b', correct: true}),
+    ).resolves.toMatchObject({schema: ANY_SCHEMA});
+  });
+
+  it('should fit per-schema and pooled per-model calibrators', async () => {
+    const registry = new CalibrationRegistry({minSamples: 10});
+    await recordOverconfident(registry, 'model-a', 'intent');
+    await registry.recordFeedback({
+      traceId: 'x',
+      predicted: 0.9,
+      correct: true,
+      model: 'model-a',
+      schema: 'summary',
+    });
+
+    const entries = await registry.fit();
+
+    expect(entries.map((entry) => entry.schema).sort()).toEqual([
+      ANY_SCHEMA,
+      'intent',
+    ]);
+    expect(registry.calibrate(0.9, {model: 'model-a', schema: 'intent'})).toBe(
+      0.6,
+    );
+    // 'summary' has too few samples and falls back to the pooled calibrator
+    expect(
+      registry.calibrate(0.9, {model: 'model-a', schema: 'summary'}),
+    ).toBeCloseTo(7 / 11);
+    expect(registry.calibrate(0.9, {model: 'model-b'})).toBe(0.9);
+  });
+
+  it('should report ECE before and after calibration', async () => {
+    const registry = new CalibrationRegistry({minSamples: 1});
+    await recordOverconfident(registry, 'model-a', 'intent');
+    await registry.fit();
+
+    const report = await registry.report({model: 'model-a'});
+
+    expect(report.sampleCount).toBe(10);
+    expect(report.raw.ece).toBeCloseTo(0.3);
+    expect(report.calibrated.ece).toBeCloseTo(0);
+  });
+
+  it('should round-trip calibrators through JSON', async () => {
+    const registry = new CalibrationRegistry({minSamples: 1, method: 'platt'});
+    await recordOverconfident(registry, 'model-a', 'intent');
+    await registry.fit();
+
+    const restored = new CalibrationRegistry();
+    restored.load(JSON.parse(JSON.stringify(registry)));
+
+    expect(restored.calibrate(0.9, {model: 'model-a', schema: 'intent'})).toBe(
+      registry.calibrate(0.9, {model: 'model-a', schema: 'intent'}),
+    );
+    expect(() => restored.load({version: 2, entries: []})).toThrow(
+      CalibrationError,
+    );
+  });
+
+  it('should read feedback back from a JSONL file', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'mullion-calibration-'));
+    try {
+      const path = join(directory, 'feedback.jsonl');
+      const store = new JsonlFileCalibrationStore(path);
+      await expect(store.readAll()).resolves.toEqual([]);
+
+      const registry = new CalibrationRegistry({store, minSamples: 1});
+      await recordOverconfident(registry, 'model-a', 'intent');
+
+      await expect(store.readAll()).resolves.toHaveLength(10);
+
+      await writeFile(path, '{not json}\n', 'utf8');
+      await expect(store.readAll()).rejects.toThrow(
+        /Malformed calibration sample/,
+      );
+    } finally {
+      await rm(directory, {recursive: true, force: true});
+    }
+  });
+});
+
+describe('calibrateConfidence', () => {
+  afterEach(() => {
+    clearCalibrationRegistry();
+  });
+
+  it('should pass confidence through without a registry', () => {
+    expect(
+      calibrateConfidence({traceId: 't', model: 'm', confidence: 0.9}),
+    ).toBe(0.9);
+  });
+
+  it('should track and calibrate with the registered registry', async () => {
+    const registry = new CalibrationRegistry({minSamples: 1});
+    await recordOverconfident(registry, 'm', 'intent');
+    await registry.fit();
+    setCalibrationRegistry(registry);
+
+    expect(
+      calibrateConfidence({
+        traceId: 'new',
+        model: 'm',
+        schema: 'intent',
+        confidence: 0.9,
+      }),
+    ).toBe(0.6);
+    await expect(
+      registry.recordFeedback({traceId: 'new', correct: false}),
+    ).resolves.toMatchObject({predicted: 0.9, schema: 'intent'});
+  });
+});
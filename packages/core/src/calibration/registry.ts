@@ -0,0 +1,468 @@
+/**
+ * Per-model, per-schema confidence calibration.
+ *
+ * Raw confidences from different models and estimators are not comparable:
+ * 0.8 from one model may be right 95% of the time, from another 60%. A
+ * {@link CalibrationRegistry} collects labelled feedback, fits a calibrator
+ * per model and schema, and maps raw confidences to calibrated ones.
+ * Integrations (like `@mullion/ai-sdk`) apply the registered registry to
+ * every inference result automatically.
+ *
+ * @module calibration/registry
+ */
+
+import {z} from 'zod';
+import {CalibrationError} from '../errors.js';
+import type {
+  CalibrationErrorSummary,
+  CalibrationMethod,
+  Calibrator,
+} from './fit.js';
+import {
+  applyCalibrator,
+  calibratorSchema,
+  expectedCalibrationError,
+  fitCalibrator,
+} from './fit.js';
+import type {CalibrationFeedbackStore, CalibrationSample} from './stores.js';
+import {MemoryCalibrationStore} from './stores.js';
+
+/**
+ * Schema key that matches every schema of a model.
+ *
+ * Fitting always produces a pooled calibrator under this key for each
+ * model, used when a schema has no calibrator of its own.
+ */
+export const ANY_SCHEMA = '*';
+
+/**
+ * Identifies which calibrator applies to a result.
+ */
+export interface CalibrationKey {
+  /**
+   * Model identifier, e.g. `gpt-4o-mini`.
+   */
+  readonly model: string;
+
+  /**
+   * Schema key, e.g. a schema signature. Defaults to {@link ANY_SCHEMA}.
+   */
+  readonly schema?: string;
+}
+
+/**
+ * An inference result whose outcome may be reported later.
+ */
+export interface TrackedPrediction extends CalibrationKey {
+  /**
+   * Trace ID of the result.
+   */
+  readonly traceId: string;
+
+  /**
+   * Raw (uncalibrated) confidence of the result.
+   */
+  readonly confidence: number;
+}
+
+/**
+ * Feedback about a single result.
+ *
+ * `predicted`, `model` and `schema` may be omitted for results the registry
+ * tracked itself (see {@link CalibrationRegistry.trackPrediction}).
+ */
+export interface CalibrationFeedback {
+  readonly traceId: string;
+  readonly correct: boolean;
+  readonly predicted?: number;
+  readonly model?: string;
+  readonly schema?: string;
+}
+
+/**
+ * A fitted calibrator together with the data it was fitted on.
+ */
+export interface CalibrationEntry {
+  readonly model: string;
+  readonly schema: string;
+  readonly calibrator: Calibrator;
+  readonly sampleCount: number;
+  readonly fittedAt: number;
+}
+
+/**
+ * JSON form of a registry's fitted calibrators.
+ */
+export interface CalibrationSnapshot {
+  readonly version: 1;
+  readonly entries: readonly CalibrationEntry[];
+}
+
+/**
+ * Zod schema for {@link CalibrationSnapshot}.
+ */
+export const calibrationSnapshotSchema = z.object({
+  version: z.literal(1),
+  entries: z.array(
+    z.object({
+      model: z.string(),
+      schema: z.string(),
+      calibrator: calibratorSchema,
+      sampleCount: z.number().int().nonnegative(),
+      fittedAt: z.number(),
+    }),
+  ),
+});
+
+/**
+ * Options for fitting calibrators.
+ */
+export interface CalibrationFitOptions {
+  /**
+   * Calibration method.
+   *
+   * @default 'isotonic'
+   */
+  readonly method?: CalibrationMethod;
+
+  /**
+   * Minimum number of samples required to fit a calibrator for a key.
+   * Keys with fewer samples are left uncalibrated.
+   *
+   * @default 50
+   */
+  readonly minSamples?: number;
+}
+
+/**
+ * Options for {@link CalibrationRegistry}.
+ */
+export interface CalibrationRegistryOptions extends CalibrationFitOptions {
+  /**
+   * Where feedback is stored.
+   *
+   * @default new MemoryCalibrationStore()
+   */
+  readonly store?: CalibrationFeedbackStore;
+
+  /**
+   * Maximum number of tracked predictions kept for later feedback. The
+   * oldest are forgotten first.
+   *
+   * @default 10_000
+   */
+  readonly maxTrackedPredictions?: number;
+}
+
+/**
+ * Calibration quality for a set of samples, before and after calibration.
+ */
+export interface CalibrationReport {
+  readonly sampleCount: number;
+  readonly raw: CalibrationErrorSummary;
+  readonly calibrated: CalibrationErrorSummary;
+}
+
+function entryKey(model: string, schema: string): string {
+  return `${model}\u0000${schema}`;
+}
+
+/**
+ * Collects feedback, fits calibrators and applies them.
+ *
+ * @example
+ * ```typescript
+ * const calibration = new CalibrationRegistry({
+ *   store: new JsonlFileCalibrationStore('./feedback.jsonl'),
+ * });
+ * setCalibrationRegistry(calibration);
+ *
+ * // Later, once the ground truth is known:
+ * await calibration.recordFeedback({traceId: result.traceId, correct: true});
+ *
+ * // Periodically:
+ * await calibration.fit({method: 'isotonic'});
+ * await writeFile('calibration.json', JSON.stringify(calibration));
+ *
+ * // On startup:
+ * calibration.load(JSON.parse(await readFile('calibration.json', 'utf8')));
+ * ```
+ */
+export class CalibrationRegistry {
+  readonly store: CalibrationFeedbackStore;
+
+  private readonly method: CalibrationMethod;
+  private readonly minSamples: number;
+  private readonly maxTrackedPredictions: number;
+  private readonly tracked = new Map<string, TrackedPrediction>();
+  private entries = new Map<string, CalibrationEntry>();
+
+  constructor(options: CalibrationRegistryOptions = {}) {
+    this.store = options.store ?? new MemoryCalibrationStore();
+    this.method = options.method ?? 'isotonic';
+    this.minSamples = options.minSamples ?? 50;
+    this.maxTrackedPredictions = options.maxTrackedPredictions ?? 10_000;
+  }
+
+  /**
+   * Remembers a result's raw confidence so feedback can be recorded with
+   * just its trace ID. Called by integrations for every inference.
+   */
+  trackPrediction(prediction: TrackedPrediction): void {
+    this.tracked.delete(prediction.traceId);
+    this.tracked.set(prediction.traceId, prediction);
+
+    if (this.tracked.size > this.maxTrackedPredictions) {
+      const oldest = this.tracked.keys().next().value;
+      if (oldest !== undefined) this.tracked.delete(oldest);
+    }
+  }
+
+  /**
+   * Returns the tracked prediction for a trace ID, if it is still tracked.
+   */
+  getTrackedPrediction(traceId: string): TrackedPrediction | undefined {
+    return this.tracked.get(traceId);
+  }
+
+  /**
+   * Records whether a result was correct.
+   *
+   * @param feedback - Trace ID, correctness, and (for untracked results)
+   *   raw confidence, model and schema
+   * @returns The stored sample
+   * @throws {CalibrationError} If the result was not tracked and the
+   *   feedback lacks `predicted` or `model`
+   */
+  async recordFeedback(
+    feedback: CalibrationFeedback,
+  ): Promise<CalibrationSample> {
+    const tracked = this.tracked.get(feedback.traceId);
+    const predicted = feedback.predicted ?? tracked?.confidence;
+    const model = feedback.model ?? tracked?.model;
+
+    if (predicted === undefined || model === undefined) {
+      throw new CalibrationError(
+        `No tracked prediction for trace '${feedback.traceId}'. ` +
+          'Pass predicted and model explicitly.',
+        {traceId: feedback.traceId},
+      );
+    }
+
+    const sample: CalibrationSample = {
+      traceId: feedback.traceId,
+      predicted,
+      correct: feedback.correct,
+      model,
+      schema: feedback.schema ?? tracked?.schema ?? ANY_SCHEMA,
+      timestamp: Date.now(),
+    };
+
+    await this.store.append(sample);
+    return sample;
+  }
+
+  /**
+   * Fits calibrators from all stored feedback.
+   *
+   * One calibrator is fitted per model and schema, plus a pooled
+   * {@link ANY_SCHEMA} calibrator per model. Keys with fewer than
+   * `minSamples` samples are skipped. Replaces previously fitted or loaded
+   * calibrators.
+   *
+   * @param options - Method and minimum sample count (defaults from the
+   *   constructor)
+   * @returns The fitted entries
+   */
+  async fit(options: CalibrationFitOptions = {}): Promise<CalibrationEntry[]> {
+    const method = options.method ?? this.method;
+    const minSamples = options.minSamples ?? this.minSamples;
+    const samples = await this.store.readAll();
+
+    const groups = new Map<
+      string,
+      {model: string; schema: string; samples: CalibrationSample[]}
+    >();
+    const addTo = (
+      model: string,
+      schema: string,
+      sample: CalibrationSample,
+    ) => {
+      const key = entryKey(model, schema);
+      const group = groups.get(key) ?? {model, schema, samples: []};
+      group.samples.push(sample);
+      groups.set(key, group);
+    };
+
+    for (const sample of samples) {
+      addTo(sample.model, ANY_SCHEMA, sample);
+      if (sample.schema !== ANY_SCHEMA) {
+        addTo(sample.model, sample.schema, sample);
+      }
+    }
+
+    const fittedAt = Date.now();
+    const entries = new Map<string, CalibrationEntry>();
+
+    for (const [key, group] of groups) {
+      if (group.samples.length < minSamples) continue;
+
+      entries.set(key, {
+        model: group.model,
+        schema: group.schema,
+        calibrator: fitCalibrator(group.samples, method),
+        sampleCount: group.samples.length,
+        fittedAt,
+      });
+    }
+
+    this.entries = entries;
+    return [...entries.values()];
+  }
+
+  /**
+   * Finds the calibrator for a key: the schema's own calibrator, else the
+   * model's pooled calibrator.
+   */
+  getCalibrator(key: CalibrationKey): CalibrationEntry | undefined {
+    return (
+      this.entries.get(entryKey(key.model, key.schema ?? ANY_SCHEMA)) ??
+      this.entries.get(entryKey(key.model, ANY_SCHEMA))
+    );
+  }
+
+  /**
+   * Maps a raw confidence to a calibrated one. Returns the input unchanged
+   * when no calibrator applies.
+   */
+  calibrate(confidence: number, key: CalibrationKey): number {
+    const entry = this.getCalibrator(key);
+    return entry ? applyCalibrator(entry.calibrator, confidence) : confidence;
+  }
+
+  /**
+   * Reports expected calibration error before and after calibration.
+   *
+   * @param key - Restrict to one model (and optionally schema); all
+   *   feedback when omitted
+   * @param binCount - Number of reliability bins (default: 10)
+   */
+  async report(
+    key?: CalibrationKey,
+    binCount = 10,
+  ): Promise<CalibrationReport> {
+    const samples = (await this.store.readAll()).filter(
+      (sample) =>
+        !key ||
+        (sample.model === key.model &&
+          (key.schema === undefined ||
+            key.schema === ANY_SCHEMA ||
+            sample.schema === key.schema)),
+    );
+
+    return {
+      sampleCount: samples.length,
+      raw: expectedCalibrationError(samples, binCount),
+      calibrated: expectedCalibrationError(
+        samples.map((sample) => ({
+          predicted: this.calibrate(sample.predicted, sample),
+          correct: sample.correct,
+        })),
+        binCount,
+      ),
+    };
+  }
+
+  /**
+   * Serializes the fitted calibrators. Called by `JSON.stringify`.
+   */
+  toJSON(): CalibrationSnapshot {
+    return {version: 1, entries: [...this.entries.values()]};
+  }
+
+  /**
+   * Replaces the fitted calibrators with a persisted snapshot.
+   *
+   * @param snapshot - Output of {@link CalibrationRegistry.toJSON}
+   * @throws {CalibrationError} If the snapshot is malformed
+   */
+  load(snapshot: unknown): void {
+    const parsed = calibrationSnapshotSchema.safeParse(snapshot);
+    if (!parsed.success) {
+      throw new CalibrationError(
+        `Invalid calibration snapshot: ${parsed.error.message}`,
+        {cause: parsed.error},
+      );
+    }
+
+    this.entries = new Map(
+      parsed.data.entries.map((entry) => [
+        entryKey(entry.model, entry.schema),
+        entry,
+      ]),
+    );
+  }
+}
+
+/**
+ * Global calibration registry applied by integrations to every inference.
+ *
+ * @internal
+ */
+let globalCalibrationRegistry: CalibrationRegistry | undefined;
+
+/**
+ * Registers the calibration registry applied to inference results.
+ *
+ * After registration, integrations track every result's raw confidence and
+ * replace `Owned.confidence` with the calibrated value.
+ *
+ * @param registry - The registry to apply
+ *
+ * @example
+ * ```typescript
+ * const calibration = new CalibrationRegistry();
+ * calibration.load(snapshot);
+ * setCalibrationRegistry(calibration);
+ * ```
+ */
+export function setCalibrationRegistry(registry: CalibrationRegistry): void {
+  globalCalibrationRegistry = registry;
+}
+
+/**
+ * Gets the currently registered calibration registry.
+ *
+ * @returns The registered registry, or undefined if none registered
+ */
+export function getCalibrationRegistry(): CalibrationRegistry | undefined {
+  return globalCalibrationRegistry;
+}
+
+/**
+ * Clears the registered calibration registry.
+ *
+ * Primarily used for testing to reset state between tests.
+ */
+export function clearCalibrationRegistry(): void {
+  globalCalibrationRegistry = undefined;
+}
+
+/**
+ * Tracks a result with the registered registry and returns its calibrated
+ * confidence. Returns the raw confidence when no registry is registered.
+ *
+ * Integrations call this once per inference result.
+ *
+ * @param prediction - Trace ID, calibration key and raw confidence
+ * @returns The confidence to store on the result
+ */
+export function calibrateConfidence(prediction: TrackedPrediction): number {
+  const registry = globalCalibrationRegistry;
+  if (!registry) {
+    return prediction.confidence;
+  }
+
+  registry.trackPrediction(prediction);
+  return registry.calibrate(prediction.confidence, prediction);
+}
@@ -0,0 +1,124 @@
+/**
+ * Storage backends for calibration feedback.
+ *
+ * @module calibration/stores
+ */
+
+import {CalibrationError} from '../errors.js';
+import type {CalibrationOutcome} from './fit.js';
+
+/**
+ * A labelled outcome for one inference result.
+ */
+export interface CalibrationSample extends CalibrationOutcome {
+  /**
+   * Trace ID of the result the feedback is about.
+   */
+  readonly traceId: string;
+
+  /**
+   * Model that produced the result.
+   */
+  readonly model: string;
+
+  /**
+   * Schema key of the result (see `CalibrationKey`).
+   */
+  readonly schema: string;
+
+  /**
+   * When the feedback was recorded (ms since epoch).
+   */
+  readonly timestamp: number;
+}
+
+/**
+ * Persistence backend for calibration feedback.
+ */
+export interface CalibrationFeedbackStore {
+  /**
+   * Appends a sample.
+   */
+  append(sample: CalibrationSample): Promise<void>;
+
+  /**
+   * Reads every sample, oldest first.
+   */
+  readAll(): Promise<CalibrationSample[]>;
+}
+
+/**
+ * In-memory calibration feedback store.
+ *
+ * @example
+ * ```typescript
+ * const registry = new CalibrationRegistry({
+ *   store: new MemoryCalibrationStore(),
+ * });
+ * ```
+ */
+export class MemoryCalibrationStore implements CalibrationFeedbackStore {
+  private readonly samples: CalibrationSample[] = [];
+
+  append(sample: CalibrationSample): Promise<void> {
+    this.samples.push(Object.freeze({...sample}));
+    return Promise.resolve();
+  }
+
+  readAll(): Promise<CalibrationSample[]> {
+    return Promise.resolve([...this.samples]);
+  }
+}
+
+/**
+ * Append-only JSON Lines file store (one sample per line).
+ *
+ * Node.js only. `node:fs` is loaded lazily so importing `@mullion/core`
+ * stays browser-safe.
+ *
+ * @example
+ * ```typescript
+ * const registry = new CalibrationRegistry({
+ *   store: new JsonlFileCalibrationStore('./calibration-feedback.jsonl'),
+ * });
+ * ```
+ */
+export class JsonlFileCalibrationStore implements CalibrationFeedbackStore {
+  readonly path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async append(sample: CalibrationSample): Promise<void> {
+    const {appendFile} = await import('node:fs/promises');
+    await appendFile(this.path, `${JSON.stringify(sample)}\n`, 'utf8');
+  }
+
+  async readAll(): Promise<CalibrationSample[]> {
+    const {readFile} = await import('node:fs/promises');
+
+    let content: string;
+    try {
+      content = await readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    return content
+      .split('\n')
+      .map((line, index) => ({line, index}))
+      .filter(({line}) => line.trim() !== '')
+      .map(({line, index}) => {
+        try {
+          return JSON.parse(line) as CalibrationSample;
+        } catch (error) {
+          throw new CalibrationError(
+            `Malformed calibration sample at ${this.path}:${index + 1}`,
+            {cause: error},
+          );
+        }
+      });
+  }
+}
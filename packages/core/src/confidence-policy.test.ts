@@ -0,0 +1,102 @@
+import {describe, expect, it, vi} from 'vitest';
+import {enforceConfidencePolicy} from './confidence-policy.js';
+import {InvalidConfigurationError, LowConfidenceError} from './errors.js';
+import {createOwned} from './owned.js';
+
+describe('enforceConfidencePolicy', () => {
+  const weak = createOwned({
+    value: 'refund',
+    scope: 'intake',
+    confidence: 0.4,
+    traceId: 'trace-weak',
+  });
+
+  it('returns values that meet the minimum unchanged', async () => {
+    const strong = createOwned({value: 'refund', scope: 'intake'});
+    await expect(
+      enforceConfidencePolicy(strong, {minConfidence: 0.8}),
+    ).resolves.toBe(strong);
+  });
+
+  it('throws LowConfidenceError by default', async () => {
+    const error = await enforceConfidencePolicy(weak, {
+      minConfidence: 0.8,
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(LowConfidenceError);
+    expect(error).toMatchObject({
+      code: 'LOW_CONFIDENCE',
+      confidence: 0.4,
+      minConfidence: 0.8,
+      scope: 'intake',
+      traceId: 'trace-weak',
+    });
+  });
+
+  it('substitutes the fallback with full confidence and original lineage', async () => {
+    const result = await enforceConfidencePolicy(weak, {
+      minConfidence: 0.8,
+      action: 'fallback',
+      fallback: 'unknown',
+    });
+
+    expect(result.value).toBe('unknown');
+    expect(result.confidence).toBe(1);
+    expect(result.__scope).toBe('intake');
+    expect(result.traceId).toBe('trace-weak');
+    expect(result.lineage).toBe(weak.lineage);
+  });
+
+  it('returns the first retry that meets the minimum', async () => {
+    const retry = vi
+      .fn()
+      .mockResolvedValueOnce({...weak, confidence: 0.5})
+      .mockResolvedValueOnce({...weak, value: 'billing', confidence: 0.9});
+
+    const result = await enforceConfidencePolicy(
+      weak,
+      {minConfidence: 0.8, action: 'retry', maxRetries: 3},
+      retry,
+    );
+
+    expect(result.value).toBe('billing');
+    expect(retry).toHaveBeenCalledTimes(2);
+    expect(retry).toHaveBeenNthCalledWith(2, 2, {...weak, confidence: 0.5});
+  });
+
+  it('falls back or throws when retries stay below the minimum', async () => {
+    const retry = vi.fn().mockResolvedValue(weak);
+
+    await expect(
+      enforceConfidencePolicy(
+        weak,
+        {minConfidence: 0.8, action: 'retry', fallback: 'unknown'},
+        retry,
+      ),
+    ).resolves.toMatchObject({value: 'unknown', confidence: 1});
+
+    await expect(
+      enforceConfidencePolicy(
+        weak,
+        {minConfidence: 0.8, action: 'retry', maxRetries: 2},
+        retry,
+      ),
+    ).rejects.toThrow(/after 2 retries/);
+    expect(retry).toHaveBeenCalledTimes(3);
+  });
+
+  it('rejects invalid policies', async () => {
+    await expect(
+      enforceConfidencePolicy(weak, {minConfidence: 1.5}),
+    ).rejects.toBeInstanceOf(InvalidConfigurationError);
+    await expect(
+      enforceConfidencePolicy(weak, {minConfidence: 0.8, action: 'fallback'}),
+    ).rejects.toBeInstanceOf(InvalidConfigurationError);
+    await expect(
+      enforceConfidencePolicy(weak, {minConfidence: 0.8, maxRetries: -1}),
+    ).rejects.toBeInstanceOf(InvalidConfigurationError);
+    await expect(
+      enforceConfidencePolicy(weak, {minConfidence: 0.8, action: 'retry'}),
+    ).rejects.toThrow(/re-run the inference/);
+  });
+});
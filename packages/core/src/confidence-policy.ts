@@ -0,0 +1,184 @@
+/**
+ * Confidence policies: what to do when a value is not confident enough.
+ *
+ * A policy sets a minimum confidence and an action for values below it:
+ * throw a {@link LowConfidenceError}, substitute a fallback value, or retry
+ * the inference (integrations decide how, e.g. with a stronger model).
+ * Integrations expose this as `ctx.require(owned, policy)`.
+ *
+ * @module confidence-policy
+ */
+
+import {InvalidConfigurationError, LowConfidenceError} from './errors.js';
+import type {Owned} from './owned.js';
+import {createOwned} from './owned.js';
+
+/**
+ * Action taken when a value's confidence is below the policy minimum.
+ *
+ * - `throw`: throw a {@link LowConfidenceError}
+ * - `fallback`: replace the value with the policy's `fallback`
+ * - `retry`: re-run the inference up to `maxRetries` times, then fall back
+ *   (if a `fallback` is set) or throw
+ */
+export type LowConfidenceAction = 'throw' | 'fallback' | 'retry';
+
+/**
+ * Minimum confidence and the action to take below it.
+ *
+ * @template T - Type of the guarded value
+ *
+ * @example
+ * ```typescript
+ * const policy: ConfidencePolicy<Intent> = {
+ *   minConfidence: 0.8,
+ *   action: 'retry',
+ *   maxRetries: 1,
+ *   fallback: 'unknown', // used if the retry is still below 0.8
+ * };
+ * ```
+ */
+export interface ConfidencePolicy<T = unknown> {
+  /**
+   * Values with a lower confidence trigger `action`.
+   */
+  readonly minConfidence: number;
+
+  /**
+   * What to do below `minConfidence`.
+   *
+   * @default 'throw'
+   */
+  readonly action?: LowConfidenceAction;
+
+  /**
+   * Replacement value. Required for `fallback`; optional last resort for
+   * `retry`. Fallback values get confidence 1.0.
+   */
+  readonly fallback?: T;
+
+  /**
+   * Number of retries for `retry`.
+   *
+   * @default 1
+   */
+  readonly maxRetries?: number;
+}
+
+/**
+ * Re-runs the inference that produced a value. Supplied by integrations.
+ *
+ * @param attempt - Retry number, starting at 1
+ * @param previous - The latest (rejected) value
+ */
+export type ConfidenceRetry<T, S extends string> = (
+  attempt: number,
+  previous: Owned<T, S>,
+) => Promise<Owned<T, S>>;
+
+function validatePolicy(policy: ConfidencePolicy<unknown>): void {
+  const {minConfidence, action = 'throw', maxRetries = 1} = policy;
+
+  if (
+    typeof minConfidence !== 'number' ||
+    minConfidence < 0 ||
+    minConfidence > 1
+  ) {
+    throw new InvalidConfigurationError(
+      `Confidence policy minConfidence must be between 0 and 1, got ${minConfidence}`,
+    );
+  }
+
+  if (action === 'fallback' && !('fallback' in policy)) {
+    throw new InvalidConfigurationError(
+      "Confidence policy action 'fallback' requires a fallback value",
+    );
+  }
+
+  if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+    throw new InvalidConfigurationError(
+      `Confidence policy maxRetries must be a non-negative integer, got ${maxRetries}`,
+    );
+  }
+}
+
+/**
+ * Applies a confidence policy to a value.
+ *
+ * Values at or above `minConfidence` are returned unchanged. Otherwise the
+ * policy's action runs; retries stop at the first result that meets the
+ * minimum.
+ *
+ * @template T - Type of the guarded value
+ * @template S - Scope of the value
+ * @param owned - The value to check
+ * @param policy - Minimum confidence and low-confidence action
+ * @param retry - Re-runs the inference; required for `retry` policies
+ * @returns A value that meets the policy (possibly a retry result or the
+ *   fallback)
+ * @throws {LowConfidenceError} If the value (after retries) is below the
+ *   minimum and no fallback applies
+ * @throws {InvalidConfigurationError} If the policy is invalid, or it asks
+ *   for a retry and no retry handler is given
+ *
+ * @example
+ * ```typescript
+ * const checked = await enforceConfidencePolicy(intent, {
+ *   minConfidence: 0.8,
+ *   action: 'fallback',
+ *   fallback: 'unknown',
+ * });
+ * ```
+ */
+export async function enforceConfidencePolicy<T, S extends string>(
+  owned: Owned<T, S>,
+  policy: ConfidencePolicy<T>,
+  retry?: ConfidenceRetry<T, S>,
+): Promise<Owned<T, S>> {
+  validatePolicy(policy);
+
+  const {minConfidence, action = 'throw', maxRetries = 1} = policy;
+  if (owned.confidence >= minConfidence) {
+    return owned;
+  }
+
+  let current = owned;
+
+  if (action === 'retry') {
+    if (!retry) {
+      throw new InvalidConfigurationError(
+        "Confidence policy action 'retry' requires an integration that can " +
+          're-run the inference (e.g. ctx.require() in @mullion/ai-sdk)',
+      );
+    }
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      current = await retry(attempt, current);
+      if (current.confidence >= minConfidence) {
+        return current;
+      }
+    }
+  }
+
+  if (action !== 'throw' && 'fallback' in policy) {
+    return createOwned({
+      value: policy.fallback as T,
+      scope: current.__scope,
+      confidence: 1.0,
+      traceId: current.traceId,
+      lineage: current.lineage,
+    });
+  }
+
+  throw new LowConfidenceError(
+    `Confidence ${current.confidence} in scope '${current.__scope}' is below ` +
+      `the required ${minConfidence}` +
+      (action === 'retry' ? ` after ${maxRetries} retries` : ''),
+    {
+      confidence: current.confidence,
+      minConfidence,
+      scope: current.__scope,
+    },
+    {traceId: current.traceId},
+  );
+}
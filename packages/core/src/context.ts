@@ -1,3 +1,4 @@
+import type {BridgeOptions} from './bridge.js';
 import type {Owned} from './owned.js';
 
 /**
@@ -124,6 +125,7 @@ export interface Context<S extends string> {
    * @template T - The type of the value being bridged
    * @template OS - The source scope of the value (Other Scope)
    * @param owned - The Owned value from another scope to bridge
+   * @param options - Optional reason and metadata recorded in the value's lineage
    * @returns An Owned value that carries both source and target scope information
    *
    * @example
@@ -165,7 +167,10 @@ export interface Context<S extends string> {
    * // Full provenance chain visible in type!
    * ```
    */
-  bridge<T, OS extends string>(owned: Owned<T, OS>): Owned<T, S | OS>;
+  bridge<T, OS extends string>(
+    owned: Owned<T, OS>,
+    options?: BridgeOptions,
+  ): Owned<T, S | OS>;
 
   /**
    * Use a value that belongs to this scope.
@@ -0,0 +1,133 @@
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import type {AuditEvent} from './audit/index.js';
+import {clearAuditSink, getAuditSink, setAuditSink} from './audit/index.js';
+import {bridge} from './bridge.js';
+import {declassify} from './declassify.js';
+import {lineageSchema} from './lineage.js';
+import {createOwned} from './owned.js';
+import {
+  clearScopeRegistry,
+  defineScopes,
+  setScopeRegistry,
+} from './scope-registry.js';
+
+describe('declassify', () => {
+  afterEach(() => {
+    clearAuditSink();
+    clearScopeRegistry();
+  });
+
+  const report = () =>
+    createOwned({
+      value: {summary: 'Revenue up 4%', salaries: [120_000, 95_000]},
+      scope: 'confidential',
+      confidence: 0.9,
+      traceId: 'trace-report',
+    });
+
+  it('should release a value to the target scope', () => {
+    const released = declassify(report(), {
+      to: 'public',
+      reason: 'Approved for publication',
+    });
+
+    expect(released.__scope).toBe('public');
+    expect(released.value.summary).toBe('Revenue up 4%');
+    expect(released.confidence).toBe(0.9);
+    expect(released.traceId).toBe('trace-report');
+  });
+
+  it('should apply the transform before release', () => {
+    const released = declassify(report(), {
+      to: 'public',
+      reason: 'Summary only',
+      transform: (value) => ({summary: value.summary}),
+    });
+
+    expect(released.value).toEqual({summary: 'Revenue up 4%'});
+  });
+
+  it('should require a non-empty reason', () => {
+    expect(() => declassify(report(), {to: 'public', reason: ''})).toThrow(
+      /non-empty reason/,
+    );
+    expect(() => declassify(report(), {to: 'public', reason: '   '})).toThrow(
+      /'confidential' to scope 'public'/,
+    );
+  });
+
+  it('should record a declassify hop in the lineage', () => {
+    const released = declassify(bridge(report(), 'legal'), {
+      to: 'public',
+      reason: 'Court filing',
+      approver: 'counsel-1',
+      metadata: {ticket: 'LEG-7'},
+    });
+
+    const hop = released.lineage?.hops.at(-1);
+    expect(released.lineage?.origin).toBe('confidential');
+    expect(hop).toMatchObject({
+      kind: 'declassify',
+      from: 'legal',
+      to: 'public',
+      reason: 'Court filing',
+      approver: 'counsel-1',
+      metadata: {ticket: 'LEG-7'},
+    });
+    expect(lineageSchema.safeParse(released.lineage).success).toBe(true);
+  });
+
+  it('should bypass the registered scope policy', () => {
+    setScopeRegistry(
+      defineScopes({levels: ['public', 'internal', 'confidential']}),
+    );
+
+    expect(() => bridge(report(), 'public')).toThrow(/declassify\(\)/);
+    expect(
+      declassify(report(), {to: 'public', reason: 'Approved'}).__scope,
+    ).toBe('public');
+  });
+
+  it('should emit an audit event without the value', () => {
+    const events: AuditEvent[] = [];
+    setAuditSink({record: (event) => void events.push(event)});
+
+    declassify(report(), {
+      to: 'public',
+      reason: 'Summary only',
+      approver: 'lead-7',
+      transform: (value) => value.summary,
+    });
+
+    expect(getAuditSink()).toBeDefined();
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: 'declassify',
+      traceId: 'trace-report',
+      from: 'confidential',
+      to: 'public',
+      reason: 'Summary only',
+      approver: 'lead-7',
+      transformed: true,
+    });
+    expect(JSON.stringify(events[0])).not.toContain('120000');
+  });
+
+  it('should log asynchronous sink failures instead of throwing', async () => {
+    const consoleError = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => undefined);
+    setAuditSink({record: () => Promise.reject(new Error('disk full'))});
+
+    expect(() =>
+      declassify(report(), {to: 'public', reason: 'Approved'}),
+    ).not.toThrow();
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(consoleError).toHaveBeenCalledWith(
+      'Failed to record audit event:',
+      expect.any(Error),
+    );
+    consoleError.mockRestore();
+  });
+});
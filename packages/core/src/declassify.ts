@@ -0,0 +1,136 @@
+import {emitAuditEvent} from './audit/sink.js';
+import {appendLineageHop} from './lineage.js';
+import type {Owned} from './owned.js';
+import {DeclassificationError} from './errors.js';
+
+/**
+ * Explicit declassification of Owned values.
+ *
+ * `bridge()` moves data along the flows a scope policy permits. When data
+ * has to go *against* the policy — releasing an approved summary from
+ * `confidential` to `public`, for example — `declassify()` is the sanctioned
+ * escape hatch. It requires a justification, optionally sanitizes the value
+ * on the way out, records the release in the value's lineage and emits an
+ * audit event to the registered {@link AuditSink}.
+ *
+ * @module declassify
+ */
+
+/**
+ * Options for {@link declassify}.
+ *
+ * @template T - Type of the value being declassified
+ * @template R - Type of the released value
+ * @template TS - Target scope
+ */
+export interface DeclassifyOptions<T, R, TS extends string> {
+  /**
+   * Scope the value is released to.
+   */
+  to: TS;
+
+  /**
+   * Why the release is justified. Must be a non-empty string.
+   */
+  reason: string;
+
+  /**
+   * Who approved the release (user ID, ticket, role).
+   */
+  approver?: string;
+
+  /**
+   * Sanitizes the value before release. The original value never leaves
+   * the source scope when a transform is given.
+   */
+  transform?: (value: T) => R;
+
+  /**
+   * Additional context recorded in the lineage hop and audit event.
+   */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Releases an Owned value to another scope regardless of the scope policy.
+ *
+ * Unlike `bridge()`, the result belongs to the target scope alone: the
+ * source scope is dropped from the type, which is the point of
+ * declassification. Every release is recorded as a `declassify` lineage hop
+ * and emitted as a {@link DeclassifyAuditEvent}; the audit event never
+ * contains the value itself.
+ *
+ * @template T - Type of the wrapped value
+ * @template S - Source scope
+ * @template TS - Target scope
+ * @template R - Type of the released value (defaults to `T`)
+ * @param owned - The value to release
+ * @param options - Target scope, justification and optional transform
+ * @returns A new Owned value in the target scope
+ * @throws {DeclassificationError} If `reason` is empty
+ *
+ * @example
+ * ```typescript
+ * setAuditSink({record: (event) => auditLog.write(event)});
+ *
+ * const released = declassify(confidentialReport, {
+ *   to: 'public',
+ *   reason: 'Quarterly summary approved for publication',
+ *   approver: 'legal-42',
+ *   transform: (report) => ({summary: report.summary}),
+ * });
+ * // released: Owned<{summary: string}, 'public'>
+ *
+ * released.lineage?.hops.at(-1)?.kind; // 'declassify'
+ * ```
+ */
+export function declassify<T, S extends string, TS extends string, R = T>(
+  owned: Owned<T, S>,
+  options: DeclassifyOptions<T, R, TS>,
+): Owned<R, TS> {
+  const {to, reason, approver, transform, metadata} = options;
+
+  if (typeof reason !== 'string' || reason.trim() === '') {
+    throw new DeclassificationError(
+      `declassify() requires a non-empty reason to release data from scope ` +
+        `'${owned.__scope}' to scope '${to}'`,
+      {sourceScope: owned.__scope, targetScope: to},
+      {traceId: owned.traceId},
+    );
+  }
+
+  const value = transform
+    ? transform(owned.value)
+    : (owned.value as unknown as R);
+  const timestamp = Date.now();
+
+  const lineage = appendLineageHop(owned, {
+    kind: 'declassify',
+    from: owned.__scope,
+    to,
+    timestamp,
+    reason,
+    approver,
+    metadata,
+  });
+
+  emitAuditEvent({
+    type: 'declassify',
+    timestamp,
+    traceId: owned.traceId,
+    from: owned.__scope,
+    to,
+    reason,
+    ...(approver !== undefined ? {approver} : {}),
+    transformed: transform !== undefined,
+    ...(metadata ? {metadata: {...metadata}} : {}),
+  });
+
+  return {
+    value,
+    confidence: owned.confidence,
+    __scope: to,
+    traceId: owned.traceId,
+    lineage,
+  };
+}
@@ -0,0 +1,147 @@
+import {describe, expect, it} from 'vitest';
+import {bridge} from './bridge.js';
+import {declassify} from './declassify.js';
+import {
+  ConsensusError,
+  DeclassificationError,
+  InvalidConfidenceError,
+  MergeError,
+  MullionError,
+  ScopeFlowViolationError,
+  ScopeMismatchError,
+  isMullionError,
+} from './errors.js';
+import {requireConsensus} from './merge/strategies/consensus.js';
+import {categorical} from './merge/strategies/categorical.js';
+import {createOwned} from './owned.js';
+import {scope} from './scope.js';
+import {
+  clearScopeRegistry,
+  defineScopes,
+  setScopeRegistry,
+} from './scope-registry.js';
+import {
+  assertOwnedScope,
+  createCacheKey,
+  createScopedCache,
+} from './scoped-cache.js';
+
+function capture(fn: () => unknown): unknown {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected function to throw');
+}
+
+describe('errors', () => {
+  const secret = createOwned({
+    value: 'notes',
+    scope: 'admin',
+    traceId: 'trace-1',
+  });
+
+  it('should expose a stable code and name on every error', () => {
+    const error = new ScopeMismatchError('msg', {
+      sourceScope: 'a',
+      targetScope: 'b',
+      check: 'use',
+    });
+
+    expect(error).toBeInstanceOf(MullionError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.code).toBe('SCOPE_MISMATCH');
+    expect(error.name).toBe('ScopeMismatchError');
+    expect(isMullionError(error)).toBe(true);
+    expect(isMullionError(error, 'SCOPE_MISMATCH')).toBe(true);
+    expect(isMullionError(error, 'MERGE_FAILED')).toBe(false);
+    expect(isMullionError(new Error('plain'))).toBe(false);
+  });
+
+  it('should throw ScopeMismatchError from Context.use()', async () => {
+    const error: unknown = await scope('customer', async (ctx) =>
+      ctx.use(secret as never),
+    ).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ScopeMismatchError);
+    expect(error).toMatchObject({
+      code: 'SCOPE_MISMATCH',
+      sourceScope: 'admin',
+      targetScope: 'customer',
+      check: 'use',
+      traceId: 'trace-1',
+    });
+  });
+
+  it('should throw ScopeMismatchError from scoped cache helpers', () => {
+    const cache = createScopedCache<'customer', string>('customer');
+
+    expect(
+      capture(() => cache.get(createCacheKey('admin', 'k') as never)),
+    ).toMatchObject({check: 'cache-key', sourceScope: 'admin'});
+    expect(capture(() => assertOwnedScope(secret, 'customer'))).toMatchObject({
+      code: 'SCOPE_MISMATCH',
+      check: 'assertOwnedScope',
+      traceId: 'trace-1',
+    });
+  });
+
+  it('should throw ScopeFlowViolationError for policy violations', () => {
+    setScopeRegistry(defineScopes({levels: ['customer', 'admin']}));
+    try {
+      const error = capture(() => bridge(secret, 'customer'));
+
+      expect(error).toBeInstanceOf(ScopeFlowViolationError);
+      expect(error).toMatchObject({
+        code: 'SCOPE_FLOW_VIOLATION',
+        sourceScope: 'admin',
+        targetScope: 'customer',
+      });
+    } finally {
+      clearScopeRegistry();
+    }
+  });
+
+  it('should throw InvalidConfidenceError with the rejected value', () => {
+    const error = capture(() =>
+      createOwned({value: 1, scope: 'x', confidence: 1.5}),
+    );
+
+    expect(error).toBeInstanceOf(InvalidConfidenceError);
+    expect(error).toMatchObject({code: 'INVALID_CONFIDENCE', confidence: 1.5});
+  });
+
+  it('should throw DeclassificationError without a reason', () => {
+    expect(
+      capture(() => declassify(secret, {to: 'public', reason: ''})),
+    ).toBeInstanceOf(DeclassificationError);
+  });
+
+  it('should throw ConsensusError with agreement details', () => {
+    const results = ['a', 'a', 'b'].map((value) =>
+      createOwned({value, scope: 'branch'}),
+    );
+    const error = capture(() =>
+      requireConsensus<string>(3, {onFailure: 'error'}).merge(results),
+    );
+
+    expect(error).toBeInstanceOf(ConsensusError);
+    expect(error).toMatchObject({
+      code: 'CONSENSUS_NOT_MET',
+      required: 3,
+      agreement: 2,
+      total: 3,
+    });
+  });
+
+  it('should throw MergeError naming the failing strategy', () => {
+    const error = capture(() => categorical.weightedVote().merge([]));
+
+    expect(error).toBeInstanceOf(MergeError);
+    expect(error).toMatchObject({
+      code: 'MERGE_FAILED',
+      strategy: 'weighted-vote',
+    });
+  });
+});
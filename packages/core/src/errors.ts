@@ -0,0 +1,409 @@
+/**
+ * Typed error hierarchy for Mullion failures.
+ *
+ * Every error thrown by `@mullion/core` and `@mullion/ai-sdk` extends
+ * {@link MullionError} and carries a stable `code` plus structured fields,
+ * so callers can branch on failures without matching message text.
+ *
+ * @module errors
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   ctx.use(value);
+ * } catch (error) {
+ *   if (isMullionError(error, 'SCOPE_MISMATCH')) {
+ *     return reply(403, {from: error.sourceScope, to: error.targetScope});
+ *   }
+ *   throw error;
+ * }
+ * ```
+ */
+
+import type {ScopeViolationCheck} from './audit/types.js';
+
+/**
+ * Stable error codes used across Mullion packages.
+ *
+ * Codes never change once published; messages may.
+ */
+export type MullionErrorCode =
+  | 'SCOPE_MISMATCH'
+  | 'SCOPE_FLOW_VIOLATION'
+  | 'INVALID_CONFIDENCE'
+  | 'INVALID_CONFIGURATION'
+  | 'INVALID_ARGUMENT'
+  | 'DECLASSIFICATION_REJECTED'
+  | 'MERGE_FAILED'
+  | 'CONSENSUS_NOT_MET'
+  | 'LOW_CONFIDENCE'
+  | 'AUDIT_LOG_MALFORMED'
+  | 'TRACE_EXPORT_FAILED'
+  | 'CALIBRATION_FAILED'
+  | 'REVIEW_FAILED'
+  | 'CACHE_STORE_FAILED'
+  | 'CACHE_SEGMENT_INVALID'
+  | 'SCHEMA_CONFLICT'
+  | 'PROVIDER_REQUEST_FAILED'
+  | 'BUDGET_EXCEEDED'
+  | 'TOOL_SCOPE_VIOLATION'
+  | 'SCOPE_CEILING_EXCEEDED';
+
+/**
+ * Options accepted by every Mullion error.
+ */
+export interface MullionErrorOptions extends ErrorOptions {
+  /**
+   * Trace ID of the value or operation involved, when known.
+   */
+  traceId?: string;
+}
+
+/**
+ * Base class for all Mullion errors.
+ */
+export class MullionError extends Error {
+  /**
+   * Stable, machine-readable error code.
+   */
+  readonly code: MullionErrorCode;
+
+  /**
+   * Trace ID of the value or operation involved, when known.
+   */
+  readonly traceId?: string;
+
+  constructor(
+    code: MullionErrorCode,
+    message: string,
+    options: MullionErrorOptions = {},
+  ) {
+    const {traceId, ...errorOptions} = options;
+    super(message, errorOptions);
+    this.name = 'MullionError';
+    this.code = code;
+    if (traceId !== undefined) {
+      this.traceId = traceId;
+    }
+  }
+}
+
+/**
+ * Checks whether a value is a {@link MullionError}, optionally with a
+ * specific code.
+ *
+ * @param error - The caught value
+ * @param code - Optional code to match
+ * @returns True if `error` is a MullionError (with `code`, if given)
+ */
+export function isMullionError(
+  error: unknown,
+  code?: MullionErrorCode,
+): error is MullionError {
+  return (
+    error instanceof MullionError && (code === undefined || error.code === code)
+  );
+}
+
+/**
+ * A value was used in, or stored under, a scope it does not belong to.
+ *
+ * Thrown by `Context.use()`, `assertOwnedScope()` and `ScopedCache`.
+ */
+export class ScopeMismatchError extends MullionError {
+  declare readonly code: 'SCOPE_MISMATCH';
+
+  /**
+   * Scope of the offending value or cache key.
+   */
+  readonly sourceScope: string;
+
+  /**
+   * Scope it was used in.
+   */
+  readonly targetScope: string;
+
+  /**
+   * Which check rejected the value.
+   */
+  readonly check: ScopeViolationCheck;
+
+  constructor(
+    message: string,
+    details: {
+      sourceScope: string;
+      targetScope: string;
+      check: ScopeViolationCheck;
+    },
+    options?: MullionErrorOptions,
+  ) {
+    super('SCOPE_MISMATCH', message, options);
+    this.name = 'ScopeMismatchError';
+    this.sourceScope = details.sourceScope;
+    this.targetScope = details.targetScope;
+    this.check = details.check;
+  }
+}
+
+/**
+ * The registered scope policy forbids a flow between two scopes.
+ */
+export class ScopeFlowViolationError extends MullionError {
+  declare readonly code: 'SCOPE_FLOW_VIOLATION';
+
+  /**
+   * Scope the data was in.
+   */
+  readonly sourceScope: string;
+
+  /**
+   * Scope the data was bridged to.
+   */
+  readonly targetScope: string;
+
+  constructor(
+    message: string,
+    details: {sourceScope: string; targetScope: string},
+    options?: MullionErrorOptions,
+  ) {
+    super('SCOPE_FLOW_VIOLATION', message, options);
+    this.name = 'ScopeFlowViolationError';
+    this.sourceScope = details.sourceScope;
+    this.targetScope = details.targetScope;
+  }
+}
+
+/**
+ * A confidence score is outside the `[0, 1]` range.
+ */
+export class InvalidConfidenceError extends MullionError {
+  declare readonly code: 'INVALID_CONFIDENCE';
+
+  /**
+   * The rejected value.
+   */
+  readonly confidence: number;
+
+  constructor(
+    message: string,
+    confidence: number,
+    options?: MullionErrorOptions,
+  ) {
+    super('INVALID_CONFIDENCE', message, options);
+    this.name = 'InvalidConfidenceError';
+    this.confidence = confidence;
+  }
+}
+
+/**
+ * Invalid options or missing configuration for a Mullion API.
+ */
+export class InvalidConfigurationError extends MullionError {
+  declare readonly code: 'INVALID_CONFIGURATION';
+
+  constructor(message: string, options?: MullionErrorOptions) {
+    super('INVALID_CONFIGURATION', message, options);
+    this.name = 'InvalidConfigurationError';
+  }
+}
+
+/**
+ * A function received arguments it cannot work with.
+ */
+export class InvalidArgumentError extends MullionError {
+  declare readonly code: 'INVALID_ARGUMENT';
+
+  constructor(message: string, options?: MullionErrorOptions) {
+    super('INVALID_ARGUMENT', message, options);
+    this.name = 'InvalidArgumentError';
+  }
+}
+
+/**
+ * `declassify()` was called without a valid justification.
+ */
+export class DeclassificationError extends MullionError {
+  declare readonly code: 'DECLASSIFICATION_REJECTED';
+
+  /**
+   * Scope the value was to be released from.
+   */
+  readonly sourceScope: string;
+
+  /**
+   * Scope the value was to be released to.
+   */
+  readonly targetScope: string;
+
+  constructor(
+    message: string,
+    details: {sourceScope: string; targetScope: string},
+    options?: MullionErrorOptions,
+  ) {
+    super('DECLASSIFICATION_REJECTED', message, options);
+    this.name = 'DeclassificationError';
+    this.sourceScope = details.sourceScope;
+    this.targetScope = details.targetScope;
+  }
+}
+
+/**
+ * A merge strategy could not produce a result.
+ */
+export class MergeError extends MullionError {
+  declare readonly code: 'MERGE_FAILED';
+
+  /**
+   * Name of the strategy that failed.
+   */
+  readonly strategy: string;
+
+  constructor(
+    message: string,
+    strategy: string,
+    options?: MullionErrorOptions,
+  ) {
+    super('MERGE_FAILED', message, options);
+    this.name = 'MergeError';
+    this.strategy = strategy;
+  }
+}
+
+/**
+ * Not enough fork branches agreed to satisfy `requireConsensus()`.
+ */
+export class ConsensusError extends MullionError {
+  declare readonly code: 'CONSENSUS_NOT_MET';
+
+  /**
+   * Number of agreeing branches required.
+   */
+  readonly required: number;
+
+  /**
+   * Largest number of branches that agreed on one value.
+   */
+  readonly agreement: number;
+
+  /**
+   * Total number of branches.
+   */
+  readonly total: number;
+
+  constructor(
+    message: string,
+    details: {required: number; agreement: number; total: number},
+    options?: MullionErrorOptions,
+  ) {
+    super('CONSENSUS_NOT_MET', message, options);
+    this.name = 'ConsensusError';
+    this.required = details.required;
+    this.agreement = details.agreement;
+    this.total = details.total;
+  }
+}
+
+/**
+ * A value's confidence stayed below the minimum required by a confidence
+ * policy.
+ */
+export class LowConfidenceError extends MullionError {
+  declare readonly code: 'LOW_CONFIDENCE';
+
+  /**
+   * Confidence of the rejected value (after any retries).
+   */
+  readonly confidence: number;
+
+  /**
+   * Minimum confidence required by the policy.
+   */
+  readonly minConfidence: number;
+
+  /**
+   * Scope of the rejected value.
+   */
+  readonly scope: string;
+
+  constructor(
+    message: string,
+    details: {confidence: number; minConfidence: number; scope: string},
+    options?: MullionErrorOptions,
+  ) {
+    super('LOW_CONFIDENCE', message, options);
+    this.name = 'LowConfidenceError';
+    this.confidence = details.confidence;
+    this.minConfidence = details.minConfidence;
+    this.scope = details.scope;
+  }
+}
+
+/**
+ * An audit log store contains an unreadable entry.
+ */
+export class AuditLogError extends MullionError {
+  declare readonly code: 'AUDIT_LOG_MALFORMED';
+
+  constructor(message: string, options?: MullionErrorOptions) {
+    super('AUDIT_LOG_MALFORMED', message, options);
+    this.name = 'AuditLogError';
+  }
+}
+
+/**
+ * Exporting spans to a tracing backend failed.
+ */
+export class TraceExportError extends MullionError {
+  declare readonly code: 'TRACE_EXPORT_FAILED';
+
+  /**
+   * HTTP status returned by the backend, if any.
+   */
+  readonly status?: number;
+
+  constructor(message: string, status?: number, options?: MullionErrorOptions) {
+    super('TRACE_EXPORT_FAILED', message, options);
+    this.name = 'TraceExportError';
+    if (status !== undefined) {
+      this.status = status;
+    }
+  }
+}
+
+/**
+ * Calibration feedback or a persisted calibration snapshot is unusable.
+ */
+export class CalibrationError extends MullionError {
+  declare readonly code: 'CALIBRATION_FAILED';
+
+  constructor(message: string, options?: MullionErrorOptions) {
+    super('CALIBRATION_FAILED', message, options);
+    this.name = 'CalibrationError';
+  }
+}
+
+/**
+ * A review queue operation failed: unknown or already resolved item,
+ * invalid decision, or unreadable review store.
+ */
+export class ReviewError extends MullionError {
+  declare readonly code: 'REVIEW_FAILED';
+
+  constructor(message: string, options?: MullionErrorOptions) {
+    super('REVIEW_FAILED', message, options);
+    this.name = 'ReviewError';
+  }
+}
+
+/**
+ * A scoped cache store backend failed: connection or protocol error, or
+ * an unreadable entry.
+ */
+export class CacheStoreError extends MullionError {
+  declare readonly code: 'CACHE_STORE_FAILED';
+
+  constructor(message: string, options?: MullionErrorOptions) {
+    super('CACHE_STORE_FAILED', message, options);
+    this.name = 'CacheStoreError';
+  }
+}
@@ -7,6 +7,7 @@
  * @module fork/fork
  */
 
+import type {BridgeOptions} from '../bridge.js';
 import type {Context, InferOptions, Schema} from '../context.js';
 import type {Owned} from '../owned.js';
 
@@ -80,8 +81,11 @@ function createChildContext<S extends string>(
       });
     },
 
-    bridge<T, OS extends string>(owned: Owned<T, OS>): Owned<T, S | OS> {
-      return parentCtx.bridge(owned);
+    bridge<T, OS extends string>(
+      owned: Owned<T, OS>,
+      options?: BridgeOptions,
+    ): Owned<T, S | OS> {
+      return parentCtx.bridge(owned, options);
     },
 
     use<T>(owned: Owned<T, S>): T {
@@ -7,6 +7,42 @@ export type {Brand, ScopeId} from './brand.js';
 export type {Owned, CreateOwnedOptions} from './owned.js';
 export {createOwned, isOwned, ownedSchema} from './owned.js';
 
+// Typed error hierarchy with stable codes
+export type {MullionErrorCode, MullionErrorOptions} from './errors.js';
+export {
+  MullionError,
+  isMullionError,
+  ScopeMismatchError,
+  ScopeFlowViolationError,
+  InvalidConfidenceError,
+  InvalidConfigurationError,
+  InvalidArgumentError,
+  DeclassificationError,
+  MergeError,
+  ConsensusError,
+  AuditLogError,
+  TraceExportError,
+  CalibrationError,
+  LowConfidenceError,
+  ReviewError,
+  CacheStoreError,
+} from './errors.js';
+
+// Lineage tracking for values crossing scope boundaries
+export type {
+  Lineage,
+  LineageHop,
+  LineageHopKind,
+  LineageHopInput,
+} from './lineage.js';
+export {
+  createLineage,
+  getLineage,
+  getLineageScopes,
+  appendLineageHop,
+  lineageSchema,
+} from './lineage.js';
+
 // Sink-safe helpers for logs, traces, and caches
 export type {
   LogSafe,
@@ -16,18 +52,59 @@ export type {
 } from './sink-safe.js';
 export {redact, summarize, assertSafeFor} from './sink-safe.js';
 
+// PII and secret detection for content-aware redaction
+export type {
+  PiiKind,
+  PiiDetector,
+  PiiMatch,
+  PiiReplacement,
+  PiiRedactionOptions,
+} from './pii.js';
+export {PII_DETECTORS, detectPii, maskPii, redactPii} from './pii.js';
+
+// Schema-driven field sensitivity
+export type {
+  MullionSchemaMeta,
+  Sensitive,
+  RedactedBySchema,
+  RedactBySchemaOptions,
+} from './schema-sensitivity.js';
+export {
+  sensitive,
+  getSchemaSensitivity,
+  redactBySchema,
+} from './schema-sensitivity.js';
+
 // Scoped cache helpers
 export type {
   CacheKey,
   ScopedCache,
   ScopedCacheOptions,
+  CacheStoreSetOptions,
+  ScopedCacheStore,
+  AsyncScopedCacheOptions,
+  AsyncScopedCache,
 } from './scoped-cache.js';
 export {
   createCacheKey,
   createScopedCache,
+  createAsyncScopedCache,
   assertOwnedScope,
 } from './scoped-cache.js';
 
+// Async scoped cache backends: in-memory LRU, filesystem, Redis protocol
+export type {
+  MemoryCacheStoreOptions,
+  FileCacheStoreOptions,
+  RespCacheStoreOptions,
+  RespReply,
+} from './cache/index.js';
+export {
+  MemoryCacheStore,
+  FileCacheStore,
+  RespCacheStore,
+} from './cache/index.js';
+
 // SemanticValue type for LLM-generated values with alternatives and reasoning
 export type {
   SemanticValue,
@@ -47,8 +124,30 @@ export type {Context, Schema, ContextOptions, InferOptions} from './context.js';
 // Scope function for creating scoped execution contexts
 export {scope} from './scope.js';
 
+// Scope lattice and flow policy enforced on every bridge
+export type {
+  ScopeFlow,
+  ScopeDefinition,
+  ScopeRegistry,
+  FlowTargets,
+  UndeclaredScopeBehavior,
+} from './scope-registry.js';
+export {
+  defineScopes,
+  setScopeRegistry,
+  getScopeRegistry,
+  clearScopeRegistry,
+  assertScopeFlow,
+  assertOwnedScopeFlow,
+} from './scope-registry.js';
+
 // Bridge utilities for transferring values across scope boundaries
-export type {BridgeMultipleOptions, BridgeMetadata} from './bridge.js';
+export type {
+  BridgeOptions,
+  BridgeMultipleOptions,
+  BridgeMetadata,
+  Provenance,
+} from './bridge.js';
 export {
   bridge,
   bridgeSemantic,
@@ -58,6 +157,115 @@ export {
   bridgeWithMetadata,
 } from './bridge.js';
 
+// Field-level scopes: split a value into per-scope parts and join them back
+export type {
+  OwnedPartition,
+  PartitionedOwned,
+  PartitionOptions,
+  ComposedValue,
+} from './partition.js';
+export {partitionOwned, composeOwned} from './partition.js';
+
+// Explicit declassification with mandatory justification
+export type {DeclassifyOptions} from './declassify.js';
+export {declassify} from './declassify.js';
+
+// Tamper-evident audit log for scope boundary crossings
+export type {
+  AuditEventBase,
+  AuditEvent,
+  BridgeAuditEvent,
+  DeclassifyAuditEvent,
+  ReviewAuditEvent,
+  ScopeViolationCheck,
+  ScopeViolationAuditEvent,
+  AuditSink,
+  AuditLogEntry,
+  AuditLogStore,
+  AuditLogIssueKind,
+  AuditLogIssue,
+  AuditLogVerification,
+  VerifyAuditLogOptions,
+} from './audit/index.js';
+export {
+  setAuditSink,
+  getAuditSink,
+  clearAuditSink,
+  emitAuditEvent,
+  emitBridgeAuditEvent,
+  GENESIS_HASH,
+  AuditLog,
+  computeAuditEntryHash,
+  verifyAuditLog,
+  MemoryAuditLogStore,
+  JsonlFileAuditLogStore,
+} from './audit/index.js';
+
+// Confidence calibration trained on labelled outcomes
+export type {
+  CalibrationOutcome,
+  CalibrationMethod,
+  IsotonicCalibrator,
+  PlattCalibrator,
+  Calibrator,
+  CalibrationBin,
+  CalibrationErrorSummary,
+  CalibrationSample,
+  CalibrationFeedbackStore,
+  CalibrationKey,
+  TrackedPrediction,
+  CalibrationFeedback,
+  CalibrationEntry,
+  CalibrationSnapshot,
+  CalibrationFitOptions,
+  CalibrationRegistryOptions,
+  CalibrationReport,
+} from './calibration/index.js';
+export {
+  calibratorSchema,
+  fitIsotonic,
+  fitPlatt,
+  fitCalibrator,
+  applyCalibrator,
+  expectedCalibrationError,
+  MemoryCalibrationStore,
+  JsonlFileCalibrationStore,
+  ANY_SCHEMA,
+  calibrationSnapshotSchema,
+  CalibrationRegistry,
+  setCalibrationRegistry,
+  getCalibrationRegistry,
+  clearCalibrationRegistry,
+  calibrateConfidence,
+} from './calibration/index.js';
+
+// Confidence policies: minimum confidence with throw/fallback/retry actions
+export type {
+  LowConfidenceAction,
+  ConfidencePolicy,
+  ConfidenceRetry,
+} from './confidence-policy.js';
+export {enforceConfidencePolicy} from './confidence-policy.js';
+
+// Human-in-the-loop review of low-confidence values
+export type {
+  ReviewDecision,
+  ReviewStatus,
+  ReviewResolution,
+  ReviewItem,
+  ReviewStore,
+  ReviewQueueOptions,
+  EnqueueReviewOptions,
+  ReviewDecisionOptions,
+  ScopedReviewDecisionOptions,
+  ReviewListFilter,
+} from './review/index.js';
+export {
+  MemoryReviewStore,
+  JsonlFileReviewStore,
+  ReviewQueue,
+} from './review/index.js';
+
 // Fork types and utilities for parallel execution with cache optimization
 export type {
   ForkStrategy,
@@ -0,0 +1,284 @@
+/**
+ * Lineage tracking for Owned values.
+ *
+ * Every Owned value can carry an immutable lineage record describing the scope
+ * it originated in and every scope boundary it has crossed since. Unlike the
+ * union scope type (which only exists at compile time), lineage survives at
+ * runtime and answers "where did this value come from?" after any number of
+ * bridges.
+ *
+ * @module lineage
+ */
+
+import {z} from 'zod';
+
+/**
+ * Operation that produced a lineage hop.
+ *
+ * - `bridge` / `bridgeSemantic` / `bridgeMultiple` / `bridgeWithMetadata`:
+ *   standalone bridge utilities from `@mullion/core`
+ * - `context`: `Context.bridge()` / `MullionContext.bridge()` inside a scope
+ * - `declassify`: explicit release via `declassify()`, bypassing the scope
+ *   policy
+ * - `review`: a human reviewer decision from a `ReviewQueue` (the value
+ *   stays in its scope, so `from` and `to` are equal)
+ * - `partition` / `compose`: `partitionOwned()` splitting a value into
+ *   per-scope parts and `composeOwned()` joining them back
+ * - `repair`: an inference whose output was re-prompted or coerced to match
+ *   its schema (the value stays in its scope)
+ * - `route`: an inference routed through a model fallback chain, recording
+ *   the model that produced it (the value stays in its scope)
+ */
+export type LineageHopKind =
+  | 'bridge'
+  | 'bridgeSemantic'
+  | 'bridgeMultiple'
+  | 'bridgeWithMetadata'
+  | 'context'
+  | 'declassify'
+  | 'review'
+  | 'partition'
+  | 'compose'
+  | 'repair'
+  | 'route';
+
+/**
+ * A single scope boundary crossing recorded in a value's lineage.
+ *
+ * @example
+ * ```typescript
+ * const hop: LineageHop = {
+ *   kind: 'context',
+ *   from: 'admin',
+ *   to: 'customer',
+ *   timestamp: 1735689600000,
+ *   reason: 'Approved summary',
+ *   context: 'customer',
+ * };
+ * ```
+ */
+export interface LineageHop {
+  /**
+   * Operation that performed the crossing.
+   */
+  readonly kind: LineageHopKind;
+
+  /**
+   * Scope the value was in before the hop.
+   */
+  readonly from: string;
+
+  /**
+   * Scope the value was moved to.
+   */
+  readonly to: string;
+
+  /**
+   * Unix timestamp (ms) when the hop happened.
+   */
+  readonly timestamp: number;
+
+  /**
+   * Optional human-readable reason for the crossing.
+   */
+  readonly reason?: string;
+
+  /**
+   * Scope of the context that performed the bridge, when bridged via
+   * `Context.bridge()`. Undefined for standalone bridge utilities.
+   */
+  readonly context?: string;
+
+  /**
+   * Who approved the crossing. Recorded for `declassify` hops, and the
+   * reviewer for `review` hops.
+   */
+  readonly approver?: string;
+
+  /**
+   * Additional caller-supplied metadata describing the crossing.
+   */
+  readonly metadata?: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * Immutable lineage record attached to an Owned value.
+ *
+ * @example
+ * ```typescript
+ * const bridged = bridge(bridge(adminNotes, 'processing'), 'customer');
+ *
+ * bridged.lineage?.origin;          // 'admin'
+ * bridged.lineage?.hops.map((h) => h.to); // ['processing', 'customer']
+ * ```
+ */
+export interface Lineage {
+  /**
+   * Scope the value was originally created in.
+   */
+  readonly origin: string;
+
+  /**
+   * Trace ID of the value at creation time.
+   */
+  readonly originTraceId: string;
+
+  /**
+   * Every scope boundary crossing, oldest first.
+   */
+  readonly hops: readonly LineageHop[];
+}
+
+/**
+ * Input for {@link appendLineageHop}. The timestamp defaults to `Date.now()`.
+ */
+export type LineageHopInput = Omit<LineageHop, 'timestamp'> & {
+  readonly timestamp?: number;
+};
+
+/**
+ * Creates a root lineage record for a newly created value.
+ *
+ * @param origin - Scope the value was created in
+ * @param originTraceId - Trace ID of the value
+ * @returns A frozen lineage record with no hops
+ */
+export function createLineage(origin: string, originTraceId: string): Lineage {
+  return Object.freeze({
+    origin,
+    originTraceId,
+    hops: Object.freeze([]) as readonly LineageHop[],
+  });
+}
+
+/**
+ * Returns the lineage for a value, synthesizing a root record for values
+ * created without one (e.g. literal objects or values from older versions).
+ *
+ * @param owned - Any value with scope and trace information
+ * @returns The value's lineage
+ */
+export function getLineage(owned: {
+  readonly __scope: string;
+  readonly traceId: string;
+  readonly lineage?: Lineage;
+}): Lineage {
+  return owned.lineage ?? createLineage(owned.__scope, owned.traceId);
+}
+
+/**
+ * Returns a new lineage with one more hop appended.
+ *
+ * The original lineage is never mutated; both the record and its hops array
+ * are frozen.
+ *
+ * @param owned - The value being moved across a scope boundary
+ * @param hop - Description of the crossing
+ * @returns A new frozen lineage record
+ *
+ * @example
+ * ```typescript
+ * const lineage = appendLineageHop(owned, {
+ *   kind: 'context',
+ *   from: owned.__scope,
+ *   to: 'customer',
+ *   context: 'customer',
+ * });
+ * ```
+ */
+export function appendLineageHop(
+  owned: {
+    readonly __scope: string;
+    readonly traceId: string;
+    readonly lineage?: Lineage;
+  },
+  hop: LineageHopInput,
+): Lineage {
+  const base = getLineage(owned);
+  const {timestamp, metadata, ...rest} = hop;
+  const entry: LineageHop = Object.freeze({
+    ...rest,
+    timestamp: timestamp ?? Date.now(),
+    ...(metadata ? {metadata: Object.freeze({...metadata})} : {}),
+  });
+
+  return Object.freeze({
+    origin: base.origin,
+    originTraceId: base.originTraceId,
+    hops: Object.freeze([...base.hops, entry]),
+  });
+}
+
+/**
+ * Returns every scope a value's data has been held in since it was last
+ * declassified: its current scope, then the origin (or the target of the
+ * last `declassify` hop) and the scopes of every later hop.
+ *
+ * Scope policies check a flow against all of them, so routing data through
+ * an intermediate scope cannot launder it.
+ *
+ * @param owned - Any value with scope and trace information
+ * @returns Distinct scopes, current scope first
+ *
+ * @example
+ * ```typescript
+ * const hop = bridge(confidentialValue, 'scratch');
+ * getLineageScopes(hop); // ['scratch', 'confidential']
+ * ```
+ */
+export function getLineageScopes(owned: {
+  readonly __scope: string;
+  readonly traceId: string;
+  readonly lineage?: Lineage;
+}): string[] {
+  const {origin, hops} = getLineage(owned);
+  let start = 0;
+  hops.forEach((hop, index) => {
+    if (hop.kind === 'declassify') start = index + 1;
+  });
+
+  const scopes = new Set([
+    owned.__scope,
+    start === 0 ? origin : hops[start - 1].to,
+  ]);
+  for (const hop of hops.slice(start)) {
+    scopes.add(hop.from);
+    scopes.add(hop.to);
+  }
+  return [...scopes];
+}
+
+/**
+ * Zod schema for runtime validation of lineage records.
+ *
+ * Used by {@link ownedSchema} so lineage survives validation of values
+ * received from external sources.
+ */
+export const lineageSchema = z.object({
+  origin: z.string(),
+  originTraceId: z.string(),
+  hops: z.array(
+    z.object({
+      kind: z.enum([
+        'bridge',
+        'bridgeSemantic',
+        'bridgeMultiple',
+        'bridgeWithMetadata',
+        'context',
+        'declassify',
+        'review',
+        'partition',
+        'compose',
+        'repair',
+        'route',
+      ]),
+      from: z.string(),
+      to: z.string(),
+      timestamp: z.number(),
+      reason: z.string().optional(),
+      context: z.string().optional(),
+      approver: z.string().optional(),
+      metadata: z.record(z.string(), z.unknown()).optional(),
+    }),
+  ),
+});
@@ -20,8 +20,8 @@ import type {MergeStrategy, MergeResult} from './types.js';
  * @param strategy - The merge strategy to apply
  * @returns A MergeResult containing the merged value, provenance, and conflicts
  *
- * @throws {Error} If results array is empty
- * @throws {Error} If strategy-specific validation fails
+ * @throws {MergeError} If results array is empty
+ * @throws {MergeError} If strategy-specific validation fails
  *
  * @example
  * ```typescript
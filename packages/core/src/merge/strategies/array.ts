@@ -1,5 +1,6 @@
 import {createOwned} from '../../owned.js';
 import type {Owned} from '../../owned.js';
+import {MergeError} from '../../errors.js';
 import type {MergeStrategy, MergeResult} from '../types.js';
 
 /**
@@ -141,7 +142,10 @@ export function concat<T>(
 
     merge(results: Owned<T[], string>[]): MergeResult<T[]> {
       if (results.length === 0) {
-        throw new Error('Cannot merge empty results array');
+        throw new MergeError(
+          'Cannot merge empty results array',
+          'array-concat',
+        );
       }
 
       // Filter by confidence threshold
@@ -164,8 +168,9 @@ export function concat<T>(
       });
 
       if (validResults.length === 0) {
-        throw new Error(
+        throw new MergeError(
           `All results rejected: confidence below threshold (${minConfidence})`,
+          'array-concat',
         );
       }
 
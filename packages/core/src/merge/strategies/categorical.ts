@@ -1,5 +1,6 @@
 import {createOwned} from '../../owned.js';
 import type {Owned} from '../../owned.js';
+import {MergeError} from '../../errors.js';
 import type {MergeStrategy, MergeResult} from '../types.js';
 
 /**
@@ -90,7 +91,10 @@ export function weightedVote<T>(
 
     merge(results: Owned<T, string>[]): MergeResult<T> {
       if (results.length === 0) {
-        throw new Error('Cannot merge empty results array');
+        throw new MergeError(
+          'Cannot merge empty results array',
+          'weighted-vote',
+        );
       }
 
       // Filter results by confidence threshold
@@ -113,8 +117,9 @@ export function weightedVote<T>(
       });
 
       if (validResults.length === 0) {
-        throw new Error(
+        throw new MergeError(
           `All results rejected: confidence below threshold (${minConfidence})`,
+          'weighted-vote',
         );
       }
 
@@ -171,7 +176,10 @@ export function weightedVote<T>(
       }
 
       if (winningValue === undefined || !winningVotes) {
-        throw new Error('Failed to determine winning value');
+        throw new MergeError(
+          'Failed to determine winning value',
+          'weighted-vote',
+        );
       }
 
       // Calculate confidence and consensus
@@ -1,5 +1,10 @@
 import {createOwned} from '../../owned.js';
 import type {Owned} from '../../owned.js';
+import {
+  ConsensusError,
+  InvalidConfigurationError,
+  MergeError,
+} from '../../errors.js';
 import type {MergeStrategy, MergeResult} from '../types.js';
 
 /**
@@ -131,7 +136,9 @@ export function requireConsensus<T>(
 
   // Validate k
   if (!Number.isInteger(k) || k < 1) {
-    throw new Error(`k must be a positive integer, got ${k}`);
+    throw new InvalidConfigurationError(
+      `k must be a positive integer, got ${k}`,
+    );
   }
 
   return {
@@ -139,12 +146,16 @@ export function requireConsensus<T>(
 
     merge(results: Owned<T, string>[]): MergeResult<T> {
       if (results.length === 0) {
-        throw new Error('Cannot merge empty results array');
+        throw new MergeError(
+          'Cannot merge empty results array',
+          'require-consensus',
+        );
       }
 
       if (k > results.length) {
-        throw new Error(
+        throw new ConsensusError(
           `Consensus requirement impossible: k=${k} but only ${results.length} results provided`,
+          {required: k, agreement: 0, total: results.length},
         );
       }
 
@@ -207,15 +218,19 @@ export function requireConsensus<T>(
       }
 
       if (!largestGroup) {
-        throw new Error('Failed to find any value group');
+        throw new MergeError(
+          'Failed to find any value group',
+          'require-consensus',
+        );
       }
 
       // Check if consensus requirement is met
       const consensusMet = maxAgreement >= k;
 
       if (!consensusMet && onFailure === 'error') {
-        throw new Error(
+        throw new ConsensusError(
           `Consensus requirement not met: needed ${k} agreeing branches, got max ${maxAgreement}`,
+          {required: k, agreement: maxAgreement, total: results.length},
         );
       }
 
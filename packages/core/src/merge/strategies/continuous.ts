@@ -1,5 +1,6 @@
 import {createOwned} from '../../owned.js';
 import type {Owned} from '../../owned.js';
+import {MergeError} from '../../errors.js';
 import type {MergeStrategy, MergeResult} from '../types.js';
 
 /**
@@ -112,7 +113,10 @@ export function weightedAverage(
       results: Owned<number, string>[],
     ): MergeResult<WeightedAverageResult> {
       if (results.length === 0) {
-        throw new Error('Cannot merge empty results array');
+        throw new MergeError(
+          'Cannot merge empty results array',
+          'weighted-average',
+        );
       }
 
       // Filter by confidence threshold
@@ -135,8 +139,9 @@ export function weightedAverage(
       });
 
       if (validResults.length === 0) {
-        throw new Error(
+        throw new MergeError(
           `All results rejected: confidence below threshold (${minConfidence})`,
+          'weighted-average',
         );
       }
 
@@ -165,7 +170,10 @@ export function weightedAverage(
         });
 
         if (validResults.length === 0) {
-          throw new Error('All results rejected as outliers');
+          throw new MergeError(
+            'All results rejected as outliers',
+            'weighted-average',
+          );
         }
       }
 
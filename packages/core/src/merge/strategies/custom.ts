@@ -1,5 +1,6 @@
 import {createOwned} from '../../owned.js';
 import type {Owned} from '../../owned.js';
+import {InvalidConfidenceError, MergeError} from '../../errors.js';
 import type {MergeStrategy, MergeResult} from '../types.js';
 
 /**
@@ -147,7 +148,7 @@ export function custom<T, R>(
 
     merge(results: Owned<T, string>[]): MergeResult<R> {
       if (results.length === 0) {
-        throw new Error('Cannot merge empty results array');
+        throw new MergeError('Cannot merge empty results array', 'custom');
       }
 
       // Execute user's merge function
@@ -155,8 +156,10 @@ export function custom<T, R>(
       try {
         mergedValue = mergeFn(results);
       } catch (error) {
-        throw new Error(
+        throw new MergeError(
           `Custom merge function failed: ${error instanceof Error ? error.message : String(error)}`,
+          'custom',
+          {cause: error},
         );
       }
 
@@ -166,15 +169,17 @@ export function custom<T, R>(
 
       // Validate confidence is in range
       if (confidence < 0 || confidence > 1) {
-        throw new Error(
+        throw new InvalidConfidenceError(
           `Custom calculateConfidence returned invalid value: ${confidence} (must be 0-1)`,
+          confidence,
         );
       }
 
       // Validate consensus is in range
       if (consensusLevel < 0 || consensusLevel > 1) {
-        throw new Error(
+        throw new MergeError(
           `Custom calculateConsensus returned invalid value: ${consensusLevel} (must be 0-1)`,
+          'custom',
         );
       }
 
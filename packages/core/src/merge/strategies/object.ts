@@ -1,5 +1,6 @@
 import {createOwned} from '../../owned.js';
 import type {Owned} from '../../owned.js';
+import {MergeError} from '../../errors.js';
 import type {MergeStrategy, MergeResult, MergeConflict} from '../types.js';
 
 /**
@@ -111,7 +112,10 @@ export function fieldwise<T extends Record<string, any>>(
 
     merge(results: Owned<T, string>[]): MergeResult<T> {
       if (results.length === 0) {
-        throw new Error('Cannot merge empty results array');
+        throw new MergeError(
+          'Cannot merge empty results array',
+          'fieldwise-merge',
+        );
       }
 
       // Filter by confidence threshold
@@ -134,8 +138,9 @@ export function fieldwise<T extends Record<string, any>>(
       });
 
       if (validResults.length === 0) {
-        throw new Error(
+        throw new MergeError(
           `All results rejected: confidence below threshold (${minConfidence})`,
+          'fieldwise-merge',
         );
       }
 
@@ -154,8 +159,9 @@ export function fieldwise<T extends Record<string, any>>(
             firstFields.size !== currentFields.size ||
             ![...firstFields].every((f) => currentFields.has(f))
           ) {
-            throw new Error(
+            throw new MergeError(
               `Field mismatch: branches have different fields. Set allowPartial: true to allow this.`,
+              'fieldwise-merge',
             );
           }
         }
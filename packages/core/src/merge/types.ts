@@ -312,8 +312,9 @@ export interface MergeStrategy<T, R> {
    * @param results - Array of Owned values from parallel branches, all from the same fork
    * @returns A MergeResult containing the merged value, provenance, and conflicts
    *
-   * @throws {Error} If results array is empty
-   * @throws {Error} If strategy-specific validation fails (e.g., consensus not met)
+   * @throws {MergeError} If results array is empty
+   * @throws {MergeError} If strategy-specific validation fails
+   * @throws {ConsensusError} If a consensus requirement is not met
    */
   merge(results: Owned<T, string>[]): MergeResult<R>;
 }
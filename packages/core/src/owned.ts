@@ -1,4 +1,7 @@
 import {z} from 'zod';
+import type {Lineage} from './lineage.js';
+import {createLineage, lineageSchema} from './lineage.js';
+import {InvalidConfidenceError} from './errors.js';
 
 /**
  * Owned represents a value generated by an LLM within a specific scope.
@@ -80,6 +83,23 @@ export interface Owned<T, S extends string> {
    * ```
    */
   readonly traceId: string;
+
+  /**
+   * Immutable record of where this value originated and every scope
+   * boundary it has crossed.
+   *
+   * Set by {@link createOwned} and extended by every bridge operation.
+   * Optional so hand-written Owned literals remain valid; use
+   * {@link getLineage} to read it with a fallback.
+   *
+   * @example
+   * ```typescript
+   * const bridged = bridge(adminNotes, 'customer', {reason: 'Approved'});
+   * console.log(bridged.lineage?.origin); // 'admin'
+   * console.log(bridged.lineage?.hops[0].reason); // 'Approved'
+   * ```
+   */
+  readonly lineage?: Lineage;
 }
 
 /**
@@ -108,6 +128,12 @@ export interface CreateOwnedOptions<T, S extends string> {
    * Optional trace ID. Auto-generated if not provided.
    */
   traceId?: string;
+
+  /**
+   * Optional lineage to carry over (e.g. when re-wrapping a transformed
+   * value). Defaults to a fresh lineage originating in `scope`.
+   */
+  lineage?: Lineage;
 }
 
 /**
@@ -120,7 +146,7 @@ export interface CreateOwnedOptions<T, S extends string> {
  * @template S - The scope identifier
  * @param options - Configuration for creating the Owned value
  * @returns An Owned value with all required metadata
- * @throws {Error} If confidence is not between 0 and 1
+ * @throws {InvalidConfidenceError} If confidence is not between 0 and 1
  *
  * @example
  * ```typescript
@@ -149,18 +175,25 @@ export interface CreateOwnedOptions<T, S extends string> {
 export function createOwned<T, S extends string>(
   options: CreateOwnedOptions<T, S>,
 ): Owned<T, S> {
-  const {value, scope, confidence = 1.0, traceId} = options;
+  const {value, scope, confidence = 1.0, traceId, lineage} = options;
 
   // Validate confidence range
   if (confidence < 0 || confidence > 1) {
-    throw new Error(`Confidence must be between 0 and 1, got ${confidence}`);
+    throw new InvalidConfidenceError(
+      `Confidence must be between 0 and 1, got ${confidence}`,
+      confidence,
+      {traceId},
+    );
   }
 
+  const resolvedTraceId = traceId ?? generateTraceId();
+
   return {
     value,
     confidence,
     __scope: scope,
-    traceId: traceId ?? generateTraceId(),
+    traceId: resolvedTraceId,
+    lineage: lineage ?? createLineage(scope, resolvedTraceId),
   };
 }
 
@@ -266,6 +299,7 @@ export function ownedSchema<
   confidence: z.ZodNumber;
   __scope: S extends undefined ? z.ZodString : S;
   traceId: z.ZodString;
+  lineage: z.ZodOptional<typeof lineageSchema>;
 }> {
   return z.object({
     value: valueSchema,
@@ -274,5 +308,6 @@ export function ownedSchema<
       ? z.ZodString
       : S,
     traceId: z.string(),
+    lineage: lineageSchema.optional(),
   });
 }
@@ -0,0 +1,164 @@
+import {afterEach, describe, expect, expectTypeOf, it} from 'vitest';
+import {clearAuditSink, setAuditSink} from './audit/sink.js';
+import {bridge} from './bridge.js';
+import type {AuditEvent} from './audit/types.js';
+import {ScopeFlowViolationError} from './errors.js';
+import type {Owned} from './owned.js';
+import {createOwned} from './owned.js';
+import {composeOwned, partitionOwned} from './partition.js';
+import {
+  clearScopeRegistry,
+  defineScopes,
+  setScopeRegistry,
+} from './scope-registry.js';
+
+const triage = createOwned({
+  value: {reply: 'We are on it', notes: 'Refund likely', priority: 2},
+  scope: 'support',
+  confidence: 0.8,
+});
+
+describe('partitionOwned', () => {
+  afterEach(() => {
+    clearScopeRegistry();
+    clearAuditSink();
+  });
+
+  it('splits fields into typed per-scope parts with shared lineage', () => {
+    const {customer, internal} = partitionOwned(
+      triage,
+      {customer: ['reply'], internal: ['notes', 'priority']},
+      {reason: 'route audiences'},
+    );
+
+    expectTypeOf(customer).toEqualTypeOf<Owned<{reply: string}, 'customer'>>();
+    expectTypeOf(internal).toEqualTypeOf<
+      Owned<{notes: string; priority: number}, 'internal'>
+    >();
+    expect(customer).toMatchObject({
+      value: {reply: 'We are on it'},
+      confidence: 0.8,
+      __scope: 'customer',
+      traceId: triage.traceId,
+    });
+    expect(internal.value).toEqual({notes: 'Refund likely', priority: 2});
+    expect(internal.lineage?.origin).toBe('support');
+    expect(internal.lineage?.hops).toMatchObject([
+      {
+        kind: 'partition',
+        from: 'support',
+        to: 'internal',
+        reason: 'route audiences',
+        metadata: {fields: ['notes', 'priority']},
+      },
+    ]);
+  });
+
+  it('checks and audits every part against the scope policy', () => {
+    const events: AuditEvent[] = [];
+    setAuditSink({record: (event) => void events.push(event)});
+    setScopeRegistry(
+      defineScopes({levels: ['customer', 'support', 'internal'] as const}),
+    );
+
+    expect(() =>
+      partitionOwned(triage, {internal: ['notes'], customer: ['reply']}),
+    ).toThrow(ScopeFlowViolationError);
+    expect(events.filter((event) => event.type === 'bridge')).toMatchObject([
+      {kind: 'partition', from: 'support', to: 'internal'},
+    ]);
+  });
+});
+
+describe('composeOwned', () => {
+  afterEach(() => {
+    clearScopeRegistry();
+  });
+
+  it('joins parts back into a union-scoped value', () => {
+    const {customer, internal} = partitionOwned(triage, {
+      customer: ['reply'],
+      internal: ['notes', 'priority'],
+    });
+
+    const record = composeOwned(
+      {customer, internal: {...internal, confidence: 0.6}},
+      'internal',
+    );
+
+    expectTypeOf(record).toEqualTypeOf<
+      Owned<
+        {reply: string} & {notes: string; priority: number},
+        'customer' | 'internal'
+      >
+    >();
+    expect(record).toMatchObject({
+      value: triage.value,
+      confidence: 0.6,
+      __scope: 'internal',
+      traceId: triage.traceId,
+    });
+    expect(
+      record.lineage?.hops.map((hop) => [hop.kind, hop.from, hop.to]),
+    ).toEqual([
+      ['partition', 'support', 'customer'],
+      ['compose', 'customer', 'internal'],
+      ['compose', 'internal', 'internal'],
+    ]);
+  });
+
+  it('starts a new trace for unrelated parts and rejects conflicts', () => {
+    const order = createOwned({value: {orderId: 'A-1'}, scope: 'billing'});
+    const ticket = createOwned({value: {ticketId: 'T-9'}, scope: 'support'});
+
+    const joined = composeOwned({order, ticket}, 'support');
+
+    expect(joined.value).toEqual({orderId: 'A-1', ticketId: 'T-9'});
+    expect(joined.traceId).not.toBe(order.traceId);
+    expect(joined.lineage?.hops[0].metadata).toEqual({
+      fields: ['orderId'],
+      traceId: order.traceId,
+    });
+
+    const other = createOwned({value: {orderId: 'B-2'}, scope: 'support'});
+    expect(() => composeOwned({order, other}, 'support')).toThrow(
+      /conflicting values for field 'orderId'/,
+    );
+  });
+
+  it('keeps the earlier scopes of every part in the lineage', () => {
+    setScopeRegistry(
+      defineScopes({levels: ['public', 'internal', 'confidential']}),
+    );
+    const secret = createOwned({
+      value: {salary: 100},
+      scope: 'confidential',
+    });
+    const note = createOwned({value: {note: 'hi'}, scope: 'scratch'});
+
+    // 'scratch' is undeclared, so each hop on its own would be allowed
+    const composed = composeOwned(
+      {a: bridge(secret, 'scratch'), b: note},
+      'scratch',
+    );
+    expect(() => bridge(composed, 'public')).toThrow(ScopeFlowViolationError);
+
+    // Parts of one trace keep the lineage of the first part only
+    const first = createOwned({
+      value: {x: 1},
+      scope: 'scratch',
+      traceId: 'trace-shared',
+    });
+    const second = bridge(
+      createOwned({
+        value: {y: 2},
+        scope: 'confidential',
+        traceId: 'trace-shared',
+      }),
+      'scratch',
+    );
+    const shared = composeOwned({first, second}, 'scratch');
+    expect(shared.traceId).toBe('trace-shared');
+    expect(() => bridge(shared, 'public')).toThrow(ScopeFlowViolationError);
+  });
+});
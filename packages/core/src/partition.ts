@@ -0,0 +1,275 @@
+/**
+ * Field-level scopes for structured values.
+ *
+ * A single inference often produces fields meant for different audiences
+ * (a customer-facing reply next to internal triage notes).
+ * {@link partitionOwned} splits such a value into one `Owned` per scope,
+ * each typed to its own fields, and {@link composeOwned} joins the parts
+ * back into a union-scoped value. Both record the operation in the
+ * lineage of the values they produce.
+ *
+ * @module partition
+ */
+
+import {emitBridgeAuditEvent} from './audit/sink.js';
+import {InvalidArgumentError} from './errors.js';
+import {appendLineageHop, getLineageScopes} from './lineage.js';
+import type {Owned} from './owned.js';
+import {createOwned} from './owned.js';
+import {assertOwnedScopeFlow} from './scope-registry.js';
+
+/**
+ * Fields assigned to each target scope by {@link partitionOwned}.
+ *
+ * @template T - Type of the value being partitioned
+ */
+export type OwnedPartition<T> = Readonly<
+  Record<string, readonly (keyof T & string)[]>
+>;
+
+/**
+ * Result of `partitionOwned(owned, partition)`: one `Owned` per target
+ * scope, holding only the fields assigned to it.
+ *
+ * @template T - Type of the value being partitioned
+ * @template P - Fields assigned to each target scope
+ */
+export type PartitionedOwned<T, P extends OwnedPartition<T>> = {
+  [K in keyof P & string]: Owned<Pick<T, P[K][number]>, K>;
+};
+
+/**
+ * Options for {@link partitionOwned} and {@link composeOwned}.
+ */
+export interface PartitionOptions {
+  /**
+   * Why the value is being split or joined. Recorded in every lineage hop.
+   */
+  reason?: string;
+
+  /**
+   * Additional context recorded in every lineage hop.
+   */
+  metadata?: Record<string, unknown>;
+}
+
+type UnionToIntersection<U> = (
+  U extends unknown ? (arg: U) => void : never
+) extends (arg: infer I) => void
+  ? I
+  : never;
+
+/**
+ * Value type of `composeOwned(parts, targetScope)`: the intersection of
+ * every part's value.
+ *
+ * @template P - Parts being composed
+ */
+export type ComposedValue<
+  P extends Readonly<Record<string, Owned<object, string>>>,
+> = UnionToIntersection<P[keyof P]['value']>;
+
+/**
+ * Splits an Owned object into per-scope parts, each holding a subset of
+ * its fields.
+ *
+ * Every part keeps the source value's confidence and trace ID, and its
+ * lineage gains a `partition` hop from the source scope to the part's
+ * scope (with the fields it received in `metadata.fields`). Each hop is
+ * checked against the registered scope policy and audited like a bridge.
+ *
+ * A field may be assigned to several scopes; fields assigned to none are
+ * not copied to any part.
+ *
+ * @param owned - Object to split
+ * @param partition - Fields to copy to each target scope
+ * @param options - Reason and metadata recorded in each part's lineage
+ * @returns One Owned value per target scope
+ * @throws {InvalidArgumentError} If the value is not a plain object
+ * @throws {ScopeFlowViolationError} If a registered scope policy forbids
+ *   the flow to a part's scope
+ *
+ * @example
+ * ```typescript
+ * const triage = await ctx.infer(TriageSchema, ticket);
+ * // Owned<{reply: string; notes: string; priority: number}, 'support'>
+ *
+ * const {customer, internal} = partitionOwned(triage, {
+ *   customer: ['reply'],
+ *   internal: ['notes', 'priority'],
+ * });
+ * // customer: Owned<{reply: string}, 'customer'>
+ * // internal: Owned<{notes: string; priority: number}, 'internal'>
+ * ```
+ */
+export function partitionOwned<
+  T extends object,
+  S extends string,
+  const P extends OwnedPartition<T>,
+>(
+  owned: Owned<T, S>,
+  partition: P,
+  options: PartitionOptions = {},
+): PartitionedOwned<T, P> {
+  const value: unknown = owned.value;
+  if (!isRecord(value)) {
+    throw new InvalidArgumentError(
+      'partitionOwned requires an Owned value holding a plain object',
+      {traceId: owned.traceId},
+    );
+  }
+
+  const parts: Record<string, Owned<Record<string, unknown>, string>> = {};
+  for (const [scope, fields] of Object.entries(partition)) {
+    assertOwnedScopeFlow(owned, scope);
+
+    const picked: Record<string, unknown> = {};
+    for (const field of fields) {
+      if (field in value) picked[field] = value[field];
+    }
+
+    const lineage = appendLineageHop(owned, {
+      kind: 'partition',
+      from: owned.__scope,
+      to: scope,
+      reason: options.reason,
+      metadata: {...options.metadata, fields: [...fields]},
+    });
+    emitBridgeAuditEvent(owned.traceId, lineage.hops[lineage.hops.length - 1]);
+
+    parts[scope] = {
+      value: picked,
+      confidence: owned.confidence,
+      __scope: scope,
+      traceId: owned.traceId,
+      lineage,
+    };
+  }
+
+  return parts as PartitionedOwned<T, P>;
+}
+
+/**
+ * Joins Owned objects from several scopes into one value in `targetScope`.
+ *
+ * The reverse of {@link partitionOwned}: the result holds every part's
+ * fields and its scope type is the union of the parts' scopes and the
+ * target. Confidence is the lowest of the parts'. When all parts share a
+ * trace ID (e.g. they come from the same partition) the result keeps it
+ * and the lineage of the first part; otherwise it starts a new trace in
+ * the target scope. Either way its lineage gains one `compose` hop per
+ * part, each checked against the registered scope policy and audited like
+ * a bridge, plus one from every earlier scope in a part's lineage (since
+ * its last declassification) the composed lineage does not hold yet, so a
+ * part bridged through an intermediate scope keeps its restrictions.
+ *
+ * @param parts - Owned objects to join, keyed by any label (typically
+ *   their scope)
+ * @param targetScope - Scope of the composed value
+ * @param options - Reason and metadata recorded in the lineage
+ * @returns An Owned value with every part's fields and a union scope
+ * @throws {InvalidArgumentError} If there are no parts, a part is not a
+ *   plain object, or two parts hold different values for the same field
+ * @throws {ScopeFlowViolationError} If a registered scope policy forbids
+ *   the flow from a part's scope to the target scope
+ *
+ * @example
+ * ```typescript
+ * const {customer, internal} = partitionOwned(triage, {
+ *   customer: ['reply'],
+ *   internal: ['notes', 'priority'],
+ * });
+ *
+ * const record = composeOwned({customer, internal}, 'internal');
+ * // record: Owned<{reply: string} & {notes: string; priority: number},
+ * //               'customer' | 'internal'>
+ * ```
+ */
+export function composeOwned<
+  const P extends Readonly<Record<string, Owned<object, string>>>,
+  TS extends string,
+>(
+  parts: P,
+  targetScope: TS,
+  options: PartitionOptions = {},
+): Owned<ComposedValue<P>, P[keyof P]['__scope'] | TS> {
+  const entries = Object.values(parts);
+  if (entries.length === 0) {
+    throw new InvalidArgumentError('composeOwned requires at least one part');
+  }
+
+  const value: Record<string, unknown> = {};
+  for (const part of entries) {
+    const partValue: unknown = part.value;
+    if (!isRecord(partValue)) {
+      throw new InvalidArgumentError(
+        'composeOwned requires Owned values holding plain objects',
+        {traceId: part.traceId},
+      );
+    }
+    for (const [key, field] of Object.entries(partValue)) {
+      if (key in value && !Object.is(value[key], field)) {
+        throw new InvalidArgumentError(
+          `composeOwned received conflicting values for field '${key}'`,
+          {traceId: part.traceId},
+        );
+      }
+      value[key] = field;
+    }
+  }
+
+  const [first] = entries;
+  const shared = entries.every((part) => part.traceId === first.traceId);
+  let composed: Owned<Record<string, unknown>, string> = shared
+    ? {
+        value,
+        confidence: first.confidence,
+        __scope: first.__scope,
+        traceId: first.traceId,
+        lineage: first.lineage,
+      }
+    : createOwned({value, scope: targetScope});
+
+  for (const part of entries) {
+    assertOwnedScopeFlow(part, targetScope);
+
+    // One hop from the part's scope, then one from every earlier scope of
+    // the part the composed lineage does not hold yet, so the scope policy
+    // still sees where the part's data came from
+    const covered = new Set(getLineageScopes(composed));
+    const earlier = getLineageScopes(part).filter(
+      (scope) => scope !== part.__scope && !covered.has(scope),
+    );
+    for (const from of [part.__scope, ...earlier]) {
+      const lineage = appendLineageHop(composed, {
+        kind: 'compose',
+        from,
+        to: targetScope,
+        reason: options.reason,
+        metadata: {
+          ...options.metadata,
+          fields: Object.keys(part.value),
+          ...(shared ? {} : {traceId: part.traceId}),
+          ...(from !== part.__scope ? {via: part.__scope} : {}),
+        },
+      });
+      emitBridgeAuditEvent(
+        composed.traceId,
+        lineage.hops[lineage.hops.length - 1],
+      );
+      composed = {...composed, lineage};
+    }
+  }
+
+  return {
+    value: value as ComposedValue<P>,
+    confidence: Math.min(...entries.map((part) => part.confidence)),
+    __scope: targetScope,
+    traceId: composed.traceId,
+    lineage: composed.lineage,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,393 @@
+/**
+ * PII and secret detection for content-aware redaction.
+ *
+ * Detectors find emails, phone numbers, payment cards, IBANs, IP
+ * addresses, JWTs and API keys in text; {@link redactPii} masks them in
+ * strings, nested objects and `Owned` values while keeping the rest of the
+ * content readable.
+ *
+ * Detection is pattern-based: it catches common formats, not every
+ * possible encoding of personal data. Treat it as a debugging aid on top
+ * of scope rules, not as a replacement for them.
+ *
+ * @module pii
+ */
+
+import {isOwned} from './owned.js';
+
+/**
+ * Kinds of data recognized by the built-in detectors.
+ */
+export type PiiKind =
+  | 'email'
+  | 'phone'
+  | 'credit-card'
+  | 'iban'
+  | 'ip-address'
+  | 'jwt'
+  | 'api-key';
+
+/**
+ * A pattern-based detector.
+ *
+ * @example
+ * ```typescript
+ * const employeeId: PiiDetector = {
+ *   kind: 'employee-id',
+ *   pattern: /\bEMP-\d{6}\b/g,
+ * };
+ * ```
+ */
+export interface PiiDetector {
+  /** Kind reported for matches (used by the `'label'` replacement) */
+  readonly kind: string;
+
+  /** Pattern to search for. Matched with a global copy of it. */
+  readonly pattern: RegExp;
+
+  /**
+   * Rejects false positives (e.g. checksum validation). Matches are kept
+   * when omitted.
+   */
+  validate?(match: string): boolean;
+}
+
+/**
+ * A detected occurrence in a string.
+ */
+export interface PiiMatch {
+  readonly kind: string;
+  readonly value: string;
+
+  /** Start offset in the scanned string */
+  readonly start: number;
+
+  /** End offset (exclusive) in the scanned string */
+  readonly end: number;
+}
+
+/**
+ * How detected values are replaced:
+ *
+ * - `'label'`: `[email]`, `[credit-card]`, ...
+ * - `'mask'`: one `*` per character
+ * - `'partial'`: mask all but the last 4 characters (fully masks values of
+ *   8 characters or fewer)
+ * - a function returning the replacement for a match
+ */
+export type PiiReplacement =
+  | 'label'
+  | 'mask'
+  | 'partial'
+  | ((match: PiiMatch) => string);
+
+/**
+ * Options shared by {@link detectPii}, {@link maskPii} and
+ * {@link redactPii}.
+ */
+export interface PiiRedactionOptions {
+  /**
+   * Detectors to run: built-in kinds by name and/or custom detectors.
+   *
+   * @default all built-in detectors
+   */
+  readonly detectors?: readonly (PiiKind | PiiDetector)[];
+
+  /**
+   * @default 'label'
+   */
+  readonly replacement?: PiiReplacement;
+}
+
+/**
+ * Luhn checksum used by payment card numbers.
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * ISO 13616 mod-97 check used by IBANs.
+ */
+function passesIbanChecksum(iban: string): boolean {
+  const compact = iban.replace(/ /g, '');
+  const rearranged = compact.slice(4) + compact.slice(0, 4);
+
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = char.charCodeAt(0);
+    // Letters count as two digits: A = 10, ..., Z = 35
+    const value = code >= 65 ? String(code - 55) : char;
+    for (const digit of value) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+/**
+ * Validates an IPv6 address (with at most one `::`).
+ */
+function isIpv6(candidate: string): boolean {
+  const halves = candidate.split('::');
+  if (halves.length > 2) return false;
+
+  const groups = halves.flatMap((half) => (half === '' ? [] : half.split(':')));
+  if (!groups.every((group) => /^[0-9A-Fa-f]{1,4}$/.test(group))) {
+    return false;
+  }
+  return halves.length === 2
+    ? groups.length >= 1 && groups.length < 8
+    : groups.length === 8;
+}
+
+/**
+ * Built-in detectors, by kind. Iteration order is the default detector
+ * priority for overlapping matches.
+ */
+export const PII_DETECTORS: Readonly<Record<PiiKind, PiiDetector>> = {
+  jwt: {
+    kind: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+  },
+  'api-key': {
+    kind: 'api-key',
+    // OpenAI/Anthropic, AWS access keys, GitHub, Slack, Google and Stripe
+    pattern:
+      /\b(?:sk-[A-Za-z0-9_-]{20,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,}|xox[abprs]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35}|(?:sk|pk|rk)_(?:live|test)_[0-9A-Za-z]{16,})/g,
+  },
+  email: {
+    kind: 'email',
+    pattern:
+      /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+  },
+  'credit-card': {
+    kind: 'credit-card',
+    pattern: /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g,
+    validate(match) {
+      return passesLuhn(match.replace(/\D/g, ''));
+    },
+  },
+  iban: {
+    kind: 'iban',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+    validate: passesIbanChecksum,
+  },
+  'ip-address': {
+    kind: 'ip-address',
+    pattern:
+      /(?<![\w.])(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(?![\w.])|(?<![\w:])(?:[0-9A-Fa-f]{0,4}:){2,7}[0-9A-Fa-f]{0,4}(?![\w:])/g,
+    validate(match) {
+      return match.includes('.') || isIpv6(match);
+    },
+  },
+  phone: {
+    kind: 'phone',
+    pattern:
+      /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]?\d{2,4}){1,4}(?![\w])/g,
+    validate(match) {
+      const digits = match.replace(/\D/g, '');
+      // Bare digit runs, decimals and ISO dates are more likely IDs,
+      // amounts or timestamps than phone numbers
+      return (
+        digits.length >= 7 &&
+        digits.length <= 15 &&
+        (/[ .()+-]/.test(match) || digits.length >= 10) &&
+        !/^\d+\.\d+$/.test(match) &&
+        !/^\d{4}-\d{2}-\d{2}$/.test(match)
+      );
+    },
+  },
+};
+
+/**
+ * Finds PII and secrets in a string.
+ *
+ * Overlapping matches are resolved in favour of the earliest, then the
+ * longest, then the detector listed first.
+ *
+ * @param text - String to scan
+ * @param options - Detectors to run
+ * @returns Non-overlapping matches, in order of appearance
+ *
+ * @example
+ * ```typescript
+ * detectPii('Mail jane@example.com from 10.0.0.1');
+ * // [{kind: 'email', value: 'jane@example.com', start: 5, end: 21},
+ * //  {kind: 'ip-address', value: '10.0.0.1', start: 27, end: 35}]
+ * ```
+ */
+export function detectPii(
+  text: string,
+  options: Pick<PiiRedactionOptions, 'detectors'> = {},
+): PiiMatch[] {
+  const detectors = (options.detectors ?? Object.values(PII_DETECTORS)).map(
+    (detector) =>
+      typeof detector === 'string' ? PII_DETECTORS[detector] : detector,
+  );
+
+  const candidates: (PiiMatch & {priority: number})[] = [];
+  detectors.forEach((detector, priority) => {
+    const flags = detector.pattern.flags.includes('g')
+      ? detector.pattern.flags
+      : `${detector.pattern.flags}g`;
+    for (const found of text.matchAll(
+      new RegExp(detector.pattern.source, flags),
+    )) {
+      const value = found[0];
+      if (value === '' || (detector.validate && !detector.validate(value))) {
+        continue;
+      }
+      candidates.push({
+        kind: detector.kind,
+        value,
+        start: found.index,
+        end: found.index + value.length,
+        priority,
+      });
+    }
+  });
+
+  candidates.sort(
+    (a, b) => a.start - b.start || b.end - a.end || a.priority - b.priority,
+  );
+
+  const matches: PiiMatch[] = [];
+  let end = 0;
+  for (const {kind, value, start, end: matchEnd} of candidates) {
+    if (start < end) continue;
+    matches.push({kind, value, start, end: matchEnd});
+    end = matchEnd;
+  }
+  return matches;
+}
+
+function replace(match: PiiMatch, replacement: PiiReplacement): string {
+  if (typeof replacement === 'function') return replacement(match);
+
+  switch (replacement) {
+    case 'mask':
+      return '*'.repeat(match.value.length);
+    case 'partial':
+      return match.value.length <= 8
+        ? '*'.repeat(match.value.length)
+        : '*'.repeat(match.value.length - 4) + match.value.slice(-4);
+    case 'label':
+      return `[${match.kind}]`;
+  }
+}
+
+/**
+ * Replaces PII and secrets in a string.
+ *
+ * @param text - String to mask
+ * @param options - Detectors and replacement style
+ * @returns The string with every match replaced
+ *
+ * @example
+ * ```typescript
+ * maskPii('Card 4111 1111 1111 1111, mail jane@example.com');
+ * // 'Card [credit-card], mail [email]'
+ *
+ * maskPii('Card 4111111111111111', {replacement: 'partial'});
+ * // 'Card ************1111'
+ * ```
+ */
+export function maskPii(
+  text: string,
+  options: PiiRedactionOptions = {},
+): string {
+  const replacement = options.replacement ?? 'label';
+
+  let result = '';
+  let offset = 0;
+  for (const match of detectPii(text, options)) {
+    result += text.slice(offset, match.start) + replace(match, replacement);
+    offset = match.end;
+  }
+  return result + text.slice(offset);
+}
+
+/**
+ * Masks PII and secrets in every string of a value, recursively.
+ *
+ * Walks arrays, objects, `Map` and `Set` values, and `Owned` values
+ * (including their lineage), returning copies; the input is not modified.
+ * Object keys and `Map` keys are masked as well. Class instances are copied
+ * with their own enumerable properties and keep their prototype. An `Owned`
+ * keeps its scope and trace ID; dates and typed arrays are returned as-is.
+ *
+ * @param value - Value to redact
+ * @param options - Detectors and replacement style
+ * @returns A copy of `value` with masked strings
+ *
+ * @example
+ * ```typescript
+ * const safe = redactPii(ticket);
+ * // Owned {value: {customer: '[email]', note: 'Call [phone]'}, __scope: 'support', ...}
+ * ```
+ */
+export function redactPii<T>(value: T, options: PiiRedactionOptions = {}): T {
+  const copies = new WeakMap<object, unknown>();
+
+  const walk = (current: unknown): unknown => {
+    if (typeof current === 'string') return maskPii(current, options);
+    if (current === null || typeof current !== 'object') return current;
+
+    const existing = copies.get(current);
+    if (existing !== undefined) return existing;
+
+    if (Array.isArray(current)) {
+      const copy: unknown[] = [];
+      copies.set(current, copy);
+      for (const item of current) copy.push(walk(item));
+      return copy;
+    }
+
+    if (current instanceof Map) {
+      const copy = new Map<unknown, unknown>();
+      copies.set(current, copy);
+      for (const [key, item] of current) copy.set(walk(key), walk(item));
+      return copy;
+    }
+
+    if (current instanceof Set) {
+      const copy = new Set<unknown>();
+      copies.set(current, copy);
+      for (const item of current) copy.add(walk(item));
+      return copy;
+    }
+
+    if (current instanceof Date || ArrayBuffer.isView(current)) return current;
+
+    // Class instances keep their prototype; only own enumerable properties
+    // are copied
+    const prototype = Object.getPrototypeOf(current) as object | null;
+    const copy = (
+      prototype === Object.prototype ? {} : Object.create(prototype)
+    ) as Record<string, unknown>;
+    copies.set(current, copy);
+
+    // Owned identity fields are kept as-is
+    const keep = isOwned(current) ? ['__scope', 'traceId'] : [];
+    for (const [key, item] of Object.entries(current)) {
+      if (keep.includes(key)) {
+        copy[key] = item;
+      } else {
+        copy[maskPii(key, options)] = walk(item);
+      }
+    }
+    return copy;
+  };
+
+  return walk(value) as T;
+}
@@ -0,0 +1,23 @@
+/**
+ * Human-in-the-loop review of low-confidence values.
+ *
+ * @module review
+ */
+
+export type {
+  ReviewDecision,
+  ReviewStatus,
+  ReviewResolution,
+  ReviewItem,
+  ReviewStore,
+} from './stores.js';
+export {MemoryReviewStore, JsonlFileReviewStore} from './stores.js';
+
+export type {
+  ReviewQueueOptions,
+  EnqueueReviewOptions,
+  ReviewDecisionOptions,
+  ScopedReviewDecisionOptions,
+  ReviewListFilter,
+} from './queue.js';
+export {ReviewQueue} from './queue.js';
@@ -0,0 +1,249 @@
+import {afterEach, describe, expect, expectTypeOf, it, vi} from 'vitest';
+import {mkdtemp, rm, writeFile} from 'node:fs/promises';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {clearAuditSink, setAuditSink} from '../audit/sink.js';
+import type {AuditEvent} from '../audit/types.js';
+import {
+  CalibrationRegistry,
+  clearCalibrationRegistry,
+  setCalibrationRegistry,
+} from '../calibration/registry.js';
+import {ReviewError} from '../errors.js';
+import type {Owned} from '../owned.js';
+import {createOwned} from '../owned.js';
+import {createSemanticValue} from '../semantic-value.js';
+import {ReviewQueue} from './queue.js';
+import {JsonlFileReviewStore} from './stores.js';
+
+describe('ReviewQueue', () => {
+  const intent = createSemanticValue({
+    value: 'refund',
+    scope: 'intake',
+    confidence: 0.55,
+    traceId: 'trace-intent',
+    alternatives: [
+      {value: 'cancel', confidence: 0.35},
+      {value: 'question', confidence: 0.1},
+    ],
+    reasoning: 'Mentions money back',
+  });
+
+  afterEach(() => {
+    clearAuditSink();
+    clearCalibrationRegistry();
+  });
+
+  it('should queue values with their alternatives', async () => {
+    const queue = new ReviewQueue({generateId: () => 'review-1'});
+
+    const item = await queue.enqueue(intent, {
+      reason: 'confidence below 0.8',
+      metadata: {ticket: 42},
+    });
+
+    expect(item).toMatchObject({
+      id: 'review-1',
+      status: 'pending',
+      scope: 'intake',
+      traceId: 'trace-intent',
+      value: 'refund',
+      confidence: 0.55,
+      reasoning: 'Mentions money back',
+      reason: 'confidence below 0.8',
+      metadata: {ticket: 42},
+    });
+    expect(item.alternatives).toHaveLength(2);
+    await expect(queue.pending('intake')).resolves.toEqual([item]);
+    await expect(queue.pending('billing')).resolves.toEqual([]);
+  });
+
+  it('should approve, pick alternatives and override with reviewer lineage', async () => {
+    let id = 0;
+    const queue = new ReviewQueue({generateId: () => `review-${++id}`});
+    await queue.enqueue(intent);
+    await queue.enqueue(intent);
+    await queue.enqueue(
+      createOwned({value: {priority: 'low'}, scope: 'triage', confidence: 0.4}),
+    );
+
+    const approved = await queue.approve('review-1', {reviewer: 'agent-7'});
+    const picked = await queue.pickAlternative('review-2', 0, {
+      reviewer: 'agent-7',
+      note: 'Customer wants to cancel',
+    });
+    const overridden = await queue.override<{priority: string}>(
+      'review-3',
+      {priority: 'high'},
+      {reviewer: 'lead-2'},
+    );
+
+    expect(approved).toMatchObject({
+      value: 'refund',
+      confidence: 1,
+      __scope: 'intake',
+      traceId: 'trace-intent',
+    });
+    expect(picked.value).toBe('cancel');
+    expect(overridden.value).toEqual({priority: 'high'});
+
+    expect(picked.lineage?.origin).toBe('intake');
+    expect(picked.lineage?.hops.at(-1)).toMatchObject({
+      kind: 'review',
+      from: 'intake',
+      to: 'intake',
+      approver: 'agent-7',
+      reason: 'Customer wants to cancel',
+      metadata: {reviewId: 'review-2', decision: 'alternative'},
+    });
+
+    const resolved = await queue.list({status: 'resolved'});
+    expect(resolved.map((item) => item.resolution?.correct)).toEqual([
+      true,
+      false,
+      false,
+    ]);
+    await expect(queue.pending()).resolves.toEqual([]);
+  });
+
+  it('should reject invalid decisions', async () => {
+    const queue = new ReviewQueue({generateId: () => 'review-1'});
+    await queue.enqueue(intent);
+
+    await expect(
+      queue.pickAlternative('review-1', 5, {reviewer: 'agent-7'}),
+    ).rejects.toThrow(/no alternative at index 5/);
+    await expect(queue.approve('review-1', {reviewer: ' '})).rejects.toThrow(
+      /non-empty reviewer/,
+    );
+    await expect(
+      queue.approve('missing', {reviewer: 'agent-7'}),
+    ).rejects.toBeInstanceOf(ReviewError);
+
+    await queue.approve('review-1', {reviewer: 'agent-7'});
+    await expect(
+      queue.approve('review-1', {reviewer: 'agent-7'}),
+    ).rejects.toThrow(/already resolved/);
+  });
+
+  it('should check the expected scope of a decision', async () => {
+    const queue = new ReviewQueue({generateId: () => 'review-1'});
+    await queue.enqueue(intent);
+
+    await expect(
+      queue.approve('review-1', {reviewer: 'agent-7', scope: 'billing'}),
+    ).rejects.toThrow(/belongs to scope 'intake', not 'billing'/);
+    await expect(queue.pending()).resolves.toHaveLength(1);
+
+    const approved = await queue.approve<string, 'intake'>('review-1', {
+      reviewer: 'agent-7',
+      scope: 'intake',
+    });
+    expectTypeOf(approved).toEqualTypeOf<Owned<string, 'intake'>>();
+    expect(approved.__scope).toBe('intake');
+
+    const unscoped = queue.override('review-1', 'cancel', {
+      reviewer: 'agent-7',
+    });
+    expectTypeOf(unscoped).resolves.toEqualTypeOf<Owned<string, string>>();
+    await expect(unscoped).rejects.toThrow(/already resolved/);
+  });
+
+  it('should resolve an item once under concurrent decisions', async () => {
+    const queue = new ReviewQueue({generateId: () => 'review-1'});
+    await queue.enqueue(intent);
+    const save = vi.spyOn(queue.store, 'save');
+
+    const results = await Promise.allSettled([
+      queue.approve('review-1', {reviewer: 'agent-7'}),
+      queue.override('review-1', 'cancel', {reviewer: 'agent-8'}),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual([
+      'fulfilled',
+      'rejected',
+    ]);
+    expect(results[1]).toMatchObject({
+      reason: expect.objectContaining({
+        message: expect.stringMatching(/already being resolved/),
+      }),
+    });
+    expect(save).toHaveBeenCalledTimes(1);
+    await expect(queue.get('review-1')).resolves.toMatchObject({
+      resolution: {decision: 'approve', reviewer: 'agent-7'},
+    });
+  });
+
+  it('should emit calibration feedback and audit events', async () => {
+    const registry = new CalibrationRegistry();
+    registry.trackPrediction({
+      traceId: 'trace-intent',
+      model: 'gpt-4o-mini',
+      schema: 'intent',
+      confidence: 0.7,
+    });
+    setCalibrationRegistry(registry);
+    const events: AuditEvent[] = [];
+    setAuditSink({record: (event) => void events.push(event)});
+    const onFeedback = vi.fn();
+
+    const queue = new ReviewQueue({
+      generateId: () => 'review-1',
+      onFeedback,
+    });
+    await queue.enqueue(intent);
+    await queue.pickAlternative('review-1', 1, {reviewer: 'agent-7'});
+
+    await expect(registry.store.readAll()).resolves.toMatchObject([
+      {
+        traceId: 'trace-intent',
+        predicted: 0.7,
+        correct: false,
+        model: 'gpt-4o-mini',
+        schema: 'intent',
+      },
+    ]);
+    expect(onFeedback).toHaveBeenCalledWith(
+      expect.objectContaining({traceId: 'trace-intent', correct: false}),
+      expect.objectContaining({id: 'review-1', status: 'resolved'}),
+    );
+    expect(events).toMatchObject([
+      {
+        type: 'review',
+        traceId: 'trace-intent',
+        scope: 'intake',
+        reviewId: 'review-1',
+        decision: 'alternative',
+        reviewer: 'agent-7',
+        correct: false,
+      },
+    ]);
+  });
+
+  it('should persist items in a JSONL file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'mullion-review-'));
+    try {
+      const path = join(dir, 'reviews.jsonl');
+      const queue = new ReviewQueue({
+        store: new JsonlFileReviewStore(path),
+        generateId: () => 'review-1',
+      });
+      await queue.enqueue(intent);
+      await queue.override('review-1', 'question', {reviewer: 'agent-7'});
+
+      const reloaded = new ReviewQueue({store: new JsonlFileReviewStore(path)});
+      const items = await reloaded.list();
+      expect(items).toHaveLength(1);
+      expect(items[0]).toMatchObject({
+        status: 'resolved',
+        alternatives: intent.alternatives,
+        resolution: {decision: 'override', value: 'question'},
+      });
+
+      await writeFile(path, 'not json\n', 'utf8');
+      await expect(reloaded.list()).rejects.toBeInstanceOf(ReviewError);
+    } finally {
+      await rm(dir, {recursive: true, force: true});
+    }
+  });
+});
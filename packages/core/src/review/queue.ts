@@ -0,0 +1,463 @@
+/**
+ * Human-in-the-loop review of low-confidence values.
+ *
+ * A {@link ReviewQueue} holds Owned and SemanticValue items until a reviewer
+ * approves them, picks one of their alternatives, or overrides them. Every
+ * decision produces a new Owned value with confidence 1.0 whose lineage
+ * records the reviewer, and doubles as calibration feedback: approving
+ * means the model was right, anything else means it was wrong.
+ *
+ * @module review/queue
+ */
+
+import {emitAuditEvent} from '../audit/sink.js';
+import type {
+  CalibrationFeedback,
+  CalibrationRegistry,
+} from '../calibration/registry.js';
+import {getCalibrationRegistry} from '../calibration/registry.js';
+import {ReviewError} from '../errors.js';
+import {appendLineageHop} from '../lineage.js';
+import type {Owned} from '../owned.js';
+import {createOwned} from '../owned.js';
+import {isSemanticValue} from '../semantic-value.js';
+import type {
+  ReviewDecision,
+  ReviewItem,
+  ReviewStatus,
+  ReviewStore,
+} from './stores.js';
+import {MemoryReviewStore} from './stores.js';
+
+/**
+ * Options for {@link ReviewQueue}.
+ */
+export interface ReviewQueueOptions {
+  /**
+   * Where items are kept.
+   *
+   * @default new MemoryReviewStore()
+   */
+  readonly store?: ReviewStore;
+
+  /**
+   * Registry that receives reviewer decisions as calibration feedback.
+   * Defaults to the registry registered with `setCalibrationRegistry()`;
+   * `false` disables calibration feedback.
+   */
+  readonly calibration?: CalibrationRegistry | false;
+
+  /**
+   * Called with the calibration feedback of every resolved item, e.g. to
+   * forward it to an external labelling pipeline.
+   */
+  readonly onFeedback?: (
+    feedback: CalibrationFeedback,
+    item: ReviewItem,
+  ) => void | Promise<void>;
+
+  /**
+   * Generates item IDs.
+   *
+   * @default random `review-…` IDs
+   */
+  readonly generateId?: () => string;
+}
+
+/**
+ * Options for {@link ReviewQueue.enqueue}.
+ */
+export interface EnqueueReviewOptions {
+  /**
+   * Why the value needs review, shown to reviewers.
+   */
+  readonly reason?: string;
+
+  /**
+   * Additional context for reviewers (ticket ID, customer tier, ...).
+   */
+  readonly metadata?: Record<string, unknown>;
+}
+
+/**
+ * Reviewer details recorded with a decision.
+ */
+export interface ReviewDecisionOptions {
+  /**
+   * Who made the decision. Must be a non-empty string.
+   */
+  readonly reviewer: string;
+
+  /**
+   * Optional free-text note, recorded in the item and the lineage hop.
+   */
+  readonly note?: string;
+
+  /**
+   * Scope the item must belong to. The decision is typed with this scope
+   * and throws a {@link ReviewError} for an item of another scope; without
+   * it, the result is an `Owned<T, string>`.
+   */
+  readonly scope?: string;
+}
+
+/**
+ * Reviewer details with the scope the item must belong to.
+ */
+export interface ScopedReviewDecisionOptions<
+  S extends string,
+> extends ReviewDecisionOptions {
+  readonly scope: S;
+}
+
+/**
+ * Filter for {@link ReviewQueue.list}.
+ */
+export interface ReviewListFilter {
+  readonly status?: ReviewStatus;
+  readonly scope?: string;
+}
+
+function generateReviewId(): string {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substring(2, 9);
+  return `review-${timestamp}-${random}`;
+}
+
+/**
+ * Queue of values awaiting human review.
+ *
+ * @example
+ * ```typescript
+ * const reviews = new ReviewQueue({
+ *   store: new JsonlFileReviewStore('./reviews.jsonl'),
+ * });
+ *
+ * // In the pipeline
+ * const intent = await ctx.inferSemantic(IntentSchema, ticket.body);
+ * if (intent.confidence < 0.8) {
+ *   await reviews.enqueue(intent, {reason: 'confidence below 0.8'});
+ * }
+ *
+ * // In the reviewer UI
+ * const [item] = await reviews.pending();
+ * const reviewed = await reviews.pickAlternative(item.id, 0, {
+ *   reviewer: 'agent-7',
+ * });
+ * reviewed.confidence; // 1.0
+ * reviewed.lineage?.hops.at(-1); // {kind: 'review', approver: 'agent-7', ...}
+ * ```
+ */
+export class ReviewQueue {
+  readonly store: ReviewStore;
+
+  private readonly calibration: CalibrationRegistry | false | undefined;
+  private readonly onFeedback: ReviewQueueOptions['onFeedback'];
+  private readonly generateId: () => string;
+  private readonly resolving = new Set<string>();
+
+  constructor(options: ReviewQueueOptions = {}) {
+    this.store = options.store ?? new MemoryReviewStore();
+    this.calibration = options.calibration;
+    this.onFeedback = options.onFeedback;
+    this.generateId = options.generateId ?? generateReviewId;
+  }
+
+  /**
+   * Adds a value to the queue. SemanticValue alternatives and reasoning
+   * are kept so reviewers can pick from them.
+   *
+   * @param owned - The value to review
+   * @param options - Reason and reviewer context
+   * @returns The pending item
+   */
+  async enqueue<T, S extends string>(
+    owned: Owned<T, S>,
+    options: EnqueueReviewOptions = {},
+  ): Promise<ReviewItem<T>> {
+    const prediction = this.getRegistry()?.getTrackedPrediction(owned.traceId);
+    const semantic = isSemanticValue(owned);
+
+    const item: ReviewItem<T> = {
+      id: this.generateId(),
+      status: 'pending',
+      scope: owned.__scope,
+      traceId: owned.traceId,
+      value: owned.value,
+      confidence: owned.confidence,
+      alternatives: semantic
+        ? (owned.alternatives as ReviewItem<T>['alternatives'])
+        : [],
+      ...(semantic && owned.reasoning ? {reasoning: owned.reasoning} : {}),
+      ...(owned.lineage ? {lineage: owned.lineage} : {}),
+      ...(options.reason !== undefined ? {reason: options.reason} : {}),
+      ...(options.metadata ? {metadata: {...options.metadata}} : {}),
+      ...(prediction ? {prediction} : {}),
+      createdAt: Date.now(),
+    };
+
+    await this.store.save(item);
+    return item;
+  }
+
+  /**
+   * Reads one item by ID.
+   */
+  async get<T = unknown>(id: string): Promise<ReviewItem<T> | undefined> {
+    return (await this.store.get(id)) as ReviewItem<T> | undefined;
+  }
+
+  /**
+   * Lists items, oldest first.
+   *
+   * @param filter - Optional status and scope filter
+   */
+  async list<T = unknown>(
+    filter: ReviewListFilter = {},
+  ): Promise<ReviewItem<T>[]> {
+    const items = await this.store.list();
+    return items.filter(
+      (item) =>
+        (filter.status === undefined || item.status === filter.status) &&
+        (filter.scope === undefined || item.scope === filter.scope),
+    ) as ReviewItem<T>[];
+  }
+
+  /**
+   * Lists pending items, oldest first.
+   *
+   * @param scope - Only items from this scope
+   */
+  pending<T = unknown>(scope?: string): Promise<ReviewItem<T>[]> {
+    return this.list<T>({status: 'pending', scope});
+  }
+
+  /**
+   * Accepts the model's value.
+   *
+   * @returns The approved value with confidence 1.0
+   * @throws {ReviewError} If the item is unknown, already resolved or not
+   *   in `options.scope`
+   */
+  approve<T = unknown, S extends string = string>(
+    id: string,
+    options: ScopedReviewDecisionOptions<S>,
+  ): Promise<Owned<T, S>>;
+  approve<T = unknown>(
+    id: string,
+    options: ReviewDecisionOptions,
+  ): Promise<Owned<T, string>>;
+  approve<T>(
+    id: string,
+    options: ReviewDecisionOptions,
+  ): Promise<Owned<T, string>> {
+    return this.resolve<T>(id, options, (item) => ({
+      decision: 'approve',
+      value: item.value,
+    }));
+  }
+
+  /**
+   * Replaces the model's value with one of its alternatives.
+   *
+   * @param index - Index into the item's `alternatives`
+   * @returns The chosen alternative with confidence 1.0
+   * @throws {ReviewError} If the item is unknown, already resolved or not
+   *   in `options.scope`, or the index is out of range
+   */
+  pickAlternative<T = unknown, S extends string = string>(
+    id: string,
+    index: number,
+    options: ScopedReviewDecisionOptions<S>,
+  ): Promise<Owned<T, S>>;
+  pickAlternative<T = unknown>(
+    id: string,
+    index: number,
+    options: ReviewDecisionOptions,
+  ): Promise<Owned<T, string>>;
+  pickAlternative<T>(
+    id: string,
+    index: number,
+    options: ReviewDecisionOptions,
+  ): Promise<Owned<T, string>> {
+    return this.resolve<T>(id, options, (item) => {
+      const alternative = Number.isInteger(index)
+        ? item.alternatives[index]
+        : undefined;
+      if (!alternative) {
+        throw new ReviewError(
+          `Review item '${id}' has no alternative at index ${index} ` +
+            `(${item.alternatives.length} available)`,
+          {traceId: item.traceId},
+        );
+      }
+
+      return {decision: 'alternative', value: alternative.value};
+    });
+  }
+
+  /**
+   * Replaces the model's value with the reviewer's own.
+   *
+   * @param value - The corrected value
+   * @returns The corrected value with confidence 1.0
+   * @throws {ReviewError} If the item is unknown, already resolved or not
+   *   in `options.scope`
+   */
+  override<T = unknown, S extends string = string>(
+    id: string,
+    value: T,
+    options: ScopedReviewDecisionOptions<S>,
+  ): Promise<Owned<T, S>>;
+  override<T = unknown>(
+    id: string,
+    value: T,
+    options: ReviewDecisionOptions,
+  ): Promise<Owned<T, string>>;
+  override<T>(
+    id: string,
+    value: T,
+    options: ReviewDecisionOptions,
+  ): Promise<Owned<T, string>> {
+    return this.resolve<T>(id, options, () => ({
+      decision: 'override',
+      value,
+    }));
+  }
+
+  private getRegistry(): CalibrationRegistry | undefined {
+    if (this.calibration === false) return undefined;
+    return this.calibration ?? getCalibrationRegistry();
+  }
+
+  private async resolve<T>(
+    id: string,
+    options: ReviewDecisionOptions,
+    decide: (item: ReviewItem<T>) => {decision: ReviewDecision; value: T},
+  ): Promise<Owned<T, string>> {
+    const {reviewer} = options;
+    if (typeof reviewer !== 'string' || reviewer.trim() === '') {
+      throw new ReviewError(
+        `Resolving review item '${id}' requires a non-empty reviewer`,
+      );
+    }
+
+    // Marked before the first await, so concurrent decisions on the same
+    // item cannot both pass the pending check
+    if (this.resolving.has(id)) {
+      throw new ReviewError(`Review item '${id}' is already being resolved`);
+    }
+    this.resolving.add(id);
+    try {
+      return await this.resolvePending<T>(id, options, decide);
+    } finally {
+      this.resolving.delete(id);
+    }
+  }
+
+  private async resolvePending<T>(
+    id: string,
+    {reviewer, note, scope}: ReviewDecisionOptions,
+    decide: (item: ReviewItem<T>) => {decision: ReviewDecision; value: T},
+  ): Promise<Owned<T, string>> {
+    const item = await this.get<T>(id);
+    if (!item) {
+      throw new ReviewError(`Unknown review item '${id}'`);
+    }
+    if (item.status === 'resolved') {
+      throw new ReviewError(`Review item '${id}' is already resolved`, {
+        traceId: item.traceId,
+      });
+    }
+    if (scope !== undefined && item.scope !== scope) {
+      throw new ReviewError(
+        `Review item '${id}' belongs to scope '${item.scope}', ` +
+          `not '${scope}'`,
+        {traceId: item.traceId},
+      );
+    }
+
+    const {decision, value} = decide(item);
+    const correct =
+      decision === 'approve' ||
+      (decision === 'override' &&
+        JSON.stringify(value) === JSON.stringify(item.value));
+    const resolvedAt = Date.now();
+
+    const resolved: ReviewItem<T> = {
+      ...item,
+      status: 'resolved',
+      resolution: {
+        decision,
+        value,
+        reviewer,
+        ...(note !== undefined ? {note} : {}),
+        correct,
+        resolvedAt,
+      },
+    };
+    await this.store.save(resolved);
+
+    const lineage = appendLineageHop(
+      {__scope: item.scope, traceId: item.traceId, lineage: item.lineage},
+      {
+        kind: 'review',
+        from: item.scope,
+        to: item.scope,
+        timestamp: resolvedAt,
+        reason: note ?? `Review ${decision}`,
+        approver: reviewer,
+        metadata: {reviewId: id, decision},
+      },
+    );
+
+    emitAuditEvent({
+      type: 'review',
+      timestamp: resolvedAt,
+      traceId: item.traceId,
+      scope: item.scope,
+      reviewId: id,
+      decision,
+      reviewer,
+      correct,
+    });
+
+    await this.emitFeedback(resolved, correct);
+
+    return createOwned({
+      value,
+      scope: item.scope,
+      confidence: 1.0,
+      traceId: item.traceId,
+      lineage,
+    });
+  }
+
+  private async emitFeedback(
+    item: ReviewItem,
+    correct: boolean,
+  ): Promise<void> {
+    const registry = this.getRegistry();
+    const prediction =
+      item.prediction ?? registry?.getTrackedPrediction(item.traceId);
+    const feedback: CalibrationFeedback = prediction
+      ? {
+          traceId: item.traceId,
+          correct,
+          predicted: prediction.confidence,
+          model: prediction.model,
+          ...(prediction.schema !== undefined
+            ? {schema: prediction.schema}
+            : {}),
+        }
+      : {traceId: item.traceId, correct, predicted: item.confidence};
+
+    // Only predictions the registry tracked carry the model and raw
+    // confidence calibration needs
+    if (registry && prediction) {
+      await registry.recordFeedback(feedback);
+    }
+
+    await this.onFeedback?.(feedback, item);
+  }
+}
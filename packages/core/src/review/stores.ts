@@ -0,0 +1,253 @@
+/**
+ * Review items and their storage backends.
+ *
+ * @module review/stores
+ */
+
+import type {TrackedPrediction} from '../calibration/registry.js';
+import {ReviewError} from '../errors.js';
+import type {Lineage} from '../lineage.js';
+import type {Alternative} from '../semantic-value.js';
+
+/**
+ * What a reviewer did with a queued value.
+ *
+ * - `approve`: kept the model's value
+ * - `alternative`: picked one of the value's alternatives
+ * - `override`: supplied a value of their own
+ */
+export type ReviewDecision = 'approve' | 'alternative' | 'override';
+
+/**
+ * Lifecycle state of a review item.
+ */
+export type ReviewStatus = 'pending' | 'resolved';
+
+/**
+ * A reviewer's decision about a queued value.
+ *
+ * @template T - Type of the reviewed value
+ */
+export interface ReviewResolution<T = unknown> {
+  /**
+   * What the reviewer did.
+   */
+  readonly decision: ReviewDecision;
+
+  /**
+   * The value the reviewer settled on.
+   */
+  readonly value: T;
+
+  /**
+   * Who resolved the item (user ID, email, role).
+   */
+  readonly reviewer: string;
+
+  /**
+   * Optional free-text note from the reviewer.
+   */
+  readonly note?: string;
+
+  /**
+   * Whether the model's original value was kept (approved, or overridden
+   * with an equal value). Used as calibration feedback.
+   */
+  readonly correct: boolean;
+
+  /**
+   * When the item was resolved (ms since epoch).
+   */
+  readonly resolvedAt: number;
+}
+
+/**
+ * A value waiting for (or resolved by) human review.
+ *
+ * Items hold the reviewed value itself, so the store must be at least as
+ * protected as the value's scope. File stores require JSON-serializable
+ * values.
+ *
+ * @template T - Type of the reviewed value
+ */
+export interface ReviewItem<T = unknown> {
+  /**
+   * Unique item ID.
+   */
+  readonly id: string;
+
+  /**
+   * Whether a reviewer has resolved the item.
+   */
+  readonly status: ReviewStatus;
+
+  /**
+   * Scope of the reviewed value.
+   */
+  readonly scope: string;
+
+  /**
+   * Trace ID of the reviewed value.
+   */
+  readonly traceId: string;
+
+  /**
+   * The value produced by the model.
+   */
+  readonly value: T;
+
+  /**
+   * Confidence of the value when it was queued.
+   */
+  readonly confidence: number;
+
+  /**
+   * Alternatives the reviewer can pick from (empty for plain Owned values).
+   */
+  readonly alternatives: readonly Alternative<T>[];
+
+  /**
+   * The model's reasoning, for SemanticValue items.
+   */
+  readonly reasoning?: string;
+
+  /**
+   * Lineage of the reviewed value.
+   */
+  readonly lineage?: Lineage;
+
+  /**
+   * Why the value was queued, e.g. `'confidence below 0.8'`.
+   */
+  readonly reason?: string;
+
+  /**
+   * Additional caller-supplied context for reviewers.
+   */
+  readonly metadata?: Readonly<Record<string, unknown>>;
+
+  /**
+   * Raw confidence, model and schema tracked by the calibration registry
+   * when the item was queued. Lets feedback be recorded after a restart.
+   */
+  readonly prediction?: TrackedPrediction;
+
+  /**
+   * When the item was queued (ms since epoch).
+   */
+  readonly createdAt: number;
+
+  /**
+   * The reviewer's decision, once resolved.
+   */
+  readonly resolution?: ReviewResolution<T>;
+}
+
+/**
+ * Persistence backend for review items.
+ */
+export interface ReviewStore {
+  /**
+   * Inserts an item, or replaces the item with the same ID.
+   */
+  save(item: ReviewItem): Promise<void>;
+
+  /**
+   * Reads one item by ID.
+   */
+  get(id: string): Promise<ReviewItem | undefined>;
+
+  /**
+   * Reads every item, in the order they were first saved.
+   */
+  list(): Promise<ReviewItem[]>;
+}
+
+/**
+ * In-memory review store.
+ *
+ * @example
+ * ```typescript
+ * const queue = new ReviewQueue({store: new MemoryReviewStore()});
+ * ```
+ */
+export class MemoryReviewStore implements ReviewStore {
+  private readonly items = new Map<string, ReviewItem>();
+
+  save(item: ReviewItem): Promise<void> {
+    this.items.set(item.id, Object.freeze({...item}));
+    return Promise.resolve();
+  }
+
+  get(id: string): Promise<ReviewItem | undefined> {
+    return Promise.resolve(this.items.get(id));
+  }
+
+  list(): Promise<ReviewItem[]> {
+    return Promise.resolve([...this.items.values()]);
+  }
+}
+
+/**
+ * Append-only JSON Lines file store.
+ *
+ * Every save appends a full snapshot of the item; the latest snapshot per ID
+ * wins on read, so the file doubles as a history of each item.
+ *
+ * Node.js only. `node:fs` is loaded lazily so importing `@mullion/core`
+ * stays browser-safe.
+ *
+ * @example
+ * ```typescript
+ * const queue = new ReviewQueue({
+ *   store: new JsonlFileReviewStore('./review-queue.jsonl'),
+ * });
+ * ```
+ */
+export class JsonlFileReviewStore implements ReviewStore {
+  readonly path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async save(item: ReviewItem): Promise<void> {
+    const {appendFile} = await import('node:fs/promises');
+    await appendFile(this.path, `${JSON.stringify(item)}\n`, 'utf8');
+  }
+
+  async get(id: string): Promise<ReviewItem | undefined> {
+    return (await this.list()).find((item) => item.id === id);
+  }
+
+  async list(): Promise<ReviewItem[]> {
+    const {readFile} = await import('node:fs/promises');
+
+    let content: string;
+    try {
+      content = await readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    // Map keeps first-insertion order while later snapshots replace values
+    const items = new Map<string, ReviewItem>();
+    content.split('\n').forEach((line, index) => {
+      if (line.trim() === '') return;
+
+      let item: ReviewItem;
+      try {
+        item = JSON.parse(line) as ReviewItem;
+      } catch (error) {
+        throw new ReviewError(
+          `Malformed review item at ${this.path}:${index + 1}`,
+          {cause: error},
+        );
+      }
+      items.set(item.id, item);
+    });
+
+    return [...items.values()];
+  }
+}
@@ -0,0 +1,332 @@
+/**
+ * Schema-driven field sensitivity.
+ *
+ * Zod schemas often mix fields that any scope may read with internal
+ * ones. Annotate the internal fields with the scope allowed to read them,
+ * either with `.meta({mullion: {sensitivity: 'internal'}})` or with
+ * {@link sensitive} (which also records the level in the type; other
+ * fields are optional in the result type), and
+ * {@link redactBySchema} copies a value keeping only the fields a target
+ * scope may read.
+ *
+ * @module schema-sensitivity
+ */
+
+import type {z} from 'zod';
+import type {Owned} from './owned.js';
+import type {ScopeRegistry} from './scope-registry.js';
+import {getScopeRegistry} from './scope-registry.js';
+
+/**
+ * Mullion metadata read from a schema's `.meta({mullion: ...})`.
+ */
+export interface MullionSchemaMeta {
+  /**
+   * Scope allowed to read the field. Fields without a sensitivity inherit
+   * the one of their parent (see `defaultSensitivity`).
+   */
+  readonly sensitivity?: string;
+}
+
+declare module 'zod/v4/core' {
+  interface GlobalMeta {
+    mullion?: MullionSchemaMeta;
+  }
+}
+
+declare const sensitivityBrand: unique symbol;
+
+/**
+ * A schema annotated with {@link sensitive}: the sensitivity is recorded
+ * in the type, so {@link redactBySchema} can drop the field statically.
+ *
+ * @template Sch - Annotated schema
+ * @template L - Scope allowed to read the field
+ */
+export type Sensitive<Sch extends z.ZodType, L extends string> = Sch & {
+  readonly [sensitivityBrand]?: L;
+};
+
+/**
+ * Sensitivity recorded by {@link sensitive} on a schema or the schema it
+ * wraps (optional, nullable, default), or never.
+ */
+type SensitivityOf<Sch> = Sch extends {readonly [sensitivityBrand]?: infer L}
+  ? unknown extends L
+    ? WrappedSensitivity<Sch>
+    : L
+  : WrappedSensitivity<Sch>;
+
+type WrappedSensitivity<Sch> =
+  Sch extends z.ZodOptional<infer I>
+    ? SensitivityOf<I>
+    : Sch extends z.ZodNullable<infer I>
+      ? SensitivityOf<I>
+      : Sch extends z.ZodDefault<infer I>
+        ? SensitivityOf<I>
+        : never;
+
+/**
+ * Keys annotated with {@link sensitive} for the target scope: always kept.
+ */
+type ReadableKeys<Shape extends z.ZodRawShape, TS extends string> = {
+  [K in keyof Shape]: [SensitivityOf<Shape[K]>] extends [never]
+    ? never
+    : TS extends SensitivityOf<Shape[K]>
+      ? K
+      : never;
+}[keyof Shape];
+
+/**
+ * Keys without a {@link sensitive} annotation: a `.meta()` annotation or
+ * `defaultSensitivity` may still drop them at runtime.
+ */
+type UnmarkedKeys<Shape extends z.ZodRawShape> = {
+  [K in keyof Shape]: [SensitivityOf<Shape[K]>] extends [never] ? K : never;
+}[keyof Shape];
+
+type RedactedShape<Sch, Shape extends z.ZodRawShape, TS extends string> = {
+  [K in ReadableKeys<Shape, TS> & keyof z.output<Sch>]: RedactedBySchema<
+    Shape[K],
+    TS
+  >;
+} & {
+  [K in UnmarkedKeys<Shape> & keyof z.output<Sch>]?: RedactedBySchema<
+    Shape[K],
+    TS
+  >;
+};
+
+/**
+ * Type of `redactBySchema(schema, owned, targetScope)`, recursively
+ * through objects, arrays and optional, nullable and default wrappers.
+ *
+ * Only {@link sensitive} annotations are visible to the type system: a
+ * field annotated with it is kept when its sensitivity is exactly `TS`
+ * and removed otherwise. Every other field may be dropped at runtime (by
+ * a `.meta()` annotation, an inherited one or `defaultSensitivity`), so
+ * it is optional in the result.
+ *
+ * @template Sch - Zod schema
+ * @template TS - Target scope
+ */
+export type RedactedBySchema<Sch, TS extends string> =
+  Sch extends z.ZodObject<infer Shape extends z.ZodRawShape>
+    ? {
+        [K in keyof RedactedShape<Sch, Shape, TS>]: RedactedShape<
+          Sch,
+          Shape,
+          TS
+        >[K];
+      }
+    : Sch extends z.ZodOptional<infer I>
+      ? RedactedBySchema<I, TS> | undefined
+      : Sch extends z.ZodNullable<infer I>
+        ? RedactedBySchema<I, TS> | null
+        : Sch extends z.ZodDefault<infer I>
+          ? RedactedBySchema<I, TS>
+          : Sch extends z.ZodArray<infer E>
+            ? RedactedBySchema<E, TS>[]
+            : Sch extends z.ZodType
+              ? z.output<Sch>
+              : never;
+
+/**
+ * Options for {@link redactBySchema}.
+ */
+export interface RedactBySchemaOptions {
+  /**
+   * Scope policy deciding whether the target scope may read a field's
+   * sensitivity (`registry.canRead(target, sensitivity)`). Without a
+   * registry, only fields whose sensitivity equals the target scope are
+   * readable.
+   *
+   * @default the registered scope registry
+   */
+  readonly registry?: ScopeRegistry;
+
+  /**
+   * Sensitivity of fields that are not annotated (and whose parents are
+   * not). Pass the owning scope to make unannotated fields private by
+   * default.
+   *
+   * @default undefined (unannotated fields are readable by every scope)
+   */
+  readonly defaultSensitivity?: string;
+}
+
+/**
+ * Zod v4 definition fields used to walk a schema.
+ */
+interface ZodDef {
+  type?: string;
+  shape?: Record<string, z.ZodType>;
+  element?: z.ZodType;
+  innerType?: z.ZodType;
+  valueType?: z.ZodType;
+}
+
+const OMITTED = Symbol('omitted');
+
+/**
+ * Annotates a schema with the scope allowed to read it.
+ *
+ * Equivalent to `.meta({mullion: {sensitivity}})` at runtime, but the
+ * sensitivity is also recorded in the type, so {@link redactBySchema}
+ * removes the field from its result type, or keeps it as required for
+ * the annotated scope.
+ *
+ * @param schema - Field schema
+ * @param sensitivity - Scope allowed to read the field
+ * @returns The annotated schema (a copy, as with `.meta()`)
+ *
+ * @example
+ * ```typescript
+ * const TicketSchema = z.object({
+ *   summary: z.string(),
+ *   internalNotes: sensitive(z.string(), 'admin'),
+ *   riskLevel: z.enum(['low', 'high']).meta({mullion: {sensitivity: 'admin'}}),
+ * });
+ * ```
+ */
+export function sensitive<Sch extends z.ZodType, L extends string>(
+  schema: Sch,
+  sensitivity: L,
+): Sensitive<Sch, L> {
+  const meta = schema.meta();
+  return schema.meta({
+    ...meta,
+    mullion: {...meta?.mullion, sensitivity},
+  }) as Sensitive<Sch, L>;
+}
+
+/**
+ * Reads the sensitivity annotated on a schema, looking through optional,
+ * nullable, default and readonly wrappers.
+ *
+ * @param schema - Field schema
+ * @returns The annotated scope, or undefined
+ */
+export function getSchemaSensitivity(schema: z.ZodType): string | undefined {
+  const own = schema.meta()?.mullion?.sensitivity;
+  if (own !== undefined) return own;
+
+  const def = (schema as unknown as {_zod: {def: ZodDef}})._zod.def;
+  return def.innerType && isWrapper(def.type)
+    ? getSchemaSensitivity(def.innerType)
+    : undefined;
+}
+
+function isWrapper(type: string | undefined): boolean {
+  return (
+    type === 'optional' ||
+    type === 'nullable' ||
+    type === 'default' ||
+    type === 'prefault' ||
+    type === 'readonly' ||
+    type === 'catch'
+  );
+}
+
+/**
+ * Copies an Owned value keeping only the fields `targetScope` may read,
+ * according to the sensitivities annotated on `schema`.
+ *
+ * Fields are walked through objects, arrays, records and wrapper schemas.
+ * A field annotated for another scope is dropped with everything below it;
+ * unannotated leaves inherit the nearest annotation (or
+ * `defaultSensitivity`), while containers are only dropped by their own
+ * annotation. Keys that are not in the schema are dropped. Other schemas
+ * (unions, tuples, ...) are kept or dropped as a whole.
+ *
+ * The result is a plain value: wrap it with `createOwned()` and `bridge()`
+ * or `declassify()` it to the target scope as your scope policy requires.
+ *
+ * @param schema - Schema the value was inferred with
+ * @param owned - Value to redact
+ * @param targetScope - Scope that will read the result
+ * @param options - Scope policy and default sensitivity
+ * @returns A structurally identical copy without unreadable fields
+ *
+ * @example
+ * ```typescript
+ * const scopes = defineScopes({levels: ['public', 'internal', 'admin']});
+ *
+ * const TicketSchema = z.object({
+ *   summary: z.string(),
+ *   internalNotes: sensitive(z.string(), 'admin'),
+ * });
+ *
+ * const shared = redactBySchema(TicketSchema, analysis, 'public', {
+ *   registry: scopes,
+ * });
+ * // shared: {summary?: string}
+ * ```
+ */
+export function redactBySchema<
+  Sch extends z.ZodType,
+  S extends string,
+  TS extends string,
+>(
+  schema: Sch,
+  owned: Owned<z.output<Sch>, S>,
+  targetScope: TS,
+  options: RedactBySchemaOptions = {},
+): RedactedBySchema<Sch, TS> {
+  const registry = options.registry ?? getScopeRegistry();
+  const canRead = (sensitivity: string): boolean =>
+    sensitivity === targetScope ||
+    (registry?.canRead(targetScope, sensitivity) ?? false);
+
+  const walk = (
+    current: z.ZodType,
+    value: unknown,
+    inherited: string | undefined,
+  ): unknown => {
+    const own = getSchemaSensitivity(current);
+    if (own !== undefined && !canRead(own)) return OMITTED;
+    const sensitivity = own ?? inherited;
+
+    const def = (current as unknown as {_zod: {def: ZodDef}})._zod.def;
+    if (def.innerType && isWrapper(def.type)) {
+      return walk(def.innerType, value, sensitivity);
+    }
+
+    if (def.type === 'object' && def.shape && isRecord(value)) {
+      const result: Record<string, unknown> = {};
+      for (const [key, field] of Object.entries(def.shape)) {
+        if (!(key in value)) continue;
+        const redacted = walk(field, value[key], sensitivity);
+        if (redacted !== OMITTED) result[key] = redacted;
+      }
+      return result;
+    }
+
+    if (def.type === 'array' && def.element && Array.isArray(value)) {
+      const element = def.element;
+      return value
+        .map((item) => walk(element, item, sensitivity))
+        .filter((item) => item !== OMITTED);
+    }
+
+    if (def.type === 'record' && def.valueType && isRecord(value)) {
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        const redacted = walk(def.valueType, item, sensitivity);
+        if (redacted !== OMITTED) result[key] = redacted;
+      }
+      return result;
+    }
+
+    // Inherited sensitivities (and the default) apply to leaves only, so
+    // readable fields of a container stay reachable
+    return sensitivity !== undefined && !canRead(sensitivity) ? OMITTED : value;
+  };
+
+  const result = walk(schema, owned.value, options.defaultSensitivity);
+  return (result === OMITTED ? undefined : result) as RedactedBySchema<Sch, TS>;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,222 @@
+import {afterEach, describe, expect, expectTypeOf, it} from 'vitest';
+import {bridge, bridgeMultiple, bridgeWithMetadata} from './bridge.js';
+import {declassify} from './declassify.js';
+import type {Owned} from './owned.js';
+import {createOwned} from './owned.js';
+import {scope} from './scope.js';
+import {
+  assertOwnedScopeFlow,
+  assertScopeFlow,
+  clearScopeRegistry,
+  defineScopes,
+  getScopeRegistry,
+  setScopeRegistry,
+} from './scope-registry.js';
+
+const scopes = defineScopes({
+  levels: ['public', 'internal', 'confidential'],
+  allow: [{from: 'confidential', to: 'legal'}],
+  forbid: [{from: 'internal', to: 'confidential'}],
+});
+
+describe('scope registry', () => {
+  afterEach(() => {
+    clearScopeRegistry();
+  });
+
+  describe('defineScopes()', () => {
+    it('should rank levels from least to most restrictive', () => {
+      expect(scopes.rank('public')).toBe(0);
+      expect(scopes.rank('confidential')).toBe(2);
+      expect(scopes.rank('unknown')).toBeUndefined();
+      expect(scopes.has('internal')).toBe(true);
+      expect(scopes.has('legal')).toBe(false);
+    });
+
+    it('should reject empty and duplicate levels', () => {
+      expect(() => defineScopes({levels: []})).toThrow(/at least one level/);
+      expect(() => defineScopes({levels: ['a', 'b', 'a']})).toThrow(
+        /duplicate level 'a'/,
+      );
+    });
+
+    it('should reject flows that are both allowed and forbidden', () => {
+      expect(() =>
+        defineScopes({
+          levels: ['a', 'b'],
+          allow: [{from: 'b', to: 'a'}],
+          forbid: [{from: 'b', to: 'a'}],
+        }),
+      ).toThrow(/both allowed and forbidden/);
+    });
+  });
+
+  describe('canFlow()', () => {
+    it('should allow upward and same-level flows', () => {
+      expect(scopes.canFlow('public', 'internal')).toBe(true);
+      expect(scopes.canFlow('public', 'confidential')).toBe(true);
+      expect(scopes.canFlow('internal', 'internal')).toBe(true);
+    });
+
+    it('should reject downward flows', () => {
+      expect(scopes.canFlow('confidential', 'public')).toBe(false);
+      expect(scopes.canFlow('internal', 'public')).toBe(false);
+    });
+
+    it('should apply explicit allow and forbid rules', () => {
+      expect(scopes.canFlow('confidential', 'legal')).toBe(true);
+      expect(scopes.canFlow('internal', 'confidential')).toBe(false);
+    });
+
+    it('should allow undeclared scopes by default', () => {
+      expect(scopes.canFlow('confidential', 'scratch')).toBe(true);
+    });
+
+    it('should deny undeclared scopes when configured', () => {
+      const strict = defineScopes({
+        levels: ['public', 'internal'],
+        undeclared: 'deny',
+      });
+
+      expect(strict.canFlow('public', 'scratch')).toBe(false);
+      expect(strict.canFlow('scratch', 'scratch')).toBe(true);
+    });
+  });
+
+  describe('access helpers', () => {
+    it('should check read access from the reader perspective', () => {
+      expect(scopes.canRead('internal', 'public')).toBe(true);
+      expect(scopes.canRead('public', 'internal')).toBe(false);
+    });
+
+    it('should filter items down to readable ones', () => {
+      const docs = [
+        {id: 1, accessLevel: 'public'},
+        {id: 2, accessLevel: 'internal'},
+        {id: 3, accessLevel: 'confidential'},
+      ];
+
+      const readable = scopes.filterReadable(
+        docs,
+        'internal',
+        (doc) => doc.accessLevel,
+      );
+
+      expect(readable.map((doc) => doc.id)).toEqual([1, 2]);
+    });
+
+    it('should join to the most restrictive level', () => {
+      expect(scopes.join('public', 'confidential', 'internal')).toBe(
+        'confidential',
+      );
+      expect(scopes.join('public')).toBe('public');
+      expect(() => scopes.join()).toThrow(/at least one scope/);
+    });
+  });
+
+  describe('registry.bridge()', () => {
+    it('should bridge permitted flows', () => {
+      const value = createOwned({value: 'data', scope: 'public'});
+      const bridged = scopes.bridge(value, 'internal');
+
+      expect(bridged.__scope).toBe('internal');
+      expect(bridged.lineage?.hops).toHaveLength(1);
+    });
+
+    it('should throw on forbidden flows at runtime', () => {
+      const value = createOwned({value: 'data', scope: 'confidential'});
+
+      expect(() =>
+        // @ts-expect-error - downward flow is rejected at compile time
+        scopes.bridge(value, 'public'),
+      ).toThrow(/may not flow/);
+    });
+
+    it('should accept undeclared sources unless they are denied', () => {
+      const draft = createOwned({value: 'data', scope: 'draft'});
+
+      const bridged = scopes.bridge(draft, 'public');
+      expect(bridged.__scope).toBe('public');
+      expectTypeOf(bridged).toEqualTypeOf<Owned<string, 'draft' | 'public'>>();
+
+      const strict = defineScopes({
+        levels: ['public', 'internal'],
+        undeclared: 'deny',
+      });
+      expect(() =>
+        // @ts-expect-error - undeclared scopes are denied
+        strict.bridge(draft, 'public'),
+      ).toThrow(/may not flow/);
+    });
+  });
+
+  describe('global enforcement', () => {
+    it('should not restrict bridges when no registry is registered', () => {
+      const value = createOwned({value: 'data', scope: 'confidential'});
+
+      expect(getScopeRegistry()).toBeUndefined();
+      expect(bridge(value, 'public').__scope).toBe('public');
+    });
+
+    it('should enforce the registered policy on standalone bridges', () => {
+      setScopeRegistry(scopes);
+      const value = createOwned({value: 'data', scope: 'confidential'});
+
+      expect(() => bridge(value, 'public')).toThrow(/may not flow/);
+      expect(() => bridgeMultiple([value], 'internal')).toThrow(/may not flow/);
+      expect(() => bridgeWithMetadata(value, 'public')).toThrow(/may not flow/);
+      expect(bridge(value, 'legal').__scope).toBe('legal');
+    });
+
+    it('should enforce the registered policy on Context.bridge()', async () => {
+      setScopeRegistry(scopes);
+      const value = createOwned({value: 'data', scope: 'confidential'});
+
+      await expect(
+        scope('public', async (ctx) => ctx.bridge(value)),
+      ).rejects.toThrow(/may not flow/);
+    });
+
+    it('should check every scope in the lineage', async () => {
+      setScopeRegistry(scopes);
+      const value = createOwned({value: 'data', scope: 'confidential'});
+      // 'legal' is undeclared, so each hop on its own would be allowed
+      const laundered = bridge(value, 'legal');
+
+      expect(() => bridge(laundered, 'public')).toThrow(
+        /'confidential' may not flow to scope 'public'/,
+      );
+      expect(() =>
+        // @ts-expect-error - the type of laundered keeps 'confidential'
+        scopes.bridge(laundered, 'public'),
+      ).toThrow(/may not flow/);
+      await expect(
+        scope('public', async (ctx) => ctx.bridge(laundered)),
+      ).rejects.toThrow(/may not flow/);
+      expect(() => assertOwnedScopeFlow(laundered, 'public')).toThrow(
+        /may not flow/,
+      );
+    });
+
+    it('should not check scopes released by declassify()', () => {
+      setScopeRegistry(scopes);
+      const value = bridge(
+        createOwned({value: 'data', scope: 'confidential'}),
+        'legal',
+      );
+      const released = declassify(value, {to: 'public', reason: 'Published'});
+
+      expect(bridge(released, 'internal').__scope).toBe('internal');
+    });
+
+    it('should expose assertScopeFlow for integration packages', () => {
+      expect(() => assertScopeFlow('confidential', 'public')).not.toThrow();
+
+      setScopeRegistry(scopes);
+
+      expect(() => assertScopeFlow('confidential', 'public')).toThrow(
+        /'confidential' may not flow to scope 'public'/,
+      );
+    });
+  });
+});
@@ -0,0 +1,515 @@
+import {emitAuditEvent} from './audit/sink.js';
+import type {BridgeOptions} from './bridge.js';
+import {bridge} from './bridge.js';
+import type {Lineage} from './lineage.js';
+import {getLineageScopes} from './lineage.js';
+import type {Owned} from './owned.js';
+import {
+  InvalidArgumentError,
+  InvalidConfigurationError,
+  ScopeFlowViolationError,
+} from './errors.js';
+
+/**
+ * Declarative scope lattice with an enforced flow policy.
+ *
+ * Scopes are free-form string literals by default. `defineScopes()` declares
+ * an ordering (e.g. `public < internal < confidential`) plus explicit allowed
+ * and forbidden flows. Once registered with {@link setScopeRegistry}, every
+ * bridge path checks the policy at runtime against every scope in the
+ * value's lineage, and the registry's own {@link ScopeRegistry.bridge}
+ * rejects downward flows at compile time.
+ *
+ * The standalone `bridge()` and `bridgeMultiple()` are only checked at
+ * runtime: the registry is registered at runtime and their types do not
+ * refer to it. Use {@link ScopeRegistry.bridge} where a compile-time check
+ * is wanted.
+ *
+ * @module scope-registry
+ */
+
+/**
+ * A directed flow between two scopes.
+ *
+ * @template From - Source scope
+ * @template To - Target scope
+ */
+export interface ScopeFlow<
+  From extends string = string,
+  To extends string = string,
+> {
+  readonly from: From;
+  readonly to: To;
+}
+
+/**
+ * How flows involving scopes that are not declared in the lattice are handled.
+ *
+ * - `allow`: undeclared scopes are not governed by the policy
+ * - `deny`: any flow to or from an undeclared scope is rejected
+ */
+export type UndeclaredScopeBehavior = 'allow' | 'deny';
+
+/**
+ * Definition passed to {@link defineScopes}.
+ *
+ * @template L - Ordered scope levels, least restrictive first
+ * @template A - Explicitly allowed flows
+ * @template F - Explicitly forbidden flows
+ * @template U - Handling of undeclared scopes
+ */
+export interface ScopeDefinition<
+  L extends readonly string[],
+  A extends readonly ScopeFlow[],
+  F extends readonly ScopeFlow[],
+  U extends UndeclaredScopeBehavior = UndeclaredScopeBehavior,
+> {
+  /**
+   * Scope levels ordered from least to most restrictive.
+   *
+   * Data may flow from a level to itself or any level after it.
+   */
+  readonly levels: L;
+
+  /**
+   * Additional flows permitted on top of the ordering.
+   *
+   * Useful for scopes outside the lattice (e.g. `confidential → legal`).
+   */
+  readonly allow?: A;
+
+  /**
+   * Flows rejected even if the ordering or `allow` would permit them.
+   */
+  readonly forbid?: F;
+
+  /**
+   * How to treat scopes that are not declared in `levels`.
+   *
+   * @default 'allow'
+   */
+  readonly undeclared?: U;
+}
+
+/**
+ * Levels at or above the most restrictive member of `S`.
+ *
+ * @internal
+ */
+type UpwardScopes<
+  L extends readonly string[],
+  S extends string,
+> = L extends readonly [
+  infer Head extends string,
+  ...infer Tail extends readonly string[],
+]
+  ? [Extract<S, Tail[number]>] extends [never]
+    ? Head extends S
+      ? L[number]
+      : never
+    : UpwardScopes<Tail, S>
+  : never;
+
+/**
+ * Any scope when `S` is undeclared and undeclared scopes are allowed.
+ *
+ * @internal
+ */
+type UndeclaredSourceTargets<
+  L extends readonly string[],
+  U extends UndeclaredScopeBehavior,
+  S extends string,
+> = U extends 'allow'
+  ? [Extract<S, L[number]>] extends [never]
+    ? string
+    : never
+  : never;
+
+/**
+ * Scopes a value in scope `S` may flow to under a registry's policy.
+ *
+ * Combines the lattice ordering with explicitly allowed flows and removes
+ * explicitly forbidden ones. With `undeclared: 'allow'`, an undeclared `S`
+ * may flow to any scope (`string`). Undeclared targets of a declared `S`
+ * are only included when listed in `allow`, although the runtime check
+ * permits them.
+ *
+ * @example
+ * ```typescript
+ * type Targets = FlowTargets<
+ *   readonly ['public', 'internal', 'confidential'],
+ *   readonly [],
+ *   readonly [],
+ *   'internal'
+ * >;
+ * // 'internal' | 'confidential'
+ * ```
+ */
+export type FlowTargets<
+  L extends readonly string[],
+  A extends readonly ScopeFlow[],
+  F extends readonly ScopeFlow[],
+  S extends string,
+  U extends UndeclaredScopeBehavior = 'allow',
+> = Exclude<
+  | UpwardScopes<L, S>
+  | UndeclaredSourceTargets<L, U, S>
+  | Extract<A[number], {from: S}>['to'],
+  Extract<F[number], {from: S}>['to']
+>;
+
+/**
+ * A declared scope lattice with its flow policy.
+ *
+ * @template L - Ordered scope levels, least restrictive first
+ * @template A - Explicitly allowed flows
+ * @template F - Explicitly forbidden flows
+ * @template U - Handling of undeclared scopes
+ */
+export interface ScopeRegistry<
+  L extends readonly string[] = readonly string[],
+  A extends readonly ScopeFlow[] = readonly ScopeFlow[],
+  F extends readonly ScopeFlow[] = readonly ScopeFlow[],
+  U extends UndeclaredScopeBehavior = UndeclaredScopeBehavior,
+> {
+  /**
+   * Declared levels, least restrictive first.
+   */
+  readonly levels: L;
+
+  /**
+   * Whether a scope is declared in the lattice.
+   */
+  has(scope: string): scope is L[number];
+
+  /**
+   * Position of a scope in the lattice (0 = least restrictive), or
+   * undefined for undeclared scopes.
+   */
+  rank(scope: string): number | undefined;
+
+  /**
+   * Whether data may flow from `from` to `to` under this policy.
+   *
+   * Evaluation order: forbidden flows, allowed flows, identity, ordering,
+   * then the `undeclared` behavior.
+   */
+  canFlow(from: string, to: string): boolean;
+
+  /**
+   * Throws if data may not flow from `from` to `to`, after emitting a
+   * `flow-policy` scope violation audit event.
+   *
+   * @throws {ScopeFlowViolationError} If the flow violates the policy
+   */
+  assertFlow(from: string, to: string): void;
+
+  /**
+   * Throws if a value may not flow to `to`: checks the flow from every
+   * scope in its lineage since it was last declassified, so data routed
+   * through an intermediate (e.g. undeclared) scope keeps the restrictions
+   * of the scopes it came from.
+   *
+   * @throws {ScopeFlowViolationError} If any of the flows violates the policy
+   */
+  assertOwnedFlow(owned: OwnedLike, to: string): void;
+
+  /**
+   * Whether a reader in scope `reader` may see data owned by `dataScope`.
+   *
+   * Equivalent to `canFlow(dataScope, reader)`.
+   */
+  canRead(reader: string, dataScope: string): boolean;
+
+  /**
+   * Filters items down to the ones a reader may see.
+   *
+   * @param items - Items to filter
+   * @param reader - Scope of the reader
+   * @param scopeOf - Extracts the owning scope from an item
+   */
+  filterReadable<I>(
+    items: readonly I[],
+    reader: string,
+    scopeOf: (item: I) => string,
+  ): I[];
+
+  /**
+   * Most restrictive declared scope among the given scopes.
+   *
+   * @throws {InvalidArgumentError} If no scopes are given or any scope is
+   *   undeclared
+   */
+  join<S extends L[number]>(...scopes: S[]): S;
+
+  /**
+   * Bridges a value, rejecting downward flows at compile time and checking
+   * the full policy at runtime. With `undeclared: 'allow'`, values in
+   * undeclared scopes may be bridged anywhere at compile time; see
+   * {@link FlowTargets}.
+   *
+   * @example
+   * ```typescript
+   * const scopes = defineScopes({
+   *   levels: ['public', 'internal', 'confidential'],
+   * });
+   *
+   * scopes.bridge(publicValue, 'internal'); // ✅
+   * scopes.bridge(confidentialValue, 'public'); // ❌ compile-time error
+   * ```
+   */
+  bridge<T, S extends string, TS extends FlowTargets<L, A, F, S, U>>(
+    owned: Owned<T, S>,
+    targetScope: TS,
+    options?: BridgeOptions,
+  ): Owned<T, S | TS>;
+}
+
+/**
+ * Scope and lineage of a value checked by {@link ScopeRegistry.assertOwnedFlow}.
+ *
+ * @internal
+ */
+interface OwnedLike {
+  readonly __scope: string;
+  readonly traceId: string;
+  readonly lineage?: Lineage;
+}
+
+/**
+ * Declares a scope lattice and its flow policy.
+ *
+ * Levels are ordered from least to most restrictive; data may flow upward
+ * (towards more restrictive scopes) but not downward. `allow` adds flows the
+ * ordering does not imply and `forbid` removes flows it does.
+ *
+ * Call {@link setScopeRegistry} to enforce the policy on every bridge.
+ *
+ * @param definition - Levels and explicit flows
+ * @returns A scope registry
+ * @throws {InvalidConfigurationError} If levels are empty or duplicated, or
+ *   a flow is both allowed and forbidden
+ *
+ * @example
+ * ```typescript
+ * export const scopes = defineScopes({
+ *   levels: ['public', 'internal', 'confidential'],
+ *   allow: [{from: 'confidential', to: 'legal-hold'}],
+ *   forbid: [{from: 'internal', to: 'confidential'}],
+ * });
+ *
+ * setScopeRegistry(scopes);
+ *
+ * scopes.canFlow('public', 'internal'); // true
+ * scopes.canFlow('confidential', 'public'); // false
+ * scopes.join('public', 'confidential'); // 'confidential'
+ *
+ * bridge(confidentialValue, 'public'); // throws at runtime
+ * ```
+ */
+export function defineScopes<
+  const L extends readonly string[],
+  const A extends readonly ScopeFlow[] = readonly [],
+  const F extends readonly ScopeFlow[] = readonly [],
+  const U extends UndeclaredScopeBehavior = 'allow',
+>(definition: ScopeDefinition<L, A, F, U>): ScopeRegistry<L, A, F, U> {
+  const {levels, allow = [], forbid = [], undeclared = 'allow'} = definition;
+
+  if (levels.length === 0) {
+    throw new InvalidConfigurationError(
+      'defineScopes() requires at least one level',
+    );
+  }
+
+  const ranks = new Map<string, number>();
+  levels.forEach((level, index) => {
+    if (ranks.has(level)) {
+      throw new InvalidConfigurationError(
+        `defineScopes() received duplicate level '${level}'`,
+      );
+    }
+    ranks.set(level, index);
+  });
+
+  const flowKey = (from: string, to: string): string => `${from}\u0000${to}`;
+  const allowed = new Set(allow.map((flow) => flowKey(flow.from, flow.to)));
+  const forbidden = new Set(forbid.map((flow) => flowKey(flow.from, flow.to)));
+
+  for (const flow of allow) {
+    if (forbidden.has(flowKey(flow.from, flow.to))) {
+      throw new InvalidConfigurationError(
+        `defineScopes() flow '${flow.from}' → '${flow.to}' is both allowed and forbidden`,
+      );
+    }
+  }
+
+  function canFlow(from: string, to: string): boolean {
+    const key = flowKey(from, to);
+    if (forbidden.has(key)) return false;
+    if (allowed.has(key)) return true;
+    if (from === to) return true;
+
+    const fromRank = ranks.get(from);
+    const toRank = ranks.get(to);
+    if (fromRank !== undefined && toRank !== undefined) {
+      return fromRank <= toRank;
+    }
+
+    return undeclared === 'allow';
+  }
+
+  function assertFlow(from: string, to: string): void {
+    if (canFlow(from, to)) return;
+
+    emitAuditEvent({
+      type: 'scope-violation',
+      timestamp: Date.now(),
+      check: 'flow-policy',
+      from,
+      to,
+    });
+    throw new ScopeFlowViolationError(
+      `Scope flow violation: data in scope '${from}' may not flow to scope '${to}' ` +
+        'under the registered scope policy. Use declassify() with a reason ' +
+        'to release it explicitly.',
+      {sourceScope: from, targetScope: to},
+    );
+  }
+
+  const registry: ScopeRegistry<L, A, F, U> = {
+    levels,
+
+    has(scope: string): scope is L[number] {
+      return ranks.has(scope);
+    },
+
+    rank(scope) {
+      return ranks.get(scope);
+    },
+
+    canFlow,
+    assertFlow,
+
+    assertOwnedFlow(owned, to) {
+      for (const from of getLineageScopes(owned)) {
+        assertFlow(from, to);
+      }
+    },
+
+    canRead(reader, dataScope) {
+      return canFlow(dataScope, reader);
+    },
+
+    filterReadable(items, reader, scopeOf) {
+      return items.filter((item) => canFlow(scopeOf(item), reader));
+    },
+
+    join<S extends L[number]>(...scopes: S[]): S {
+      if (scopes.length === 0) {
+        throw new InvalidArgumentError('join() requires at least one scope');
+      }
+
+      let highest = scopes[0];
+      for (const scope of scopes) {
+        const rank = ranks.get(scope);
+        if (rank === undefined) {
+          throw new InvalidArgumentError(
+            `join() received undeclared scope '${scope}'`,
+          );
+        }
+        if (rank > (ranks.get(highest) ?? -1)) {
+          highest = scope;
+        }
+      }
+
+      return highest;
+    },
+
+    bridge<T, S extends string, TS extends FlowTargets<L, A, F, S, U>>(
+      owned: Owned<T, S>,
+      targetScope: TS,
+      options?: BridgeOptions,
+    ): Owned<T, S | TS> {
+      registry.assertOwnedFlow(owned, targetScope);
+      return bridge(owned, targetScope, options);
+    },
+  };
+
+  return registry;
+}
+
+/**
+ * Global scope registry consulted by every bridge path.
+ *
+ * @internal
+ */
+let globalScopeRegistry: ScopeRegistry | undefined;
+
+/**
+ * Registers the scope registry enforced by all bridge operations.
+ *
+ * After registration, `bridge`, `bridgeSemantic`, `bridgeMultiple`,
+ * `bridgeWithMetadata` and `Context.bridge` throw when a flow violates the
+ * policy.
+ *
+ * @param registry - The registry to enforce
+ *
+ * @example
+ * ```typescript
+ * setScopeRegistry(
+ *   defineScopes({levels: ['public', 'internal', 'confidential']}),
+ * );
+ * ```
+ */
+export function setScopeRegistry(registry: ScopeRegistry): void {
+  globalScopeRegistry = registry;
+}
+
+/**
+ * Gets the currently registered scope registry.
+ *
+ * @returns The registered registry, or undefined if none registered
+ */
+export function getScopeRegistry(): ScopeRegistry | undefined {
+  return globalScopeRegistry;
+}
+
+/**
+ * Clears the registered scope registry.
+ *
+ * Primarily used for testing to reset state between tests.
+ */
+export function clearScopeRegistry(): void {
+  globalScopeRegistry = undefined;
+}
+
+/**
+ * Checks a flow against the registered scope registry, if any.
+ *
+ * Integration packages call this from their own `Context.bridge()`
+ * implementations so every bridge path enforces the same policy.
+ *
+ * @param from - Source scope
+ * @param to - Target scope
+ * @throws {ScopeFlowViolationError} If a registry is registered and the
+ *   flow violates it
+ */
+export function assertScopeFlow(from: string, to: string): void {
+  globalScopeRegistry?.assertFlow(from, to);
+}
+
+/**
+ * Checks the flow of a value to a scope against the registered scope
+ * registry, if any, including every scope in the value's lineage.
+ *
+ * Integration packages call this from their own `Context.bridge()`
+ * implementations so every bridge path enforces the same policy.
+ *
+ * @param owned - Value being bridged
+ * @param to - Target scope
+ * @throws {ScopeFlowViolationError} If a registry is registered and a flow
+ *   from any scope in the value's lineage violates it
+ */
+export function assertOwnedScopeFlow(owned: OwnedLike, to: string): void {
+  globalScopeRegistry?.assertOwnedFlow(owned, to);
+}
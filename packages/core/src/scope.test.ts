@@ -106,6 +106,39 @@ describe('scope', () => {
         expect(bridged2.value).toBe('data');
       });
     });
+
+    it('should record each hop in the lineage', async () => {
+      const value1: Owned<string, 'scope1'> = createOwned({
+        value: 'data',
+        scope: 'scope1',
+      });
+
+      const bridged1 = await scope('scope2', async (ctx) =>
+        ctx.bridge(value1, {reason: 'enrich'}),
+      );
+      const bridged2 = await scope('scope3', async (ctx) =>
+        ctx.bridge(bridged1, {metadata: {ticketId: 'T-1'}}),
+      );
+
+      expect(bridged2.lineage?.origin).toBe('scope1');
+      expect(bridged2.lineage?.hops).toEqual([
+        expect.objectContaining({
+          kind: 'context',
+          from: 'scope1',
+          to: 'scope2',
+          context: 'scope2',
+          reason: 'enrich',
+        }),
+        expect.objectContaining({
+          kind: 'context',
+          from: 'scope2',
+          to: 'scope3',
+          context: 'scope3',
+          metadata: {ticketId: 'T-1'},
+        }),
+      ]);
+      expect(value1.lineage?.hops).toHaveLength(0);
+    });
   });
 
   describe('Context.use()', () => {
@@ -1,5 +1,10 @@
+import {emitAuditEvent, emitBridgeAuditEvent} from './audit/sink.js';
+import type {BridgeOptions} from './bridge.js';
 import type {Context, Schema, InferOptions} from './context.js';
+import {appendLineageHop} from './lineage.js';
 import type {Owned} from './owned.js';
+import {assertOwnedScopeFlow} from './scope-registry.js';
+import {InvalidConfigurationError, ScopeMismatchError} from './errors.js';
 
 /**
  * Creates a scoped execution context for LLM operations.
@@ -92,7 +97,7 @@ export async function scope<S extends string, R>(
       _options?: InferOptions,
     ): Promise<Owned<T, S>> {
       return Promise.reject(
-        new Error(
+        new InvalidConfigurationError(
           'Context.infer() is not implemented. ' +
             'This method is a placeholder provided by @mullion/core. ' +
             'To use LLM inference, install an integration package like @mullion/ai-sdk ' +
@@ -104,14 +109,35 @@ export async function scope<S extends string, R>(
     /**
      * Bridge method - transfers a value from another scope into this scope
      * Creates a union type that tracks both source and destination scopes
+     * and records the hop in the value's lineage
      */
-    bridge<T, OS extends string>(owned: Owned<T, OS>): Owned<T, S | OS> {
+    bridge<T, OS extends string>(
+      owned: Owned<T, OS>,
+      options: BridgeOptions = {},
+    ): Owned<T, S | OS> {
+      // Enforce the registered scope policy, if any
+      assertOwnedScopeFlow(owned, name);
+
+      const lineage = appendLineageHop(owned, {
+        kind: 'context',
+        from: owned.__scope,
+        to: name,
+        context: name,
+        reason: options.reason,
+        metadata: options.metadata,
+      });
+      emitBridgeAuditEvent(
+        owned.traceId,
+        lineage.hops[lineage.hops.length - 1],
+      );
+
       // Create new Owned value with union scope
       return {
         value: owned.value,
         confidence: owned.confidence,
         __scope: name as S | OS, // TypeScript knows this is S | OS from the return type
         traceId: owned.traceId,
+        lineage,
       };
     },
 
@@ -122,9 +148,19 @@ export async function scope<S extends string, R>(
     use<T>(owned: Owned<T, S>): T {
       // Runtime validation that the scope matches
       if (owned.__scope !== name) {
-        throw new Error(
+        emitAuditEvent({
+          type: 'scope-violation',
+          timestamp: Date.now(),
+          check: 'use',
+          from: owned.__scope,
+          to: name,
+          traceId: owned.traceId,
+        });
+        throw new ScopeMismatchError(
           `Scope mismatch: attempting to use value from scope '${owned.__scope}' ` +
             `in scope '${name}'. Use bridge() to explicitly transfer values between scopes.`,
+          {sourceScope: owned.__scope, targetScope: name, check: 'use'},
+          {traceId: owned.traceId},
         );
       }
 
@@ -1,7 +1,10 @@
-import {describe, expect, it} from 'vitest';
+import {describe, expect, it, vi} from 'vitest';
+import {MemoryCacheStore} from './cache/memory-store.js';
 import {createOwned} from './owned.js';
+import type {CacheKey} from './scoped-cache.js';
 import {
   assertOwnedScope,
+  createAsyncScopedCache,
   createCacheKey,
   createScopedCache,
 } from './scoped-cache.js';
@@ -36,3 +39,135 @@ describe('scoped cache', () => {
     );
   });
 });
+
+describe('async scoped cache', () => {
+  it('namespaces keys by scope on a shared store', async () => {
+    const store = new MemoryCacheStore();
+    const tenantA = createAsyncScopedCache<'tenant-a', string>(
+      'tenant-a',
+      store,
+    );
+    const tenantB = createAsyncScopedCache<'tenant-b', string>(
+      'tenant-b',
+      store,
+    );
+
+    await tenantA.set(
+      createCacheKey('tenant-a', 'doc:1'),
+      createOwned({value: 'a', scope: 'tenant-a'}),
+    );
+    await tenantB.set(
+      createCacheKey('tenant-b', 'doc:1'),
+      createOwned({value: 'b', scope: 'tenant-b'}),
+    );
+
+    expect(
+      (await tenantA.get(createCacheKey('tenant-a', 'doc:1')))?.value,
+    ).toBe('a');
+    expect(
+      (await tenantB.get(createCacheKey('tenant-b', 'doc:1')))?.value,
+    ).toBe('b');
+
+    await tenantA.clear();
+    expect(await tenantA.has(createCacheKey('tenant-a', 'doc:1'))).toBe(false);
+    expect(await tenantB.has(createCacheKey('tenant-b', 'doc:1'))).toBe(true);
+  });
+
+  it('keeps namespaces containing the separator apart', async () => {
+    const store = new MemoryCacheStore();
+    const key = createCacheKey('admin', 'doc:1');
+    const outer = createAsyncScopedCache<'admin', string>('admin', store);
+    const nested = createAsyncScopedCache<'admin', string>('admin', store, {
+      namespace: 'mullion:admin',
+    });
+    await nested.set(key, createOwned({value: 'nested', scope: 'admin'}));
+
+    await outer.clear();
+    expect((await nested.get(key))?.value).toBe('nested');
+  });
+
+  it('rejects foreign keys and values read back from another scope', async () => {
+    const store = new MemoryCacheStore();
+    const cache = createAsyncScopedCache<'tenant-a', string>('tenant-a', store);
+
+    await expect(
+      cache.get(
+        createCacheKey('tenant-b', 'doc:1') as unknown as CacheKey<'tenant-a'>,
+      ),
+    ).rejects.toThrow(/scope mismatch/i);
+
+    await store.set(
+      'mullion:tenant-a:doc:1',
+      createOwned({value: 'b', scope: 'tenant-b'}),
+    );
+    await expect(
+      cache.get(createCacheKey('tenant-a', 'doc:1')),
+    ).rejects.toThrow(/scope mismatch/i);
+  });
+
+  it('applies the default TTL', async () => {
+    let now = 0;
+    const store = new MemoryCacheStore({now: () => now});
+    const cache = createAsyncScopedCache<'tenant-a', string>(
+      'tenant-a',
+      store,
+      {
+        defaultTtlMs: 1000,
+      },
+    );
+    const key = createCacheKey('tenant-a', 'doc:1');
+
+    await cache.set(key, createOwned({value: 'a', scope: 'tenant-a'}));
+    now = 999;
+    expect(await cache.has(key)).toBe(true);
+    now = 1000;
+    expect(await cache.get(key)).toBeUndefined();
+  });
+
+  it('coalesces concurrent getOrSet calls', async () => {
+    const store = new MemoryCacheStore();
+    const first = createAsyncScopedCache<'tenant-a', string>('tenant-a', store);
+    const second = createAsyncScopedCache<'tenant-a', string>(
+      'tenant-a',
+      store,
+    );
+    const key = createCacheKey('tenant-a', 'doc:1');
+    const compute = vi.fn(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return createOwned({value: 'computed', scope: 'tenant-a' as const});
+    });
+
+    const results = await Promise.all([
+      first.getOrSet(key, compute),
+      first.getOrSet(key, compute),
+      second.getOrSet(key, compute),
+    ]);
+
+    expect(compute).toHaveBeenCalledTimes(1);
+    expect(results.map((result) => result.value)).toEqual([
+      'computed',
+      'computed',
+      'computed',
+    ]);
+
+    await first.getOrSet(key, compute);
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not cache failed computations', async () => {
+    const cache = createAsyncScopedCache<'tenant-a', string>(
+      'tenant-a',
+      new MemoryCacheStore(),
+    );
+    const key = createCacheKey('tenant-a', 'doc:1');
+
+    await expect(
+      cache.getOrSet(key, () => Promise.reject(new Error('provider down'))),
+    ).rejects.toThrow('provider down');
+    await expect(
+      cache.getOrSet(key, () =>
+        Promise.resolve(createOwned({value: 'ok', scope: 'tenant-a' as const})),
+      ),
+    ).resolves.toMatchObject({value: 'ok'});
+  });
+});
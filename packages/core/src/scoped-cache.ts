@@ -1,4 +1,6 @@
+import {emitAuditEvent} from './audit/sink.js';
 import type {Owned} from './owned.js';
+import {ScopeMismatchError} from './errors.js';
 
 export interface CacheKey<S extends string> {
   readonly key: string;
@@ -25,6 +27,43 @@ export function createCacheKey<S extends string>(
   return {key, __scope: scope};
 }
 
+function assertCacheKeyScope(key: CacheKey<string>, scope: string): void {
+  if (key.__scope !== scope) {
+    emitAuditEvent({
+      type: 'scope-violation',
+      timestamp: Date.now(),
+      check: 'cache-key',
+      from: key.__scope,
+      to: scope,
+    });
+    throw new ScopeMismatchError(
+      `Cache key scope mismatch: expected ${scope}, received ${key.__scope}`,
+      {sourceScope: key.__scope, targetScope: scope, check: 'cache-key'},
+    );
+  }
+}
+
+function assertCacheValueScope(
+  value: Owned<unknown, string>,
+  scope: string,
+): void {
+  if (value.__scope !== scope) {
+    emitAuditEvent({
+      type: 'scope-violation',
+      timestamp: Date.now(),
+      check: 'cache-value',
+      from: value.__scope,
+      to: scope,
+      traceId: value.traceId,
+    });
+    throw new ScopeMismatchError(
+      `Cache value scope mismatch: expected ${scope}, received ${value.__scope}`,
+      {sourceScope: value.__scope, targetScope: scope, check: 'cache-value'},
+      {traceId: value.traceId},
+    );
+  }
+}
+
 export function createScopedCache<S extends string, T>(
   scope: S,
   store = new Map<string, Owned<T, S>>(),
@@ -33,21 +72,11 @@ export function createScopedCache<S extends string, T>(
   const {enforceScope = true} = options;
 
   function assertKeyScope(key: CacheKey<S>): void {
-    if (!enforceScope) return;
-    if (key.__scope !== scope) {
-      throw new Error(
-        `Cache key scope mismatch: expected ${scope}, received ${key.__scope}`,
-      );
-    }
+    if (enforceScope) assertCacheKeyScope(key, scope);
   }
 
   function assertValueScope(value: Owned<T, S>): void {
-    if (!enforceScope) return;
-    if (value.__scope !== scope) {
-      throw new Error(
-        `Cache value scope mismatch: expected ${scope}, received ${value.__scope}`,
-      );
-    }
+    if (enforceScope) assertCacheValueScope(value, scope);
   }
 
   return {
@@ -75,13 +104,238 @@ export function createScopedCache<S extends string, T>(
   };
 }
 
+/**
+ * Options for writing a cache store entry.
+ */
+export interface CacheStoreSetOptions {
+  /**
+   * Time to live in milliseconds. Entries without a TTL never expire
+   * (but may still be evicted by the store's size limit).
+   */
+  readonly ttlMs?: number;
+}
+
+/**
+ * Async key-value backend for {@link createAsyncScopedCache}.
+ *
+ * Stores hold plain string keys; scoping and namespacing happen in the
+ * cache on top. Persistent stores (file, RESP) require JSON-serializable
+ * values.
+ */
+export interface ScopedCacheStore {
+  /**
+   * Reads an entry; `undefined` when missing or expired.
+   */
+  get(key: string): Promise<unknown>;
+
+  /**
+   * Writes an entry, replacing any existing one.
+   */
+  set(
+    key: string,
+    value: unknown,
+    options?: CacheStoreSetOptions,
+  ): Promise<void>;
+
+  /**
+   * Whether an unexpired entry exists.
+   */
+  has(key: string): Promise<boolean>;
+
+  /**
+   * Deletes an entry; resolves to whether it existed.
+   */
+  delete(key: string): Promise<boolean>;
+
+  /**
+   * Deletes every entry whose key starts with `prefix` (all entries when
+   * omitted).
+   */
+  clear(prefix?: string): Promise<void>;
+
+  /**
+   * Releases connections or handles held by the store.
+   */
+  close?(): Promise<void>;
+}
+
+/**
+ * Options for {@link createAsyncScopedCache}.
+ */
+export interface AsyncScopedCacheOptions extends ScopedCacheOptions {
+  /**
+   * TTL for entries written without one.
+   */
+  readonly defaultTtlMs?: number;
+
+  /**
+   * Prefix separating this application's entries from others in a shared
+   * store.
+   *
+   * @default 'mullion'
+   */
+  readonly namespace?: string;
+}
+
+/**
+ * Async scoped cache backed by a {@link ScopedCacheStore}.
+ */
+export interface AsyncScopedCache<S extends string, T> {
+  readonly scope: S;
+  get(key: CacheKey<S>): Promise<Owned<T, S> | undefined>;
+  set(
+    key: CacheKey<S>,
+    value: Owned<T, S>,
+    options?: CacheStoreSetOptions,
+  ): Promise<void>;
+  has(key: CacheKey<S>): Promise<boolean>;
+  delete(key: CacheKey<S>): Promise<boolean>;
+
+  /**
+   * Deletes this scope's entries only.
+   */
+  clear(): Promise<void>;
+
+  /**
+   * Returns the cached value, or computes, stores and returns it.
+   * Concurrent calls for the same key (across every cache on the same
+   * store) share one `compute` call.
+   */
+  getOrSet(
+    key: CacheKey<S>,
+    compute: () => Promise<Owned<T, S>>,
+    options?: CacheStoreSetOptions,
+  ): Promise<Owned<T, S>>;
+}
+
+// In-flight getOrSet computations, per store and physical key
+const inflightByStore = new WeakMap<
+  ScopedCacheStore,
+  Map<string, Promise<unknown>>
+>();
+
+/**
+ * Creates an async scoped cache on top of a pluggable store.
+ *
+ * Keys are namespaced by scope (`<namespace>:<scope>:<key>`), so caches for
+ * different scopes can share one physical store without seeing each
+ * other's entries. Values read back are checked against the cache scope.
+ *
+ * @param scope - Scope of the cache
+ * @param store - Backend (`MemoryCacheStore`, `FileCacheStore`,
+ *   `RespCacheStore` or your own)
+ * @param options - Scope enforcement, default TTL and namespace
+ *
+ * @example
+ * ```typescript
+ * const store = new MemoryCacheStore({maxEntries: 1000});
+ * const cache = createAsyncScopedCache<'tenant-a', Summary>('tenant-a', store, {
+ *   defaultTtlMs: 60_000,
+ * });
+ *
+ * const summary = await cache.getOrSet(createCacheKey('tenant-a', docId), () =>
+ *   ctx.infer(SummarySchema, doc),
+ * );
+ * ```
+ */
+export function createAsyncScopedCache<S extends string, T>(
+  scope: S,
+  store: ScopedCacheStore,
+  options: AsyncScopedCacheOptions = {},
+): AsyncScopedCache<S, T> {
+  const {enforceScope = true, defaultTtlMs, namespace = 'mullion'} = options;
+  // encodeURIComponent escapes ':' so namespace, scope and key cannot run
+  // together
+  const prefix = `${encodeURIComponent(namespace)}:${encodeURIComponent(scope)}:`;
+
+  let inflight = inflightByStore.get(store);
+  if (!inflight) {
+    inflight = new Map();
+    inflightByStore.set(store, inflight);
+  }
+  const pending = inflight;
+
+  function storeKey(key: CacheKey<S>): string {
+    if (enforceScope) assertCacheKeyScope(key, scope);
+    return `${prefix}${key.key}`;
+  }
+
+  function withDefaultTtl(
+    setOptions: CacheStoreSetOptions | undefined,
+  ): CacheStoreSetOptions | undefined {
+    return setOptions?.ttlMs === undefined && defaultTtlMs !== undefined
+      ? {...setOptions, ttlMs: defaultTtlMs}
+      : setOptions;
+  }
+
+  const cache: AsyncScopedCache<S, T> = {
+    scope,
+    async get(key) {
+      const value = (await store.get(storeKey(key))) as Owned<T, S> | undefined;
+      if (value !== undefined && enforceScope) {
+        assertCacheValueScope(value, scope);
+      }
+      return value;
+    },
+    async set(key, value, setOptions) {
+      const physicalKey = storeKey(key);
+      if (enforceScope) assertCacheValueScope(value, scope);
+      await store.set(physicalKey, value, withDefaultTtl(setOptions));
+    },
+    has(key) {
+      return store.has(storeKey(key));
+    },
+    delete(key) {
+      return store.delete(storeKey(key));
+    },
+    clear() {
+      return store.clear(prefix);
+    },
+    getOrSet(key, compute, setOptions) {
+      const physicalKey = storeKey(key);
+      const existing = pending.get(physicalKey);
+      if (existing) return existing as Promise<Owned<T, S>>;
+
+      const promise = (async () => {
+        const cached = await cache.get(key);
+        if (cached !== undefined) return cached;
+
+        const value = await compute();
+        await cache.set(key, value, setOptions);
+        return value;
+      })().finally(() => {
+        pending.delete(physicalKey);
+      });
+
+      pending.set(physicalKey, promise);
+      return promise;
+    },
+  };
+
+  return cache;
+}
+
 export function assertOwnedScope<T, S extends string>(
   value: Owned<T, string>,
   scope: S,
 ): Owned<T, S> {
   if (value.__scope !== scope) {
-    throw new Error(
+    emitAuditEvent({
+      type: 'scope-violation',
+      timestamp: Date.now(),
+      check: 'assertOwnedScope',
+      from: value.__scope,
+      to: scope,
+      traceId: value.traceId,
+    });
+    throw new ScopeMismatchError(
       `Scope mismatch: expected ${scope}, received ${value.__scope}`,
+      {
+        sourceScope: value.__scope,
+        targetScope: scope,
+        check: 'assertOwnedScope',
+      },
+      {traceId: value.traceId},
     );
   }
 
@@ -1,6 +1,9 @@
 import {z} from 'zod';
+import type {Lineage, lineageSchema} from './lineage.js';
+import {createLineage} from './lineage.js';
 import type {Owned} from './owned.js';
 import {ownedSchema} from './owned.js';
+import {InvalidConfidenceError} from './errors.js';
 
 /**
  * SemanticValue represents an LLM-generated value with semantic alternatives and reasoning.
@@ -161,6 +164,12 @@ export interface CreateSemanticValueOptions<T, S extends string> {
    * Optional trace ID. Auto-generated if not provided.
    */
   traceId?: string;
+
+  /**
+   * Optional lineage to carry over. Defaults to a fresh lineage
+   * originating in `scope`.
+   */
+  lineage?: Lineage;
 }
 
 /**
@@ -174,8 +183,8 @@ export interface CreateSemanticValueOptions<T, S extends string> {
  * @template S - The scope identifier
  * @param options - Configuration for creating the SemanticValue
  * @returns A SemanticValue with all required metadata
- * @throws {Error} If confidence is not between 0 and 1
- * @throws {Error} If any alternative confidence is not between 0 and 1
+ * @throws {InvalidConfidenceError} If confidence is not between 0 and 1
+ * @throws {InvalidConfidenceError} If any alternative confidence is not between 0 and 1
  *
  * @example
  * ```typescript
@@ -216,27 +225,37 @@ export function createSemanticValue<T, S extends string>(
     alternatives = [],
     reasoning = '',
     traceId,
+    lineage,
   } = options;
 
   // Validate primary confidence range
   if (confidence < 0 || confidence > 1) {
-    throw new Error(`Confidence must be between 0 and 1, got ${confidence}`);
+    throw new InvalidConfidenceError(
+      `Confidence must be between 0 and 1, got ${confidence}`,
+      confidence,
+      {traceId},
+    );
   }
 
   // Validate alternative confidence ranges
   for (const alt of alternatives) {
     if (alt.confidence < 0 || alt.confidence > 1) {
-      throw new Error(
+      throw new InvalidConfidenceError(
         `Alternative confidence must be between 0 and 1, got ${alt.confidence}`,
+        alt.confidence,
+        {traceId},
       );
     }
   }
 
+  const resolvedTraceId = traceId ?? generateTraceId();
+
   return {
     value,
     confidence,
     __scope: scope,
-    traceId: traceId ?? generateTraceId(),
+    traceId: resolvedTraceId,
+    lineage: lineage ?? createLineage(scope, resolvedTraceId),
     alternatives,
     reasoning,
   };
@@ -414,6 +433,7 @@ export function semanticValueSchema<
   confidence: z.ZodNumber;
   __scope: S extends undefined ? z.ZodString : S;
   traceId: z.ZodString;
+  lineage: z.ZodOptional<typeof lineageSchema>;
   alternatives: z.ZodArray<
     z.ZodObject<{
       value: T;
@@ -434,6 +454,7 @@ export function semanticValueSchema<
     confidence: z.ZodNumber;
     __scope: S extends undefined ? z.ZodString : S;
     traceId: z.ZodString;
+    lineage: z.ZodOptional<typeof lineageSchema>;
     alternatives: z.ZodArray<
       z.ZodObject<{
         value: T;
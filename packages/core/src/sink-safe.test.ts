@@ -27,3 +27,66 @@ describe('sink-safe helpers', () => {
     expect(safe).toBe(value);
   });
 });
+
+describe('content-aware redaction', () => {
+  const owned = createOwned({
+    value: {note: 'Refund to jane@example.com', amount: 42},
+    scope: 'support',
+  });
+
+  it('keeps content and masks detected PII', () => {
+    expect(summarize(owned, {mode: 'content'})).toBe(
+      'Owned(scope=support, value={"note":"Refund to [email]","amount":42})',
+    );
+    expect(
+      redact('card 4111111111111111', {
+        mode: 'content',
+        replacement: 'partial',
+        label: 'pii',
+      }),
+    ).toBe('[pii] card ************1111');
+  });
+
+  it('honours detectors and maxLength', () => {
+    expect(
+      summarize(owned.value, {
+        mode: 'content',
+        detectors: ['phone'],
+        maxLength: 20,
+      }),
+    ).toBe('{"note":"Refund to …');
+  });
+
+  it('masks class instance fields and keys', () => {
+    class Customer {
+      constructor(readonly email: string) {}
+    }
+
+    const summary = summarize(
+      {
+        customer: new Customer('jane@example.com'),
+        visits: {'john@example.com': 2},
+        phones: new Map([['+44 20 7946 0958', 'home']]),
+      },
+      {mode: 'content'},
+    );
+
+    expect(summary).toBe(
+      '{"customer":{"email":"[email]"},"visits":{"[email]":2},' +
+        '"phones":{"[phone]":"home"}}',
+    );
+  });
+
+  it('only marks real cycles as circular', () => {
+    const shared = {a: 'x'};
+    const node: {shared: typeof shared; self?: unknown} = {shared};
+    node.self = node;
+
+    expect(summarize({p: shared, q: shared}, {mode: 'content'})).toBe(
+      '{"p":{"a":"x"},"q":{"a":"x"}}',
+    );
+    expect(summarize(node, {mode: 'content'})).toBe(
+      '{"shared":{"a":"x"},"self":"[Circular]"}',
+    );
+  });
+});
@@ -1,13 +1,27 @@
 import type {Brand} from './brand.js';
 import {isOwned} from './owned.js';
+import type {PiiRedactionOptions} from './pii.js';
+import {redactPii} from './pii.js';
 
 const DEFAULT_MAX_LENGTH = 120;
+const DEFAULT_CONTENT_MAX_LENGTH = 1000;
 
 export type LogSafe<T> = Brand<T, 'LogSafe'>;
 export type Redacted<T> = LogSafe<T>;
 
-export interface SummarizeOptions {
+export interface SummarizeOptions extends PiiRedactionOptions {
+  /**
+   * Maximum length of the result (default: 120 for `'shape'`, 1000 for
+   * `'content'`).
+   */
   maxLength?: number;
+
+  /**
+   * - `'shape'` (default): describe types and sizes only, no raw content
+   * - `'content'`: keep the content, with PII and secrets masked by the
+   *   configured `detectors` and `replacement`
+   */
+  mode?: 'shape' | 'content';
 }
 
 export interface RedactOptions extends SummarizeOptions {
@@ -16,26 +30,37 @@ export interface RedactOptions extends SummarizeOptions {
 
 /**
  * Produce a safe summary string for a value without including raw content.
+ *
+ * With `mode: 'content'` the content is kept and detected PII and secrets
+ * are masked instead (see `redactPii()`).
+ *
+ * @example
+ * ```typescript
+ * summarize(owned); // 'Owned(scope=support, value=string(length=42))'
+ * summarize(owned, {mode: 'content'});
+ * // 'Owned(scope=support, value="Refund for [email], card [credit-card]")'
+ * ```
  */
 export function summarize(
   value: unknown,
   options: SummarizeOptions = {},
 ): LogSafe<string> {
-  const maxLength = options.maxLength ?? DEFAULT_MAX_LENGTH;
-  const summary = buildSummary(value, maxLength);
+  const summary = buildSummary(value, options);
   return summary as LogSafe<string>;
 }
 
 /**
  * Redact a value into a safe summary string with an explicit label.
+ *
+ * Accepts the same `mode`, `detectors` and `replacement` options as
+ * {@link summarize}.
  */
 export function redact(
   value: unknown,
   options: RedactOptions = {},
 ): Redacted<string> {
-  const maxLength = options.maxLength ?? DEFAULT_MAX_LENGTH;
   const label = options.label ?? 'redacted';
-  const summary = buildSummary(value, maxLength);
+  const summary = buildSummary(value, options);
   return `[${label}] ${summary}` as Redacted<string>;
 }
 
@@ -51,9 +76,14 @@ export function assertSafeFor<S extends string, T>(
   return value as LogSafe<T>;
 }
 
-function buildSummary(value: unknown, maxLength: number): string {
-  const summary = describeValue(value);
-  return clamp(summary, maxLength);
+function buildSummary(value: unknown, options: SummarizeOptions): string {
+  if (options.mode === 'content') {
+    const maxLength = options.maxLength ?? DEFAULT_CONTENT_MAX_LENGTH;
+    return clamp(describeContent(redactPii(value, options)), maxLength);
+  }
+
+  const maxLength = options.maxLength ?? DEFAULT_MAX_LENGTH;
+  return clamp(describeValue(value), maxLength);
 }
 
 function clamp(value: string, maxLength: number): string {
@@ -71,6 +101,47 @@ function describeValue(value: unknown): string {
   return describeType(value);
 }
 
+function describeContent(value: unknown): string {
+  if (isOwned(value)) {
+    const owned = value as {__scope: string; value: unknown};
+    return `Owned(scope=${owned.__scope}, value=${serialize(owned.value)})`;
+  }
+
+  return typeof value === 'string' ? value : serialize(value);
+}
+
+function serialize(value: unknown): string {
+  if (value === undefined) return 'undefined';
+
+  // Objects being serialized, from the root down to the current one: only a
+  // reference back to one of them is a cycle, not a repeated reference
+  const ancestors: {source: object; output: unknown}[] = [];
+  try {
+    return (
+      JSON.stringify(value, function (this: unknown, _key, item: unknown) {
+        if (typeof item === 'bigint') return `${item}n`;
+        if (item === null || typeof item !== 'object') return item;
+
+        while (ancestors.length > 0 && ancestors.at(-1)?.output !== this) {
+          ancestors.pop();
+        }
+        if (ancestors.some(({source}) => source === item)) return '[Circular]';
+
+        const output =
+          item instanceof Map
+            ? Object.fromEntries(item as Map<string, unknown>)
+            : item instanceof Set
+              ? [...(item as Set<unknown>)]
+              : item;
+        ancestors.push({source: item, output});
+        return output;
+      }) ?? describeType(value)
+    );
+  } catch {
+    return describeType(value);
+  }
+}
+
 function describeType(value: unknown): string {
   if (value === null) return 'null';
   if (value === undefined) return 'undefined';
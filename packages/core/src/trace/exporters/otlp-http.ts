@@ -20,6 +20,7 @@
  * @module trace/exporters/otlp-http
  */
 
+import {TraceExportError} from '../../errors.js';
 import type {SpanExporter} from '../collector.js';
 import type {MullionSpan} from '../types.js';
 
@@ -207,7 +208,7 @@ export class OTLPHttpExporter implements SpanExporter {
    */
   async export(spans: readonly MullionSpan[]): Promise<void> {
     if (this.isShutdown) {
-      throw new Error('Exporter has been shut down');
+      throw new TraceExportError('Exporter has been shut down');
     }
 
     if (spans.length === 0) {
@@ -399,8 +400,9 @@ export class OTLPHttpExporter implements SpanExporter {
       });
 
       if (!response.ok) {
-        throw new Error(
+        throw new TraceExportError(
           `OTLP export failed: ${response.status} ${response.statusText}`,
+          response.status,
         );
       }
     } finally {
@@ -104,6 +104,30 @@ ruleTester.run('no-context-leak', rule, {
       `,
     },
 
+    // Test: declassify() function - OK
+    {
+      name: 'Owned value released with declassify()',
+      code: `
+        import { declassify } from '@mullion/core';
+        import type { Context, Owned } from '@mullion/core';
+
+        const adminData: Owned<string, 'admin'> = {
+          value: 'data',
+          confidence: 1,
+          __scope: 'admin',
+          traceId: '123'
+        };
+
+        async function handleCustomer(ctx: Context<'customer'>) {
+          const released = declassify(adminData, {
+            to: 'customer',
+            reason: 'Approved summary',
+          });
+          return released.value;
+        }
+      `,
+    },
+
     // Test: No Context parameter (not in scope) - OK
     {
       name: 'Owned value used outside any scope context',
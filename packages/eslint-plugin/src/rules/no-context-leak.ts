@@ -10,7 +10,8 @@ import type * as ts from 'typescript';
  *
  * This rule prevents accidental context leaks by ensuring that Owned values
  * from one scope cannot be used in another scope without explicitly bridging
- * them using Context.bridge() or the standalone bridge() function.
+ * them using Context.bridge() or the standalone bridge() function, or
+ * explicitly releasing them with declassify().
  *
  * @example
  * ```typescript
@@ -56,7 +57,7 @@ export default createRule<Options, MessageIds>({
     },
     messages: {
       contextLeak:
-        "Context leak detected: '{{variable}}' from scope '{{sourceScope}}' used in scope '{{targetScope}}' without bridge(). Use ctx.bridge() or bridge() to explicitly transfer values across scopes.",
+        "Context leak detected: '{{variable}}' from scope '{{sourceScope}}' used in scope '{{targetScope}}' without bridge(). Use ctx.bridge() or bridge() to explicitly transfer values across scopes, or declassify() with a reason to release them.",
     },
     schema: [
       {
@@ -262,7 +263,7 @@ export default createRule<Options, MessageIds>({
         // Check if this scope pair is allowed
         if (isScopePairAllowed(variableScope, currentScope)) return;
 
-        // Check if this identifier is being passed to bridge()
+        // Check if this identifier is being passed to bridge() or declassify()
         if (parent?.type === 'CallExpression') {
           const callee = parent.callee;
           if (
@@ -270,9 +271,11 @@ export default createRule<Options, MessageIds>({
               callee.property.type === 'Identifier' &&
               callee.property.name === 'bridge') ||
             (callee.type === 'Identifier' && callee.name === 'bridge') ||
-            (callee.type === 'Identifier' && callee.name === 'bridgeSemantic')
+            (callee.type === 'Identifier' &&
+              callee.name === 'bridgeSemantic') ||
+            (callee.type === 'Identifier' && callee.name === 'declassify')
           ) {
-            // This variable is being bridged, so it's OK
+            // This variable is being bridged or declassified, so it's OK
             return;
           }
         }
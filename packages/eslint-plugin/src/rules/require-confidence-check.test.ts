@@ -194,6 +194,39 @@ ruleTester.run('require-confidence-check', rule, {
       `,
       options: [{handlerFunctions: ['resolve']}],
     },
+
+    // 11. ctx.require() result needs no configuration
+    {
+      name: 'Valid: value from ctx.require() is already checked',
+      code: `
+        ${typeDefinitions}
+
+        interface PolicyContext<S extends string> extends Context<S> {
+          require<T>(owned: Owned<T, S>, policy?: {minConfidence: number}): Promise<Owned<T, S>>;
+        }
+
+        async function process(ctx: PolicyContext<'user'>, sentiment: Owned<string, 'user'>) {
+          const checked = await ctx.require(sentiment, {minConfidence: 0.8});
+          return checked.value;
+        }
+      `,
+    },
+
+    // 12. Configured handler returning an Owned value
+    {
+      name: 'Valid: value returned by a configured handler',
+      code: `
+        ${typeDefinitions}
+
+        declare function handleLowConfidence<T>(owned: Owned<T, 'user'>): Owned<T, 'user'>;
+
+        async function process(sentiment: Owned<string, 'user'>) {
+          const resolved = handleLowConfidence(sentiment);
+          return resolved.value;
+        }
+      `,
+      options: [{handlerFunctions: ['handleLowConfidence']}],
+    },
   ],
 
   invalid: [
@@ -375,5 +408,31 @@ ruleTester.run('require-confidence-check', rule, {
         },
       ],
     },
+
+    // 9. Original value used instead of the ctx.require() result
+    {
+      name: 'Invalid: original value used after ctx.require()',
+      code: `
+        ${typeDefinitions}
+
+        interface PolicyContext<S extends string> extends Context<S> {
+          require<T>(owned: Owned<T, S>): Promise<Owned<T, S>>;
+        }
+
+        async function process(ctx: PolicyContext<'user'>, sentiment: Owned<string, 'user'>) {
+          await ctx.require(sentiment);
+          return sentiment.value;
+        }
+      `,
+      errors: [
+        {
+          messageId: 'missingConfidenceCheck',
+          data: {
+            variable: 'sentiment',
+            threshold: '0.8',
+          },
+        },
+      ],
+    },
   ],
 });
@@ -29,6 +29,10 @@ import type * as ts from 'typescript';
  * const sentiment = await ctx.infer(SentimentSchema, input);
  * const resolved = handleLowConfidence(sentiment);
  * return resolved.value;
+ *
+ * // ✅ OK: Enforcing a confidence policy (always a handler)
+ * const checked = await ctx.require(sentiment, {minConfidence: 0.8});
+ * return checked.value;
  * ```
  */
 
@@ -199,6 +203,28 @@ export default createRule<Options, MessageIds>({
       return false;
     }
 
+    /**
+     * Helper: Check if a callee is a confidence handler: a configured handler
+     * function, or a `require` method (`ctx.require(owned, policy)`)
+     */
+    function isHandlerCallee(callee: TSESTree.Expression): boolean {
+      // Check if the callee is one of the configured handler functions
+      if (callee.type === 'Identifier') {
+        return options.handlerFunctions?.includes(callee.name) ?? false;
+      }
+
+      if (callee.type === 'MemberExpression') {
+        if (callee.property.type === 'Identifier') {
+          return (
+            callee.property.name === 'require' ||
+            (options.handlerFunctions?.includes(callee.property.name) ?? false)
+          );
+        }
+      }
+
+      return false;
+    }
+
     /**
      * Helper: Check if variable is passed to a handler function
      */
@@ -207,25 +233,26 @@ export default createRule<Options, MessageIds>({
 
       // Check if this identifier is an argument to a function call
       if (parent?.type === 'CallExpression') {
-        const callee = parent.callee;
-
-        // Check if the callee is one of the configured handler functions
-        if (callee.type === 'Identifier') {
-          return options.handlerFunctions?.includes(callee.name) ?? false;
-        }
-
-        if (callee.type === 'MemberExpression') {
-          if (callee.property.type === 'Identifier') {
-            return (
-              options.handlerFunctions?.includes(callee.property.name) ?? false
-            );
-          }
-        }
+        return isHandlerCallee(parent.callee);
       }
 
       return false;
     }
 
+    /**
+     * Helper: Check if an initializer is the (awaited) result of a handler
+     * call, e.g. `await ctx.require(sentiment)`
+     */
+    function isHandlerResult(node: TSESTree.Expression | null): boolean {
+      const expression =
+        node?.type === 'AwaitExpression' ? node.argument : node;
+
+      return (
+        expression?.type === 'CallExpression' &&
+        isHandlerCallee(expression.callee)
+      );
+    }
+
     /**
      * Helper: Check if we're inside a handler function
      */
@@ -300,6 +327,9 @@ export default createRule<Options, MessageIds>({
       VariableDeclarator(node: TSESTree.VariableDeclarator) {
         if (node.id.type !== 'Identifier') return;
 
+        // Values returned by a handler have already been checked
+        if (isHandlerResult(node.init)) return;
+
         const tsNode = parserServices.esTreeNodeToTSNodeMap.get(node.id);
         const type = checker.getTypeAtLocation(tsNode);
 